@@ -0,0 +1,8 @@
+const base = require('./jest.config');
+
+// Benchmarks report throughput rather than assert it, so they stay out of `npm test`
+module.exports = {
+    ...base,
+    testMatch: ['**/__benchmarks__/**/*.bench.ts'],
+    verbose: false
+};
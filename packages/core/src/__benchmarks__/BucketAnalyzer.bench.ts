@@ -0,0 +1,82 @@
+import { BucketAnalyzer, type BucketConfig } from '../utils/BucketAnalyzer';
+import type { EnhancedChangeEvent } from '../types/ChangeEvent';
+
+const MINUTE = 60 * 1000;
+const EVENT_COUNT = 100000;
+const SPAN_MS = 28 * 24 * 60 * MINUTE;   // four weeks
+const RUNS = 5;
+
+const createEvent = (timestamp: number, index: number): EnhancedChangeEvent => ({
+    timestamp,
+    sessionId: 'bench-session',
+    fileUri: `file:///bench/file-${index % 20}.ts`,
+    eventId: `bench-event-${index}`,
+    changeType: 'insert',
+    position: { line: index % 500, character: 0 },
+    contentLength: 1,
+    timeSinceLastChange: 200,
+    timeSinceSessionStart: timestamp,
+    timeSinceFileOpen: timestamp,
+    source: 'live',
+    vsCodeActive: true,
+    cursorPosition: { line: index % 500, character: 1 },
+    instantTypingSpeed: 150,
+    rollingTypingSpeed: 140,
+    burstDetected: false,
+    pauseBeforeChange: 200,
+    isCodeBlock: false,
+    isComment: false,
+    isWhitespace: false,
+    languageConstruct: 'unknown',
+    indentationLevel: 0
+});
+
+// Deterministic shuffle, so every run measures the same order
+const shuffle = <T>(items: T[]): T[] => {
+    const shuffled = [...items];
+    let seed = 42;
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        const j = seed % (i + 1);
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+};
+
+// Median time of a few runs after a warm-up run, with the bucket count of the last one
+const measure = (events: EnhancedChangeEvent[], config: BucketConfig): { ms: number; buckets: number } => {
+    let buckets = BucketAnalyzer.createBuckets(events, config).length;
+    const times: number[] = [];
+    for (let run = 0; run < RUNS; run++) {
+        const start = process.hrtime.bigint();
+        buckets = BucketAnalyzer.createBuckets(events, config).length;
+        times.push(Number(process.hrtime.bigint() - start) / 1e6);
+    }
+    times.sort((a, b) => a - b);
+    return { ms: times[Math.floor(RUNS / 2)], buckets };
+};
+
+describe('BucketAnalyzer.createBuckets throughput', () => {
+    const base: BucketConfig = { intervalMinutes: 1, aggregationMethod: 'average', minEventsPerBucket: 1 };
+    // Starts off the clock, so calendar alignment adds a partial first bucket
+    const sorted = Array.from({ length: EVENT_COUNT }, (_, i) =>
+        createEvent(Date.UTC(2024, 5, 10, 10, 7) + Math.floor((i / EVENT_COUNT) * SPAN_MS), i));
+    const unsorted = shuffle(sorted);
+
+    const cases: Array<[string, EnhancedChangeEvent[], BucketConfig]> = [
+        ['sorted', sorted, base],
+        ['unsorted', unsorted, base],
+        ['calendar-aligned', sorted, { ...base, intervalMinutes: 15, alignment: 'calendar' }],
+        ['sliding window (10 min every 1 min)', sorted, { ...base, intervalMinutes: 10, windowStepMinutes: 1 }]
+    ];
+
+    it.each(cases)('%s', (name, events, config) => {
+        const { ms, buckets } = measure(events, config);
+        const eventsPerSecond = Math.round(events.length / (ms / 1000));
+
+        process.stdout.write(`${name}: ${events.length.toLocaleString('en-US')} events into ` +
+            `${buckets.toLocaleString('en-US')} buckets in ${ms.toFixed(1)} ms ` +
+            `(${eventsPerSecond.toLocaleString('en-US')} events/s)\n`);
+        expect(buckets).toBeGreaterThan(0);
+    });
+});
@@ -89,6 +89,239 @@ describe('AIDetectionEngine', () => {
         });
     });
 
+    describe('analyzeDetailed', () => {
+        it('should return zeroed scores and an empty trace for empty input', () => {
+            const result = engine.analyzeDetailed([]);
+
+            expect(result.totalScore).toBe(0);
+            expect(result.decisionTrace).toHaveLength(0);
+            expect(Object.values(result.heuristicScores).every(score => score === 0)).toBe(true);
+        });
+
+        it('should expose heuristic scores, weighted scores and the decision trace', () => {
+            const changes = [
+                createMockChangeEvent({ contentLength: 200, timeSinceLastChange: 50, isCodeBlock: true }),
+                createMockChangeEvent({ contentLength: 1, instantTypingSpeed: 120 })
+            ];
+
+            const result = engine.analyzeDetailed(changes);
+
+            expect(result.heuristicScores.bulkInsertionScore).toBeCloseTo(0.5);
+            expect(result.weightedScores.bulkInsertionScore).toEqual({
+                rawScore: result.heuristicScores.bulkInsertionScore,
+                weight: DEFAULT_AI_DETECTION_CONFIG.weights.bulkInsertionScore,
+                weightedScore: result.heuristicScores.bulkInsertionScore * DEFAULT_AI_DETECTION_CONFIG.weights.bulkInsertionScore
+            });
+
+            const summed = Object.values(result.weightedScores).reduce((sum, score) => sum + score.weightedScore, 0);
+            expect(result.totalScore).toBeCloseTo(summed);
+
+            const steps = result.decisionTrace.map(step => step.step);
+            expect(steps).toEqual([
+                'bulk-insertion-analysis',
+                'typing-speed-analysis',
+                'paste-pattern-analysis',
+                'external-tool-analysis',
+                'content-pattern-analysis',
+                'timing-anomaly-analysis',
+                'score-combination',
+                'final-decision'
+            ]);
+        });
+
+        it('should agree with analyze on the attribution', () => {
+            const changes = [
+                createMockChangeEvent({ contentLength: 300, timeSinceLastChange: 20 }),
+                createMockChangeEvent({ contentLength: 2, instantTypingSpeed: 200 })
+            ];
+
+            const detailed = engine.analyzeDetailed(changes);
+            const attribution = engine.analyze(changes);
+
+            expect(attribution.source).toBe(detailed.source);
+            expect(attribution.aiProbability).toBe(detailed.aiProbability);
+            expect(attribution.confidence).toBe(detailed.confidence);
+            expect(attribution).not.toHaveProperty('decisionTrace');
+        });
+
+        it('should respect configured thresholds', () => {
+            const changes = [createMockChangeEvent({ contentLength: 150 })];
+
+            engine.updateConfig({
+                thresholds: { ...DEFAULT_AI_DETECTION_CONFIG.thresholds, bulkInsertionSize: 200 }
+            });
+
+            expect(engine.analyzeDetailed(changes).heuristicScores.bulkInsertionScore).toBe(0);
+        });
+
+        it('should keep the other settings of a section on partial updates', () => {
+            engine.updateConfig({ thresholds: { fastTypingSpeed: 400 } });
+
+            expect(engine.getConfig().thresholds).toEqual({
+                ...DEFAULT_AI_DETECTION_CONFIG.thresholds,
+                fastTypingSpeed: 400
+            });
+            expect(engine.getConfig().weights).toEqual(DEFAULT_AI_DETECTION_CONFIG.weights);
+        });
+
+        it('should clear optional settings a replacement config leaves out', () => {
+            engine.updateConfig({ bucketConfig: { windowStepMinutes: 5 } });
+            engine.setConfig(DEFAULT_AI_DETECTION_CONFIG);
+
+            expect(engine.getConfig().bucketConfig.windowStepMinutes).toBeUndefined();
+        });
+    });
+
+    describe('per-event scores', () => {
+        const paste = () => createMockChangeEvent({
+            contentLength: 800,
+            timeSinceLastChange: 20,
+            instantTypingSpeed: 5000,
+            isCodeBlock: true,
+            languageConstruct: 'function',
+            externalToolSignature: { detected: true, toolType: 'copilot', confidence: 0.9, indicators: ['completion'] }
+        });
+        const keystroke = () => createMockChangeEvent({ contentLength: 1, instantTypingSpeed: 120, timeSinceLastChange: 400 });
+
+        it('should only return the event scores when asked to', () => {
+            const result = engine.analyzeDetailed([keystroke()]);
+
+            expect(result).not.toHaveProperty('eventScores');
+            expect(result.eventRollup!.eventCount).toBe(1);
+        });
+
+        it('should label each event and name the heuristics that fired', () => {
+            const changes = [keystroke(), paste(), keystroke()];
+
+            const { eventScores } = engine.analyzeDetailed(changes, { scoreEvents: true });
+
+            expect(eventScores!.map(score => score.eventId)).toEqual(changes.map(change => change.eventId));
+            expect(eventScores!.map(score => score.label)).toEqual(['human', 'ai-generated', 'human']);
+            expect(eventScores![1].firedHeuristics).toEqual(expect.arrayContaining(['bulkInsertionScore', 'externalToolScore']));
+            expect(eventScores![1].evidence.some(reason => reason.startsWith('Bulk Insertion'))).toBe(true);
+            expect(eventScores![0].firedHeuristics).not.toContain('bulkInsertionScore');
+        });
+
+        it('should score an event the same on its own as within a sequence', () => {
+            const event = paste();
+            const before = keystroke();
+            const single = engine.analyzeDetailed([event]);
+
+            expect(engine.scoreEvent(event).aiProbability).toBe(single.aiProbability);
+            expect(engine.scoreEvent(event).heuristicScores).toEqual(single.heuristicScores);
+            expect(engine.analyzeDetailed([before, event], { scoreEvents: true }).eventScores![1])
+                .toEqual(engine.scoreEvent(event, [before]));
+        });
+
+        it('should judge timing against the events before it', () => {
+            const rapid = (timestamp: number) => createMockChangeEvent({ timestamp, contentLength: 1, timeSinceLastChange: 20 });
+            const { eventScores } = engine.analyzeDetailed([rapid(1000), rapid(1020), rapid(1040)], { scoreEvents: true });
+
+            expect(eventScores!.map(score => score.heuristicScores.timingAnomalyScore)).toEqual([0, 1, 1]);
+            expect(eventScores![0].firedHeuristics).not.toContain('timingAnomalyScore');
+            expect(eventScores![2].firedHeuristics).toContain('timingAnomalyScore');
+        });
+
+        it('should not let heuristics without context cap the score of an event', () => {
+            // The only other heuristic maxed out reaches the full score without timing context
+            const config = {
+                ...DEFAULT_AI_DETECTION_CONFIG,
+                weights: {
+                    bulkInsertionScore: 0.5,
+                    typingSpeedScore: 0,
+                    pastePatternScore: 0,
+                    externalToolScore: 0,
+                    contentPatternScore: 0,
+                    timingAnomalyScore: 0.5
+                }
+            };
+            const score = new AIDetectionEngine(config).scoreEvent(paste());
+
+            expect(score.heuristicScores.bulkInsertionScore).toBe(1);
+            expect(score.aiProbability).toBe(1);
+        });
+
+        it('should use the rolled-up event scores as the verdict', () => {
+            const result = engine.analyzeDetailed([keystroke(), paste(), keystroke()]);
+
+            expect(result.aiProbability).toBe(result.eventRollup!.aiProbability);
+            expect(result.decisionTrace[result.decisionTrace.length - 1].reasoning).toMatch(/^Mean probability of 3 events/);
+        });
+
+        it('should roll the event scores up', () => {
+            const { eventScores, eventRollup } = engine.analyzeDetailed([keystroke(), paste(), keystroke()], { scoreEvents: true });
+
+            expect(eventRollup).toEqual({
+                eventCount: 3,
+                aiProbability: eventScores!.reduce((sum, score) => sum + score.aiProbability, 0) / 3,
+                labelCounts: { 'human': 2, 'ai-assisted': 0, 'ai-generated': 1 }
+            });
+            expect(engine.analyzeDetailed([keystroke(), paste(), keystroke()]).eventRollup).toEqual(eventRollup);
+            expect(engine.analyzeDetailed([]).eventRollup!.aiProbability).toBe(0);
+        });
+    });
+
+    describe('attribution modes', () => {
+        // One large AI paste among many single-key edits
+        const pasteAmongKeystrokes = () => [
+            ...Array.from({ length: 500 }, () => createMockChangeEvent({
+                contentLength: 1,
+                instantTypingSpeed: 120,
+                timeSinceLastChange: 400
+            })),
+            createMockChangeEvent({
+                contentLength: 2000,
+                timeSinceLastChange: 20,
+                instantTypingSpeed: 5000,
+                isCodeBlock: true,
+                languageConstruct: 'function',
+                externalToolSignature: { detected: true, toolType: 'copilot', confidence: 0.9, indicators: ['completion'] }
+            })
+        ];
+
+        it('should attribute by events by default', () => {
+            const result = engine.analyzeDetailed(pasteAmongKeystrokes());
+
+            expect(result.aiProbability).toBeLessThan(DEFAULT_AI_DETECTION_CONFIG.classification.humanThreshold);
+            expect(result).not.toHaveProperty('characterAttribution');
+        });
+
+        it('should attribute the share of characters written by AI-like events', () => {
+            engine.updateConfig({ attribution: { mode: 'inserted-characters' } });
+
+            const result = engine.analyzeDetailed(pasteAmongKeystrokes());
+
+            expect(result.characterAttribution).toMatchObject({ insertedCharacters: 2500, aiInsertedCharacters: 2000 });
+            expect(result.aiProbability).toBeCloseTo(0.8);
+            // Above the AI cutoffs, with human and AI indicators both present
+            expect(result.source).toBe('mixed');
+            expect(result.decisionTrace[result.decisionTrace.length - 1].reasoning).toMatch(/^AI share of inserted-characters: 0\.800/);
+        });
+
+        it('should only count surviving characters in the surviving mode', () => {
+            engine.updateConfig({ attribution: { mode: 'surviving-characters' } });
+            const changes = pasteAmongKeystrokes();
+            const removal = createMockChangeEvent({
+                changeType: 'delete',
+                contentLength: 0,
+                range: { start: { line: 1, character: 0 }, end: { line: 1, character: 1500 } },
+                instantTypingSpeed: 0,
+                timeSinceLastChange: 400
+            });
+
+            const result = engine.analyzeDetailed([...changes, removal]);
+
+            expect(result.characterAttribution).toMatchObject({ survivingCharacters: 1000, aiSurvivingCharacters: 500 });
+            expect(result.aiProbability).toBeCloseTo(0.5);
+        });
+
+        it('should attribute characters alongside event scores in any mode', () => {
+            const { characterAttribution } = engine.analyzeDetailed(pasteAmongKeystrokes(), { scoreEvents: true });
+
+            expect(characterAttribution!.insertedAIShare).toBeCloseTo(0.8);
+        });
+    });
+
     describe('configuration validation', () => {
         it('should handle invalid configurations gracefully', () => {
             // This should not throw
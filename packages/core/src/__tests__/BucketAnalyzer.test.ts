@@ -0,0 +1,246 @@
+import { BucketAnalyzer, type BucketAggregationMethod, type TimeBucket } from '../utils/BucketAnalyzer';
+import { AIDetectionEngine, DEFAULT_AI_DETECTION_CONFIG } from '../services/AIDetectionEngine';
+import type { EnhancedChangeEvent } from '../types/ChangeEvent';
+
+describe('BucketAnalyzer', () => {
+    const createMockEvent = (overrides: Partial<EnhancedChangeEvent> = {}): EnhancedChangeEvent => ({
+        timestamp: 0,
+        sessionId: 'test-session',
+        fileUri: 'test://file.ts',
+        eventId: 'test-event-' + Math.random(),
+        changeType: 'insert',
+        position: { line: 1, character: 0 },
+        contentLength: 50,
+        timeSinceLastChange: 1000,
+        timeSinceSessionStart: 5000,
+        timeSinceFileOpen: 10000,
+        source: 'live',
+        vsCodeActive: true,
+        cursorPosition: { line: 1, character: 0 },
+        instantTypingSpeed: 150,
+        rollingTypingSpeed: 140,
+        burstDetected: false,
+        pauseBeforeChange: 100,
+        isCodeBlock: false,
+        isComment: false,
+        isWhitespace: false,
+        languageConstruct: 'unknown',
+        indentationLevel: 0,
+        ...overrides
+    });
+
+    describe('createBuckets', () => {
+        const minute = 60 * 1000;
+        const config = { intervalMinutes: 1, aggregationMethod: 'average' as const, minEventsPerBucket: 1 };
+        const startTimes = (buckets: Array<{ startTime: number }>) => buckets.map(bucket => bucket.startTime);
+        const counts = (buckets: Array<{ eventCount: number }>) => buckets.map(bucket => bucket.eventCount);
+
+        it('should cover every interval up to and including the last event', () => {
+            const events = [
+                createMockEvent({ timestamp: 0 }),
+                createMockEvent({ timestamp: 30 * 1000 }),
+                createMockEvent({ timestamp: 3 * minute })
+            ];
+
+            const buckets = BucketAnalyzer.createBuckets(events, config);
+
+            expect(startTimes(buckets)).toEqual([0, minute, 2 * minute, 3 * minute]);
+            expect(counts(buckets)).toEqual([2, 0, 0, 1]);
+            expect(buckets.map(bucket => bucket.isEmpty)).toEqual([false, true, true, false]);
+        });
+
+        it('should create one bucket when all events share a timestamp', () => {
+            const buckets = BucketAnalyzer.createBuckets([createMockEvent({ timestamp: 5 }), createMockEvent({ timestamp: 5 })], config);
+
+            expect(buckets).toHaveLength(1);
+            expect(buckets[0]).toMatchObject({ startTime: 5, endTime: 5 + minute, eventCount: 2 });
+        });
+
+        it('should accept unsorted events', () => {
+            const events = [
+                createMockEvent({ eventId: 'c', timestamp: 2 * minute }),
+                createMockEvent({ eventId: 'a', timestamp: 0 }),
+                createMockEvent({ eventId: 'b', timestamp: 10 * 1000 })
+            ];
+
+            const buckets = BucketAnalyzer.createBuckets(events, config);
+
+            expect(buckets.map(bucket => bucket.events.map(event => event.eventId))).toEqual([['a', 'b'], [], ['c']]);
+            expect(events.map(event => event.eventId)).toEqual(['c', 'a', 'b']);
+        });
+
+        it('should align buckets to the clock', () => {
+            const tenOClock = Date.UTC(2024, 5, 10, 10, 0);
+            const events = [
+                createMockEvent({ timestamp: tenOClock + 7 * minute }),
+                createMockEvent({ timestamp: tenOClock + 31 * minute })
+            ];
+
+            const buckets = BucketAnalyzer.createBuckets(events, { ...config, intervalMinutes: 15, alignment: 'calendar' });
+
+            expect(startTimes(buckets)).toEqual([tenOClock, tenOClock + 15 * minute, tenOClock + 30 * minute]);
+            expect(counts(buckets)).toEqual([1, 0, 1]);
+        });
+
+        it('should put events into every overlapping window that covers them', () => {
+            const events = [0, 4, 6, 12].map(minutes => createMockEvent({ timestamp: minutes * minute }));
+
+            const buckets = BucketAnalyzer.createBuckets(events, { ...config, intervalMinutes: 10, windowStepMinutes: 5 });
+
+            expect(startTimes(buckets)).toEqual([0, 5 * minute, 10 * minute]);
+            expect(buckets.map(bucket => bucket.endTime - bucket.startTime)).toEqual([10 * minute, 10 * minute, 10 * minute]);
+            expect(counts(buckets)).toEqual([3, 2, 1]);
+        });
+
+        it('should reject non-positive intervals', () => {
+            expect(() => BucketAnalyzer.createBuckets([createMockEvent()], { ...config, intervalMinutes: 0 })).toThrow('must be positive');
+            expect(() => BucketAnalyzer.createBuckets([createMockEvent()], { ...config, windowStepMinutes: -1 })).toThrow('must be positive');
+        });
+
+        it('should bucket four weeks of events at 1-minute intervals in linear time', () => {
+            const fourWeeks = 28 * 24 * 60 * minute;
+            const eventCount = 100000;
+            const bucketCount = 28 * 24 * 60;
+            let timestampReads = 0;
+            const events = Array.from({ length: eventCount }, (_, i) => {
+                const timestamp = Math.floor((i / eventCount) * fourWeeks);
+                return Object.defineProperty(createMockEvent(), 'timestamp', {
+                    get: () => {
+                        timestampReads++;
+                        return timestamp;
+                    }
+                });
+            });
+
+            const buckets = BucketAnalyzer.createBuckets(events, config);
+
+            expect(buckets).toHaveLength(bucketCount);
+            expect(buckets.reduce((sum, bucket) => sum + bucket.eventCount, 0)).toBe(eventCount);
+            // Filtering all events once per bucket would read 4 billion timestamps here
+            expect(timestampReads).toBeLessThan(10 * (eventCount + bucketCount));
+        });
+    });
+
+    describe('analyzeBucket', () => {
+        it('should use the heuristic scores computed by the engine', () => {
+            const engine = new AIDetectionEngine({
+                ...DEFAULT_AI_DETECTION_CONFIG,
+                thresholds: { ...DEFAULT_AI_DETECTION_CONFIG.thresholds, bulkInsertionSize: 20 }
+            });
+            const events = [
+                createMockEvent({ timestamp: 0, contentLength: 30 }),
+                createMockEvent({ timestamp: 1000, contentLength: 5 }),
+                createMockEvent({ timestamp: 120000, contentLength: 5 })
+            ];
+
+            const [bucket] = BucketAnalyzer.createAndAnalyzeBuckets(events, engine, {
+                intervalMinutes: 1,
+                aggregationMethod: 'average',
+                minEventsPerBucket: 1
+            });
+
+            const expected = engine.analyzeDetailed(bucket.events);
+            expect(bucket.heuristicScores).toEqual(expected.heuristicScores);
+            expect(bucket.heuristicScores?.bulkInsertionScore).toBeCloseTo(0.5);
+            expect(bucket.aiProbability).toBe(expected.aiProbability);
+        });
+
+        describe('aggregation methods', () => {
+            const engine = new AIDetectionEngine();
+            const pasted = createMockEvent({
+                fileUri: 'test://pasted.ts',
+                timestamp: 0,
+                contentLength: 900,
+                instantTypingSpeed: 5000,
+                rollingTypingSpeed: 4000,
+                burstDetected: true,
+                isCodeBlock: true,
+                timeSinceLastChange: 20,
+                pauseBeforeChange: 20,
+                source: 'external',
+                externalToolSignature: { detected: true, toolType: 'copilot', confidence: 0.9, indicators: ['bulk-insertion'] }
+            });
+            const typed = [1000, 2000, 3000].map(timestamp => createMockEvent({ fileUri: 'test://typed.ts', timestamp, contentLength: 1 }));
+            const bucket = BucketAnalyzer.createBuckets([pasted, ...typed], {
+                intervalMinutes: 1,
+                aggregationMethod: 'average',
+                minEventsPerBucket: 1
+            })[0];
+            const pastedProbability = engine.analyze([pasted]).aiProbability;
+            const typedProbability = engine.analyze(typed).aiProbability;
+
+            const analyzeWith = (aggregationMethod: BucketAggregationMethod, percentile?: number) =>
+                BucketAnalyzer.analyzeBucket(bucket, engine, { intervalMinutes: 1, aggregationMethod, percentile, minEventsPerBucket: 1 });
+
+            it('should roll up the per-file probabilities', () => {
+                expect(pastedProbability).toBeGreaterThan(typedProbability);
+                expect(analyzeWith('average').aiProbability).toBeCloseTo((pastedProbability + typedProbability) / 2);
+                expect(analyzeWith('median').aiProbability).toBeCloseTo((pastedProbability + typedProbability) / 2);
+                expect(analyzeWith('max').aiProbability).toBeCloseTo(pastedProbability);
+                expect(analyzeWith('percentile', 0).aiProbability).toBeCloseTo(typedProbability);
+                expect(analyzeWith('weighted').aiProbability).toBeCloseTo((pastedProbability * 900 + typedProbability * 3) / 903);
+            });
+
+            it('should roll up heuristic scores the same way and keep the whole-bucket attribution', () => {
+                const result = analyzeWith('max');
+
+                expect(result.heuristicScores?.bulkInsertionScore).toBe(1);
+                expect(result.attribution).toMatchObject(engine.analyze(bucket.events));
+            });
+        });
+
+        it('should leave empty buckets unanalyzed', () => {
+            const engine = new AIDetectionEngine();
+            const bucket = BucketAnalyzer.analyzeBucket({
+                startTime: 0,
+                endTime: 60000,
+                events: [],
+                eventCount: 0,
+                isEmpty: true,
+                aiProbability: null,
+                heuristicScores: null,
+                attribution: null
+            }, engine);
+
+            expect(bucket.heuristicScores).toBeNull();
+            expect(bucket.attribution).toBeNull();
+        });
+    });
+    describe('summarizeBuckets', () => {
+        const bucket = (aiProbability: number | null, contentLength: number): TimeBucket => ({
+            startTime: 0,
+            endTime: 60000,
+            events: contentLength > 0 ? [createMockEvent({ contentLength })] : [],
+            eventCount: contentLength > 0 ? 1 : 0,
+            isEmpty: aiProbability === null,
+            aiProbability,
+            heuristicScores: null,
+            attribution: null
+        });
+        const buckets = [bucket(0.2, 10), bucket(null, 0), bucket(0.4, 10), bucket(0.9, 80)];
+
+        it('should aggregate active buckets with the configured method', () => {
+            const summarize = (aggregationMethod: BucketAggregationMethod, percentile?: number) =>
+                BucketAnalyzer.summarizeBuckets(buckets, { aggregationMethod, percentile }).aggregatedAIProbability;
+
+            expect(summarize('average')).toBeCloseTo(0.5);
+            expect(summarize('max')).toBeCloseTo(0.9);
+            expect(summarize('median')).toBeCloseTo(0.4);
+            expect(summarize('percentile', 100)).toBeCloseTo(0.9);
+            expect(summarize('weighted')).toBeCloseTo((0.2 * 10 + 0.4 * 10 + 0.9 * 80) / 100);
+        });
+
+        it('should count buckets and default to averaging', () => {
+            const summary = BucketAnalyzer.summarizeBuckets(buckets);
+
+            expect(summary).toMatchObject({
+                totalBuckets: 4,
+                activeBuckets: 3,
+                emptyBuckets: 1,
+                maxAIProbability: 0.9,
+                aggregationMethod: 'average'
+            });
+            expect(summary.aggregatedAIProbability).toBeCloseTo(summary.averageAIProbability);
+        });
+    });
+});
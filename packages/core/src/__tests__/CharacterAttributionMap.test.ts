@@ -0,0 +1,121 @@
+import { CharacterAttributionMap, mergeCharacterAttributions } from '../services/CharacterAttributionMap';
+import type { EnhancedChangeEvent, Position } from '../types/ChangeEvent';
+
+describe('CharacterAttributionMap', () => {
+    const createMockEvent = (overrides: Partial<EnhancedChangeEvent> = {}): EnhancedChangeEvent => ({
+        timestamp: 0,
+        sessionId: 'test-session',
+        fileUri: 'test://file.ts',
+        eventId: 'test-event-' + Math.random(),
+        changeType: 'insert',
+        position: { line: 0, character: 0 },
+        contentLength: 10,
+        timeSinceLastChange: 1000,
+        timeSinceSessionStart: 5000,
+        timeSinceFileOpen: 10000,
+        source: 'live',
+        vsCodeActive: true,
+        cursorPosition: { line: 0, character: 0 },
+        instantTypingSpeed: 150,
+        rollingTypingSpeed: 140,
+        burstDetected: false,
+        pauseBeforeChange: 100,
+        isCodeBlock: false,
+        isComment: false,
+        isWhitespace: false,
+        languageConstruct: 'unknown',
+        indentationLevel: 0,
+        ...overrides
+    });
+
+    // Builds an event replacing start..end with text, recording ranges the way ChangeTracker does
+    const edit = (eventId: string, start: Position, end: Position, text: string, withContent = true): EnhancedChangeEvent => {
+        const segments = text.split('\n');
+        return createMockEvent({
+            eventId,
+            changeType: text.length === 0 ? 'delete' : 'replace',
+            position: start,
+            content: withContent ? text : undefined,
+            contentLength: text.length,
+            range: { start, end },
+            insertedEnd: {
+                line: start.line + segments.length - 1,
+                character: segments.length === 1 ? start.character + text.length : segments[segments.length - 1].length
+            }
+        });
+    };
+
+    // Events whose id starts with "ai" are AI-like, everything else human
+    const isAI = (event: EnhancedChangeEvent) => event.eventId.startsWith('ai');
+
+    const at = (line: number, character: number): Position => ({ line, character });
+
+    const typedThenPasted = () => [
+        edit('typed', at(0, 0), at(0, 0), 'hello'),
+        edit('ai-paste', at(0, 5), at(0, 5), '\nfunction a() {\n    return 1;\n}')
+    ];
+
+    it('should count inserted characters without line breaks', () => {
+        const attribution = CharacterAttributionMap.fromEvents(typedThenPasted(), isAI).getAttribution();
+
+        expect(attribution).toEqual({
+            insertedCharacters: 33,
+            aiInsertedCharacters: 28,
+            insertedAIShare: 28 / 33,
+            survivingCharacters: 33,
+            aiSurvivingCharacters: 28,
+            survivingAIShare: 28 / 33
+        });
+    });
+
+    it('should drop deleted characters from the surviving count only', () => {
+        const map = CharacterAttributionMap.fromEvents(typedThenPasted(), isAI);
+
+        map.apply(edit('delete', at(2, 4), at(2, 13), ''), false);
+        expect(map.getAttribution()).toMatchObject({
+            insertedCharacters: 33,
+            survivingCharacters: 24,
+            aiSurvivingCharacters: 19
+        });
+
+        map.apply(edit('typed', at(2, 4), at(2, 4), '42'), false);
+        expect(map.getAttribution()).toMatchObject({
+            insertedCharacters: 35,
+            aiInsertedCharacters: 28,
+            survivingCharacters: 26,
+            aiSurvivingCharacters: 19
+        });
+    });
+
+    it('should join the lines around a multi-line delete', () => {
+        const map = CharacterAttributionMap.fromEvents(typedThenPasted(), isAI);
+
+        // Leaves "hel" followed by "return 1;", then "}"
+        map.apply(edit('delete', at(0, 3), at(2, 4), ''), false);
+
+        expect(map.getAttribution()).toMatchObject({ survivingCharacters: 13, aiSurvivingCharacters: 10 });
+    });
+
+    it('should spread a multi-line insertion evenly over its lines when content was not logged', () => {
+        const map = CharacterAttributionMap.fromEvents([
+            edit('ai-paste', at(0, 0), at(0, 0), 'function a() {\n    return 1;\n    // done\n}', false)
+        ], isAI);
+
+        // 39 characters over four lines: 13, 13 and 12 spread, 1 known from where the insertion ends
+        map.apply(edit('delete', at(1, 0), at(2, 0), ''), false);
+
+        expect(map.getAttribution()).toMatchObject({ insertedCharacters: 39, survivingCharacters: 26 });
+    });
+
+    it('should add up the attributions of several files', () => {
+        const first = CharacterAttributionMap.fromEvents(typedThenPasted(), isAI).getAttribution();
+        const second = CharacterAttributionMap.fromEvents([edit('typed', at(0, 0), at(0, 0), 'abc')], isAI).getAttribution();
+
+        expect(mergeCharacterAttributions([first, second])).toMatchObject({
+            insertedCharacters: 36,
+            aiInsertedCharacters: 28,
+            insertedAIShare: 28 / 36
+        });
+        expect(mergeCharacterAttributions([]).survivingAIShare).toBe(0);
+    });
+});
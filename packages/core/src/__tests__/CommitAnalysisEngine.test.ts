@@ -0,0 +1,241 @@
+import { CommitAnalysisEngine } from '../services/CommitAnalysisEngine';
+import { LineAttributionMap } from '../services/LineAttributionMap';
+import type { EnhancedChangeEvent } from '../types/ChangeEvent';
+import type { AIAttribution } from '../types/AIDetection';
+import type { DiffFile } from '../types/Diff';
+import type { ReviewQualityAssessment } from '../models/ReviewQuality';
+
+describe('CommitAnalysisEngine', () => {
+    const createMockEvent = (overrides: Partial<EnhancedChangeEvent> = {}): EnhancedChangeEvent => ({
+        timestamp: 0,
+        sessionId: 'test-session',
+        fileUri: 'file:///repo/src/app.ts',
+        eventId: 'test-event-' + Math.random(),
+        changeType: 'insert',
+        position: { line: 0, character: 0 },
+        contentLength: 10,
+        timeSinceLastChange: 1000,
+        timeSinceSessionStart: 5000,
+        timeSinceFileOpen: 10000,
+        source: 'live',
+        vsCodeActive: true,
+        cursorPosition: { line: 0, character: 0 },
+        instantTypingSpeed: 150,
+        rollingTypingSpeed: 140,
+        burstDetected: false,
+        pauseBeforeChange: 100,
+        isCodeBlock: false,
+        isComment: false,
+        isWhitespace: false,
+        languageConstruct: 'unknown',
+        indentationLevel: 0,
+        ...overrides
+    });
+
+    const createDiffFile = (overrides: Partial<DiffFile> = {}): DiffFile => ({
+        oldPath: 'src/app.ts',
+        newPath: 'src/app.ts',
+        path: 'src/app.ts',
+        status: 'modified',
+        isBinary: false,
+        hunks: [{ oldStart: 20, oldLines: 0, newStart: 21, newLines: 10, addedLines: [], deletedLines: [] }],
+        linesAdded: 10,
+        linesDeleted: 0,
+        ...overrides
+    });
+
+    const createAttribution = (aiProbability: number, source: AIAttribution['source'] = 'ai-assisted'): AIAttribution => ({
+        source,
+        confidence: 0.8,
+        aiProbability,
+        evidence: {
+            externalToolSignature: false,
+            bulkChangePattern: false,
+            timingAnomalies: false,
+            contentCharacteristics: [],
+            bulkChanges: [],
+            typingBursts: [],
+            externalIndicators: [],
+            timingAnalysis: {} as any
+        } as any,
+        timeline: { editSessions: [], externalChanges: [], timeGaps: [] } as any
+    });
+
+    const createReview = (overallScore: number, qualityLevel: ReviewQualityAssessment['qualityLevel']): ReviewQualityAssessment => ({
+        overallScore,
+        breakdown: {} as any,
+        patterns: {
+            immediateCommit: qualityLevel === 'immediate-commit',
+            multiSessionReview: false,
+            crossToolCollaboration: false,
+            incrementalRefinement: true,
+            multipleEditSessions: false,
+            pausesForReflection: false,
+            commentaryAdded: false,
+            codeRestructuring: false,
+            testingEvidence: false
+        },
+        evidence: { editTimeline: [], pauseAnalysis: [], refinementExamples: [] },
+        qualityLevel,
+        confidence: 0.7
+    });
+
+    describe('matchEventsToHunks', () => {
+        const engine = new CommitAnalysisEngine(2);
+
+        it('should keep events inside hunk ranges and drop older events', () => {
+            const inside = createMockEvent({ timestamp: 2000, position: { line: 24, character: 0 } });
+            const outside = createMockEvent({ timestamp: 2000, position: { line: 100, character: 0 } });
+            const stale = createMockEvent({ timestamp: 500, position: { line: 24, character: 0 } });
+
+            const matched = engine.matchEventsToHunks([inside, outside, stale], createDiffFile(), 1000);
+
+            expect(matched).toEqual([inside]);
+        });
+
+        it('should fall back to all recent events when no position lines up', () => {
+            const moved = createMockEvent({ timestamp: 2000, position: { line: 100, character: 0 } });
+
+            expect(engine.matchEventsToHunks([moved], createDiffFile(), 1000)).toEqual([moved]);
+        });
+    });
+
+    describe('analyzeCommit', () => {
+        const engine = new CommitAnalysisEngine();
+
+        it('should roll file attribution and review quality up into commit metrics', () => {
+            const analysis = engine.analyzeCommit(
+                { commitId: 'abc123', message: 'Add feature', timestamp: 10000 },
+                [
+                    {
+                        diff: createDiffFile(),
+                        events: [
+                            createMockEvent({ timestamp: 1000, sessionId: 's1' }),
+                            createMockEvent({ timestamp: 61000, sessionId: 's2' })
+                        ],
+                        attribution: createAttribution(0.6),
+                        review: createReview(6, 'thorough-review')
+                    },
+                    {
+                        diff: createDiffFile({ path: 'src/util.ts', linesAdded: 10, linesDeleted: 5 }),
+                        events: [createMockEvent({ timestamp: 2000, sessionId: 's1' })],
+                        attribution: createAttribution(0),
+                        review: createReview(2, 'immediate-commit')
+                    }
+                ]
+            );
+
+            expect(analysis.fileAnalysis[0]).toMatchObject({
+                uri: 'src/app.ts',
+                linesChanged: 10,
+                aiGeneratedLines: 6,
+                humanWrittenLines: 4,
+                reviewedLines: 10,
+                reviewQuality: 6
+            });
+            expect(analysis.fileAnalysis[1].reviewedLines).toBe(0);
+            expect(analysis.commitMetrics.totalLinesChanged).toBe(25);
+            expect(analysis.commitMetrics.aiContributionPercentage).toBeCloseTo(30);
+            expect(analysis.commitMetrics.humanContributionPercentage).toBeCloseTo(70);
+            expect(analysis.commitMetrics.averageReviewQuality).toBe(4);
+            expect(analysis.commitMetrics.developmentTimespan).toBe(60000);
+            expect(analysis.commitMetrics.numberOfSessions).toBe(2);
+            expect(analysis.commitQuality.aiIntegrationQuality).toBe(6);
+            expect(analysis.commitQuality.reviewThoroughness).toBe(5);
+            expect(analysis.commitQuality.codeQualityIndicators).toContain('incremental-refinement');
+        });
+
+        it('should count AI lines from line attribution when available', () => {
+            const aiEvent = createMockEvent({
+                eventId: 'ai-event',
+                position: { line: 0, character: 0 },
+                range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+                insertedEnd: { line: 2, character: 0 }
+            });
+            const lineAttribution = LineAttributionMap.fromEvents([aiEvent], () => ({ source: 'ai-generated', aiProbability: 0.9 }));
+
+            const analysis = engine.analyzeCommit(
+                { commitId: 'abc123', message: '', timestamp: 0 },
+                [{
+                    diff: createDiffFile({
+                        hunks: [{ oldStart: 0, oldLines: 0, newStart: 1, newLines: 4, addedLines: [1, 2, 3, 4], deletedLines: [] }],
+                        linesAdded: 4
+                    }),
+                    events: [aiEvent],
+                    attribution: createAttribution(0.1),
+                    review: createReview(6, 'thorough-review'),
+                    lineAttribution
+                }]
+            );
+
+            expect(analysis.fileAnalysis[0].aiGeneratedLines).toBe(2);
+            expect(analysis.fileAnalysis[0].humanWrittenLines).toBe(2);
+        });
+
+        it('should flag unreviewed AI code and files without recorded activity', () => {
+            const analysis = engine.analyzeCommit(
+                { commitId: 'abc123', message: '', timestamp: 0 },
+                [
+                    {
+                        diff: createDiffFile(),
+                        events: [createMockEvent()],
+                        attribution: createAttribution(0.9, 'ai-generated'),
+                        review: createReview(1, 'immediate-commit')
+                    },
+                    {
+                        diff: createDiffFile({ path: 'src/other.ts' }),
+                        events: [],
+                        attribution: createAttribution(0, 'human'),
+                        review: null
+                    }
+                ]
+            );
+
+            expect(analysis.commitQuality.potentialIssues).toEqual([
+                'src/app.ts: AI-generated code committed without review',
+                'src/other.ts: no recorded editing activity'
+            ]);
+        });
+    });
+
+    describe('formatSummary', () => {
+        it('should include contribution, review level and per-file lines', () => {
+            const engine = new CommitAnalysisEngine();
+            const analysis = engine.analyzeCommit(
+                { commitId: 'abc123', message: '', timestamp: 0 },
+                [{
+                    diff: createDiffFile(),
+                    events: [createMockEvent()],
+                    attribution: createAttribution(0.5),
+                    review: createReview(7, 'thorough-review')
+                }]
+            );
+
+            const summary = engine.formatSummary(analysis);
+
+            expect(summary).toContain('AI contribution: 50.0% (5 of 10 added lines)');
+            expect(summary).toContain('Review quality: thorough-review (7.0/10)');
+            expect(summary).toContain('src/app.ts: 10 lines changed, 50% AI, review 7.0/10');
+        });
+    });
+
+    describe('buildTrailers', () => {
+        it('should report the rounded AI share and the commit review level', () => {
+            const engine = new CommitAnalysisEngine();
+            const analysis = engine.analyzeCommit(
+                { commitId: 'abc123', message: '', timestamp: 0 },
+                [{
+                    diff: createDiffFile({ linesAdded: 3 }),
+                    events: [createMockEvent()],
+                    attribution: createAttribution(0.5),
+                    review: createReview(6, 'thorough-review')
+                }]
+            );
+
+            expect(engine.buildTrailers(analysis)).toEqual([
+                { key: 'AI-Contribution', value: '67%' },
+                { key: 'Review-Quality', value: 'thorough-review' }
+            ]);
+        });
+    });
+});
@@ -0,0 +1,138 @@
+import { optimizeDetectionConfig, optimizeDetectionConfigIncrementally, scoreEvaluation } from '../services/ConfigOptimizer';
+import { DEFAULT_AI_DETECTION_CONFIG } from '../services/AIDetectionEngine';
+import { evaluateDetector } from '../services/DetectorEvaluation';
+import { validateAIDetectionConfig } from '../utils/validation';
+import type { EnhancedChangeEvent } from '../types/ChangeEvent';
+import type { GroundTruthDataset } from '../types/Evaluation';
+
+describe('optimizeDetectionConfig', () => {
+    const createMockEvent = (overrides: Partial<EnhancedChangeEvent> = {}): EnhancedChangeEvent => ({
+        timestamp: 0,
+        sessionId: 'test-session',
+        fileUri: 'file:///test/file.ts',
+        eventId: 'test-event-' + Math.random(),
+        changeType: 'insert',
+        position: { line: 1, character: 0 },
+        contentLength: 1,
+        timeSinceLastChange: 400,
+        timeSinceSessionStart: 5000,
+        timeSinceFileOpen: 10000,
+        source: 'live',
+        vsCodeActive: true,
+        cursorPosition: { line: 1, character: 0 },
+        instantTypingSpeed: 150,
+        rollingTypingSpeed: 140,
+        burstDetected: false,
+        pauseBeforeChange: 400,
+        isCodeBlock: false,
+        isComment: false,
+        isWhitespace: false,
+        languageConstruct: 'unknown',
+        indentationLevel: 0,
+        ...overrides
+    });
+
+    // Fast typists look like AI to the default weights; the AI here only leaves a tool signature
+    const fastTyping = (eventId: string, timestamp: number) => createMockEvent({
+        eventId,
+        timestamp,
+        instantTypingSpeed: 900,
+        rollingTypingSpeed: 800,
+        burstDetected: true,
+        timeSinceLastChange: 60,
+        pauseBeforeChange: 60,
+        contentLength: 3
+    });
+
+    const toolEdit = (eventId: string, timestamp: number, contentLength = 40) => createMockEvent({
+        eventId,
+        timestamp,
+        contentLength,
+        instantTypingSpeed: 0,
+        rollingTypingSpeed: 0,
+        source: 'external',
+        externalToolSignature: { detected: true, toolType: 'copilot', confidence: 0.9, indicators: ['structured-code'] }
+    });
+
+    const events: EnhancedChangeEvent[] = [];
+    const labels: GroundTruthDataset['labels'] = [];
+    for (let i = 0; i < 6; i++) {
+        events.push(fastTyping(`typed-${i}`, i * 1000));
+        labels.push({ eventId: `typed-${i}`, label: 'human' });
+        events.push(toolEdit(`tool-${i}`, i * 1000 + 500, i % 2 === 0 ? 40 : 900));
+        labels.push({ eventId: `tool-${i}`, label: i % 2 === 0 ? 'ai-assisted' : 'ai-generated' });
+    }
+    const dataset: GroundTruthDataset = { name: 'fixture', labels };
+
+    test.each(['coordinate-descent', 'grid-search', 'logistic'] as const)('should improve on the defaults with %s', method => {
+        const baseline = scoreEvaluation(evaluateDetector(events, dataset), 'f1');
+        const result = optimizeDetectionConfig(events, dataset, { method, optimizeThresholds: false });
+
+        expect(result.method).toBe(method);
+        expect(result.baselineScore).toBeCloseTo(baseline);
+        expect(result.improved).toBe(true);
+        expect(result.score).toBe(1);
+        expect(result.config.weights.externalToolScore).toBeGreaterThan(result.config.weights.typingSpeedScore);
+        expect(validateAIDetectionConfig(result.config)).toBe(true);
+    });
+
+    test('should keep weights summing to 1 and classification cutoffs ordered', () => {
+        const { config } = optimizeDetectionConfig(events, dataset);
+        const total = Object.values(config.weights).reduce((sum, weight) => sum + weight, 0);
+
+        expect(total).toBeCloseTo(1, 6);
+        expect(config.classification.humanThreshold).toBeLessThan(config.classification.aiAssistedThreshold);
+        expect(config.classification.aiAssistedThreshold).toBeLessThan(config.classification.aiGeneratedThreshold);
+        expect(config.bucketConfig).toEqual(DEFAULT_AI_DETECTION_CONFIG.bucketConfig);
+        expect(config.attribution).toEqual(DEFAULT_AI_DETECTION_CONFIG.attribution);
+    });
+
+    test('should keep the attribution mode of the base config', () => {
+        const baseConfig = { ...DEFAULT_AI_DETECTION_CONFIG, attribution: { mode: 'surviving-characters' as const } };
+
+        const { config, improved } = optimizeDetectionConfig(events, dataset, { baseConfig, optimizeThresholds: false });
+
+        expect(improved).toBe(true);
+        expect(config.attribution).toEqual({ mode: 'surviving-characters' });
+    });
+
+    test('should place the assisted/generated cutoff between the two AI labels', () => {
+        const { evaluation } = optimizeDetectionConfig(events, dataset);
+
+        expect(evaluation.classConfusion.human.human).toBe(6);
+        expect(evaluation.classConfusion['ai-generated']['ai-generated']).toBe(3);
+        expect(evaluation.classConfusion['ai-assisted']['ai-assisted']).toBe(3);
+    });
+
+    test('should optimize for AUC', () => {
+        const result = optimizeDetectionConfig(events, dataset, { metric: 'auc' });
+
+        expect(result.metric).toBe('auc');
+        expect(result.score).toBe(1);
+        expect(result.evaluation.auc).toBe(1);
+    });
+
+    test('should report its progress up to the total', () => {
+        const steps = optimizeDetectionConfigIncrementally(events, dataset, { optimizeThresholds: false });
+        const completed: number[] = [];
+        let total = 0;
+        let step = steps.next();
+        for (; !step.done; step = steps.next()) {
+            completed.push(step.value.completed);
+            total = step.value.total;
+        }
+
+        // One feature pass and two evaluations over the 12 labeled events
+        expect(total).toBe(36);
+        expect(completed).toEqual(Array.from({ length: 36 }, (_, i) => i + 1));
+        expect(step.value.config).toEqual(optimizeDetectionConfig(events, dataset, { optimizeThresholds: false }).config);
+    });
+
+    test('should return the base config when nothing beats it', () => {
+        const result = optimizeDetectionConfig(events, { labels: [{ eventId: 'typed-0', label: 'human' }] });
+
+        expect(result.improved).toBe(false);
+        expect(result.config).toBe(DEFAULT_AI_DETECTION_CONFIG);
+        expect(result.score).toBe(result.baselineScore);
+    });
+});
@@ -0,0 +1,187 @@
+import { DEFAULT_AI_DETECTION_CONFIG } from '../services/AIDetectionEngine';
+import {
+    DASHBOARD_CONFIG_FILE,
+    applySensitivity,
+    findConfigIssues,
+    formatConfigIssues,
+    getConfigPaths,
+    resolveConfig
+} from '../services/ConfigResolver';
+import { createDefaultHeuristicRegistry } from '../services/HeuristicRegistry';
+import { deepMerge } from '../utils/deepMerge';
+
+describe('deepMerge', () => {
+    it('should merge nested objects key by key without touching the base', () => {
+        const merged = deepMerge(DEFAULT_AI_DETECTION_CONFIG, { thresholds: { fastTypingSpeed: 400 } });
+
+        expect(merged.thresholds).toEqual({ ...DEFAULT_AI_DETECTION_CONFIG.thresholds, fastTypingSpeed: 400 });
+        expect(merged.weights).toEqual(DEFAULT_AI_DETECTION_CONFIG.weights);
+        expect(merged.weights).not.toBe(DEFAULT_AI_DETECTION_CONFIG.weights);
+        expect(DEFAULT_AI_DETECTION_CONFIG.thresholds.fastTypingSpeed).toBe(300);
+    });
+
+    it('should ignore undefined values and replace arrays', () => {
+        expect(deepMerge({ a: 1, list: [1, 2] }, { a: undefined, list: [3] })).toEqual({ a: 1, list: [3] });
+    });
+});
+
+describe('resolveConfig', () => {
+    it('should resolve to the defaults without layers', () => {
+        const resolved = resolveConfig([]);
+
+        expect(resolved.config).toEqual(DEFAULT_AI_DETECTION_CONFIG);
+        expect(resolved.valid).toBe(true);
+        expect(resolved.sources['weights.typingSpeedScore']).toEqual({ layer: 'defaults' });
+    });
+
+    it('should apply layers in precedence order and report where values came from', () => {
+        const resolved = resolveConfig([
+            { name: 'override', config: { thresholds: { fastTypingSpeed: 500 } } },
+            { name: 'workspace', config: { thresholds: { fastTypingSpeed: 450, pasteTimeThreshold: 50 } }, origin: '/repo/.quantifai.json' },
+            { name: 'user', config: { thresholds: { fastTypingSpeed: 400 }, classification: { humanThreshold: 0.2 } } }
+        ]);
+
+        expect(resolved.config.thresholds).toEqual({
+            ...DEFAULT_AI_DETECTION_CONFIG.thresholds,
+            fastTypingSpeed: 500,
+            pasteTimeThreshold: 50
+        });
+        expect(resolved.config.classification.humanThreshold).toBe(0.2);
+        expect(resolved.sources['thresholds.fastTypingSpeed']).toEqual({ layer: 'override' });
+        expect(resolved.sources['thresholds.pasteTimeThreshold']).toEqual({ layer: 'workspace', origin: '/repo/.quantifai.json' });
+        expect(resolved.sources['classification.humanThreshold']).toEqual({ layer: 'user' });
+        expect(resolved.sources['thresholds.bulkInsertionSize']).toEqual({ layer: 'defaults' });
+    });
+
+    it('should apply the dashboard layer over the workspace and under overrides', () => {
+        const resolved = resolveConfig([
+            { name: 'override', config: { thresholds: { fastTypingSpeed: 500 } } },
+            { name: 'dashboard', config: { thresholds: { fastTypingSpeed: 480, pasteTimeThreshold: 60 } }, origin: DASHBOARD_CONFIG_FILE },
+            { name: 'workspace', config: { thresholds: { pasteTimeThreshold: 50 } } }
+        ]);
+
+        expect(resolved.config.thresholds.fastTypingSpeed).toBe(500);
+        expect(resolved.config.thresholds.pasteTimeThreshold).toBe(60);
+        expect(resolved.sources['thresholds.pasteTimeThreshold']).toEqual({ layer: 'dashboard', origin: DASHBOARD_CONFIG_FILE });
+    });
+
+    it('should report invalid values with their path and source', () => {
+        const resolved = resolveConfig([
+            { name: 'workspace', config: { weights: { typingSpeedScore: 5 }, classification: { aiGeneratedThreshold: 0.5 } }, origin: '.quantifai.json' }
+        ]);
+
+        expect(resolved.valid).toBe(false);
+        expect(resolved.issues).toEqual([
+            { path: 'weights.typingSpeedScore', message: 'must be between 0 and 1', source: { layer: 'workspace', origin: '.quantifai.json' } },
+            {
+                path: 'classification.aiGeneratedThreshold',
+                message: 'must be above classification.aiAssistedThreshold',
+                source: { layer: 'workspace', origin: '.quantifai.json' }
+            }
+        ]);
+        expect(formatConfigIssues(resolved.issues)).toBe(
+            'weights.typingSpeedScore must be between 0 and 1 (.quantifai.json)\n' +
+            'classification.aiGeneratedThreshold must be above classification.aiAssistedThreshold (.quantifai.json)'
+        );
+    });
+
+    it('should report settings nothing reads', () => {
+        const resolved = resolveConfig([
+            { name: 'user', config: { thresholds: { fastTypingSped: 400 }, weigths: {} } as never }
+        ]);
+
+        expect(resolved.issues.map(issue => issue.path)).toEqual(['thresholds.fastTypingSped', 'weigths']);
+    });
+
+    it('should fill in the defaults of custom heuristics', () => {
+        const registry = createDefaultHeuristicRegistry().register({
+            id: 'cursorJumpScore',
+            label: 'Cursor Jump',
+            description: 'Edits far from the previous cursor position',
+            traceStep: 'cursor-jump-analysis',
+            defaultWeight: 0,
+            thresholds: [{
+                key: 'cursorJumpLines',
+                label: 'Cursor Jump Lines',
+                description: 'Line distance that counts as a jump',
+                defaultValue: 20,
+                min: 1,
+                max: 200,
+                step: 1,
+                unit: 'lines'
+            }],
+            evaluate: () => ({ score: 0, input: {}, reasoning: '' })
+        });
+
+        const resolved = resolveConfig([{ name: 'user', config: { thresholds: { cursorJumpLines: 40 } } }], registry);
+
+        expect(resolved.valid).toBe(true);
+        expect(resolved.config.weights.cursorJumpScore).toBe(0);
+        expect(resolved.config.thresholds.cursorJumpLines).toBe(40);
+    });
+});
+
+describe('findConfigIssues', () => {
+    it('should report missing and mistyped fields by path', () => {
+        const { bucketConfig: _bucketConfig, ...withoutBuckets } = DEFAULT_AI_DETECTION_CONFIG;
+
+        expect(findConfigIssues({
+            ...withoutBuckets,
+            thresholds: { ...DEFAULT_AI_DETECTION_CONFIG.thresholds, longPauseThreshold: '30s' }
+        })).toEqual([
+            { path: 'thresholds.longPauseThreshold', message: 'expected number, got string' },
+            { path: 'bucketConfig', message: 'is required' }
+        ]);
+    });
+
+    it('should check bucket options', () => {
+        expect(findConfigIssues(deepMerge(DEFAULT_AI_DETECTION_CONFIG, {
+            bucketConfig: { intervalMinutes: 0, percentile: 120, aggregationMethod: 'sum' as never }
+        }))).toEqual([
+            { path: 'bucketConfig.aggregationMethod', message: 'expected one of average, max, weighted, median, percentile, got "sum"' },
+            { path: 'bucketConfig.intervalMinutes', message: 'must be above 0' },
+            { path: 'bucketConfig.percentile', message: 'must be between 0 and 100' }
+        ]);
+    });
+});
+
+describe('applySensitivity', () => {
+    const { classification } = DEFAULT_AI_DETECTION_CONFIG;
+    const inOrder = (cutoffs: typeof classification) =>
+        cutoffs.humanThreshold < cutoffs.aiAssistedThreshold && cutoffs.aiAssistedThreshold < cutoffs.aiGeneratedThreshold;
+
+    it('should leave the cutoffs alone at the neutral sensitivity', () => {
+        expect(applySensitivity(classification, 0.5)).toEqual(classification);
+    });
+
+    it('should lower every cutoff as sensitivity rises and keep their order', () => {
+        const sensitive = applySensitivity(classification, 1);
+
+        expect(sensitive.humanThreshold).toBeCloseTo(0.09);
+        expect(sensitive.aiAssistedThreshold).toBeCloseTo(0.36);
+        expect(sensitive.aiGeneratedThreshold).toBeCloseTo(0.64);
+        expect(inOrder(sensitive)).toBe(true);
+    });
+
+    it('should raise every cutoff as sensitivity drops and clamp out-of-range values', () => {
+        const lenient = applySensitivity(classification, 0);
+
+        expect(lenient.humanThreshold).toBeCloseTo(Math.sqrt(0.3));
+        expect(lenient.aiGeneratedThreshold).toBeLessThan(1);
+        expect(inOrder(lenient)).toBe(true);
+        expect(applySensitivity(classification, -2)).toEqual(lenient);
+    });
+});
+
+describe('getConfigPaths', () => {
+    it('should list every setting including optional bucket and attribution options', () => {
+        const paths = getConfigPaths();
+
+        expect(paths).toContain('weights.typingSpeedScore');
+        expect(paths).toContain('thresholds.longPauseThreshold');
+        expect(paths).toContain('classification.aiGeneratedThreshold');
+        expect(paths).toContain('bucketConfig.windowStepMinutes');
+        expect(paths).toContain('attribution.mode');
+        expect(paths).toHaveLength(6 + 5 + 3 + 6 + 1);
+    });
+});
@@ -0,0 +1,57 @@
+import { DEFAULT_AI_DETECTION_CONFIG } from '../services/AIDetectionEngine';
+import { resolveConfig } from '../services/ConfigResolver';
+import { CONFIG_SHARE_PREFIX, encodeConfigShareString, getConfigChanges, parseSharedConfig } from '../services/ConfigShare';
+import { decodeBase64Url, encodeBase64Url } from '../utils/base64';
+import { deepMerge } from '../utils/deepMerge';
+
+describe('base64url', () => {
+    it('should round-trip text of every length and non-ASCII characters', () => {
+        for (const text of ['', 'a', 'ab', 'abc', 'abcd', '{"thresholds":{}}', 'héllo ✓ 😀']) {
+            expect(decodeBase64Url(encodeBase64Url(text))).toBe(text);
+        }
+    });
+
+    it('should match standard base64 with the URL-safe alphabet and no padding', () => {
+        expect(encodeBase64Url('hello?>')).toBe('aGVsbG8_Pg');
+        expect(decodeBase64Url('aGVsbG8/Pg==')).toBe('hello?>');
+    });
+
+    it('should reject characters outside the alphabet', () => {
+        expect(() => decodeBase64Url('ab$d')).toThrow('Invalid base64 character "$"');
+    });
+});
+
+describe('config sharing', () => {
+    const tuned = deepMerge(DEFAULT_AI_DETECTION_CONFIG, {
+        thresholds: { fastTypingSpeed: 450 },
+        classification: { aiGeneratedThreshold: 0.85 },
+        bucketConfig: { windowStepMinutes: 5 }
+    });
+
+    it('should keep only the values that differ from the defaults', () => {
+        expect(getConfigChanges(tuned)).toEqual({
+            thresholds: { fastTypingSpeed: 450 },
+            classification: { aiGeneratedThreshold: 0.85 },
+            bucketConfig: { windowStepMinutes: 5 }
+        });
+        expect(getConfigChanges(DEFAULT_AI_DETECTION_CONFIG)).toEqual({});
+    });
+
+    it('should restore the config from its share string', () => {
+        const shareString = encodeConfigShareString(tuned);
+
+        expect(shareString.startsWith(CONFIG_SHARE_PREFIX)).toBe(true);
+        expect(shareString).toMatch(/^[\w:-]+$/);
+        expect(resolveConfig([{ name: 'override', config: parseSharedConfig(shareString) }]).config).toEqual(tuned);
+    });
+
+    it('should read exported config JSON as well', () => {
+        expect(parseSharedConfig(`  ${JSON.stringify(tuned, null, 4)}\n`)).toEqual(tuned);
+    });
+
+    it('should reject malformed input', () => {
+        expect(() => parseSharedConfig(`${CONFIG_SHARE_PREFIX}%%%`)).toThrow(/^Invalid config share string/);
+        expect(() => parseSharedConfig('not a config')).toThrow(/^Invalid config: expected a share string or JSON/);
+        expect(() => parseSharedConfig('[1, 2]')).toThrow('Invalid config: expected an object of settings');
+    });
+});
@@ -0,0 +1,194 @@
+import {
+    evaluateDetector,
+    evaluateDetectorIncrementally,
+    parseGroundTruthDataset,
+    selectLabeledEvents
+} from '../services/DetectorEvaluation';
+import { AIDetectionEngine, DEFAULT_AI_DETECTION_CONFIG } from '../services/AIDetectionEngine';
+import { computeAUC, computeRocCurve, computeThresholdMetrics } from '../utils/classificationMetrics';
+import type { EnhancedChangeEvent } from '../types/ChangeEvent';
+import type { GroundTruthDataset } from '../types/Evaluation';
+
+describe('classification metrics', () => {
+    const samples = [
+        { score: 0.9, positive: true },
+        { score: 0.8, positive: true },
+        { score: 0.6, positive: false },
+        { score: 0.4, positive: true },
+        { score: 0.2, positive: false }
+    ];
+
+    test('should compute precision, recall and F1 at a threshold', () => {
+        const metrics = computeThresholdMetrics(samples, 0.5);
+
+        expect(metrics.confusion).toEqual({ truePositives: 2, falsePositives: 1, trueNegatives: 1, falseNegatives: 1 });
+        expect(metrics.precision).toBeCloseTo(2 / 3);
+        expect(metrics.recall).toBeCloseTo(2 / 3);
+        expect(metrics.f1).toBeCloseTo(2 / 3);
+        expect(metrics.accuracy).toBeCloseTo(0.6);
+        expect(metrics.falsePositiveRate).toBeCloseTo(0.5);
+    });
+
+    test('should report 0 for ratios without predictions', () => {
+        const metrics = computeThresholdMetrics(samples, 1);
+
+        expect(metrics.precision).toBe(0);
+        expect(metrics.f1).toBe(0);
+    });
+
+    test('should compute the ROC curve and AUC', () => {
+        const curve = computeRocCurve(samples);
+
+        expect(curve.map(point => point.threshold)).toEqual([0.9, 0.8, 0.6, 0.4, 0.2]);
+        expect(curve[curve.length - 1]).toMatchObject({ truePositiveRate: 1, falsePositiveRate: 1 });
+        // 5 of the 6 positive/negative pairs are ordered correctly
+        expect(computeAUC(samples)).toBeCloseTo(5 / 6);
+    });
+
+    test('should count ties as half in the AUC', () => {
+        expect(computeAUC([{ score: 0.5, positive: true }, { score: 0.5, positive: false }])).toBe(0.5);
+        expect(computeAUC([{ score: 0.5, positive: true }])).toBeNull();
+    });
+});
+
+describe('evaluateDetector', () => {
+    const createMockEvent = (overrides: Partial<EnhancedChangeEvent> = {}): EnhancedChangeEvent => ({
+        timestamp: 0,
+        sessionId: 'test-session',
+        fileUri: 'file:///test/file.ts',
+        eventId: 'test-event-' + Math.random(),
+        changeType: 'insert',
+        position: { line: 1, character: 0 },
+        contentLength: 1,
+        timeSinceLastChange: 200,
+        timeSinceSessionStart: 5000,
+        timeSinceFileOpen: 10000,
+        source: 'live',
+        vsCodeActive: true,
+        cursorPosition: { line: 1, character: 0 },
+        instantTypingSpeed: 150,
+        rollingTypingSpeed: 140,
+        burstDetected: false,
+        pauseBeforeChange: 200,
+        isCodeBlock: false,
+        isComment: false,
+        isWhitespace: false,
+        languageConstruct: 'unknown',
+        indentationLevel: 0,
+        ...overrides
+    });
+
+    const aiPaste = (overrides: Partial<EnhancedChangeEvent>) => createMockEvent({
+        contentLength: 800,
+        instantTypingSpeed: 5000,
+        rollingTypingSpeed: 4000,
+        burstDetected: true,
+        isCodeBlock: true,
+        timeSinceLastChange: 20,
+        pauseBeforeChange: 20,
+        source: 'external',
+        externalToolSignature: { detected: true, toolType: 'copilot', confidence: 0.9, indicators: ['bulk-insertion'] },
+        ...overrides
+    });
+
+    const events = [
+        aiPaste({ eventId: 'paste-1', timestamp: 1000 }),
+        aiPaste({ eventId: 'paste-2', timestamp: 2000, sessionId: 'other-session' }),
+        createMockEvent({ eventId: 'typed-1', timestamp: 10000 }),
+        createMockEvent({ eventId: 'typed-2', timestamp: 10200 }),
+        createMockEvent({ eventId: 'typed-3', timestamp: 10400, fileUri: 'file:///test/other.ts' })
+    ];
+
+    const dataset: GroundTruthDataset = {
+        name: 'fixture',
+        labels: [
+            { eventId: 'paste-1', label: 'ai-generated', toolName: 'copilot' },
+            { eventId: 'paste-2', label: 'ai-assisted' },
+            { startTime: 9000, endTime: 11000, fileUri: 'file:///test/file.ts', label: 'human' },
+            { eventId: 'missing', label: 'human' }
+        ]
+    };
+
+    test('should select events by id or by time range, session and file', () => {
+        expect(selectLabeledEvents(events, dataset.labels[0]).map(e => e.eventId)).toEqual(['paste-1']);
+        expect(selectLabeledEvents(events, dataset.labels[2]).map(e => e.eventId)).toEqual(['typed-1', 'typed-2']);
+        expect(selectLabeledEvents(events, { startTime: 0, endTime: 5000, sessionId: 'other-session', label: 'human' })
+            .map(e => e.eventId)).toEqual(['paste-2']);
+    });
+
+    test('should score each labeled unit and skip labels without events', () => {
+        const evaluation = evaluateDetector(events, dataset);
+
+        expect(evaluation.datasetName).toBe('fixture');
+        expect(evaluation.samples.map(sample => [sample.id, sample.label, sample.eventCount])).toEqual([
+            ['paste-1', 'ai-generated', 1],
+            ['paste-2', 'ai-assisted', 1],
+            ['range-2', 'human', 2]
+        ]);
+        expect(evaluation.samples[0].toolName).toBe('copilot');
+        expect(evaluation.unmatchedLabels).toBe(1);
+        expect(evaluation.positives).toBe(2);
+        expect(evaluation.negatives).toBe(1);
+    });
+
+    test('should separate pasted AI code from typing', () => {
+        const evaluation = evaluateDetector(events, dataset);
+
+        expect(evaluation.auc).toBe(1);
+        expect(evaluation.bestF1?.f1).toBe(1);
+        expect(evaluation.thresholdSweep).toHaveLength(21);
+        expect(evaluation.thresholdSweep[0].recall).toBe(1);
+        expect(evaluation.classConfusion.human.human).toBe(1);
+        expect(evaluation.classConfusion['ai-generated'].human).toBe(0);
+    });
+
+    test('should report progress after each labeled unit', () => {
+        const steps = evaluateDetectorIncrementally(events, dataset);
+        const progress = [];
+        let step = steps.next();
+        for (; !step.done; step = steps.next()) {
+            progress.push(step.value);
+        }
+
+        expect(progress).toEqual([
+            { completed: 1, total: 4 },
+            { completed: 2, total: 4 },
+            { completed: 4, total: 4 }
+        ]);
+        expect(step.value).toEqual(evaluateDetector(events, dataset));
+    });
+
+    test('should report metrics at the configured classification thresholds', () => {
+        const config = {
+            ...DEFAULT_AI_DETECTION_CONFIG,
+            classification: { humanThreshold: 0.1, aiAssistedThreshold: 0.2, aiGeneratedThreshold: 0.99 }
+        };
+        const evaluation = evaluateDetector(events, dataset, { engine: new AIDetectionEngine(config), thresholds: [0.5] });
+
+        expect(evaluation.thresholdSweep.map(metrics => metrics.threshold)).toEqual([0.5]);
+        expect(evaluation.classificationThresholds.humanThreshold.threshold).toBe(0.1);
+        expect(evaluation.classificationThresholds.aiGeneratedThreshold.confusion.truePositives).toBe(0);
+    });
+});
+
+describe('parseGroundTruthDataset', () => {
+    test('should accept event and time range labels', () => {
+        const dataset = { labels: [{ eventId: 'a', label: 'human' }, { startTime: 1, endTime: 2, label: 'ai-assisted', toolName: 'cursor' }] };
+
+        expect(parseGroundTruthDataset(dataset)).toBe(dataset);
+    });
+
+    test('should list every invalid label', () => {
+        expect(() => parseGroundTruthDataset({
+            labels: [
+                { eventId: 'a', label: 'robot' },
+                { startTime: 5, endTime: 1, label: 'human' },
+                { label: 'human' }
+            ]
+        })).toThrow(
+            'Invalid ground truth dataset: labels[0].label expected one of human, ai-generated, ai-assisted, got "robot"; ' +
+            'labels[1].endTime is before startTime; labels[2].startTime is required; labels[2].endTime is required'
+        );
+        expect(() => parseGroundTruthDataset([])).toThrow('(root) expected object, got array');
+    });
+});
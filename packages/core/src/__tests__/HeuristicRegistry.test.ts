@@ -0,0 +1,141 @@
+import { HeuristicRegistry, createDefaultHeuristicRegistry } from '../services/HeuristicRegistry';
+import { BUILTIN_HEURISTICS } from '../services/BuiltinHeuristics';
+import { AIDetectionEngine, DEFAULT_AI_DETECTION_CONFIG } from '../services/AIDetectionEngine';
+import type { Heuristic } from '../types/Heuristic';
+import type { EnhancedChangeEvent } from '../types/ChangeEvent';
+
+describe('HeuristicRegistry', () => {
+    const createMockEvent = (overrides: Partial<EnhancedChangeEvent> = {}): EnhancedChangeEvent => ({
+        timestamp: 0,
+        sessionId: 'test-session',
+        fileUri: 'test://file.ts',
+        eventId: 'test-event-' + Math.random(),
+        changeType: 'insert',
+        position: { line: 1, character: 0 },
+        contentLength: 1,
+        timeSinceLastChange: 1000,
+        timeSinceSessionStart: 5000,
+        timeSinceFileOpen: 10000,
+        source: 'live',
+        vsCodeActive: true,
+        cursorPosition: { line: 1, character: 0 },
+        instantTypingSpeed: 150,
+        rollingTypingSpeed: 140,
+        burstDetected: false,
+        pauseBeforeChange: 100,
+        isCodeBlock: false,
+        isComment: false,
+        isWhitespace: false,
+        languageConstruct: 'unknown',
+        indentationLevel: 0,
+        ...overrides
+    });
+
+    const cursorJumpHeuristic: Heuristic = {
+        id: 'cursorJumpScore',
+        label: 'Cursor Jump',
+        description: 'Edits far away from where the cursor was',
+        traceStep: 'cursor-jump-analysis',
+        defaultWeight: 0.5,
+        thresholds: [{
+            key: 'cursorJumpLines',
+            label: 'Cursor Jump Lines',
+            description: 'Line distance that counts as a jump',
+            defaultValue: 20,
+            min: 1,
+            max: 200,
+            step: 1,
+            unit: 'lines'
+        }],
+        evaluate(changes, { getThreshold }) {
+            const jumps = changes.filter(change =>
+                Math.abs(change.position.line - change.cursorPosition.line) > getThreshold('cursorJumpLines')
+            );
+            return {
+                score: jumps.length / changes.length,
+                input: { jumps: jumps.length },
+                reasoning: `${jumps.length} cursor jumps`
+            };
+        }
+    };
+
+    it('should register the built-in heuristics by default', () => {
+        const registry = createDefaultHeuristicRegistry();
+
+        expect(registry.getIds()).toEqual(BUILTIN_HEURISTICS.map(h => h.id));
+        expect(registry.getDefaultWeights()).toEqual(DEFAULT_AI_DETECTION_CONFIG.weights);
+        expect(registry.getDefaultThresholds()).toEqual(DEFAULT_AI_DETECTION_CONFIG.thresholds);
+    });
+
+    it('should reject duplicate heuristic ids', () => {
+        const registry = createDefaultHeuristicRegistry();
+
+        expect(() => registry.register(BUILTIN_HEURISTICS[0])).toThrow('already registered');
+    });
+
+    it('should reject conflicting threshold defaults', () => {
+        const registry = createDefaultHeuristicRegistry();
+        const conflicting: Heuristic = {
+            ...cursorJumpHeuristic,
+            thresholds: [{ ...cursorJumpHeuristic.thresholds[0], key: 'bulkInsertionSize', defaultValue: 5 }]
+        };
+
+        expect(() => registry.register(conflicting)).toThrow('bulkInsertionSize');
+    });
+
+    it('should de-duplicate shared thresholds', () => {
+        const registry = new HeuristicRegistry([
+            cursorJumpHeuristic,
+            { ...cursorJumpHeuristic, id: 'otherScore' }
+        ]);
+
+        expect(registry.getThresholds()).toHaveLength(1);
+    });
+
+    it('should unregister heuristics', () => {
+        const registry = createDefaultHeuristicRegistry();
+
+        expect(registry.unregister('timingAnomalyScore')).toBe(true);
+        expect(registry.has('timingAnomalyScore')).toBe(false);
+        expect(registry.unregister('timingAnomalyScore')).toBe(false);
+    });
+
+    describe('with AIDetectionEngine', () => {
+        it('should score and trace custom heuristics', () => {
+            const registry = createDefaultHeuristicRegistry().register(cursorJumpHeuristic);
+            const engine = new AIDetectionEngine(DEFAULT_AI_DETECTION_CONFIG, registry);
+
+            const result = engine.analyzeDetailed([
+                createMockEvent({ position: { line: 100, character: 0 } }),
+                createMockEvent()
+            ]);
+
+            expect(result.heuristicScores.cursorJumpScore).toBeCloseTo(0.5);
+            // Weight falls back to the heuristic's default when the config has none
+            expect(result.weightedScores.cursorJumpScore.weight).toBe(0.5);
+            expect(result.decisionTrace.map(step => step.step)).toContain('cursor-jump-analysis');
+        });
+
+        it('should read custom thresholds from the config', () => {
+            const registry = createDefaultHeuristicRegistry().register(cursorJumpHeuristic);
+            const engine = new AIDetectionEngine({
+                ...DEFAULT_AI_DETECTION_CONFIG,
+                thresholds: { ...DEFAULT_AI_DETECTION_CONFIG.thresholds, cursorJumpLines: 500 }
+            }, registry);
+
+            const result = engine.analyzeDetailed([createMockEvent({ position: { line: 100, character: 0 } })]);
+
+            expect(result.heuristicScores.cursorJumpScore).toBe(0);
+        });
+
+        it('should clamp heuristic scores to [0, 1]', () => {
+            const registry = new HeuristicRegistry([{
+                ...cursorJumpHeuristic,
+                evaluate: () => ({ score: 3, input: {}, reasoning: 'out of range' })
+            }]);
+            const engine = new AIDetectionEngine(DEFAULT_AI_DETECTION_CONFIG, registry);
+
+            expect(engine.analyzeDetailed([createMockEvent()]).heuristicScores.cursorJumpScore).toBe(1);
+        });
+    });
+});
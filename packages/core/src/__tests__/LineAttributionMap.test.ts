@@ -0,0 +1,192 @@
+import { LineAttributionMap, createEngineEventClassifier } from '../services/LineAttributionMap';
+import type { EnhancedChangeEvent, Position } from '../types/ChangeEvent';
+import type { EventClassifier } from '../types/LineAttribution';
+
+describe('LineAttributionMap', () => {
+    const createMockEvent = (overrides: Partial<EnhancedChangeEvent> = {}): EnhancedChangeEvent => ({
+        timestamp: 0,
+        sessionId: 'test-session',
+        fileUri: 'test://file.ts',
+        eventId: 'test-event-' + Math.random(),
+        changeType: 'insert',
+        position: { line: 0, character: 0 },
+        contentLength: 10,
+        timeSinceLastChange: 1000,
+        timeSinceSessionStart: 5000,
+        timeSinceFileOpen: 10000,
+        source: 'live',
+        vsCodeActive: true,
+        cursorPosition: { line: 0, character: 0 },
+        instantTypingSpeed: 150,
+        rollingTypingSpeed: 140,
+        burstDetected: false,
+        pauseBeforeChange: 100,
+        isCodeBlock: false,
+        isComment: false,
+        isWhitespace: false,
+        languageConstruct: 'unknown',
+        indentationLevel: 0,
+        ...overrides
+    });
+
+    // Builds an event replacing start..end with text, recording ranges the way ChangeTracker does
+    const edit = (
+        eventId: string,
+        start: Position,
+        end: Position,
+        text: string,
+        timestamp: number = 0
+    ): EnhancedChangeEvent => {
+        const segments = text.split('\n');
+        const replaced = start.line !== end.line || start.character !== end.character;
+        return createMockEvent({
+            eventId,
+            timestamp,
+            changeType: text.length === 0 ? 'delete' : replaced ? 'replace' : 'insert',
+            position: start,
+            contentLength: text.length,
+            range: { start, end },
+            insertedEnd: {
+                line: start.line + segments.length - 1,
+                character: segments.length === 1 ? start.character + text.length : segments[segments.length - 1].length
+            }
+        });
+    };
+
+    // Events whose id starts with "ai" are AI-generated, everything else human
+    const classify: EventClassifier = event => event.eventId.startsWith('ai')
+        ? { source: 'ai-generated', aiProbability: 0.9 }
+        : { source: 'human', aiProbability: 0.1 };
+
+    const owners = (map: LineAttributionMap) => map.getLines().map(p => p?.eventId ?? null);
+
+    it('should attribute inserted lines to the inserting event', () => {
+        const map = LineAttributionMap.fromEvents([
+            edit('human-1', { line: 0, character: 0 }, { line: 0, character: 0 }, 'a\nb\nc'),
+            edit('ai-1', { line: 1, character: 1 }, { line: 1, character: 1 }, '\nx\ny')
+        ], classify);
+
+        expect(owners(map)).toEqual(['human-1', 'ai-1', 'ai-1', 'ai-1', 'human-1']);
+        expect(map.getAILines()).toEqual([1, 2, 3]);
+    });
+
+    it('should keep the old remainder line when inserted text ends with a line break', () => {
+        const map = LineAttributionMap.fromEvents([
+            edit('human-1', { line: 0, character: 0 }, { line: 0, character: 0 }, 'a\nb'),
+            edit('ai-1', { line: 1, character: 0 }, { line: 1, character: 0 }, 'x\ny\n')
+        ], classify);
+
+        expect(owners(map)).toEqual(['human-1', 'ai-1', 'ai-1', 'human-1']);
+    });
+
+    it('should shift lines below a deletion up', () => {
+        const map = LineAttributionMap.fromEvents([
+            edit('human-1', { line: 0, character: 0 }, { line: 0, character: 0 }, 'a\n'),
+            edit('ai-1', { line: 1, character: 0 }, { line: 1, character: 0 }, 'x\ny\nz\n'),
+            edit('human-2', { line: 4, character: 0 }, { line: 4, character: 0 }, 'tail'),
+            edit('human-3', { line: 1, character: 0 }, { line: 3, character: 0 }, '')
+        ], classify);
+
+        expect(owners(map)).toEqual(['human-1', 'ai-1', 'human-2']);
+        expect(map.isAILine(1)).toBe(true);
+        expect(map.isAILine(2)).toBe(false);
+    });
+
+    it('should give rewritten lines to the replacing event', () => {
+        const map = LineAttributionMap.fromEvents([
+            edit('ai-1', { line: 0, character: 0 }, { line: 0, character: 0 }, 'one\ntwo\nthree'),
+            edit('human-1', { line: 1, character: 0 }, { line: 1, character: 3 }, 'TWO')
+        ], classify);
+
+        expect(owners(map)).toEqual(['ai-1', 'human-1', 'ai-1']);
+        expect(map.getSummary()).toEqual({ totalLines: 3, aiLines: 2, mixedLines: 1, humanLines: 0, unknownLines: 0 });
+    });
+
+    it('should keep the originating event and later edits of each line', () => {
+        const map = LineAttributionMap.fromEvents([
+            edit('ai-1', { line: 0, character: 0 }, { line: 0, character: 0 }, 'const value = compute();', 1000),
+            edit('human-1', { line: 0, character: 6 }, { line: 0, character: 11 }, 'result', 2000),
+            edit('human-2', { line: 0, character: 0 }, { line: 0, character: 1 }, '', 3000)
+        ], classify);
+
+        const history = map.getLineHistory(0);
+
+        expect(history?.origin.eventId).toBe('ai-1');
+        expect(history?.edits.map(e => e.eventId)).toEqual(['human-1', 'human-2']);
+        expect(history?.kind).toBe('mixed');
+        expect(map.getLine(0)?.eventId).toBe('human-2');
+        expect(map.isAILine(0)).toBe(true);
+    });
+
+    it('should not let whitespace-only edits change authorship', () => {
+        const newline = { ...edit('human-1', { line: 0, character: 0 }, { line: 0, character: 0 }, '\n    ', 1000), isWhitespace: true };
+        const completion = edit('ai-1', { line: 1, character: 4 }, { line: 1, character: 4 }, 'return compute();', 2000);
+
+        const map = LineAttributionMap.fromEvents([newline, completion], classify);
+
+        expect(map.getLineHistory(1)?.edits.map(e => e.eventId)).toEqual(['ai-1']);
+        expect(map.getLineKind(1)).toBe('ai');
+        expect(map.getLineKind(0)).toBe('human');
+    });
+
+    it('should record the detected tool of the writing event', () => {
+        const event = {
+            ...edit('ai-1', { line: 0, character: 0 }, { line: 0, character: 0 }, 'x'),
+            externalToolSignature: { detected: true, toolType: 'copilot' as const, confidence: 0.9, indicators: [] }
+        };
+
+        expect(LineAttributionMap.fromEvents([event], classify).getLine(0)?.toolType).toBe('copilot');
+    });
+
+    it('should leave lines no event touched as unknown', () => {
+        const map = LineAttributionMap.fromEvents([
+            edit('ai-1', { line: 3, character: 0 }, { line: 3, character: 0 }, 'x')
+        ], classify);
+
+        expect(owners(map)).toEqual([null, null, null, 'ai-1']);
+        expect(map.getLine(0)).toBeNull();
+        expect(map.getSummary().unknownLines).toBe(3);
+    });
+
+    it('should replay events in timestamp order', () => {
+        const map = LineAttributionMap.fromEvents([
+            edit('human-1', { line: 1, character: 0 }, { line: 1, character: 0 }, 'later', 2000),
+            edit('ai-1', { line: 0, character: 0 }, { line: 0, character: 0 }, 'first\n', 1000)
+        ], classify);
+
+        expect(owners(map)).toEqual(['ai-1', 'human-1']);
+    });
+
+    it('should fall back to single-line edits for events without ranges', () => {
+        const map = LineAttributionMap.fromEvents([
+            createMockEvent({ eventId: 'ai-1', position: { line: 2, character: 4 }, contentLength: 300 })
+        ], classify);
+
+        expect(owners(map)).toEqual([null, null, 'ai-1']);
+    });
+
+    it('should classify events with the detection engine by default', () => {
+        const classifyWithEngine = createEngineEventClassifier();
+        const bulkPaste = createMockEvent({
+            contentLength: 500,
+            timeSinceLastChange: 20,
+            instantTypingSpeed: 10000,
+            isCodeBlock: true,
+            externalToolSignature: { detected: true, toolType: 'copilot', confidence: 0.9, indicators: ['bulk-insertion'] }
+        });
+
+        expect(classifyWithEngine(bulkPaste).source).not.toBe('human');
+        expect(classifyWithEngine(bulkPaste).evidence?.length).toBeGreaterThan(0);
+        expect(classifyWithEngine(createMockEvent({ contentLength: 1, instantTypingSpeed: 120 })).source).toBe('human');
+    });
+
+    it('should classify events given the events of their file before them', () => {
+        const classifyWithEngine = createEngineEventClassifier();
+        const rapid = (fileUri: string) => createMockEvent({ fileUri, contentLength: 1, timeSinceLastChange: 20 });
+        const timingFired = (fileUri: string) => classifyWithEngine(rapid(fileUri)).evidence?.some(reason => reason.startsWith('Timing Anomaly'));
+
+        expect(timingFired('test://a.ts')).toBe(false);
+        expect(timingFired('test://a.ts')).toBe(true);
+        expect(timingFired('test://b.ts')).toBe(false);
+    });
+});
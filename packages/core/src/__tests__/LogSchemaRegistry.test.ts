@@ -0,0 +1,221 @@
+import { LogSchemaRegistry, compareVersions, createDefaultLogSchemaRegistry } from '../services/LogSchemaRegistry';
+import { BUILTIN_LOG_MIGRATIONS, BUILTIN_LOG_SCHEMAS } from '../services/BuiltinLogSchemas';
+import { validateFields } from '../utils/schemaValidation';
+import type { ChangeEventLog } from '../types/ChangeEvent';
+import type { LogSchema } from '../types/LogSchema';
+
+describe('LogSchemaRegistry', () => {
+    const createLoggedEvent = (overrides: Record<string, unknown> = {}): ChangeEventLog => ({
+        timestamp: 1700000000000,
+        sessionId: 'test-session',
+        fileUri: 'file:///test/file.ts',
+        eventId: 'test-event',
+        changeType: 'insert',
+        position: { line: 1, character: 0 },
+        contentLength: 10,
+        timeSinceLastChange: 1000,
+        timeSinceSessionStart: 5000,
+        timeSinceFileOpen: 10000,
+        source: 'live',
+        vsCodeActive: true,
+        cursorPosition: { line: 1, character: 0 },
+        instantTypingSpeed: 150,
+        rollingTypingSpeed: 140,
+        burstDetected: false,
+        pauseBeforeChange: 100,
+        isCodeBlock: false,
+        isComment: false,
+        isWhitespace: false,
+        languageConstruct: 'unknown',
+        indentationLevel: 0,
+        _loggedAt: 1700000000001,
+        _version: '1.1',
+        ...overrides
+    } as ChangeEventLog);
+
+    let registry: LogSchemaRegistry;
+
+    beforeEach(() => {
+        registry = createDefaultLogSchemaRegistry();
+    });
+
+    test('should register a schema for every log record type', () => {
+        const types = ['ChangeEventLog', 'AIDetectionMetricsLog', 'ReviewQualityMetricsLog', 'SessionSummaryLog', 'CommitAnalysisLog'] as const;
+
+        for (const type of types) {
+            expect(registry.getSchema(type)).toBeDefined();
+        }
+        expect(registry.getVersions('ChangeEventLog')).toEqual(['1.0', '1.1']);
+        expect(registry.getCurrentVersion('ChangeEventLog')).toBe('1.1');
+        expect(registry.getCurrentVersion('CommitAnalysisLog')).toBe('1.0');
+    });
+
+    test('should accept current records unchanged', () => {
+        const event = createLoggedEvent({ range: { start: { line: 1, character: 0 }, end: { line: 1, character: 0 } } });
+        const result = registry.parse('ChangeEventLog', event);
+
+        expect(result).toEqual({ ok: true, record: event, migratedFrom: null });
+    });
+
+    test('should upgrade 1.0 change events to the current version', () => {
+        const result = registry.parse('ChangeEventLog', createLoggedEvent({ _version: '1.0' }));
+
+        expect(result.ok).toBe(true);
+        if (!result.ok) return;
+        expect(result.migratedFrom).toBe('1.0');
+        expect(result.record._version).toBe('1.1');
+        expect(result.record.position).toEqual({ line: 1, character: 0 });
+    });
+
+    test('should treat records without _version as 1.0', () => {
+        const { _version, ...unversioned } = createLoggedEvent();
+        const result = registry.parse('ChangeEventLog', unversioned);
+
+        expect(result.ok && result.migratedFrom).toBe('1.0');
+    });
+
+    test('should report every invalid field with its path', () => {
+        const result = registry.parse('ChangeEventLog', createLoggedEvent({
+            changeType: 'paste',
+            position: { line: '1', character: 0 },
+            sessionId: undefined
+        }));
+
+        expect(result.ok).toBe(false);
+        if (result.ok) return;
+        expect(result.version).toBe('1.1');
+        expect(result.errors).toEqual(expect.arrayContaining([
+            { path: 'sessionId', message: 'is required' },
+            { path: 'changeType', message: 'expected one of insert, delete, replace, got "paste"' },
+            { path: 'position.line', message: 'expected number, got string' }
+        ]));
+        expect(result.errors).toHaveLength(3);
+    });
+
+    test('should reject versions newer than the registry knows', () => {
+        const result = registry.parse('ChangeEventLog', createLoggedEvent({ _version: '2.0' }));
+
+        expect(result).toEqual({
+            ok: false,
+            version: '2.0',
+            errors: [{ path: '_version', message: 'unknown ChangeEventLog version "2.0"' }]
+        });
+    });
+
+    test('should report malformed JSON lines', () => {
+        const result = registry.parseLine('ChangeEventLog', '{"timestamp": 17');
+
+        expect(result.ok).toBe(false);
+        expect(!result.ok && result.errors[0].message).toMatch(/^invalid JSON/);
+    });
+
+    test('should validate other record types', () => {
+        const result = registry.validate('CommitAnalysisLog', {
+            commitId: 'abc',
+            timestamp: 1,
+            message: 'Add parser',
+            fileAnalysis: [{ uri: 'a.ts', linesChanged: 2, aiGeneratedLines: 1, humanWrittenLines: 1, reviewedLines: 'all' }],
+            commitMetrics: { totalLinesChanged: 2, aiContributionPercentage: 50, humanContributionPercentage: 50 },
+            commitQuality: { overallScore: 5, codeQualityIndicators: [], potentialIssues: [] },
+            developmentTimeline: [],
+            _loggedAt: 1,
+            _version: '1.0'
+        });
+
+        expect(result.valid).toBe(false);
+        expect(result.errors).toEqual([{ path: 'fileAnalysis[0].reviewedLines', message: 'expected number, got string' }]);
+    });
+
+    test('should chain migrations across several versions', () => {
+        const base = BUILTIN_LOG_SCHEMAS.find(schema => schema.type === 'CommitAnalysisLog')!;
+        const v2: LogSchema = { ...base, version: '2.0', fields: { ...base.fields, author: { type: 'string' } } };
+        const v10: LogSchema = { ...v2, version: '10.0' };
+
+        registry.registerSchema(v10).registerSchema(v2);
+        registry.registerMigration({
+            type: 'CommitAnalysisLog',
+            from: '1.0',
+            to: '2.0',
+            description: 'Adds author',
+            migrate: record => ({ ...record, author: 'unknown' })
+        });
+        registry.registerMigration({
+            type: 'CommitAnalysisLog',
+            from: '2.0',
+            to: '10.0',
+            description: 'Trims messages',
+            migrate: record => ({ ...record, message: record.message.trim() })
+        });
+
+        const result = registry.parse('CommitAnalysisLog', {
+            commitId: 'abc',
+            timestamp: 1,
+            message: ' Add parser ',
+            fileAnalysis: [],
+            commitMetrics: { totalLinesChanged: 0, aiContributionPercentage: 0, humanContributionPercentage: 0 },
+            commitQuality: { overallScore: 5, codeQualityIndicators: [], potentialIssues: [] },
+            developmentTimeline: [],
+            _loggedAt: 1,
+            _version: '1.0'
+        });
+
+        expect(registry.getCurrentVersion('CommitAnalysisLog')).toBe('10.0');
+        expect(result.ok && result.record).toMatchObject({ author: 'unknown', message: 'Add parser', _version: '10.0' });
+    });
+
+    test('should fail when a migration step is missing', () => {
+        const base = BUILTIN_LOG_SCHEMAS.find(schema => schema.type === 'SessionSummaryLog')!;
+        registry.registerSchema({ ...base, version: '2.0' });
+
+        const result = registry.parse('SessionSummaryLog', { _version: '1.0' });
+        expect(result.ok).toBe(false);
+
+        const valid = registry.parse('SessionSummaryLog', {
+            sessionId: 's',
+            startTime: 0,
+            endTime: 1,
+            duration: 1,
+            filesModified: [],
+            sessionMetrics: {},
+            developmentPatterns: { workflowType: 'mixed', aiToolIntegration: 'none', reviewThoroughness: 'standard' },
+            crossFilePatterns: {},
+            _loggedAt: 1,
+            _version: '1.0'
+        });
+        expect(!valid.ok && valid.errors[0].message).toBe('no migration from SessionSummaryLog version 1.0 to 2.0');
+    });
+
+    test('should reject duplicate schemas and invalid migrations', () => {
+        const schema = BUILTIN_LOG_SCHEMAS[0];
+        const migration = BUILTIN_LOG_MIGRATIONS[0];
+
+        expect(() => registry.registerSchema(schema)).toThrow('already registered');
+        expect(() => registry.registerMigration(migration)).toThrow('already has a migration');
+        expect(() => registry.registerMigration({ ...migration, from: '1.1', to: '1.0' })).toThrow('newer version');
+        expect(() => registry.registerMigration({ ...migration, to: '3.0' })).toThrow('unknown version');
+        expect(() => new LogSchemaRegistry().getCurrentVersion('ChangeEventLog')).toThrow('No schema registered');
+    });
+
+    test('should compare versions numerically', () => {
+        expect(compareVersions('1.10', '1.9')).toBeGreaterThan(0);
+        expect(compareVersions('1.0', '1')).toBe(0);
+        expect(compareVersions('1.0', '1.1')).toBeLessThan(0);
+    });
+});
+
+describe('validateFields', () => {
+    test('should check nested objects, arrays and nullability', () => {
+        const fields = {
+            tags: { type: 'array' as const, items: { type: 'string' as const } },
+            owner: { type: 'object' as const, nullable: true, fields: { name: { type: 'string' as const } } },
+            payload: { type: 'any' as const, optional: true }
+        };
+
+        expect(validateFields(fields, { tags: ['a'], owner: null })).toEqual([]);
+        expect(validateFields(fields, { tags: ['a', 2], owner: { name: 3 }, payload: [1] })).toEqual([
+            { path: 'tags[1]', message: 'expected string, got number' },
+            { path: 'owner.name', message: 'expected string, got number' }
+        ]);
+        expect(validateFields(fields, [])).toEqual([{ path: '', message: 'expected object, got array' }]);
+    });
+});
@@ -0,0 +1,99 @@
+import { DEFAULT_REVIEW_QUALITY_CONFIG, ReviewQualityEngine } from '../services/ReviewQualityEngine';
+import type { EnhancedChangeEvent } from '../types/ChangeEvent';
+
+describe('ReviewQualityEngine', () => {
+    const createMockEvent = (overrides: Partial<EnhancedChangeEvent> = {}): EnhancedChangeEvent => ({
+        timestamp: 0,
+        sessionId: 'test-session',
+        fileUri: 'test://file.ts',
+        eventId: 'test-event-' + Math.random(),
+        changeType: 'insert',
+        position: { line: 1, character: 0 },
+        contentLength: 10,
+        timeSinceLastChange: 1000,
+        timeSinceSessionStart: 5000,
+        timeSinceFileOpen: 10000,
+        source: 'live',
+        vsCodeActive: true,
+        cursorPosition: { line: 1, character: 0 },
+        instantTypingSpeed: 150,
+        rollingTypingSpeed: 140,
+        burstDetected: false,
+        pauseBeforeChange: 100,
+        isCodeBlock: false,
+        isComment: false,
+        isWhitespace: false,
+        languageConstruct: 'unknown',
+        indentationLevel: 0,
+        ...overrides
+    });
+
+    const engine = new ReviewQualityEngine();
+    const minute = 60 * 1000;
+
+    it('should return an immediate-commit assessment for empty input', () => {
+        const result = engine.assess([]);
+
+        expect(result.overallScore).toBe(0);
+        expect(result.qualityLevel).toBe('immediate-commit');
+    });
+
+    it('should score quick edits committed right away as immediate-commit', () => {
+        const changes = [
+            createMockEvent({ timestamp: 0 }),
+            createMockEvent({ timestamp: 1000 })
+        ];
+
+        const result = engine.assess(changes, { commitTime: 2000 });
+
+        expect(result.qualityLevel).toBe('immediate-commit');
+        expect(result.patterns.immediateCommit).toBe(true);
+    });
+
+    it('should reward long, paused, multi-session work', () => {
+        const changes = [
+            createMockEvent({ timestamp: 0 }),
+            createMockEvent({ timestamp: 10 * minute, timeSinceLastChange: 10 * minute, isComment: true }),
+            createMockEvent({ timestamp: 60 * minute, timeSinceLastChange: 50 * minute, contentLength: 5 }),
+            createMockEvent({ timestamp: 150 * minute, timeSinceLastChange: 90 * minute, contentLength: 3 })
+        ];
+
+        const result = engine.assessDetailed(changes, { commitTime: 170 * minute });
+
+        expect(result.timeMetrics.numberOfEditSessions).toBe(3);
+        expect(result.reviewIndicators.pausesForReflection).toBe(true);
+        expect(result.overallScore).toBeGreaterThan(5);
+        expect(result.qualityLevel).toBe(engine.getQualityLevel(result.overallScore));
+    });
+
+    it('should score against the configured thresholds', () => {
+        const changes = [
+            createMockEvent({ timestamp: 0 }),
+            createMockEvent({ timestamp: 20 * minute, timeSinceLastChange: 20 * minute, contentLength: 80 })
+        ];
+        const tuned = new ReviewQualityEngine({
+            time: { sessionGapMinutes: 15, longDevelopmentMinutes: 10 },
+            editPatterns: { refinementEditSize: 50 }
+        });
+
+        const before = engine.assessDetailed(changes);
+        const after = tuned.assessDetailed(changes);
+
+        expect(before.timeMetrics.numberOfEditSessions).toBe(1);
+        expect(after.timeMetrics.numberOfEditSessions).toBe(2);
+        expect(after.breakdown.timeInvestmentScore).toBe(before.breakdown.timeInvestmentScore + 1);
+        expect(before.editPatterns.refinementEdits).toBe(1);
+        expect(after.editPatterns.refinementEdits).toBe(0);
+        expect(tuned.getConfig().time.reflectionPauseSeconds).toBe(DEFAULT_REVIEW_QUALITY_CONFIG.time.reflectionPauseSeconds);
+
+        tuned.setConfig({});
+        expect(tuned.assessDetailed(changes)).toEqual(before);
+    });
+
+    it('should map scores to quality levels', () => {
+        expect(engine.getQualityLevel(2)).toBe('immediate-commit');
+        expect(engine.getQualityLevel(5)).toBe('light-review');
+        expect(engine.getQualityLevel(8)).toBe('thorough-review');
+        expect(engine.getQualityLevel(9)).toBe('extensive-review');
+    });
+});
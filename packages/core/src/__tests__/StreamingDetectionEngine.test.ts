@@ -0,0 +1,211 @@
+import { AIDetectionEngine, DEFAULT_AI_DETECTION_CONFIG } from '../services/AIDetectionEngine';
+import { HeuristicRegistry } from '../services/HeuristicRegistry';
+import { BUILTIN_HEURISTICS } from '../services/BuiltinHeuristics';
+import { StreamingDetectionEngine, streamKeyByFileAndSession } from '../services/StreamingDetectionEngine';
+import type { Heuristic } from '../types/Heuristic';
+import type { EnhancedChangeEvent } from '../types/ChangeEvent';
+
+describe('StreamingDetectionEngine', () => {
+    const fileUri = 'test://file.ts';
+
+    it('should match the batch engine after every event', () => {
+        const events = createMixedSession();
+        const batch = new AIDetectionEngine();
+        const streaming = new StreamingDetectionEngine();
+
+        events.forEach((event, index) => {
+            streaming.push(event);
+            expect(streaming.getResult(fileUri)).toEqual(batch.analyzeDetailed(events.slice(0, index + 1)));
+        });
+    });
+
+    it('should return null for streams without events', () => {
+        const streaming = new StreamingDetectionEngine();
+
+        expect(streaming.has(fileUri)).toBe(false);
+        expect(streaming.getAttribution(fileUri)).toBeNull();
+        expect(streaming.getResult(fileUri)).toBeNull();
+        expect(streaming.getEvents(fileUri)).toEqual([]);
+    });
+
+    it('should keep a separate stream per file', () => {
+        const streaming = new StreamingDetectionEngine();
+        const bulk = createMockChangeEvent({ fileUri: 'test://a.ts', contentLength: 400, timeSinceLastChange: 20 });
+        const typed = createMockChangeEvent({ fileUri: 'test://b.ts', contentLength: 1, instantTypingSpeed: 120 });
+
+        expect(streaming.push(bulk)).toBe('test://a.ts');
+        expect(streaming.push(typed)).toBe('test://b.ts');
+
+        expect(streaming.keys()).toEqual(['test://a.ts', 'test://b.ts']);
+        expect(streaming.getEvents('test://a.ts')).toEqual([bulk]);
+        expect(streaming.getAttribution('test://a.ts')!.evidence.bulkChangePattern).toBe(true);
+        expect(streaming.getAttribution('test://b.ts')!.evidence.bulkChangePattern).toBe(false);
+    });
+
+    it('should key streams by file and session when asked to', () => {
+        const streaming = new StreamingDetectionEngine(DEFAULT_AI_DETECTION_CONFIG, undefined, streamKeyByFileAndSession);
+
+        streaming.push(createMockChangeEvent({ sessionId: 'one' }));
+        streaming.push(createMockChangeEvent({ sessionId: 'two' }));
+
+        expect(streaming.keys()).toEqual([`one:${fileUri}`, `two:${fileUri}`]);
+    });
+
+    it('should cache the result until the next event', () => {
+        const streaming = new StreamingDetectionEngine();
+        streaming.push(createMockChangeEvent());
+
+        const first = streaming.getResult(fileUri);
+        expect(streaming.getResult(fileUri)).toBe(first);
+
+        streaming.push(createMockChangeEvent({ timestamp: 2000 }));
+        expect(streaming.getResult(fileUri)).not.toBe(first);
+    });
+
+    it('should rebuild streams when the configuration changes', () => {
+        const events = createMixedSession();
+        const streaming = new StreamingDetectionEngine();
+        streaming.pushAll(events);
+
+        const thresholds = { ...DEFAULT_AI_DETECTION_CONFIG.thresholds, bulkInsertionSize: 20 };
+        streaming.updateConfig({ thresholds });
+
+        const expected = new AIDetectionEngine({ ...DEFAULT_AI_DETECTION_CONFIG, thresholds }).analyzeDetailed(events);
+        expect(streaming.getResult(fileUri)).toEqual(expected);
+        expect(streaming.getConfig().thresholds.bulkInsertionSize).toBe(20);
+    });
+
+    it('should drop streams on reset', () => {
+        const streaming = new StreamingDetectionEngine();
+        streaming.push(createMockChangeEvent({ fileUri: 'test://a.ts' }));
+        streaming.push(createMockChangeEvent({ fileUri: 'test://b.ts' }));
+
+        streaming.reset('test://a.ts');
+        expect(streaming.keys()).toEqual(['test://b.ts']);
+
+        streaming.reset();
+        expect(streaming.keys()).toEqual([]);
+    });
+
+    it('should re-evaluate heuristics that have no accumulator', () => {
+        const evaluate = jest.fn((changes: EnhancedChangeEvent[]) => ({
+            score: changes.length / 10,
+            input: { count: changes.length },
+            reasoning: `${changes.length} changes`
+        }));
+        const countHeuristic: Heuristic = {
+            id: 'countScore',
+            label: 'Count',
+            description: 'Scores by number of changes',
+            traceStep: 'count-analysis',
+            defaultWeight: 0.1,
+            thresholds: [],
+            evaluate
+        };
+        const registry = new HeuristicRegistry([...BUILTIN_HEURISTICS, countHeuristic]);
+        const streaming = new StreamingDetectionEngine(DEFAULT_AI_DETECTION_CONFIG, registry);
+
+        streaming.pushAll([createMockChangeEvent(), createMockChangeEvent({ timestamp: 2000 })]);
+
+        expect(streaming.getResult(fileUri)!.heuristicScores.countScore).toBeCloseTo(0.2);
+        // Once for each event's own score and once for the sequence
+        expect(evaluate).toHaveBeenCalledTimes(3);
+    });
+
+    it('should score each event on its own only once', () => {
+        const evaluate = jest.fn(() => ({ score: 0, input: {}, reasoning: '' }));
+        const registry = new HeuristicRegistry([{
+            id: 'countScore',
+            label: 'Count',
+            description: 'Scores nothing',
+            traceStep: 'count-analysis',
+            defaultWeight: 0,
+            thresholds: [],
+            evaluate
+        }]);
+        const streaming = new StreamingDetectionEngine(DEFAULT_AI_DETECTION_CONFIG, registry);
+
+        streaming.push(createMockChangeEvent());
+        streaming.getEventScores(fileUri);
+        streaming.push(createMockChangeEvent({ timestamp: 2000 }));
+        const scores = streaming.getEventScores(fileUri);
+
+        expect(scores.map(score => score.timestamp)).toEqual([1000, 2000]);
+        expect(evaluate).toHaveBeenCalledTimes(2);
+    });
+
+    it('should score each event in constant time', () => {
+        const streaming = new StreamingDetectionEngine();
+        const start = Date.now();
+
+        for (let i = 0; i < 20000; i++) {
+            streaming.push(createMockChangeEvent({
+                timestamp: i * 500,
+                contentLength: i % 50 === 0 ? 300 : 1,
+                instantTypingSpeed: 120
+            }));
+            streaming.getAttribution(fileUri);
+        }
+
+        expect(streaming.getEvents(fileUri)).toHaveLength(20000);
+        expect(Date.now() - start).toBeLessThan(2000);
+    });
+});
+
+// Typed edits, a bulk paste, a tool edit and pauses, so every piece of evidence is exercised
+function createMixedSession(): EnhancedChangeEvent[] {
+    return [
+        createMockChangeEvent({ timestamp: 1000, contentLength: 1, instantTypingSpeed: 120, isComment: true }),
+        createMockChangeEvent({ timestamp: 1200, contentLength: 2, instantTypingSpeed: 180, burstDetected: true, content: 'ab' }),
+        createMockChangeEvent({
+            timestamp: 25000,
+            contentLength: 320,
+            timeSinceLastChange: 40,
+            isCodeBlock: true,
+            languageConstruct: 'function',
+            indentationLevel: 4,
+            content: 'function generated() {\n' + '    return 1;\n'.repeat(22) + '}'
+        }),
+        createMockChangeEvent({
+            timestamp: 400000,
+            contentLength: 250,
+            timeSinceLastChange: 45000,
+            languageConstruct: 'class',
+            externalToolSignature: {
+                detected: true,
+                toolType: 'claude-code',
+                confidence: 0.9,
+                indicators: ['bulk-insertion', 'claude-code-pattern']
+            }
+        }),
+        createMockChangeEvent({ timestamp: 400050, contentLength: 0, changeType: 'delete', timeSinceLastChange: 50, instantTypingSpeed: 0 })
+    ];
+}
+
+function createMockChangeEvent(overrides: Partial<EnhancedChangeEvent> = {}): EnhancedChangeEvent {
+    return {
+        timestamp: 1000,
+        sessionId: 'test-session',
+        fileUri: 'test://file.ts',
+        eventId: 'test-event-' + Math.random(),
+        changeType: 'insert',
+        position: { line: 1, character: 0 },
+        contentLength: 50,
+        timeSinceLastChange: 1000,
+        timeSinceSessionStart: 5000,
+        timeSinceFileOpen: 10000,
+        source: 'live',
+        vsCodeActive: true,
+        cursorPosition: { line: 1, character: 0 },
+        instantTypingSpeed: 150,
+        rollingTypingSpeed: 140,
+        burstDetected: false,
+        pauseBeforeChange: 100,
+        isCodeBlock: false,
+        isComment: false,
+        isWhitespace: false,
+        languageConstruct: 'unknown',
+        indentationLevel: 0,
+        ...overrides
+    };
+}
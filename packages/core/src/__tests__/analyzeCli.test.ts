@@ -0,0 +1,223 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { gzipSync } from 'zlib';
+import { runAnalyze } from '../cli/analyze';
+import { readChangeEvents, toRelativeFilePath } from '../cli/changeEventLog';
+import { loadConfig } from '../cli/config';
+import { buildAttributionReport, findThresholdViolations, formatReport } from '../cli/report';
+import { DEFAULT_AI_DETECTION_CONFIG } from '../services/AIDetectionEngine';
+import type { EnhancedChangeEvent } from '../types/ChangeEvent';
+
+describe('analyze command', () => {
+    let workspace: string;
+
+    const createMockEvent = (overrides: Partial<EnhancedChangeEvent> = {}): EnhancedChangeEvent => ({
+        timestamp: 1700000000000,
+        sessionId: 'session-a',
+        fileUri: pathToFileURL(path.join(workspace, 'src', 'app.ts')).href,
+        eventId: 'test-event-' + Math.random(),
+        changeType: 'insert',
+        position: { line: 1, character: 0 },
+        contentLength: 10,
+        timeSinceLastChange: 200,
+        timeSinceSessionStart: 5000,
+        timeSinceFileOpen: 10000,
+        source: 'live',
+        vsCodeActive: true,
+        cursorPosition: { line: 1, character: 0 },
+        instantTypingSpeed: 5,
+        rollingTypingSpeed: 5,
+        burstDetected: false,
+        pauseBeforeChange: 200,
+        isCodeBlock: false,
+        isComment: false,
+        isWhitespace: false,
+        languageConstruct: 'unknown',
+        indentationLevel: 0,
+        ...overrides
+    });
+
+    // A large instant paste scores as AI, a slow keystroke as human
+    const pasteEvent = (overrides: Partial<EnhancedChangeEvent> = {}) => createMockEvent({
+        contentLength: 800,
+        instantTypingSpeed: 5000,
+        rollingTypingSpeed: 4000,
+        burstDetected: true,
+        isCodeBlock: true,
+        languageConstruct: 'function',
+        timeSinceLastChange: 50,
+        pauseBeforeChange: 50,
+        ...overrides
+    });
+
+    const toLog = (events: EnhancedChangeEvent[]) =>
+        events.map(e => JSON.stringify({ ...e, _loggedAt: e.timestamp, _version: '1.0' })).join('\n') + '\n';
+
+    const writeEvents = (events: EnhancedChangeEvent[], filename = 'change-events.jsonl', compress = false) => {
+        const logDirectory = path.join(workspace, '.vscode', 'ai-code-analyzer');
+        fs.mkdirSync(logDirectory, { recursive: true });
+        fs.writeFileSync(path.join(logDirectory, filename), compress ? gzipSync(toLog(events)) : toLog(events));
+    };
+
+    beforeEach(() => {
+        workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'quantifai-analyze-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(workspace, { recursive: true, force: true });
+    });
+
+    test('should group attribution per file and per session', () => {
+        const otherFile = pathToFileURL(path.join(workspace, 'src', 'util.ts')).href;
+        const events = [
+            pasteEvent({ timestamp: 1700000000000 }),
+            createMockEvent({ timestamp: 1700000001000, fileUri: otherFile, sessionId: 'session-b' }),
+            createMockEvent({ timestamp: 1700000002000, fileUri: otherFile, sessionId: 'session-b' })
+        ];
+
+        const report = buildAttributionReport(events, DEFAULT_AI_DETECTION_CONFIG);
+
+        expect(report.overall.events).toBe(3);
+        expect(report.files.map(row => [row.key, row.events])).toEqual([
+            [events[0].fileUri, 1],
+            [otherFile, 2]
+        ]);
+        expect(report.sessions.map(row => row.key)).toEqual(['session-a', 'session-b']);
+        expect(report.files[0].aiProbability).toBeGreaterThan(report.files[1].aiProbability);
+        expect(report.overall.startTime).toBe(1700000000000);
+        expect(report.overall.endTime).toBe(1700000002000);
+    });
+
+    test('should report thresholds the attribution exceeds', () => {
+        const report = buildAttributionReport([pasteEvent()], DEFAULT_AI_DETECTION_CONFIG, () => 'src/app.ts');
+        const aiProbability = report.overall.aiProbability;
+
+        expect(findThresholdViolations(report, {})).toEqual([]);
+        expect(findThresholdViolations(report, { maxAIProbability: 1 })).toEqual([]);
+
+        const violations = findThresholdViolations(report, {
+            maxAIProbability: aiProbability / 2,
+            maxFileAIProbability: aiProbability / 2
+        });
+        expect(violations).toHaveLength(2);
+        expect(violations[1]).toMatch(/^src\/app\.ts: AI probability/);
+    });
+
+    test('should format the report as csv, json and tables', () => {
+        const report = buildAttributionReport(
+            [pasteEvent()],
+            DEFAULT_AI_DETECTION_CONFIG,
+            () => 'src/a,b.ts'
+        );
+
+        const csv = formatReport(report, 'csv').trim().split('\n');
+        expect(csv[0]).toBe('scope,key,events,source,aiProbability,confidence,startTime,endTime');
+        expect(csv[1]).toMatch(/^overall,all,1,/);
+        expect(csv[2]).toMatch(/^file,"src\/a,b\.ts",1,/);
+        expect(csv.some(line => line.startsWith('session,session-a,1,'))).toBe(true);
+
+        expect(JSON.parse(formatReport(report, 'json'))).toEqual(report);
+
+        const table = formatReport(report, 'table');
+        expect(table).toContain('Overall\n  Key');
+        expect(table).toContain('Files\n');
+        expect(table).toContain('src/a,b.ts');
+    });
+
+    test('should read the workspace log and apply a partial config file', async () => {
+        writeEvents([
+            pasteEvent({ timestamp: 1700000000000 }),
+            createMockEvent({ timestamp: 1700000030000 }),
+            createMockEvent({ timestamp: 1700000090000 })
+        ]);
+        const configFile = path.join(workspace, 'detection.json');
+        fs.writeFileSync(configFile, JSON.stringify({ bucketConfig: { intervalMinutes: 0.25 } }));
+
+        const result = await runAnalyze({
+            workspace,
+            configFile,
+            format: 'json',
+            thresholds: { maxFileAIProbability: 0 }
+        });
+
+        const report = JSON.parse(result.output);
+        expect(report.files.map((row: { key: string }) => row.key)).toEqual(['src/app.ts']);
+        expect(report.buckets.length).toBeGreaterThan(1);
+        expect(result.violations).toHaveLength(1);
+    });
+
+    test('should report redacted paths relative to the workspace and warn about hashed ones', async () => {
+        writeEvents([
+            pasteEvent({ timestamp: 1700000000000, fileUri: 'src/app.ts' }),
+            createMockEvent({ timestamp: 1700000001000 }),
+            createMockEvent({ timestamp: 1700000002000, fileUri: 'redacted:0123456789abcdef.ts' })
+        ]);
+
+        const result = await runAnalyze({ workspace, format: 'json', thresholds: {} });
+
+        const report = JSON.parse(result.output);
+        expect(report.files.map((row: { key: string; events: number }) => [row.key, row.events]).sort()).toEqual([
+            ['redacted:0123456789abcdef.ts', 1],
+            ['src/app.ts', 2]
+        ]);
+        expect(result.warnings).toEqual([
+            expect.stringMatching(/^1 of 3 change events have hashed file paths .* per-file analysis is unavailable/)
+        ]);
+        expect(toRelativeFilePath('../outside.ts', workspace)).toBeNull();
+    });
+
+    test('should read gzip and legacy archives alongside the active log', async () => {
+        writeEvents([createMockEvent({ timestamp: 1000 })], 'change-events.jsonl.2000.archive');
+        writeEvents([createMockEvent({ timestamp: 3000 })], 'change-events.4000.jsonl.gz', true);
+        writeEvents([createMockEvent({ timestamp: 5000 })]);
+
+        const logDirectory = path.join(workspace, '.vscode', 'ai-code-analyzer');
+
+        expect((await readChangeEvents(logDirectory)).map(e => e.timestamp)).toEqual([1000, 3000, 5000]);
+        expect((await readChangeEvents(logDirectory, 2500)).map(e => e.timestamp)).toEqual([3000, 5000]);
+    });
+
+    test('should layer the config file over the workspace .quantifai.json', async () => {
+        writeEvents([createMockEvent()]);
+        fs.writeFileSync(path.join(workspace, '.quantifai.json'), JSON.stringify({
+            thresholds: { fastTypingSpeed: 450, pasteTimeThreshold: 50 }
+        }));
+        const configFile = path.join(workspace, 'detection.json');
+        fs.writeFileSync(configFile, JSON.stringify({ thresholds: { fastTypingSpeed: 500 } }));
+
+        expect((await loadConfig(workspace, configFile)).thresholds).toEqual({
+            ...DEFAULT_AI_DETECTION_CONFIG.thresholds,
+            fastTypingSpeed: 500,
+            pasteTimeThreshold: 50
+        });
+        expect((await loadConfig(workspace)).thresholds.fastTypingSpeed).toBe(450);
+    });
+
+    test('should apply the config saved from the dashboard over .quantifai.json', async () => {
+        writeEvents([createMockEvent()]);
+        fs.writeFileSync(path.join(workspace, '.quantifai.json'), JSON.stringify({
+            thresholds: { fastTypingSpeed: 450, pasteTimeThreshold: 50 }
+        }));
+        fs.writeFileSync(path.join(workspace, '.vscode', 'ai-code-analyzer', 'config.json'), JSON.stringify({
+            thresholds: { fastTypingSpeed: 600 }
+        }));
+        const configFile = path.join(workspace, 'detection.json');
+        fs.writeFileSync(configFile, JSON.stringify({ thresholds: { pasteTimeThreshold: 80 } }));
+
+        const config = await loadConfig(workspace, configFile);
+
+        expect(config.thresholds.fastTypingSpeed).toBe(600);
+        expect(config.thresholds.pasteTimeThreshold).toBe(80);
+    });
+
+    test('should reject config files that fail validation', async () => {
+        writeEvents([createMockEvent()]);
+        const configFile = path.join(workspace, 'detection.json');
+        fs.writeFileSync(configFile, JSON.stringify({ weights: { typingSpeedScore: 5 } }));
+
+        await expect(runAnalyze({ workspace, configFile, format: 'table', thresholds: {} }))
+            .rejects.toThrow(/Invalid AIDetectionConfig:\nweights\.typingSpeedScore must be between 0 and 1/);
+    });
+});
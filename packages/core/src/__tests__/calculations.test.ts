@@ -11,7 +11,9 @@ import {
     findOutliers,
     calculateRollingAverage,
     normalizeValues,
-    calculateCorrelation
+    calculateCorrelation,
+    calculatePercentile,
+    calculateWeightedMean
 } from '../utils/calculations';
 import type { EnhancedChangeEvent } from '../types/ChangeEvent';
 
@@ -363,4 +365,31 @@ describe('calculation utilities', () => {
             expect(correlation).toBe(0);
         });
     });
+
+    describe('calculatePercentile', () => {
+        it('should interpolate between ranks', () => {
+            const values = [40, 10, 30, 20];
+
+            expect(calculatePercentile(values, 0)).toBe(10);
+            expect(calculatePercentile(values, 50)).toBe(25);
+            expect(calculatePercentile(values, 90)).toBeCloseTo(37);
+            expect(calculatePercentile(values, 100)).toBe(40);
+        });
+
+        it('should clamp the percentile and handle empty arrays', () => {
+            expect(calculatePercentile([1, 2], 150)).toBe(2);
+            expect(calculatePercentile([], 50)).toBe(0);
+        });
+    });
+
+    describe('calculateWeightedMean', () => {
+        it('should weight each value', () => {
+            expect(calculateWeightedMean([0, 1], [1, 3])).toBe(0.75);
+        });
+
+        it('should fall back to the mean when all weights are zero', () => {
+            expect(calculateWeightedMean([0, 1], [0, 0])).toBe(0.5);
+            expect(calculateWeightedMean([], [])).toBe(0);
+        });
+    });
 });
@@ -0,0 +1,155 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { analyzeStagedChanges, installHook, prepareCommitMessage, uninstallHook } from '../cli/commitHook';
+import type { EnhancedChangeEvent } from '../types/ChangeEvent';
+
+describe('commit hook', () => {
+    let repo: string;
+
+    const run = (...args: string[]) => execFileSync('git', args, { cwd: repo, encoding: 'utf8' });
+
+    const createMockEvent = (overrides: Partial<EnhancedChangeEvent> = {}): EnhancedChangeEvent => ({
+        timestamp: Date.now() + 1000,
+        sessionId: 'test-session',
+        fileUri: pathToFileURL(path.join(repo, 'app.ts')).href,
+        eventId: 'test-event-' + Math.random(),
+        changeType: 'insert',
+        position: { line: 1, character: 0 },
+        contentLength: 400,
+        timeSinceLastChange: 50,
+        timeSinceSessionStart: 5000,
+        timeSinceFileOpen: 10000,
+        source: 'live',
+        vsCodeActive: true,
+        cursorPosition: { line: 1, character: 0 },
+        instantTypingSpeed: 5000,
+        rollingTypingSpeed: 4000,
+        burstDetected: true,
+        pauseBeforeChange: 50,
+        isCodeBlock: true,
+        isComment: false,
+        isWhitespace: false,
+        languageConstruct: 'function',
+        indentationLevel: 0,
+        ...overrides
+    });
+
+    const writeEvents = (events: EnhancedChangeEvent[]) => {
+        const logDirectory = path.join(repo, '.vscode', 'ai-code-analyzer');
+        fs.mkdirSync(logDirectory, { recursive: true });
+        fs.writeFileSync(
+            path.join(logDirectory, 'change-events.jsonl'),
+            events.map(e => JSON.stringify({ ...e, _loggedAt: e.timestamp, _version: '1.0' })).join('\n') + '\n'
+        );
+    };
+
+    const savedEnv = { ...process.env };
+
+    beforeAll(() => {
+        // Config passed through the environment would override the test repository's own
+        for (const key of Object.keys(process.env)) {
+            if (key.startsWith('GIT_CONFIG_')) delete process.env[key];
+        }
+    });
+
+    afterAll(() => {
+        process.env = savedEnv;
+    });
+
+    beforeEach(() => {
+        repo = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'quantifai-hook-')));
+        run('init', '-q');
+        run('config', 'user.email', 'dev@example.com');
+        run('config', 'user.name', 'Dev');
+        run('config', 'commit.gpgsign', 'false');
+        // Isolate from any global core.hooksPath
+        run('config', 'core.hooksPath', '.git/hooks');
+        fs.writeFileSync(path.join(repo, 'app.ts'), 'export const a = 1;\n');
+        run('add', 'app.ts');
+        run('commit', '-q', '-m', 'Initial commit');
+    });
+
+    afterEach(() => {
+        fs.rmSync(repo, { recursive: true, force: true });
+    });
+
+    it('should return null when nothing is staged', async () => {
+        expect(await analyzeStagedChanges({ cwd: repo })).toBeNull();
+    });
+
+    it('should match logged events to the staged file', async () => {
+        fs.appendFileSync(path.join(repo, 'app.ts'), 'export function b() {\n    return 2;\n}\n');
+        run('add', 'app.ts');
+        writeEvents([createMockEvent()]);
+
+        const staged = await analyzeStagedChanges({ cwd: repo });
+
+        expect(staged?.hasRecordedActivity).toBe(true);
+        expect(staged?.files[0].events).toHaveLength(1);
+        expect(staged?.analysis.fileAnalysis[0].uri).toBe('app.ts');
+        expect(staged?.analysis.commitMetrics.aiContributionPercentage).toBeGreaterThan(0);
+    });
+
+    it('should match events whose paths were redacted when logged', async () => {
+        fs.appendFileSync(path.join(repo, 'app.ts'), 'export const b = 2;\n');
+        run('add', 'app.ts');
+        writeEvents([
+            createMockEvent({ fileUri: 'app.ts' }),
+            createMockEvent({ fileUri: 'redacted:0123456789abcdef.ts' })
+        ]);
+
+        const staged = await analyzeStagedChanges({ cwd: repo });
+
+        expect(staged?.files[0].events).toHaveLength(1);
+        expect(staged?.warnings).toEqual([expect.stringMatching(/^1 of 2 change events have hashed file paths/)]);
+    });
+
+    it('should append trailers to the commit message file', async () => {
+        fs.appendFileSync(path.join(repo, 'app.ts'), 'export const b = 2;\n');
+        run('add', 'app.ts');
+        writeEvents([createMockEvent()]);
+        const messageFile = path.join(repo, '.git', 'COMMIT_EDITMSG');
+        fs.writeFileSync(messageFile, 'Add b\n');
+
+        const trailers = await prepareCommitMessage(messageFile, 'message', { cwd: repo });
+        const message = fs.readFileSync(messageFile, 'utf8');
+
+        expect(trailers).toHaveLength(2);
+        expect(message).toMatch(/^Add b\n\nAI-Contribution: \d+%\nReview-Quality: [a-z-]+\n$/);
+
+        // Running again replaces rather than duplicates the trailers
+        await prepareCommitMessage(messageFile, 'message', { cwd: repo });
+        expect(fs.readFileSync(messageFile, 'utf8')).toBe(message);
+    });
+
+    it('should leave the message alone without recorded activity or for amends', async () => {
+        fs.appendFileSync(path.join(repo, 'app.ts'), 'export const b = 2;\n');
+        run('add', 'app.ts');
+        const messageFile = path.join(repo, '.git', 'COMMIT_EDITMSG');
+        fs.writeFileSync(messageFile, 'Add b\n');
+
+        expect(await prepareCommitMessage(messageFile, 'message', { cwd: repo })).toEqual([]);
+
+        writeEvents([createMockEvent()]);
+        expect(await prepareCommitMessage(messageFile, 'commit', { cwd: repo })).toEqual([]);
+        expect(fs.readFileSync(messageFile, 'utf8')).toBe('Add b\n');
+    });
+
+    it('should install and uninstall the hook without touching foreign hooks', async () => {
+        const hookPath = await installHook({ cwd: repo });
+        expect(fs.readFileSync(hookPath, 'utf8')).toContain('prepare-commit-msg "$@"');
+        expect(fs.statSync(hookPath).mode & 0o111).not.toBe(0);
+
+        // Reinstalling over our own hook is fine
+        await expect(installHook({ cwd: repo })).resolves.toBe(hookPath);
+        expect(await uninstallHook(repo)).toBe(true);
+
+        fs.writeFileSync(hookPath, '#!/bin/sh\necho custom\n');
+        await expect(installHook({ cwd: repo })).rejects.toThrow('already exists');
+        expect(await uninstallHook(repo)).toBe(false);
+        await expect(installHook({ cwd: repo, force: true })).resolves.toBe(hookPath);
+    });
+});
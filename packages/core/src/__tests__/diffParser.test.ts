@@ -0,0 +1,109 @@
+import { parseUnifiedDiff } from '../utils/diffParser';
+
+describe('parseUnifiedDiff', () => {
+    it('should parse added and deleted line numbers from zero-context hunks', () => {
+        const diff = [
+            'diff --git a/src/app.ts b/src/app.ts',
+            'index 83db48f..bf269f4 100644',
+            '--- a/src/app.ts',
+            '+++ b/src/app.ts',
+            '@@ -3 +3,2 @@ export function main() {',
+            '-    return 1;',
+            '+    const value = 2;',
+            '+    return value;',
+            '@@ -10,0 +12 @@',
+            '+// trailing comment',
+            ''
+        ].join('\n');
+
+        const [file] = parseUnifiedDiff(diff);
+
+        expect(file.path).toBe('src/app.ts');
+        expect(file.status).toBe('modified');
+        expect(file.linesAdded).toBe(3);
+        expect(file.linesDeleted).toBe(1);
+        expect(file.hunks).toHaveLength(2);
+        expect(file.hunks[0]).toEqual({
+            oldStart: 3,
+            oldLines: 1,
+            newStart: 3,
+            newLines: 2,
+            addedLines: [3, 4],
+            deletedLines: [3]
+        });
+        expect(file.hunks[1].addedLines).toEqual([12]);
+    });
+
+    it('should track line numbers across context lines', () => {
+        const diff = [
+            'diff --git a/a.ts b/a.ts',
+            '--- a/a.ts',
+            '+++ b/a.ts',
+            '@@ -1,3 +1,4 @@',
+            ' first',
+            '+inserted',
+            ' second',
+            '-third',
+            '+replaced',
+            '\\ No newline at end of file'
+        ].join('\n');
+
+        const [file] = parseUnifiedDiff(diff);
+
+        expect(file.hunks[0].addedLines).toEqual([2, 4]);
+        expect(file.hunks[0].deletedLines).toEqual([3]);
+    });
+
+    it('should detect added, deleted, renamed and binary files', () => {
+        const diff = [
+            'diff --git a/new.ts b/new.ts',
+            'new file mode 100644',
+            'index 0000000..e69de29',
+            '--- /dev/null',
+            '+++ b/new.ts',
+            '@@ -0,0 +1,2 @@',
+            '+a',
+            '+b',
+            'diff --git a/old.ts b/old.ts',
+            'deleted file mode 100644',
+            '--- a/old.ts',
+            '+++ /dev/null',
+            '@@ -1 +0,0 @@',
+            '-gone',
+            'diff --git a/before.ts b/after.ts',
+            'similarity index 100%',
+            'rename from before.ts',
+            'rename to after.ts',
+            'diff --git a/logo.png b/logo.png',
+            'Binary files a/logo.png and b/logo.png differ'
+        ].join('\n');
+
+        const files = parseUnifiedDiff(diff);
+
+        expect(files.map(f => f.status)).toEqual(['added', 'deleted', 'renamed', 'modified']);
+        expect(files[0].oldPath).toBeNull();
+        expect(files[0].linesAdded).toBe(2);
+        expect(files[1].newPath).toBeNull();
+        expect(files[1].path).toBe('old.ts');
+        expect(files[2].oldPath).toBe('before.ts');
+        expect(files[2].path).toBe('after.ts');
+        expect(files[3].isBinary).toBe(true);
+    });
+
+    it('should decode quoted paths', () => {
+        const diff = [
+            'diff --git "a/my file.ts" "b/my file.ts"',
+            '--- "a/my file.ts"',
+            '+++ "b/my file.ts"',
+            '@@ -1 +1 @@',
+            '-x',
+            '+y'
+        ].join('\n');
+
+        expect(parseUnifiedDiff(diff)[0].path).toBe('my file.ts');
+    });
+
+    it('should return no files for empty input', () => {
+        expect(parseUnifiedDiff('')).toEqual([]);
+    });
+});
@@ -0,0 +1,67 @@
+import {
+    getArchiveFileName,
+    isCompressedLogFile,
+    parseArchiveFileName,
+    selectExpiredArchives
+} from '../utils/logArchives';
+
+describe('log archives', () => {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+
+    it('should name gzip archives after the log and rotation time', () => {
+        const name = getArchiveFileName('change-events.jsonl', 1700000000000);
+
+        expect(name).toBe('change-events.1700000000000.jsonl.gz');
+        expect(isCompressedLogFile(name)).toBe(true);
+        expect(parseArchiveFileName('change-events.jsonl', name)).toEqual({
+            name,
+            rotatedAt: 1700000000000,
+            compressed: true
+        });
+    });
+
+    it('should recognize uncompressed archives from earlier versions', () => {
+        expect(parseArchiveFileName('change-events.jsonl', 'change-events.jsonl.1700000000000.archive')).toEqual({
+            name: 'change-events.jsonl.1700000000000.archive',
+            rotatedAt: 1700000000000,
+            compressed: false
+        });
+    });
+
+    it('should ignore other files', () => {
+        expect(parseArchiveFileName('change-events.jsonl', 'change-events.jsonl')).toBeNull();
+        expect(parseArchiveFileName('change-events.jsonl', 'debug-traces.1700000000000.jsonl.gz')).toBeNull();
+        expect(parseArchiveFileName('change-events.jsonl', 'change-events.latest.jsonl.gz')).toBeNull();
+    });
+
+    describe('selectExpiredArchives', () => {
+        const now = 1000 * DAY_MS;
+        const archive = (ageDays: number, sizeMB = 1) => ({
+            rotatedAt: now - ageDays * DAY_MS,
+            size: sizeMB * 1024 * 1024
+        });
+
+        it('should expire archives older than the maximum age', () => {
+            const archives = [archive(10), archive(40), archive(20)];
+
+            expect(selectExpiredArchives(archives, { maxAgeDays: 30 }, now)).toEqual([archives[1]]);
+        });
+
+        it('should keep the newest archives within the count limit', () => {
+            const archives = [archive(3), archive(1), archive(2)];
+
+            expect(selectExpiredArchives(archives, { maxArchives: 2 }, now)).toEqual([archives[0]]);
+        });
+
+        it('should keep the newest archives within the total size', () => {
+            const archives = [archive(1, 4), archive(2, 4), archive(3, 1)];
+
+            // The oldest archive would still fit, but history is not kept with gaps
+            expect(selectExpiredArchives(archives, { maxTotalSizeMB: 5 }, now)).toEqual([archives[1], archives[2]]);
+        });
+
+        it('should keep everything without limits', () => {
+            expect(selectExpiredArchives([archive(5000, 500)], {}, now)).toEqual([]);
+        });
+    });
+});
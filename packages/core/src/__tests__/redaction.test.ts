@@ -0,0 +1,153 @@
+import { createHash } from 'crypto';
+import { sha256Hex } from '../utils/hash';
+import { LogRedactor, REDACTED_PREFIX } from '../utils/redaction';
+import type { AIDetectionMetricsLog } from '../types/AIDetection';
+
+describe('sha256Hex', () => {
+    it('should match the standard test vectors', () => {
+        expect(sha256Hex('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+        expect(sha256Hex('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+
+    it('should hash multi-block and non-ASCII input like Node', () => {
+        for (const text of ['a'.repeat(55), 'a'.repeat(56), 'x'.repeat(1000), 'Grüße 👋 /home/jürgen']) {
+            expect(sha256Hex(text)).toBe(createHash('sha256').update(text, 'utf8').digest('hex'));
+        }
+    });
+});
+
+describe('LogRedactor', () => {
+    const record = {
+        timestamp: 1700000012345,
+        sessionId: 'session-1700000000000',
+        fileUri: 'file:///home/alice/project/src/app.ts',
+        content: 'const secret = 1;',
+        contentLength: 17,
+        evidence: {
+            editTimeline: [{ timestamp: 1700000001999, editType: 'insert' }]
+        },
+        _loggedAt: 1700000012345
+    };
+
+    it('should only remove content by default', () => {
+        const { content: _content, ...expected } = record;
+
+        expect(new LogRedactor().redact(record)).toEqual(expected);
+    });
+
+    it('should remove content nested in evidence and trace steps', () => {
+        const metrics: AIDetectionMetricsLog = {
+            timestamp: 1700000012345,
+            sessionId: 'session-1700000000000',
+            fileUri: 'file:///home/alice/project/src/app.ts',
+            analysisId: 'analysis-1',
+            totalChanges: 2,
+            timeSpanMs: 400,
+            contentLengthTotal: 40,
+            heuristicScores: {
+                bulkInsertionScore: 1,
+                typingSpeedScore: 0,
+                pastePatternScore: 1,
+                externalToolScore: 0,
+                contentPatternScore: 0,
+                timingAnomalyScore: 0
+            },
+            weightedScores: {},
+            finalConfidence: 0.8,
+            aiProbability: 0.7,
+            classification: 'ai-generated',
+            evidence: {
+                externalToolSignature: false,
+                bulkChangePattern: true,
+                timingAnomalies: false,
+                contentCharacteristics: [],
+                bulkChanges: [{ size: 30, timespan: 0, content: 'const apiKey = "secret";' }],
+                typingBursts: [{ speed: 200, duration: 400, content: 'let x' }],
+                externalIndicators: [],
+                suspiciousPatterns: []
+            },
+            decisionTrace: [{
+                step: 'bulk-changes',
+                input: { changes: [{ timestamp: 1700000012000, content: 'const apiKey = "secret";' }] },
+                output: 1,
+                reasoning: 'One bulk insertion'
+            }],
+            _loggedAt: 1700000012345,
+            _version: '1.0'
+        };
+
+        const redacted = new LogRedactor().redact(metrics);
+
+        expect(JSON.stringify(redacted)).not.toContain('secret');
+        expect(JSON.stringify(redacted)).not.toContain('let x');
+        expect(redacted.evidence.bulkChanges).toEqual([{ size: 30, timespan: 0 }]);
+        expect(redacted.evidence.typingBursts).toEqual([{ speed: 200, duration: 400 }]);
+        expect(redacted.decisionTrace[0].input).toEqual({ changes: [{ timestamp: 1700000012000 }] });
+        expect(redacted.contentLengthTotal).toBe(40);
+    });
+
+    it('should make file paths relative to the workspace root', () => {
+        const redactor = new LogRedactor({ filePaths: 'relative', hashSessionIds: false, timestampPrecisionMs: 0 }, '/home/alice/project/');
+
+        expect(redactor.redact(record).fileUri).toBe('src/app.ts');
+        expect(redactor.redactFilePath('/home/alice/project/README.md')).toBe('README.md');
+        expect(redactor.redactFilePath('src/app.ts')).toBe('src/app.ts');
+    });
+
+    it('should hash paths outside the workspace when making them relative', () => {
+        const redactor = new LogRedactor({ filePaths: 'relative', hashSessionIds: false, timestampPrecisionMs: 0 }, '/home/alice/project');
+        const redacted = redactor.redactFilePath('file:///home/alice/project-other/notes.md');
+
+        expect(redacted.startsWith(REDACTED_PREFIX)).toBe(true);
+        expect(redacted.endsWith('.md')).toBe(true);
+        expect(redacted).not.toContain('alice');
+    });
+
+    it('should relativize Windows file URIs', () => {
+        const redactor = new LogRedactor({ filePaths: 'relative', hashSessionIds: false, timestampPrecisionMs: 0 }, 'c:\\Users\\alice\\project');
+
+        expect(redactor.redactFilePath('file:///c%3A/Users/alice/project/src/app.ts')).toBe('src/app.ts');
+    });
+
+    it('should hash paths and session ids with the salt, keeping the file extension', () => {
+        const policy = { filePaths: 'hash' as const, hashSessionIds: true, timestampPrecisionMs: 0, salt: 'salt-a' };
+        const redacted = new LogRedactor(policy).redact(record);
+        const otherSalt = new LogRedactor({ ...policy, salt: 'salt-b' }).redact(record);
+
+        expect(redacted.fileUri).toMatch(/^redacted:[0-9a-f]{16}\.ts$/);
+        expect(redacted.sessionId).toMatch(/^redacted:[0-9a-f]{16}$/);
+        expect(new LogRedactor(policy).redact(record)).toEqual(redacted);
+        expect(otherSalt.fileUri).not.toBe(redacted.fileUri);
+        expect(otherSalt.sessionId).not.toBe(redacted.sessionId);
+    });
+
+    it('should coarsen timestamps at any depth', () => {
+        const redacted = new LogRedactor({ filePaths: 'keep', hashSessionIds: false, timestampPrecisionMs: 60000 }).redact(record);
+
+        expect(redacted.timestamp).toBe(1699999980000);
+        expect(redacted._loggedAt).toBe(1699999980000);
+        expect(redacted.evidence.editTimeline[0].timestamp).toBe(1699999980000);
+        expect(redacted.contentLength).toBe(17);
+    });
+
+    it('should apply the field lists without removing required fields', () => {
+        const allow = new LogRedactor({ ...new LogRedactor().getPolicy(), allowFields: ['timestamp', 'contentLength'] });
+        const deny = new LogRedactor({ ...new LogRedactor().getPolicy(), denyFields: ['evidence', 'sessionId'] });
+
+        expect(Object.keys(allow.redact(record))).toEqual(['timestamp', 'contentLength']);
+        expect(Object.keys(allow.redact(record, ['_loggedAt']))).toEqual(['timestamp', 'contentLength', '_loggedAt']);
+        expect(Object.keys(deny.redact(record, ['sessionId']))).toEqual(['timestamp', 'sessionId', 'fileUri', 'contentLength', '_loggedAt']);
+    });
+
+    it('should give the same result when applied twice', () => {
+        const redactor = new LogRedactor({
+            filePaths: 'relative',
+            hashSessionIds: true,
+            timestampPrecisionMs: 1000,
+            salt: 'salt'
+        }, '/somewhere/else');
+        const once = redactor.redact(record);
+
+        expect(redactor.redact(once)).toEqual(once);
+    });
+});
@@ -6,6 +6,7 @@ import {
     filterChangeEventsByFile,
     groupChangeEventsBySession
 } from '../utils/validation';
+import { createDefaultHeuristicRegistry } from '../services/HeuristicRegistry';
 import type { EnhancedChangeEvent, AIDetectionConfig } from '../types';
 
 describe('validation utilities', () => {
@@ -137,6 +138,34 @@ describe('validation utilities', () => {
             };
             expect(validateAIDetectionConfig(invalidConfig)).toBe(false);
         });
+
+        it('should require weights and thresholds for registered custom heuristics', () => {
+            const registry = createDefaultHeuristicRegistry().register({
+                id: 'cursorJumpScore',
+                label: 'Cursor Jump',
+                description: 'Edits far from the previous cursor position',
+                traceStep: 'cursor-jump-analysis',
+                defaultWeight: 0,
+                thresholds: [{
+                    key: 'cursorJumpLines',
+                    label: 'Cursor Jump Lines',
+                    description: 'Line distance that counts as a jump',
+                    defaultValue: 20,
+                    min: 1,
+                    max: 200,
+                    step: 1,
+                    unit: 'lines'
+                }],
+                evaluate: () => ({ score: 0, input: {}, reasoning: '' })
+            });
+
+            expect(validateAIDetectionConfig(validConfig, registry)).toBe(false);
+            expect(validateAIDetectionConfig({
+                ...validConfig,
+                weights: { ...validConfig.weights, cursorJumpScore: 0 },
+                thresholds: { ...validConfig.thresholds, cursorJumpLines: 20 }
+            }, registry)).toBe(true);
+        });
     });
 
     describe('sanitizeChangeEvent', () => {
@@ -0,0 +1,42 @@
+import * as path from 'path';
+import { LOG_DIRECTORY, describeHashedFilePaths, readChangeEvents, toRelativeFilePath } from './changeEventLog';
+import { loadConfig } from './config';
+import {
+    buildAttributionReport,
+    findThresholdViolations,
+    formatReport,
+    type ReportFormat,
+    type ReportThresholds
+} from './report';
+
+export interface AnalyzeOptions {
+    workspace: string;
+    logDirectory?: string; // defaults to .vscode/ai-code-analyzer in the workspace
+    configFile?: string;   // layered over the workspace's .quantifai.json
+    format: ReportFormat;
+    thresholds: ReportThresholds;
+}
+
+export interface AnalyzeResult {
+    output: string;
+    violations: string[];
+    warnings: string[];
+}
+
+export async function runAnalyze(options: AnalyzeOptions): Promise<AnalyzeResult> {
+    const workspace = path.resolve(options.workspace);
+    const logDirectory = options.logDirectory
+        ? path.resolve(options.logDirectory)
+        : path.join(workspace, LOG_DIRECTORY);
+    const config = await loadConfig(workspace, options.configFile && path.resolve(options.configFile));
+
+    const events = await readChangeEvents(logDirectory);
+    const report = buildAttributionReport(events, config, fileUri => toRelativeFilePath(fileUri, workspace) ?? fileUri);
+    const hashedPaths = describeHashedFilePaths(events);
+
+    return {
+        output: formatReport(report, options.format),
+        violations: findThresholdViolations(report, options.thresholds),
+        warnings: hashedPaths ? [hashedPaths] : []
+    };
+}
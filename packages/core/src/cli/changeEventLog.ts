@@ -0,0 +1,116 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { promisify } from 'util';
+import { gunzip } from 'zlib';
+import type { EnhancedChangeEvent } from '../types/ChangeEvent';
+import { defaultLogSchemaRegistry } from '../services/LogSchemaRegistry';
+import { parseArchiveFileName } from '../utils/logArchives';
+import { REDACTED_PREFIX } from '../utils/redaction';
+
+const gunzipAsync = promisify(gunzip);
+
+export const LOG_DIRECTORY = path.join('.vscode', 'ai-code-analyzer');
+
+const CHANGE_EVENTS_FILE = 'change-events.jsonl';
+
+/**
+ * Reads the change events the extension logged since `since`, including rotated
+ * archives (gzip or uncompressed) that may still hold them. Malformed lines are skipped and lines written
+ * by older versions are upgraded to the current ChangeEventLog schema.
+ */
+export async function readChangeEvents(logDirectory: string, since: number = 0): Promise<EnhancedChangeEvent[]> {
+    let entries: string[];
+    try {
+        entries = await fs.readdir(logDirectory);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+    }
+
+    // Archives are named after their rotation time, so older ones only hold older events
+    const files = entries.filter(name => {
+        if (name === CHANGE_EVENTS_FILE) return true;
+        const archive = parseArchiveFileName(CHANGE_EVENTS_FILE, name);
+        return archive !== null && archive.rotatedAt >= since;
+    });
+
+    const events: EnhancedChangeEvent[] = [];
+    for (const file of files) {
+        const raw = await fs.readFile(path.join(logDirectory, file));
+        const content = (parseArchiveFileName(CHANGE_EVENTS_FILE, file)?.compressed ? await gunzipAsync(raw) : raw).toString('utf8');
+        for (const line of content.split('\n')) {
+            if (line.trim().length === 0) continue;
+            // Skips partially written and malformed lines; older versions are upgraded
+            const parsed = defaultLogSchemaRegistry.parseLine('ChangeEventLog', line);
+            if (parsed.ok && parsed.record.timestamp >= since) {
+                events.push(parsed.record);
+            }
+        }
+    }
+
+    return events.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Groups events by their path relative to the repository root (forward slashes,
+ * as git prints them). Paths logged relative to the workspace (redacted logs) are
+ * resolved against `workspaceRoot`. Events outside the repository or without a
+ * readable path, such as hashed ones, are dropped.
+ */
+export function groupEventsByRepositoryPath(
+    events: EnhancedChangeEvent[],
+    repositoryRoot: string,
+    workspaceRoot: string = repositoryRoot
+): Map<string, EnhancedChangeEvent[]> {
+    const grouped = new Map<string, EnhancedChangeEvent[]>();
+
+    for (const event of events) {
+        const relative = toRelativeFilePath(event.fileUri, repositoryRoot, workspaceRoot);
+        if (relative === null) continue;
+
+        const fileEvents = grouped.get(relative) ?? [];
+        fileEvents.push(event);
+        grouped.set(relative, fileEvents);
+    }
+
+    return grouped;
+}
+
+/**
+ * Path of a logged file relative to `root` with forward slashes, or null when it lies
+ * outside or cannot be read. Logged paths are file: URIs, or paths relative to
+ * `workspaceRoot` when the log redacts them; hashed paths cannot be read.
+ */
+export function toRelativeFilePath(fileUri: string, root: string, workspaceRoot: string = root): string | null {
+    if (fileUri.startsWith(REDACTED_PREFIX)) return null;
+
+    let filePath: string;
+    if (fileUri.startsWith('file:')) {
+        try {
+            filePath = fileURLToPath(fileUri);
+        } catch {
+            return null;
+        }
+    } else if (!/^[a-zA-Z][\w+.-]*:/.test(fileUri) && !path.isAbsolute(fileUri)) {
+        filePath = path.resolve(workspaceRoot, fileUri);
+    } else {
+        return null;
+    }
+
+    const relative = path.relative(root, filePath);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) return null;
+    return relative.split(path.sep).join('/');
+}
+
+/**
+ * Warning for events whose file paths were hashed when logged, which no per-file
+ * analysis can use, or null when there are none
+ */
+export function describeHashedFilePaths(events: EnhancedChangeEvent[]): string | null {
+    const hashed = events.filter(event => event.fileUri.startsWith(REDACTED_PREFIX)).length;
+    if (hashed === 0) return null;
+
+    return `${hashed} of ${events.length} change events have hashed file paths ` +
+        '(aiCodeAnalyzer.redaction.filePaths is "hash"), so per-file analysis is unavailable for them';
+}
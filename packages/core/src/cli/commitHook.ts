@@ -0,0 +1,181 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { AIDetectionConfig } from '../types/AIDetection';
+import type { CommitAnalysis } from '../models/Session';
+import { AIDetectionEngine } from '../services/AIDetectionEngine';
+import { ReviewQualityEngine } from '../services/ReviewQualityEngine';
+import { CommitAnalysisEngine, type CommitFileInput } from '../services/CommitAnalysisEngine';
+import { LineAttributionMap, createEngineEventClassifier } from '../services/LineAttributionMap';
+import { parseUnifiedDiff } from '../utils/diffParser';
+import { createGitClient } from './git';
+import { LOG_DIRECTORY, describeHashedFilePaths, groupEventsByRepositoryPath, readChangeEvents } from './changeEventLog';
+import { loadConfig } from './config';
+
+export interface StagedAnalysisOptions {
+    cwd: string;
+    logDirectory?: string; // defaults to .vscode/ai-code-analyzer in the repository root
+    config?: AIDetectionConfig;   // defaults to the repository's resolved config
+}
+
+export interface StagedAnalysis {
+    analysis: CommitAnalysis;
+    files: CommitFileInput[];
+    hasRecordedActivity: boolean;
+    warnings: string[];
+}
+
+export interface HookInstallOptions {
+    cwd: string;
+    logDirectory?: string;
+    force?: boolean;
+}
+
+const HOOK_MARKER = '# Installed by quantifai';
+
+// prepare-commit-msg sources where the staged diff does not describe the commit
+const SKIPPED_SOURCES = new Set(['merge', 'squash', 'commit']);
+
+/**
+ * Analyzes the staged diff against the change events logged since the last commit,
+ * the same way the extension's Generate Commit Summary command does.
+ * Returns null when nothing is staged.
+ */
+export async function analyzeStagedChanges(options: StagedAnalysisOptions): Promise<StagedAnalysis | null> {
+    const git = createGitClient(options.cwd);
+    const diffFiles = parseUnifiedDiff(await git.getStagedDiff());
+    if (diffFiles.length === 0) {
+        return null;
+    }
+
+    const repositoryRoot = await git.getRepositoryRoot();
+    const logDirectory = options.logDirectory ?? path.join(repositoryRoot, LOG_DIRECTORY);
+    const head = await git.getHeadCommit();
+    const since = head?.timestamp ?? 0;
+    const commitTime = Date.now();
+
+    // The log sits in the workspace, which redacted paths are relative to
+    const workspaceRoot = path.resolve(logDirectory, '..', '..');
+    const recordedEvents = await readChangeEvents(logDirectory, since);
+    const eventsByPath = groupEventsByRepositoryPath(recordedEvents, repositoryRoot, workspaceRoot);
+    const hashedPaths = describeHashedFilePaths(recordedEvents);
+    const detectionEngine = new AIDetectionEngine(options.config ?? await loadConfig(repositoryRoot));
+    const reviewEngine = new ReviewQualityEngine();
+    const commitEngine = new CommitAnalysisEngine();
+    const classify = createEngineEventClassifier(detectionEngine);
+
+    const files: CommitFileInput[] = diffFiles.map(diff => {
+        let recorded = diff.isBinary || diff.status === 'deleted' ? [] : eventsByPath.get(diff.path) ?? [];
+        // Renamed files keep the history recorded under their previous name
+        if (diff.status === 'renamed' && diff.oldPath) {
+            recorded = [...recorded, ...(eventsByPath.get(diff.oldPath) ?? [])].sort((a, b) => a.timestamp - b.timestamp);
+        }
+
+        const events = commitEngine.matchEventsToHunks(recorded, diff, since);
+        return {
+            diff,
+            events,
+            attribution: detectionEngine.analyze(events),
+            review: events.length > 0 ? reviewEngine.assess(events, { commitTime }) : null,
+            lineAttribution: recorded.length > 0 ? LineAttributionMap.fromEvents(recorded, classify) : undefined
+        };
+    });
+
+    return {
+        analysis: commitEngine.analyzeCommit({ commitId: 'staged', message: '', timestamp: commitTime }, files),
+        files,
+        hasRecordedActivity: files.some(file => file.events.length > 0),
+        warnings: hashedPaths ? [hashedPaths] : []
+    };
+}
+
+/**
+ * Entry point for git's prepare-commit-msg hook: appends AI-Contribution and
+ * Review-Quality trailers to the message file. Returns the trailers written.
+ */
+export async function prepareCommitMessage(
+    messageFile: string,
+    source: string | undefined,
+    options: StagedAnalysisOptions
+): Promise<string[]> {
+    if (source && SKIPPED_SOURCES.has(source)) {
+        return [];
+    }
+
+    const staged = await analyzeStagedChanges(options);
+    staged?.warnings.forEach(warning => console.error(`quantifai: ${warning}`));
+    // Without recorded activity the numbers would claim 0% AI for code nobody observed
+    if (!staged || !staged.hasRecordedActivity) {
+        return [];
+    }
+
+    const trailers = new CommitAnalysisEngine()
+        .buildTrailers(staged.analysis)
+        .map(trailer => `${trailer.key}: ${trailer.value}`);
+
+    // interpret-trailers knows where trailers go relative to comments and existing trailers
+    await createGitClient(options.cwd).run([
+        'interpret-trailers',
+        '--in-place',
+        '--if-exists', 'replace',
+        ...trailers.flatMap(trailer => ['--trailer', trailer]),
+        path.resolve(options.cwd, messageFile)
+    ]);
+
+    return trailers;
+}
+
+export async function installHook(options: HookInstallOptions): Promise<string> {
+    const hooksDirectory = await createGitClient(options.cwd).getHooksDirectory();
+    const hookPath = path.join(hooksDirectory, 'prepare-commit-msg');
+
+    const existing = await readFileIfExists(hookPath);
+    if (existing !== null && !existing.includes(HOOK_MARKER) && !options.force) {
+        throw new Error(`${hookPath} already exists and was not installed by quantifai (use --force to replace it)`);
+    }
+
+    const args = ['prepare-commit-msg', '"$@"'];
+    if (options.logDirectory) {
+        args.push('--log-dir', shellQuote(path.resolve(options.cwd, options.logDirectory)));
+    }
+
+    // Absolute paths so GUI git clients without node on PATH still run the hook;
+    // never fail the commit because of the analysis
+    const script = [
+        '#!/bin/sh',
+        HOOK_MARKER,
+        `${shellQuote(process.execPath)} ${shellQuote(path.join(__dirname, 'index.js'))} ${args.join(' ')} || true`,
+        ''
+    ].join('\n');
+
+    await fs.mkdir(hooksDirectory, { recursive: true });
+    await fs.writeFile(hookPath, script, { mode: 0o755 });
+    return hookPath;
+}
+
+/**
+ * Removes the hook if quantifai installed it. Returns false when there was nothing to remove.
+ */
+export async function uninstallHook(cwd: string): Promise<boolean> {
+    const hookPath = path.join(await createGitClient(cwd).getHooksDirectory(), 'prepare-commit-msg');
+    const existing = await readFileIfExists(hookPath);
+
+    if (existing === null || !existing.includes(HOOK_MARKER)) {
+        return false;
+    }
+
+    await fs.unlink(hookPath);
+    return true;
+}
+
+async function readFileIfExists(filePath: string): Promise<string | null> {
+    try {
+        return await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+    }
+}
+
+function shellQuote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
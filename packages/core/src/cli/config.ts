@@ -0,0 +1,47 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { AIDetectionConfig } from '../types/AIDetection';
+import type { ConfigLayer, PartialAIDetectionConfig } from '../types/Config';
+import { DASHBOARD_CONFIG_FILE, WORKSPACE_CONFIG_FILE, formatConfigIssues, resolveConfig } from '../services/ConfigResolver';
+
+/**
+ * Resolves the AIDetectionConfig of a workspace: the defaults, then the workspace's
+ * `.quantifai.json` and the config saved from the dashboard if it has them, then `configFile`.
+ * Sections or keys a file leaves out fall back to the layers below, so a partial config such
+ * as `{ "weights": { ... } }` works.
+ */
+export async function loadConfig(workspace: string, configFile?: string): Promise<AIDetectionConfig> {
+    const layers: ConfigLayer[] = [];
+
+    const workspaceFile = path.join(workspace, WORKSPACE_CONFIG_FILE);
+    const workspaceConfig = await readConfigFile(workspaceFile, true);
+    if (workspaceConfig) {
+        layers.push({ name: 'workspace', config: workspaceConfig, origin: workspaceFile });
+    }
+    const dashboardFile = path.join(workspace, DASHBOARD_CONFIG_FILE);
+    const dashboardConfig = await readConfigFile(dashboardFile, true);
+    if (dashboardConfig) {
+        layers.push({ name: 'dashboard', config: dashboardConfig, origin: dashboardFile });
+    }
+    if (configFile) {
+        layers.push({ name: 'override', config: (await readConfigFile(configFile))!, origin: configFile });
+    }
+
+    const resolved = resolveConfig(layers);
+    if (!resolved.valid) {
+        throw new Error(`Invalid AIDetectionConfig:\n${formatConfigIssues(resolved.issues)}`);
+    }
+
+    return resolved.config;
+}
+
+async function readConfigFile(filePath: string, optional = false): Promise<PartialAIDetectionConfig | null> {
+    try {
+        return JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch (error) {
+        if (optional && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return null;
+        }
+        throw new Error(`Failed to read config ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+}
@@ -0,0 +1,58 @@
+import { execFile } from 'child_process';
+import * as path from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+export interface HeadCommit {
+    id: string;
+    timestamp: number; // committer time in ms
+}
+
+/**
+ * Git commands run in one working directory, shared by the CLI and the extension
+ */
+export interface GitClient {
+    run(args: string[]): Promise<string>;
+    getRepositoryRoot(): Promise<string>;
+    /**
+     * Directory git runs hooks from, honouring core.hooksPath
+     */
+    getHooksDirectory(): Promise<string>;
+    /**
+     * Staged changes without context lines, so every hunk covers only changed lines
+     */
+    getStagedDiff(): Promise<string>;
+    /**
+     * Returns null in a repository without commits
+     */
+    getHeadCommit(): Promise<HeadCommit | null>;
+}
+
+export function createGitClient(cwd: string): GitClient {
+    const run = async (args: string[]): Promise<string> => {
+        // quotepath=false keeps non-ASCII paths readable instead of octal-escaped
+        const { stdout } = await execFileAsync('git', ['-c', 'core.quotepath=false', ...args], {
+            cwd,
+            env: process.env,
+            maxBuffer: 64 * 1024 * 1024
+        });
+        return stdout;
+    };
+
+    return {
+        run,
+        getRepositoryRoot: async () => (await run(['rev-parse', '--show-toplevel'])).trim(),
+        getHooksDirectory: async () => path.resolve(cwd, (await run(['rev-parse', '--git-path', 'hooks'])).trim()),
+        getStagedDiff: () => run(['diff', '--cached', '--unified=0', '--no-color', '--no-ext-diff', '-M']),
+        getHeadCommit: async () => {
+            try {
+                const [id, seconds] = (await run(['log', '-1', '--format=%H %ct'])).trim().split(' ');
+                if (!id || !seconds) return null;
+                return { id, timestamp: parseInt(seconds, 10) * 1000 };
+            } catch {
+                return null;
+            }
+        }
+    };
+}
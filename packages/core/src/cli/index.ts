@@ -0,0 +1,151 @@
+#!/usr/bin/env node
+import { installHook, prepareCommitMessage, uninstallHook } from './commitHook';
+import { runAnalyze } from './analyze';
+import type { ReportFormat } from './report';
+
+const USAGE = `Usage: quantifai <command> [options]
+
+Commands:
+  analyze [workspace]                        Print AI attribution per file, session and time bucket
+  hook install [--force] [--log-dir <dir>]   Install the prepare-commit-msg hook in this repository
+  hook uninstall                             Remove the hook installed by quantifai
+  prepare-commit-msg <file> [source] [sha]   Append AI-Contribution and Review-Quality trailers
+                                             (called by the hook)
+
+Options:
+  --log-dir <dir>          Directory holding change-events.jsonl (default: .vscode/ai-code-analyzer)
+  --config <file>          AIDetectionConfig JSON; missing keys fall back to the dashboard config,
+                           .quantifai.json and the defaults
+  --format <format>        table (default), json or csv
+  --max-ai <0-1>           Exit with code 2 when the overall AI probability is higher
+  --max-file-ai <0-1>      Exit with code 2 when any file's AI probability is higher
+`;
+
+const REPORT_FORMATS: ReportFormat[] = ['table', 'json', 'csv'];
+
+interface ParsedArgs {
+    positional: string[];
+    flags: Map<string, string | true>;
+}
+
+const VALUE_FLAGS = new Set(['log-dir', 'config', 'format', 'max-ai', 'max-file-ai']);
+
+export function parseArgs(argv: string[]): ParsedArgs {
+    const positional: string[] = [];
+    const flags = new Map<string, string | true>();
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (!arg.startsWith('--')) {
+            positional.push(arg);
+            continue;
+        }
+
+        const equals = arg.indexOf('=');
+        const name = equals === -1 ? arg.substring(2) : arg.substring(2, equals);
+        if (equals !== -1) {
+            flags.set(name, arg.substring(equals + 1));
+        } else if (VALUE_FLAGS.has(name) && i + 1 < argv.length) {
+            flags.set(name, argv[++i]);
+        } else {
+            flags.set(name, true);
+        }
+    }
+
+    return { positional, flags };
+}
+
+export async function main(argv: string[], cwd: string = process.cwd()): Promise<number> {
+    const { positional, flags } = parseArgs(argv);
+    const [command, ...rest] = positional;
+    const logDir = flags.get('log-dir');
+    const logDirectory = typeof logDir === 'string' ? logDir : undefined;
+
+    switch (command) {
+        case 'analyze': {
+            const format = (flags.get('format') ?? 'table') as ReportFormat;
+            if (!REPORT_FORMATS.includes(format)) {
+                console.error(`quantifai: unknown format "${format}" (expected ${REPORT_FORMATS.join(', ')})`);
+                return 1;
+            }
+
+            const config = flags.get('config');
+            const result = await runAnalyze({
+                workspace: rest[0] ?? cwd,
+                logDirectory,
+                configFile: typeof config === 'string' ? config : undefined,
+                format,
+                thresholds: {
+                    maxAIProbability: parseProbabilityFlag(flags, 'max-ai'),
+                    maxFileAIProbability: parseProbabilityFlag(flags, 'max-file-ai')
+                }
+            });
+
+            process.stdout.write(result.output);
+            result.warnings.forEach(warning => console.error(`quantifai: ${warning}`));
+            if (result.violations.length > 0) {
+                result.violations.forEach(violation => console.error(`quantifai: ${violation}`));
+                return 2;
+            }
+            return 0;
+        }
+
+        case 'hook': {
+            if (rest[0] === 'install') {
+                const hookPath = await installHook({ cwd, logDirectory, force: flags.get('force') === true });
+                console.log(`Installed prepare-commit-msg hook at ${hookPath}`);
+                return 0;
+            }
+            if (rest[0] === 'uninstall') {
+                const removed = await uninstallHook(cwd);
+                console.log(removed ? 'Removed prepare-commit-msg hook' : 'No quantifai hook installed');
+                return 0;
+            }
+            break;
+        }
+
+        case 'prepare-commit-msg': {
+            const [messageFile, source] = rest;
+            if (!messageFile) break;
+
+            // A failing analysis must never block the commit
+            try {
+                await prepareCommitMessage(messageFile, source, { cwd, logDirectory });
+            } catch (error) {
+                console.error(`quantifai: skipped commit trailers: ${error instanceof Error ? error.message : error}`);
+            }
+            return 0;
+        }
+
+        case 'help':
+        case undefined:
+            console.log(USAGE);
+            return command === 'help' ? 0 : 1;
+    }
+
+    console.error(USAGE);
+    return 1;
+}
+
+function parseProbabilityFlag(flags: Map<string, string | true>, name: string): number | undefined {
+    const value = flags.get(name);
+    if (value === undefined) return undefined;
+
+    const parsed = typeof value === 'string' ? Number(value) : NaN;
+    if (!(parsed >= 0 && parsed <= 1)) {
+        throw new Error(`--${name} expects a probability between 0 and 1`);
+    }
+    return parsed;
+}
+
+if (require.main === module) {
+    // Setting the exit code rather than exiting lets buffered stdout drain when piped
+    main(process.argv.slice(2))
+        .then(code => {
+            process.exitCode = code;
+        })
+        .catch(error => {
+            console.error(`quantifai: ${error instanceof Error ? error.message : error}`);
+            process.exitCode = 1;
+        });
+}
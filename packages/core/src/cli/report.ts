@@ -0,0 +1,191 @@
+import type { EnhancedChangeEvent } from '../types/ChangeEvent';
+import type { AIAttribution, AIDetectionConfig } from '../types/AIDetection';
+import { AIDetectionEngine } from '../services/AIDetectionEngine';
+import { BucketAnalyzer } from '../utils/BucketAnalyzer';
+
+export type ReportFormat = 'table' | 'json' | 'csv';
+
+export interface AttributionRow {
+    key: string;
+    events: number;
+    startTime: number;
+    endTime: number;
+    source: AIAttribution['source'];
+    aiProbability: number;
+    confidence: number;
+}
+
+export interface AttributionReport {
+    overall: AttributionRow;
+    files: AttributionRow[];
+    sessions: AttributionRow[];
+    buckets: AttributionRow[];
+}
+
+export interface ReportThresholds {
+    maxAIProbability?: number;     // overall
+    maxFileAIProbability?: number; // any single file
+}
+
+/**
+ * Attribution for all events together and grouped per file, per session and per time bucket
+ */
+export function buildAttributionReport(
+    events: EnhancedChangeEvent[],
+    config: AIDetectionConfig,
+    formatFileKey: (fileUri: string) => string = uri => uri
+): AttributionReport {
+    const engine = new AIDetectionEngine(config);
+    const sorted = [...events].sort((a, b) => a.timestamp - b.timestamp);
+
+    const analyzeGroups = (groups: Map<string, EnhancedChangeEvent[]>): AttributionRow[] =>
+        Array.from(groups.entries()).map(([key, group]) => createRow(key, group, engine.analyze(group)));
+
+    const buckets = BucketAnalyzer.createAndAnalyzeBuckets(sorted, engine, config.bucketConfig)
+        .filter(bucket => !bucket.isEmpty && bucket.attribution !== null)
+        .map(bucket => ({
+            ...createRow(new Date(bucket.startTime).toISOString(), bucket.events, bucket.attribution!),
+            startTime: bucket.startTime,
+            endTime: bucket.endTime
+        }));
+
+    return {
+        overall: createRow('all', sorted, engine.analyze(sorted)),
+        files: analyzeGroups(groupBy(sorted, event => formatFileKey(event.fileUri))),
+        sessions: analyzeGroups(groupBy(sorted, event => event.sessionId)),
+        buckets
+    };
+}
+
+/**
+ * Human-readable descriptions of every threshold the report exceeds
+ */
+export function findThresholdViolations(report: AttributionReport, thresholds: ReportThresholds): string[] {
+    const violations: string[] = [];
+
+    if (thresholds.maxAIProbability !== undefined && report.overall.aiProbability > thresholds.maxAIProbability) {
+        violations.push(
+            `Overall AI probability ${formatPercent(report.overall.aiProbability)} exceeds ${formatPercent(thresholds.maxAIProbability)}`
+        );
+    }
+
+    if (thresholds.maxFileAIProbability !== undefined) {
+        for (const file of report.files) {
+            if (file.aiProbability > thresholds.maxFileAIProbability) {
+                violations.push(
+                    `${file.key}: AI probability ${formatPercent(file.aiProbability)} exceeds ${formatPercent(thresholds.maxFileAIProbability)}`
+                );
+            }
+        }
+    }
+
+    return violations;
+}
+
+export function formatReport(report: AttributionReport, format: ReportFormat): string {
+    switch (format) {
+        case 'json':
+            return JSON.stringify(report, null, 2);
+        case 'csv':
+            return formatCsv(report);
+        case 'table':
+            return formatTables(report);
+    }
+}
+
+function createRow(key: string, events: EnhancedChangeEvent[], attribution: AIAttribution): AttributionRow {
+    return {
+        key,
+        events: events.length,
+        startTime: events.length > 0 ? events[0].timestamp : 0,
+        endTime: events.length > 0 ? events[events.length - 1].timestamp : 0,
+        source: attribution.source,
+        aiProbability: attribution.aiProbability,
+        confidence: attribution.confidence
+    };
+}
+
+function groupBy(events: EnhancedChangeEvent[], keyOf: (event: EnhancedChangeEvent) => string): Map<string, EnhancedChangeEvent[]> {
+    const groups = new Map<string, EnhancedChangeEvent[]>();
+    for (const event of events) {
+        const key = keyOf(event);
+        const group = groups.get(key) ?? [];
+        group.push(event);
+        groups.set(key, group);
+    }
+    return groups;
+}
+
+function formatTables(report: AttributionReport): string {
+    const sections: Array<[string, AttributionRow[]]> = [
+        ['Overall', [report.overall]],
+        ['Files', report.files],
+        ['Sessions', report.sessions],
+        ['Buckets', report.buckets]
+    ];
+
+    return sections
+        .map(([title, rows]) => `${title}\n${formatTable(rows)}`)
+        .join('\n\n') + '\n';
+}
+
+function formatTable(rows: AttributionRow[]): string {
+    const header = ['Key', 'Events', 'Source', 'AI %', 'Confidence', 'Start', 'End'];
+    const body = rows.map(row => [
+        row.key,
+        String(row.events),
+        row.source,
+        formatPercent(row.aiProbability),
+        formatPercent(row.confidence),
+        row.events > 0 ? new Date(row.startTime).toISOString() : '-',
+        row.events > 0 ? new Date(row.endTime).toISOString() : '-'
+    ]);
+
+    if (body.length === 0) {
+        return '  (none)';
+    }
+
+    const widths = header.map((cell, i) => Math.max(cell.length, ...body.map(r => r[i].length)));
+    const formatLine = (cells: string[]) => '  ' + cells.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+
+    return [
+        formatLine(header),
+        formatLine(widths.map(w => '-'.repeat(w))),
+        ...body.map(formatLine)
+    ].join('\n');
+}
+
+function formatCsv(report: AttributionReport): string {
+    const lines = ['scope,key,events,source,aiProbability,confidence,startTime,endTime'];
+    const scopes: Array<[string, AttributionRow[]]> = [
+        ['overall', [report.overall]],
+        ['file', report.files],
+        ['session', report.sessions],
+        ['bucket', report.buckets]
+    ];
+
+    for (const [scope, rows] of scopes) {
+        for (const row of rows) {
+            lines.push([
+                scope,
+                escapeCsv(row.key),
+                row.events,
+                row.source,
+                row.aiProbability.toFixed(4),
+                row.confidence.toFixed(4),
+                row.startTime,
+                row.endTime
+            ].join(','));
+        }
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+function escapeCsv(value: string): string {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function formatPercent(value: number): string {
+    return `${(value * 100).toFixed(1)}%`;
+}
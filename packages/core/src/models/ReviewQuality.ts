@@ -1,12 +1,20 @@
+export type ReviewQualityLevel = 'immediate-commit' | 'light-review' | 'thorough-review' | 'extensive-review';
+
 export interface ReviewQualityAssessment {
     overallScore: number; // 0-10
     breakdown: ReviewScoreBreakdown;
     patterns: ReviewPatterns;
     evidence: ReviewEvidence;
-    qualityLevel: 'immediate-commit' | 'light-review' | 'thorough-review' | 'extensive-review';
+    qualityLevel: ReviewQualityLevel;
     confidence: number;
 }
 
+export interface ReviewQualityResult extends ReviewQualityAssessment {
+    timeMetrics: TimeMetrics;
+    editPatterns: EditPatterns;
+    reviewIndicators: ReviewIndicators;
+}
+
 export interface ReviewScoreBreakdown {
     timeInvestment: number; // Time spent reviewing
     iterationCount: number; // Number of edit cycles
@@ -91,7 +99,7 @@ export interface ReviewQualityMetricsLog {
     scoreBreakdown: ReviewScoreBreakdown;
 
     // Quality classification
-    qualityLevel: 'immediate-commit' | 'light-review' | 'thorough-review' | 'extensive-review';
+    qualityLevel: ReviewQualityLevel;
     confidence: number;
 
     // Supporting evidence
@@ -0,0 +1,356 @@
+import type { Heuristic, HeuristicAccumulator, HeuristicContext } from '../types/Heuristic';
+
+/**
+ * Builds a heuristic's `evaluate` from its accumulator, so batch and streaming
+ * analysis share one implementation and always agree
+ */
+export function fromAccumulator(
+    createAccumulator: (context: HeuristicContext) => HeuristicAccumulator
+): Pick<Heuristic, 'evaluate' | 'createAccumulator'> {
+    return {
+        createAccumulator,
+        evaluate(changes, context) {
+            const accumulator = createAccumulator(context);
+            for (const change of changes) {
+                accumulator.add(change);
+            }
+            return accumulator.evaluate();
+        }
+    };
+}
+
+export const bulkInsertionHeuristic: Heuristic = {
+    id: 'bulkInsertionScore',
+    label: 'Bulk Insertion',
+    description: 'Detects large blocks of text inserted quickly, often indicating copy-paste or AI generation. Calculated based on content length and insertion speed.',
+    traceStep: 'bulk-insertion-analysis',
+    defaultWeight: 0.25,
+    thresholds: [
+        {
+            key: 'bulkInsertionSize',
+            label: 'Bulk Insertion Size',
+            description: 'Characters in a single insertion before it counts as bulk',
+            defaultValue: 100,
+            min: 10,
+            max: 500,
+            step: 10,
+            unit: 'chars'
+        }
+    ],
+    ...fromAccumulator(({ config }) => {
+        let totalChanges = 0;
+        let bulkChanges = 0;
+
+        return {
+            add(change) {
+                totalChanges++;
+                if (change.changeType === 'insert' && change.contentLength > config.thresholds.bulkInsertionSize) {
+                    bulkChanges++;
+                }
+            },
+            evaluate() {
+                return {
+                    score: Math.min(bulkChanges / totalChanges, 1.0),
+                    input: {
+                        totalChanges,
+                        bulkChanges,
+                        threshold: config.thresholds.bulkInsertionSize
+                    },
+                    reasoning: `Found ${bulkChanges} bulk insertions (>${config.thresholds.bulkInsertionSize} chars) out of ${totalChanges} total changes`
+                };
+            }
+        };
+    })
+};
+
+export const typingSpeedHeuristic: Heuristic = {
+    id: 'typingSpeedScore',
+    label: 'Typing Speed',
+    description: 'Measures unusually fast typing speeds that exceed human capabilities. Calculated from characters per minute during active typing periods.',
+    traceStep: 'typing-speed-analysis',
+    defaultWeight: 0.20,
+    thresholds: [
+        {
+            key: 'fastTypingSpeed',
+            label: 'Fast Typing Speed',
+            description: 'Characters per minute above which typing is considered unusually fast',
+            defaultValue: 300,
+            min: 100,
+            max: 1000,
+            step: 50,
+            unit: 'CPM'
+        }
+    ],
+    ...fromAccumulator(({ config }) => {
+        let speedCount = 0;
+        let speedTotal = 0;
+        let highSpeedCount = 0;
+
+        return {
+            add(change) {
+                if (change.instantTypingSpeed > 0) {
+                    speedCount++;
+                    speedTotal += change.instantTypingSpeed;
+                    if (change.instantTypingSpeed > config.thresholds.fastTypingSpeed) {
+                        highSpeedCount++;
+                    }
+                }
+            },
+            evaluate() {
+                if (speedCount === 0) {
+                    return {
+                        score: 0,
+                        input: { speedCount: 0 },
+                        reasoning: 'No typing speed data available'
+                    };
+                }
+
+                const averageSpeed = speedTotal / speedCount;
+
+                // Score based on average speed and frequency of high-speed typing
+                const speedScore = Math.min(averageSpeed / (config.thresholds.fastTypingSpeed * 1.5), 1.0);
+                const frequencyScore = highSpeedCount / speedCount;
+
+                return {
+                    score: (speedScore + frequencyScore) / 2,
+                    input: {
+                        averageSpeed,
+                        highSpeedCount,
+                        totalSpeeds: speedCount,
+                        threshold: config.thresholds.fastTypingSpeed
+                    },
+                    reasoning: `Average speed: ${averageSpeed.toFixed(0)} CPM, ${highSpeedCount} high-speed events (>${config.thresholds.fastTypingSpeed} CPM)`
+                };
+            }
+        };
+    })
+};
+
+export const pastePatternHeuristic: Heuristic = {
+    id: 'pastePatternScore',
+    label: 'Paste Pattern',
+    description: 'Identifies patterns consistent with paste operations, including timing gaps and content structure. Detects clipboard-based content insertion.',
+    traceStep: 'paste-pattern-analysis',
+    defaultWeight: 0.15,
+    thresholds: [
+        {
+            key: 'pasteTimeThreshold',
+            label: 'Paste Time Threshold',
+            description: 'Insertions arriving faster than this after the previous change look like pastes',
+            defaultValue: 100,
+            min: 10,
+            max: 1000,
+            step: 10,
+            unit: 'ms'
+        }
+    ],
+    ...fromAccumulator(({ config }) => {
+        let totalChanges = 0;
+        let pasteIndicators = 0;
+
+        return {
+            add(change) {
+                totalChanges++;
+                if (
+                    change.timeSinceLastChange < config.thresholds.pasteTimeThreshold &&
+                    change.contentLength > 50 &&
+                    change.changeType === 'insert'
+                ) {
+                    pasteIndicators++;
+                }
+            },
+            evaluate() {
+                return {
+                    score: Math.min(pasteIndicators / Math.max(totalChanges, 1), 1.0),
+                    input: {
+                        pasteIndicators,
+                        totalChanges,
+                        timeThreshold: config.thresholds.pasteTimeThreshold
+                    },
+                    reasoning: `Found ${pasteIndicators} paste-like patterns (<${config.thresholds.pasteTimeThreshold}ms, >50 chars)`
+                };
+            }
+        };
+    })
+};
+
+export const externalToolHeuristic: Heuristic = {
+    id: 'externalToolScore',
+    label: 'External Tool',
+    description: 'Detects indicators of external tool usage such as formatting patterns, code structure, or metadata suggesting AI assistance.',
+    traceStep: 'external-tool-analysis',
+    defaultWeight: 0.25,
+    thresholds: [],
+    ...fromAccumulator(() => {
+        let totalChanges = 0;
+        let externalSignatures = 0;
+        let confidenceTotal = 0;
+
+        return {
+            add(change) {
+                totalChanges++;
+                if (change.externalToolSignature?.detected) {
+                    externalSignatures++;
+                    confidenceTotal += change.externalToolSignature.confidence || 0;
+                }
+            },
+            evaluate() {
+                if (externalSignatures === 0) {
+                    return {
+                        score: 0,
+                        input: { externalSignatures: 0 },
+                        reasoning: 'No external tool signatures detected'
+                    };
+                }
+
+                const averageConfidence = confidenceTotal / externalSignatures;
+
+                return {
+                    score: (externalSignatures / totalChanges) * averageConfidence,
+                    input: {
+                        externalSignatures,
+                        averageConfidence,
+                        totalChanges
+                    },
+                    reasoning: `Found ${externalSignatures} external tool signatures with avg confidence ${averageConfidence.toFixed(3)}`
+                };
+            }
+        };
+    })
+};
+
+export const contentPatternHeuristic: Heuristic = {
+    id: 'contentPatternScore',
+    label: 'Content Pattern',
+    description: 'Analyzes content for patterns typical of AI-generated text, including repetitive structures and unnatural language flows.',
+    traceStep: 'content-pattern-analysis',
+    defaultWeight: 0.10,
+    thresholds: [],
+    ...fromAccumulator(() => {
+        let totalChanges = 0;
+        let codeBlocks = 0;
+        let structuredCode = 0;
+        let comments = 0;
+
+        return {
+            add(change) {
+                totalChanges++;
+                if (change.isCodeBlock) {
+                    codeBlocks++;
+                }
+                if (change.languageConstruct !== 'unknown' && change.languageConstruct !== '') {
+                    structuredCode++;
+                }
+                if (change.isComment) {
+                    comments++;
+                }
+            },
+            evaluate() {
+                // AI-generated code often has:
+                // - Complete code blocks
+                // - Well-structured constructs
+                // - Explanatory comments
+                const codeBlockRatio = codeBlocks / Math.max(totalChanges, 1);
+                const structuredRatio = structuredCode / Math.max(totalChanges, 1);
+                const commentRatio = comments / Math.max(totalChanges, 1);
+
+                return {
+                    score: codeBlockRatio * 0.4 + structuredRatio * 0.4 + commentRatio * 0.2,
+                    input: {
+                        codeBlocks,
+                        structuredCode,
+                        comments,
+                        totalChanges
+                    },
+                    reasoning: `Code blocks: ${codeBlockRatio.toFixed(2)}, Structured: ${structuredRatio.toFixed(2)}, Comments: ${commentRatio.toFixed(2)}`
+                };
+            }
+        };
+    })
+};
+
+export const timingAnomalyHeuristic: Heuristic = {
+    id: 'timingAnomalyScore',
+    label: 'Timing Anomaly',
+    description: 'Identifies unusual timing patterns in coding behavior, such as inconsistent pauses or unnatural rhythm variations.',
+    traceStep: 'timing-anomaly-analysis',
+    defaultWeight: 0.05,
+    eventContext: 4,
+    thresholds: [
+        {
+            key: 'longPauseThreshold',
+            label: 'Long Pause Threshold',
+            description: 'Gaps between changes longer than this count as long pauses',
+            defaultValue: 30000,
+            min: 1000,
+            max: 60000,
+            step: 1000,
+            unit: 'ms'
+        },
+        {
+            key: 'rapidSequenceThreshold',
+            label: 'Rapid Sequence Threshold',
+            description: 'Gaps between changes shorter than this count as rapid sequences',
+            defaultValue: 100,
+            min: 10,
+            max: 1000,
+            step: 10,
+            unit: 'ms'
+        }
+    ],
+    ...fromAccumulator(({ config }) => {
+        let totalChanges = 0;
+        let longPauses = 0;
+        let rapidSequences = 0;
+
+        return {
+            add(change) {
+                totalChanges++;
+                if (change.timeSinceLastChange > config.thresholds.longPauseThreshold) {
+                    longPauses++;
+                }
+                if (
+                    change.timeSinceLastChange < config.thresholds.rapidSequenceThreshold &&
+                    change.timeSinceLastChange > 0
+                ) {
+                    rapidSequences++;
+                }
+            },
+            evaluate() {
+                if (totalChanges < 2) {
+                    return {
+                        score: 0,
+                        input: { changeCount: totalChanges },
+                        reasoning: 'Insufficient changes for timing analysis'
+                    };
+                }
+
+                const anomalyRatio = (longPauses + rapidSequences) / totalChanges;
+
+                return {
+                    score: Math.min(anomalyRatio, 1.0),
+                    input: {
+                        longPauses,
+                        rapidSequences,
+                        totalChanges,
+                        longThreshold: config.thresholds.longPauseThreshold,
+                        rapidThreshold: config.thresholds.rapidSequenceThreshold
+                    },
+                    reasoning: `Found ${longPauses} long pauses (>${config.thresholds.longPauseThreshold}ms) and ${rapidSequences} rapid sequences (<${config.thresholds.rapidSequenceThreshold}ms)`
+                };
+            }
+        };
+    })
+};
+
+/**
+ * The six heuristics shipped with the engine, in decision trace order
+ */
+export const BUILTIN_HEURISTICS: Heuristic[] = [
+    bulkInsertionHeuristic,
+    typingSpeedHeuristic,
+    pastePatternHeuristic,
+    externalToolHeuristic,
+    contentPatternHeuristic,
+    timingAnomalyHeuristic
+];
@@ -0,0 +1,201 @@
+import type { FieldSpec, FieldSpecs, LogMigration, LogSchema } from '../types/LogSchema';
+
+const string: FieldSpec = { type: 'string' };
+const number: FieldSpec = { type: 'number' };
+const boolean: FieldSpec = { type: 'boolean' };
+const optional = (spec: FieldSpec): FieldSpec => ({ ...spec, optional: true });
+const object = (fields?: FieldSpecs): FieldSpec => ({ type: 'object', fields });
+const arrayOf = (items: FieldSpec): FieldSpec => ({ type: 'array', items });
+const oneOf = (...values: string[]): FieldSpec => ({ type: 'string', values });
+
+const position = object({ line: number, character: number });
+const selectionRange = object({ start: position, end: position });
+
+const LOG_METADATA_FIELDS: FieldSpecs = {
+    _loggedAt: number,
+    _version: string
+};
+
+/**
+ * Fields of an `EnhancedChangeEvent`, shared by `validateChangeEvent` and the change event log schemas
+ */
+export const CHANGE_EVENT_FIELDS: FieldSpecs = {
+    timestamp: number,
+    sessionId: string,
+    fileUri: string,
+    eventId: string,
+    changeType: oneOf('insert', 'delete', 'replace'),
+    position,
+    content: optional(string),
+    contentLength: number,
+    timeSinceLastChange: number,
+    timeSinceSessionStart: number,
+    timeSinceFileOpen: number,
+    source: oneOf('live', 'history', 'external'),
+    vsCodeActive: boolean,
+    cursorPosition: position,
+    selectionRange: optional(selectionRange),
+    instantTypingSpeed: number,
+    rollingTypingSpeed: number,
+    burstDetected: boolean,
+    pauseBeforeChange: number,
+    isCodeBlock: boolean,
+    isComment: boolean,
+    isWhitespace: boolean,
+    languageConstruct: string,
+    indentationLevel: number,
+    externalToolSignature: optional(object({
+        detected: boolean,
+        toolType: oneOf('claude-code', 'copilot', 'cursor', 'unknown'),
+        confidence: number,
+        indicators: arrayOf(string)
+    }))
+};
+
+const changeEventLogV1_0: LogSchema = {
+    type: 'ChangeEventLog',
+    version: '1.0',
+    description: 'Change events recorded by the extension before edit ranges were logged',
+    fields: { ...CHANGE_EVENT_FIELDS, ...LOG_METADATA_FIELDS }
+};
+
+const changeEventLogV1_1: LogSchema = {
+    type: 'ChangeEventLog',
+    version: '1.1',
+    description: 'Change events with the replaced range and the end of the inserted text',
+    fields: {
+        ...CHANGE_EVENT_FIELDS,
+        range: optional(selectionRange),
+        insertedEnd: optional(position),
+        ...LOG_METADATA_FIELDS
+    }
+};
+
+const aiDetectionMetricsLogV1_0: LogSchema = {
+    type: 'AIDetectionMetricsLog',
+    version: '1.0',
+    description: 'Detection engine results with heuristic scores and decision trace',
+    fields: {
+        timestamp: number,
+        sessionId: string,
+        fileUri: string,
+        analysisId: string,
+        totalChanges: number,
+        timeSpanMs: number,
+        contentLengthTotal: number,
+        heuristicScores: object(),
+        weightedScores: object(),
+        finalConfidence: number,
+        aiProbability: number,
+        classification: oneOf('human', 'ai-assisted', 'ai-generated', 'mixed'),
+        evidence: object({
+            externalToolSignature: boolean,
+            bulkChangePattern: boolean,
+            timingAnomalies: boolean,
+            contentCharacteristics: arrayOf(string),
+            externalIndicators: arrayOf(string),
+            suspiciousPatterns: arrayOf(string)
+        }),
+        decisionTrace: arrayOf(object({ step: string, reasoning: string })),
+        ...LOG_METADATA_FIELDS
+    }
+};
+
+const reviewQualityMetricsLogV1_0: LogSchema = {
+    type: 'ReviewQualityMetricsLog',
+    version: '1.0',
+    description: 'Review quality assessments with the metrics they were scored from',
+    fields: {
+        timestamp: number,
+        sessionId: string,
+        fileUri: string,
+        analysisId: string,
+        timeMetrics: object({
+            totalDevelopmentTime: number,
+            numberOfEditSessions: number,
+            longestPauseBetweenEdits: number
+        }),
+        editPatterns: object(),
+        reviewIndicators: object(),
+        scoreBreakdown: object({ finalScore: number }),
+        qualityLevel: oneOf('immediate-commit', 'light-review', 'thorough-review', 'extensive-review'),
+        confidence: number,
+        evidence: object({
+            editTimeline: arrayOf(object({ timestamp: number, editType: string, significance: number })),
+            pauseAnalysis: arrayOf(object()),
+            refinementExamples: arrayOf(string)
+        }),
+        ...LOG_METADATA_FIELDS
+    }
+};
+
+const sessionSummaryLogV1_0: LogSchema = {
+    type: 'SessionSummaryLog',
+    version: '1.0',
+    description: 'Per-session development summaries',
+    fields: {
+        sessionId: string,
+        startTime: number,
+        endTime: number,
+        duration: number,
+        filesModified: arrayOf(object({ uri: string, totalChanges: number })),
+        sessionMetrics: object(),
+        developmentPatterns: object({
+            workflowType: oneOf('ai-first', 'human-first', 'collaborative', 'mixed'),
+            aiToolIntegration: oneOf('heavy', 'moderate', 'light', 'none'),
+            reviewThoroughness: oneOf('minimal', 'standard', 'thorough', 'extensive')
+        }),
+        crossFilePatterns: object(),
+        ...LOG_METADATA_FIELDS
+    }
+};
+
+const commitAnalysisLogV1_0: LogSchema = {
+    type: 'CommitAnalysisLog',
+    version: '1.0',
+    description: 'Commit analyses correlating the diff with recorded activity',
+    fields: {
+        commitId: string,
+        timestamp: number,
+        message: string,
+        fileAnalysis: arrayOf(object({
+            uri: string,
+            linesChanged: number,
+            aiGeneratedLines: number,
+            humanWrittenLines: number,
+            reviewedLines: number
+        })),
+        commitMetrics: object({
+            totalLinesChanged: number,
+            aiContributionPercentage: number,
+            humanContributionPercentage: number
+        }),
+        commitQuality: object({
+            overallScore: number,
+            codeQualityIndicators: arrayOf(string),
+            potentialIssues: arrayOf(string)
+        }),
+        developmentTimeline: arrayOf(object()),
+        ...LOG_METADATA_FIELDS
+    }
+};
+
+export const BUILTIN_LOG_SCHEMAS: LogSchema[] = [
+    changeEventLogV1_0,
+    changeEventLogV1_1,
+    aiDetectionMetricsLogV1_0,
+    reviewQualityMetricsLogV1_0,
+    sessionSummaryLogV1_0,
+    commitAnalysisLogV1_0
+];
+
+export const BUILTIN_LOG_MIGRATIONS: LogMigration[] = [
+    {
+        type: 'ChangeEventLog',
+        from: '1.0',
+        to: '1.1',
+        // Readers fall back to `position` when `range` is missing, so 1.0 events replay as single-line edits
+        description: 'range and insertedEnd are new optional fields; 1.0 events only carry position',
+        migrate: record => record
+    }
+];
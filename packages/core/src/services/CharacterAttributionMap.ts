@@ -0,0 +1,159 @@
+import type { EnhancedChangeEvent, Position } from '../types/ChangeEvent';
+import type { CharacterAttribution } from '../types/AIDetection';
+
+interface CharacterRun {
+    length: number;
+    ai: boolean;
+}
+
+/**
+ * Which characters of a single file came from AI-like events, built by replaying its
+ * change events in order. Each line is a list of runs of characters written by AI or
+ * human events; deletes and replacements remove the characters in their range, so the
+ * map also knows how much of what was inserted survives.
+ *
+ * Text no replayed event wrote is not tracked, and line breaks are not counted. Content
+ * is not logged, so a multi-line insertion's characters are spread evenly over its lines
+ * unless the event still carries its content.
+ */
+export class CharacterAttributionMap {
+    private lines: CharacterRun[][] = [];
+    private insertedCharacters = 0;
+    private aiInsertedCharacters = 0;
+
+    static fromEvents(events: EnhancedChangeEvent[], isAI: (event: EnhancedChangeEvent) => boolean): CharacterAttributionMap {
+        const map = new CharacterAttributionMap();
+        // Stable sort keeps the logged order of changes that share a timestamp
+        const ordered = [...events].sort((a, b) => a.timestamp - b.timestamp);
+        for (const event of ordered) {
+            map.apply(event, isAI(event));
+        }
+        return map;
+    }
+
+    apply(event: EnhancedChangeEvent, ai: boolean): void {
+        const start = event.range?.start ?? event.position;
+        const end = event.range?.end ?? event.position;
+        const inserted = this.getInsertedLineLengths(event, start);
+
+        this.ensureLine(end.line);
+        const prefix = sliceRuns(this.lines[start.line], 0, start.character);
+        const suffix = sliceRuns(this.lines[end.line], end.character, Infinity);
+
+        const replacement = inserted.map(length => createRuns(length, ai));
+        replacement[0] = concatRuns(prefix, replacement[0]);
+        replacement[replacement.length - 1] = concatRuns(replacement[replacement.length - 1], suffix);
+        this.lines.splice(start.line, end.line - start.line + 1, ...replacement);
+
+        const insertedCharacters = inserted.reduce((sum, length) => sum + length, 0);
+        this.insertedCharacters += insertedCharacters;
+        if (ai) {
+            this.aiInsertedCharacters += insertedCharacters;
+        }
+    }
+
+    getAttribution(): CharacterAttribution {
+        let survivingCharacters = 0;
+        let aiSurvivingCharacters = 0;
+        for (const runs of this.lines) {
+            for (const run of runs) {
+                survivingCharacters += run.length;
+                if (run.ai) aiSurvivingCharacters += run.length;
+            }
+        }
+
+        return createCharacterAttribution(
+            this.insertedCharacters,
+            this.aiInsertedCharacters,
+            survivingCharacters,
+            aiSurvivingCharacters
+        );
+    }
+
+    private ensureLine(line: number): void {
+        while (this.lines.length <= line) {
+            this.lines.push([]);
+        }
+    }
+
+    // Characters the event inserts on each line it spans
+    private getInsertedLineLengths(event: EnhancedChangeEvent, start: Position): number[] {
+        if (event.content !== undefined) {
+            return event.content.split(/\r?\n/).map(segment => segment.length);
+        }
+
+        const { insertedEnd } = event;
+        const lineBreaks = insertedEnd ? insertedEnd.line - start.line : 0;
+        if (!insertedEnd || lineBreaks <= 0) {
+            return [event.contentLength];
+        }
+
+        // The last line's length is known from where the insertion ends
+        const lastLine = insertedEnd.character;
+        const rest = Math.max(event.contentLength - lineBreaks - lastLine, 0);
+        const lengths = Array.from({ length: lineBreaks }, (_line, index) =>
+            Math.floor(rest / lineBreaks) + (index < rest % lineBreaks ? 1 : 0));
+        return [...lengths, lastLine];
+    }
+}
+
+/**
+ * Adds up the character attributions of several files
+ */
+export function mergeCharacterAttributions(attributions: CharacterAttribution[]): CharacterAttribution {
+    const sum = (key: keyof CharacterAttribution) =>
+        attributions.reduce((total, attribution) => total + attribution[key], 0);
+
+    return createCharacterAttribution(
+        sum('insertedCharacters'),
+        sum('aiInsertedCharacters'),
+        sum('survivingCharacters'),
+        sum('aiSurvivingCharacters')
+    );
+}
+
+function createCharacterAttribution(
+    insertedCharacters: number,
+    aiInsertedCharacters: number,
+    survivingCharacters: number,
+    aiSurvivingCharacters: number
+): CharacterAttribution {
+    return {
+        insertedCharacters,
+        aiInsertedCharacters,
+        insertedAIShare: insertedCharacters > 0 ? aiInsertedCharacters / insertedCharacters : 0,
+        survivingCharacters,
+        aiSurvivingCharacters,
+        survivingAIShare: survivingCharacters > 0 ? aiSurvivingCharacters / survivingCharacters : 0
+    };
+}
+
+function createRuns(length: number, ai: boolean): CharacterRun[] {
+    return length > 0 ? [{ length, ai }] : [];
+}
+
+// Runs covering characters from..to of a line, splitting the runs at either end
+function sliceRuns(runs: CharacterRun[], from: number, to: number): CharacterRun[] {
+    const sliced: CharacterRun[] = [];
+    let offset = 0;
+
+    for (const run of runs) {
+        const start = Math.max(from, offset);
+        const end = Math.min(to, offset + run.length);
+        if (end > start) {
+            sliced.push({ length: end - start, ai: run.ai });
+        }
+        offset += run.length;
+    }
+
+    return sliced;
+}
+
+// Joins two lists of runs, merging the runs where they meet when both are AI or both human
+function concatRuns(first: CharacterRun[], second: CharacterRun[]): CharacterRun[] {
+    const last = first[first.length - 1];
+    if (last && second.length > 0 && last.ai === second[0].ai) {
+        return [...first.slice(0, -1), { length: last.length + second[0].length, ai: last.ai }, ...second.slice(1)];
+    }
+    return [...first, ...second];
+}
@@ -0,0 +1,287 @@
+import type { EnhancedChangeEvent } from '../types/ChangeEvent';
+import type { AIAttribution } from '../types/AIDetection';
+import type { DiffFile } from '../types/Diff';
+import type { ReviewQualityAssessment, ReviewQualityLevel } from '../models/ReviewQuality';
+import type {
+    CommitAnalysis,
+    CommitFileAnalysis,
+    CommitMetrics,
+    CommitQuality,
+    TimelineEntry
+} from '../models/Session';
+import { ReviewQualityEngine } from './ReviewQualityEngine';
+import type { LineAttributionMap } from './LineAttributionMap';
+
+export interface CommitFileInput {
+    diff: DiffFile;
+    events: EnhancedChangeEvent[];          // events matched to the file's hunks
+    attribution: AIAttribution;
+    review: ReviewQualityAssessment | null; // null when no editing activity was recorded
+    lineAttribution?: LineAttributionMap;   // replayed working-copy provenance, when available
+}
+
+export interface CommitTrailer {
+    key: string;
+    value: string;
+}
+
+export interface CommitInfo {
+    commitId: string;
+    message: string;
+    timestamp: number;
+}
+
+// Recorded positions drift as later edits move lines around, so hunks are matched loosely
+export const DEFAULT_HUNK_LINE_TOLERANCE = 3;
+
+const BULK_INSERTION_SIZE = 100;
+
+/**
+ * Pure commit analysis: maps recorded change events onto the hunks of a diff
+ * and rolls per-file AI attribution and review quality up into a CommitAnalysis.
+ */
+export class CommitAnalysisEngine {
+    private lineTolerance: number;
+    private reviewEngine: ReviewQualityEngine;
+
+    constructor(lineTolerance: number = DEFAULT_HUNK_LINE_TOLERANCE) {
+        this.lineTolerance = lineTolerance;
+        this.reviewEngine = new ReviewQualityEngine();
+    }
+
+    /**
+     * Selects the events (recorded after `since`) whose position falls inside one of
+     * the file's hunks. When none line up, every event after `since` is kept, since
+     * the edits still produced the staged content even if their lines have moved.
+     */
+    matchEventsToHunks(events: EnhancedChangeEvent[], diff: DiffFile, since: number = 0): EnhancedChangeEvent[] {
+        const recent = events.filter(e => e.timestamp >= since);
+        if (recent.length === 0 || diff.hunks.length === 0) {
+            return recent;
+        }
+
+        const ranges = diff.hunks.map(hunk => ({
+            start: hunk.newStart - this.lineTolerance,
+            end: hunk.newStart + Math.max(hunk.newLines, 1) - 1 + this.lineTolerance
+        }));
+
+        const matched = recent.filter(event => {
+            const line = event.position.line + 1; // events are 0-based, hunks 1-based
+            return ranges.some(range => line >= range.start && line <= range.end);
+        });
+
+        return matched.length > 0 ? matched : recent;
+    }
+
+    analyzeFile(input: CommitFileInput): CommitFileAnalysis {
+        const { diff, attribution, review, lineAttribution } = input;
+        const aiGeneratedLines = lineAttribution
+            ? this.countAILines(diff, lineAttribution)
+            : Math.round(diff.linesAdded * attribution.aiProbability);
+        const reviewed = review !== null && review.qualityLevel !== 'immediate-commit';
+
+        return {
+            uri: diff.path,
+            linesChanged: diff.linesAdded + diff.linesDeleted,
+            aiGeneratedLines,
+            humanWrittenLines: diff.linesAdded - aiGeneratedLines,
+            reviewedLines: reviewed ? diff.linesAdded : 0,
+            aiConfidence: attribution.confidence,
+            reviewQuality: review?.overallScore ?? 0
+        };
+    }
+
+    analyzeCommit(commit: CommitInfo, files: CommitFileInput[]): CommitAnalysis {
+        const fileAnalysis = files.map(file => this.analyzeFile(file));
+        const commitMetrics = this.calculateMetrics(files, fileAnalysis);
+
+        return {
+            commitId: commit.commitId,
+            timestamp: commit.timestamp,
+            message: commit.message,
+            fileAnalysis,
+            commitMetrics,
+            commitQuality: this.assessCommitQuality(files, fileAnalysis, commitMetrics),
+            developmentTimeline: this.buildTimeline(files)
+        };
+    }
+
+    getReviewQualityLevel(score: number): ReviewQualityLevel {
+        return this.reviewEngine.getQualityLevel(score);
+    }
+
+    /**
+     * Git trailers (`Key: value` lines) summarizing the commit, in the order they should be appended
+     */
+    buildTrailers(analysis: CommitAnalysis): CommitTrailer[] {
+        const metrics = analysis.commitMetrics;
+        return [
+            { key: 'AI-Contribution', value: `${Math.round(metrics.aiContributionPercentage)}%` },
+            { key: 'Review-Quality', value: this.getReviewQualityLevel(metrics.averageReviewQuality) }
+        ];
+    }
+
+    /**
+     * Human-readable summary suitable for pasting into a commit message body
+     */
+    formatSummary(analysis: CommitAnalysis): string {
+        const metrics = analysis.commitMetrics;
+        const totalAI = analysis.fileAnalysis.reduce((sum, f) => sum + f.aiGeneratedLines, 0);
+        const totalAdded = analysis.fileAnalysis.reduce((sum, f) => sum + f.aiGeneratedLines + f.humanWrittenLines, 0);
+
+        const lines = [
+            `AI contribution: ${metrics.aiContributionPercentage.toFixed(1)}% (${totalAI} of ${totalAdded} added lines)`,
+            `Review quality: ${this.getReviewQualityLevel(metrics.averageReviewQuality)} (${metrics.averageReviewQuality.toFixed(1)}/10)`,
+            `Sessions: ${metrics.numberOfSessions}, development time: ${formatDuration(metrics.developmentTimespan)}`
+        ];
+
+        if (analysis.fileAnalysis.length > 0) {
+            lines.push('', 'Files:');
+            for (const file of analysis.fileAnalysis) {
+                const added = file.aiGeneratedLines + file.humanWrittenLines;
+                const aiShare = added > 0 ? Math.round((file.aiGeneratedLines / added) * 100) : 0;
+                lines.push(`  ${file.uri}: ${file.linesChanged} lines changed, ${aiShare}% AI, review ${file.reviewQuality.toFixed(1)}/10`);
+            }
+        }
+
+        if (analysis.commitQuality.potentialIssues.length > 0) {
+            lines.push('', 'Potential issues:');
+            for (const issue of analysis.commitQuality.potentialIssues) {
+                lines.push(`  - ${issue}`);
+            }
+        }
+
+        return lines.join('\n');
+    }
+
+    private countAILines(diff: DiffFile, lineAttribution: LineAttributionMap): number {
+        let count = 0;
+        for (const hunk of diff.hunks) {
+            // Diff lines are 1-based, attribution lines 0-based
+            count += hunk.addedLines.filter(line => lineAttribution.isAILine(line - 1)).length;
+        }
+        return count;
+    }
+
+    private calculateMetrics(files: CommitFileInput[], fileAnalysis: CommitFileAnalysis[]): CommitMetrics {
+        const totalAI = fileAnalysis.reduce((sum, f) => sum + f.aiGeneratedLines, 0);
+        const totalHuman = fileAnalysis.reduce((sum, f) => sum + f.humanWrittenLines, 0);
+        const totalAdded = totalAI + totalHuman;
+
+        const reviewScores = files
+            .filter(f => f.review !== null)
+            .map(f => f.review!.overallScore);
+
+        const events = files.flatMap(f => f.events);
+        const timestamps = events.map(e => e.timestamp);
+
+        return {
+            totalLinesChanged: fileAnalysis.reduce((sum, f) => sum + f.linesChanged, 0),
+            aiContributionPercentage: totalAdded > 0 ? (totalAI / totalAdded) * 100 : 0,
+            humanContributionPercentage: totalAdded > 0 ? (totalHuman / totalAdded) * 100 : 0,
+            averageReviewQuality: reviewScores.length > 0
+                ? reviewScores.reduce((sum, s) => sum + s, 0) / reviewScores.length
+                : 0,
+            developmentTimespan: timestamps.length > 0 ? Math.max(...timestamps) - Math.min(...timestamps) : 0,
+            numberOfSessions: new Set(events.map(e => e.sessionId)).size
+        };
+    }
+
+    private assessCommitQuality(
+        files: CommitFileInput[],
+        fileAnalysis: CommitFileAnalysis[],
+        metrics: CommitMetrics
+    ): CommitQuality {
+        const totalAI = fileAnalysis.reduce((sum, f) => sum + f.aiGeneratedLines, 0);
+        const totalAdded = fileAnalysis.reduce((sum, f) => sum + f.aiGeneratedLines + f.humanWrittenLines, 0);
+        const totalReviewed = fileAnalysis.reduce((sum, f) => sum + f.reviewedLines, 0);
+
+        // Review quality weighted by how much AI code each file carries
+        const aiIntegrationQuality = totalAI > 0
+            ? fileAnalysis.reduce((sum, f) => sum + f.reviewQuality * f.aiGeneratedLines, 0) / totalAI
+            : metrics.averageReviewQuality;
+        const reviewThoroughness = totalAdded > 0 ? (totalReviewed / totalAdded) * 10 : 0;
+
+        return {
+            overallScore: (metrics.averageReviewQuality + aiIntegrationQuality + reviewThoroughness) / 3,
+            aiIntegrationQuality,
+            reviewThoroughness,
+            codeQualityIndicators: this.collectQualityIndicators(files),
+            potentialIssues: this.collectPotentialIssues(files)
+        };
+    }
+
+    private collectQualityIndicators(files: CommitFileInput[]): string[] {
+        const indicators = new Set<string>();
+
+        for (const { review } of files) {
+            if (!review) continue;
+            if (review.patterns.testingEvidence) indicators.add('testing-evidence');
+            if (review.patterns.commentaryAdded) indicators.add('commentary-added');
+            if (review.patterns.incrementalRefinement) indicators.add('incremental-refinement');
+            if (review.patterns.codeRestructuring) indicators.add('code-restructuring');
+            if (review.patterns.pausesForReflection) indicators.add('pauses-for-reflection');
+            if (review.patterns.multiSessionReview) indicators.add('multi-session-review');
+        }
+
+        return Array.from(indicators);
+    }
+
+    private collectPotentialIssues(files: CommitFileInput[]): string[] {
+        const issues: string[] = [];
+
+        for (const { diff, events, attribution, review } of files) {
+            if (diff.isBinary) {
+                issues.push(`${diff.path}: binary file not analyzed`);
+            } else if (events.length === 0 && diff.linesAdded > 0) {
+                issues.push(`${diff.path}: no recorded editing activity`);
+            } else if (attribution.source === 'ai-generated' && review?.qualityLevel === 'immediate-commit') {
+                issues.push(`${diff.path}: AI-generated code committed without review`);
+            }
+        }
+
+        return issues;
+    }
+
+    private buildTimeline(files: CommitFileInput[]): TimelineEntry[] {
+        const timeline: TimelineEntry[] = [];
+
+        for (const { diff, events } of files) {
+            const sorted = [...events].sort((a, b) => a.timestamp - b.timestamp);
+            if (sorted.length === 0) continue;
+
+            timeline.push({
+                timestamp: sorted[0].timestamp,
+                activity: `edit-started:${diff.path}`,
+                tool: 'vscode',
+                significance: 1
+            });
+
+            for (const event of sorted) {
+                if (event.externalToolSignature?.detected) {
+                    timeline.push({
+                        timestamp: event.timestamp,
+                        activity: `external-tool-change:${diff.path}`,
+                        tool: event.externalToolSignature.toolType,
+                        significance: 3
+                    });
+                } else if (event.changeType !== 'delete' && event.contentLength >= BULK_INSERTION_SIZE) {
+                    timeline.push({
+                        timestamp: event.timestamp,
+                        activity: `bulk-insertion:${diff.path}`,
+                        tool: event.source === 'external' ? 'unknown' : 'vscode',
+                        significance: 2
+                    });
+                }
+            }
+        }
+
+        return timeline.sort((a, b) => a.timestamp - b.timestamp);
+    }
+}
+
+function formatDuration(ms: number): string {
+    const minutes = Math.round(ms / 60000);
+    if (minutes < 60) return `${minutes}m`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
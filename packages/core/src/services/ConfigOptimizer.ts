@@ -0,0 +1,459 @@
+import type { EnhancedChangeEvent } from '../types/ChangeEvent';
+import type { AIDetectionConfig } from '../types/AIDetection';
+import type { DetectorEvaluation, GroundTruthClass, GroundTruthDataset } from '../types/Evaluation';
+import { AIDetectionEngine, DEFAULT_AI_DETECTION_CONFIG } from './AIDetectionEngine';
+import { HeuristicRegistry, defaultHeuristicRegistry } from './HeuristicRegistry';
+import { evaluateDetectorIncrementally, selectLabeledEvents } from './DetectorEvaluation';
+import { computeAUC, type ScoredSample } from '../utils/classificationMetrics';
+import { runToCompletion, type Incremental, type IncrementalProgress } from '../utils/incremental';
+
+export type OptimizationMetric = 'f1' | 'auc' | 'accuracy' | 'balanced-accuracy';
+export type OptimizationMethod = 'coordinate-descent' | 'grid-search' | 'logistic';
+
+export interface ConfigOptimizationOptions {
+    baseConfig?: AIDetectionConfig;         // Starting point; bucket and attribution settings are kept as they are
+    metric?: OptimizationMetric;            // Default 'f1'
+    method?: OptimizationMethod;            // How weights are searched, default 'coordinate-descent'
+    registry?: HeuristicRegistry;
+    maxIterations?: number;                 // Coordinate descent passes, default 50
+    optimizeThresholds?: boolean;           // Also search the heuristic thresholds, default true
+}
+
+export interface ConfigOptimizationResult {
+    config: AIDetectionConfig;              // The base config when nothing beat it
+    metric: OptimizationMetric;
+    method: OptimizationMethod;
+    baselineScore: number;
+    score: number;
+    improved: boolean;
+    baselineEvaluation: DetectorEvaluation;
+    evaluation: DetectorEvaluation;
+    candidatesEvaluated: number;
+}
+
+interface LabeledUnit {
+    events: EnhancedChangeEvent[];
+    label: GroundTruthClass;
+}
+
+interface Cutoff {
+    cutoff: number;
+    value: number;
+}
+
+const MIN_WEIGHT_STEP = 0.0125;
+const MAX_THRESHOLD_CANDIDATES = 11;
+const LOGISTIC_ITERATIONS = 500;
+const LOGISTIC_LEARNING_RATE = 0.5;
+const LOGISTIC_L2 = 0.001;
+
+/**
+ * Proposes weights, heuristic thresholds and classification cutoffs that maximize
+ * a metric over labeled data. Weights are searched with the detection thresholds
+ * fixed, then each threshold is searched with the weights fixed, then the weights
+ * are refit. The human cutoff is placed where the metric peaks; the assisted/generated
+ * cutoff separates the two AI labels when both occur.
+ *
+ * The cutoffs are fitted to the weighted heuristic score. In the character attribution
+ * modes the same cutoffs classify the AI share of characters instead, which they were
+ * not fitted to, so the evaluation of such a config can differ from the fitted score.
+ */
+export function optimizeDetectionConfig(
+    events: EnhancedChangeEvent[],
+    dataset: GroundTruthDataset,
+    options: ConfigOptimizationOptions = {}
+): ConfigOptimizationResult {
+    return runToCompletion(optimizeDetectionConfigIncrementally(events, dataset, options));
+}
+
+/**
+ * optimizeDetectionConfig, pausing after each labeled unit the engine analyzes
+ */
+export function* optimizeDetectionConfigIncrementally(
+    events: EnhancedChangeEvent[],
+    dataset: GroundTruthDataset,
+    options: ConfigOptimizationOptions = {}
+): Incremental<ConfigOptimizationResult> {
+    const baseConfig = options.baseConfig ?? DEFAULT_AI_DETECTION_CONFIG;
+    const metric = options.metric ?? 'f1';
+    const method = options.method ?? 'coordinate-descent';
+    const registry = options.registry ?? defaultHeuristicRegistry;
+    const heuristicIds = registry.getIds();
+
+    const units: LabeledUnit[] = dataset.labels
+        .map(label => ({ events: selectLabeledEvents(events, label), label: label.label }))
+        .filter(unit => unit.events.length > 0);
+    const positives = units.map(unit => unit.label !== 'human');
+
+    // The engine runs over every unit once per feature pass and twice more to evaluate
+    const optimizeThresholds = options.optimizeThresholds ?? true;
+    const thresholdCandidateLists = optimizeThresholds
+        ? registry.getThresholds().map(threshold => ({ threshold, values: thresholdCandidates(threshold.min, threshold.max, threshold.step) }))
+        : [];
+    const featurePasses = 1 + thresholdCandidateLists.reduce((sum, candidates) => sum + candidates.values.length, 0);
+    const unitEvents = units.reduce((sum, unit) => sum + unit.events.length, 0);
+    const progress: IncrementalProgress = { completed: 0, total: (featurePasses + 2) * unitEvents };
+
+    let candidatesEvaluated = 0;
+    const objective = (features: number[][], weights: number[]): number => {
+        candidatesEvaluated++;
+        const scored = features.map((vector, i) => ({ score: dot(vector, weights), positive: positives[i] }));
+        return metric === 'auc' ? computeAUC(scored) ?? 0 : findBestCutoff(scored, metric).value;
+    };
+
+    const searchWeights = (features: number[][], start: number[]): number[] => {
+        switch (method) {
+            case 'grid-search':
+                return gridSearchWeights(start, weights => objective(features, weights));
+            case 'logistic':
+                return fitLogisticWeights(features, positives) ?? start;
+            case 'coordinate-descent':
+                return coordinateDescentWeights(start, weights => objective(features, weights), options.maxIterations ?? 50);
+        }
+    };
+
+    let thresholds = { ...baseConfig.thresholds };
+    let features = yield* computeFeatures(units, { ...baseConfig, thresholds }, registry, heuristicIds, progress);
+    let weights = searchWeights(features, normalize(heuristicIds.map(id => baseConfig.weights[id] ?? registry.get(id)?.defaultWeight ?? 0)));
+
+    if (optimizeThresholds) {
+        let best = objective(features, weights);
+
+        for (const { threshold, values } of thresholdCandidateLists) {
+            for (const value of values) {
+                const candidate = { ...thresholds, [threshold.key]: value };
+                const candidateFeatures = yield* computeFeatures(units, { ...baseConfig, thresholds: candidate }, registry, heuristicIds, progress);
+                const score = objective(candidateFeatures, weights);
+                if (score > best + 1e-9) {
+                    best = score;
+                    thresholds = candidate;
+                    features = candidateFeatures;
+                }
+            }
+        }
+
+        weights = searchWeights(features, weights);
+    }
+
+    const scored = features.map((vector, i) => ({ score: dot(vector, weights), positive: positives[i] }));
+    const config: AIDetectionConfig = {
+        weights: { ...baseConfig.weights, ...toWeightRecord(heuristicIds, weights) },
+        thresholds,
+        classification: chooseClassification(scored, units, baseConfig.classification, metric),
+        bucketConfig: { ...baseConfig.bucketConfig },
+        ...(baseConfig.attribution && { attribution: { ...baseConfig.attribution } })
+    };
+
+    const baselineEvaluation = yield* evaluate(events, dataset, new AIDetectionEngine(baseConfig, registry), progress);
+    const evaluation = yield* evaluate(events, dataset, new AIDetectionEngine(config, registry), progress);
+    const baselineScore = scoreEvaluation(baselineEvaluation, metric);
+    const score = scoreEvaluation(evaluation, metric);
+    const improved = score > baselineScore + 1e-9;
+
+    return {
+        config: improved ? config : baseConfig,
+        metric,
+        method,
+        baselineScore,
+        score: improved ? score : baselineScore,
+        improved,
+        baselineEvaluation,
+        evaluation: improved ? evaluation : baselineEvaluation,
+        candidatesEvaluated
+    };
+}
+
+/**
+ * The metric for an evaluation, measured at its human threshold (the AI/human decision)
+ */
+export function scoreEvaluation(evaluation: DetectorEvaluation, metric: OptimizationMetric): number {
+    const metrics = evaluation.classificationThresholds.humanThreshold;
+    switch (metric) {
+        case 'auc':
+            return evaluation.auc ?? 0;
+        case 'accuracy':
+            return metrics.accuracy;
+        case 'balanced-accuracy':
+            return (metrics.recall + 1 - metrics.falsePositiveRate) / 2;
+        case 'f1':
+            return metrics.f1;
+    }
+}
+
+function* computeFeatures(
+    units: LabeledUnit[],
+    config: AIDetectionConfig,
+    registry: HeuristicRegistry,
+    heuristicIds: string[],
+    progress: IncrementalProgress
+): Incremental<number[][]> {
+    const engine = new AIDetectionEngine(config, registry);
+    const features: number[][] = [];
+    for (const unit of units) {
+        // The verdict rolls up the event scores, so the features are the mean heuristic
+        // scores of the events
+        const stream = engine.createStream();
+        unit.events.forEach(event => stream.push(event));
+        const eventScores = stream.getEventScores();
+        features.push(heuristicIds.map(id =>
+            eventScores.reduce((sum, score) => sum + (score.heuristicScores[id] ?? 0), 0) / eventScores.length
+        ));
+
+        progress.completed += unit.events.length;
+        yield { ...progress };
+    }
+    return features;
+}
+
+// Evaluates a candidate, reporting its progress as part of the optimization's
+function* evaluate(
+    events: EnhancedChangeEvent[],
+    dataset: GroundTruthDataset,
+    engine: AIDetectionEngine,
+    progress: IncrementalProgress
+): Incremental<DetectorEvaluation> {
+    const start = progress.completed;
+    const steps = evaluateDetectorIncrementally(events, dataset, { engine });
+    for (;;) {
+        const step = steps.next();
+        if (step.done) {
+            return step.value;
+        }
+        progress.completed = start + step.value.completed;
+        yield { ...progress };
+    }
+}
+
+/**
+ * Moves one weight up or down at a time, rescaling the others to keep the sum at 1,
+ * and halves the step once no move improves the objective
+ */
+function coordinateDescentWeights(start: number[], objective: (weights: number[]) => number, maxIterations: number): number[] {
+    let weights = start;
+    let best = objective(weights);
+    let step = 0.1;
+
+    for (let iteration = 0; iteration < maxIterations && step >= MIN_WEIGHT_STEP; iteration++) {
+        let improved = false;
+
+        for (let i = 0; i < weights.length; i++) {
+            for (const delta of [step, -step]) {
+                const candidate = shiftWeight(weights, i, delta);
+                if (!candidate) continue;
+
+                const score = objective(candidate);
+                if (score > best + 1e-9) {
+                    best = score;
+                    weights = candidate;
+                    improved = true;
+                }
+            }
+        }
+
+        if (!improved) step /= 2;
+    }
+
+    return weights;
+}
+
+/**
+ * Tries every weight vector on a simplex grid, preferring the one closest to the
+ * starting weights among equally good ones. The grid coarsens with more heuristics
+ * to keep the number of candidates in the low thousands.
+ */
+function gridSearchWeights(start: number[], objective: (weights: number[]) => number): number[] {
+    const count = start.length;
+    const divisions = count <= 6 ? 10 : count <= 8 ? 6 : 4;
+
+    let best = start;
+    let bestScore = objective(start);
+    let bestDistance = 0;
+
+    const visit = (prefix: number[], remaining: number) => {
+        if (prefix.length === count - 1) {
+            const candidate = [...prefix, remaining].map(units => units / divisions);
+            const score = objective(candidate);
+            const distance = candidate.reduce((sum, weight, i) => sum + Math.abs(weight - start[i]), 0);
+            if (score > bestScore + 1e-9 || (score > bestScore - 1e-9 && distance < bestDistance)) {
+                bestScore = Math.max(score, bestScore);
+                bestDistance = distance;
+                best = candidate;
+            }
+            return;
+        }
+        for (let units = 0; units <= remaining; units++) {
+            visit([...prefix, units], remaining - units);
+        }
+    };
+
+    if (count > 0) visit([], divisions);
+    return best;
+}
+
+/**
+ * Logistic regression over the heuristic scores. Negative coefficients are dropped
+ * because the engine only adds weighted scores; null when no coefficient is positive.
+ */
+function fitLogisticWeights(features: number[][], positives: boolean[]): number[] | null {
+    const count = features[0]?.length ?? 0;
+    if (count === 0 || features.length === 0) return null;
+
+    const coefficients = new Array(count).fill(0);
+    let intercept = 0;
+
+    for (let iteration = 0; iteration < LOGISTIC_ITERATIONS; iteration++) {
+        const gradient = new Array(count).fill(0);
+        let interceptGradient = 0;
+
+        features.forEach((vector, i) => {
+            const error = sigmoid(dot(vector, coefficients) + intercept) - (positives[i] ? 1 : 0);
+            vector.forEach((value, j) => { gradient[j] += error * value; });
+            interceptGradient += error;
+        });
+
+        for (let j = 0; j < count; j++) {
+            coefficients[j] -= LOGISTIC_LEARNING_RATE * (gradient[j] / features.length + LOGISTIC_L2 * coefficients[j]);
+        }
+        intercept -= LOGISTIC_LEARNING_RATE * interceptGradient / features.length;
+    }
+
+    const clipped = coefficients.map(coefficient => Math.max(coefficient, 0));
+    return clipped.some(coefficient => coefficient > 0) ? normalize(clipped) : null;
+}
+
+function chooseClassification(
+    scored: ScoredSample[],
+    units: LabeledUnit[],
+    base: AIDetectionConfig['classification'],
+    metric: OptimizationMetric
+): AIDetectionConfig['classification'] {
+    // AUC has no cutoff of its own; place the decision where F1 peaks
+    const humanThreshold = clamp(
+        scored.length > 0 ? findBestCutoff(scored, metric === 'auc' ? 'f1' : metric).cutoff : base.humanThreshold,
+        0.01,
+        0.97
+    );
+
+    // Scores in [aiAssisted, aiGenerated) classify as ai-generated, so aiAssistedThreshold
+    // is the boundary between the two AI labels
+    const aiSamples = scored
+        .map((sample, i) => ({ score: sample.score, positive: units[i].label === 'ai-generated' }))
+        .filter((_sample, i) => units[i].label !== 'human');
+    const hasBothAILabels = aiSamples.some(sample => sample.positive) && aiSamples.some(sample => !sample.positive);
+
+    const aiAssistedThreshold = clamp(
+        hasBothAILabels
+            ? findBestCutoff(aiSamples, 'balanced-accuracy').cutoff
+            : humanThreshold + (base.aiAssistedThreshold - base.humanThreshold),
+        humanThreshold + 0.01,
+        0.98
+    );
+    const aiGeneratedThreshold = clamp(
+        aiAssistedThreshold + (base.aiGeneratedThreshold - base.aiAssistedThreshold),
+        aiAssistedThreshold + 0.01,
+        0.99
+    );
+
+    return {
+        humanThreshold: round(humanThreshold),
+        aiAssistedThreshold: round(aiAssistedThreshold),
+        aiGeneratedThreshold: round(aiGeneratedThreshold)
+    };
+}
+
+/**
+ * Sweeps every cutoff between distinct scores, predicting positive at or above it.
+ * Cutoffs sit halfway between neighbouring scores so unseen data near them splits evenly.
+ */
+function findBestCutoff(samples: ScoredSample[], metric: Exclude<OptimizationMetric, 'auc'>): Cutoff {
+    const sorted = [...samples].sort((a, b) => b.score - a.score);
+    const totalPositives = sorted.filter(sample => sample.positive).length;
+    const totalNegatives = sorted.length - totalPositives;
+
+    let best: Cutoff = { cutoff: 1, value: metricValue(metric, 0, 0, totalNegatives, totalPositives) };
+    let tp = 0;
+    let fp = 0;
+
+    for (let i = 0; i < sorted.length; i++) {
+        if (sorted[i].positive) tp++;
+        else fp++;
+
+        // Only cut between distinct scores
+        if (i + 1 < sorted.length && sorted[i + 1].score === sorted[i].score) continue;
+
+        const value = metricValue(metric, tp, fp, totalNegatives - fp, totalPositives - tp);
+        if (value > best.value + 1e-9) {
+            const next = i + 1 < sorted.length ? sorted[i + 1].score : 0;
+            best = { cutoff: (sorted[i].score + next) / 2, value };
+        }
+    }
+
+    return best;
+}
+
+function metricValue(metric: Exclude<OptimizationMetric, 'auc'>, tp: number, fp: number, tn: number, fn: number): number {
+    const recall = tp + fn === 0 ? 0 : tp / (tp + fn);
+    switch (metric) {
+        case 'f1':
+            return 2 * tp + fp + fn === 0 ? 0 : (2 * tp) / (2 * tp + fp + fn);
+        case 'accuracy':
+            return tp + fp + tn + fn === 0 ? 0 : (tp + tn) / (tp + fp + tn + fn);
+        case 'balanced-accuracy':
+            return (recall + (fp + tn === 0 ? 0 : tn / (fp + tn))) / 2;
+    }
+}
+
+function thresholdCandidates(min: number, max: number, step: number): number[] {
+    const steps = Math.max(1, Math.round((max - min) / step));
+    const stride = Math.max(1, Math.ceil(steps / (MAX_THRESHOLD_CANDIDATES - 1)));
+    const values: number[] = [];
+    for (let i = 0; i <= steps; i += stride) {
+        values.push(round(min + i * step));
+    }
+    if (values[values.length - 1] !== max) values.push(max);
+    return values;
+}
+
+/**
+ * Adds delta to one weight and rescales the rest so the total stays 1, like the tuning sliders.
+ * Null when the move would leave the weight outside [0, 1].
+ */
+function shiftWeight(weights: number[], index: number, delta: number): number[] | null {
+    const target = weights[index] + delta;
+    if (target < 0 || target > 1 || weights.length < 2) return null;
+
+    const others = weights.reduce((sum, weight, i) => i === index ? sum : sum + weight, 0);
+    return weights.map((weight, i) => {
+        if (i === index) return target;
+        return others === 0 ? (1 - target) / (weights.length - 1) : weight * (1 - target) / others;
+    });
+}
+
+function toWeightRecord(ids: string[], weights: number[]): Record<string, number> {
+    const rounded = weights.map(weight => round(weight));
+    // Keep the rounded weights summing to exactly 1
+    const largest = rounded.indexOf(Math.max(...rounded));
+    rounded[largest] = round(rounded[largest] + 1 - rounded.reduce((sum, weight) => sum + weight, 0));
+    return Object.fromEntries(ids.map((id, i) => [id, rounded[i]]));
+}
+
+function normalize(weights: number[]): number[] {
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    return total > 0 ? weights.map(weight => weight / total) : weights.map(() => 1 / weights.length);
+}
+
+function dot(a: number[], b: number[]): number {
+    return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+function sigmoid(value: number): number {
+    return 1 / (1 + Math.exp(-value));
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(Math.max(value, min), max);
+}
+
+function round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,252 @@
+import type { AIDetectionConfig } from '../types/AIDetection';
+import type {
+    ConfigIssue,
+    ConfigLayer,
+    ConfigLayerName,
+    ConfigValueSource,
+    PartialAIDetectionConfig,
+    ResolvedConfig
+} from '../types/Config';
+import type { FieldSpec, FieldSpecs, SchemaValidationIssue } from '../types/LogSchema';
+import { DEFAULT_AI_DETECTION_CONFIG } from './AIDetectionEngine';
+import { HeuristicRegistry, defaultHeuristicRegistry } from './HeuristicRegistry';
+import { validateFields } from '../utils/schemaValidation';
+import { deepMerge, isPlainObject } from '../utils/deepMerge';
+
+/**
+ * Checked-in workspace configuration, read by the extension and the CLI
+ */
+export const WORKSPACE_CONFIG_FILE = '.quantifai.json';
+
+/**
+ * Config saved from the web dashboard, relative to the workspace root. It sits with the
+ * logs rather than in version control and is resolved as the 'dashboard' layer.
+ */
+export const DASHBOARD_CONFIG_FILE = '.vscode/ai-code-analyzer/config.json';
+
+/**
+ * Sensitivity at which the classification cutoffs are used as configured
+ */
+export const NEUTRAL_SENSITIVITY = 0.5;
+
+const LAYER_PRECEDENCE: ConfigLayerName[] = ['defaults', 'user', 'workspace', 'dashboard', 'override'];
+
+const number: FieldSpec = { type: 'number' };
+const optional = (spec: FieldSpec): FieldSpec => ({ ...spec, optional: true });
+const object = (fields: FieldSpecs): FieldSpec => ({ type: 'object', fields });
+const oneOf = (...values: string[]): FieldSpec => ({ type: 'string', values });
+
+const CLASSIFICATION_FIELDS: FieldSpecs = {
+    humanThreshold: number,
+    aiAssistedThreshold: number,
+    aiGeneratedThreshold: number
+};
+
+const BUCKET_CONFIG_FIELDS: FieldSpecs = {
+    intervalMinutes: number,
+    aggregationMethod: oneOf('average', 'max', 'weighted', 'median', 'percentile'),
+    percentile: optional(number),
+    minEventsPerBucket: number,
+    alignment: optional(oneOf('first-event', 'calendar')),
+    windowStepMinutes: optional(number)
+};
+
+const ATTRIBUTION_FIELDS: FieldSpecs = {
+    mode: oneOf('events', 'inserted-characters', 'surviving-characters')
+};
+
+/**
+ * Resolves the effective detection config from its layers. Layers are merged key by key
+ * over the defaults in precedence order, whatever order they are passed in. Every value
+ * is traced to the layer that set it, and problems are reported with their path and source.
+ */
+export function resolveConfig(
+    layers: ConfigLayer[],
+    registry: HeuristicRegistry = defaultHeuristicRegistry
+): ResolvedConfig {
+    const ordered = [{ name: 'defaults' as const, config: getDefaultConfig(registry) }, ...layers]
+        .map((layer, index) => ({ layer, index }))
+        .sort((a, b) => LAYER_PRECEDENCE.indexOf(a.layer.name) - LAYER_PRECEDENCE.indexOf(b.layer.name) || a.index - b.index)
+        .map(({ layer }) => layer);
+
+    const sources: Record<string, ConfigValueSource> = {};
+    const issues: ConfigIssue[] = [];
+    let config = {} as AIDetectionConfig;
+
+    for (const layer of ordered) {
+        const source: ConfigValueSource = layer.origin ? { layer: layer.name, origin: layer.origin } : { layer: layer.name };
+        if (!isPlainObject(layer.config)) {
+            issues.push({ path: '', message: 'expected an object of settings', source });
+            continue;
+        }
+
+        issues.push(...findUnknownKeys(layer.config, registry).map(issue => ({ ...issue, source })));
+        recordSources(layer.config, '', source, sources);
+        config = deepMerge(config, layer.config);
+    }
+
+    for (const issue of findConfigIssues(config, registry)) {
+        issues.push({ ...issue, source: findSource(issue.path, sources) });
+    }
+
+    return { config, sources, issues, valid: issues.length === 0 };
+}
+
+/**
+ * Problems with a complete config, each with the dotted path of the offending value:
+ * missing or mistyped fields, weights and classification cutoffs outside 0..1, negative
+ * thresholds, cutoffs out of order and bucket options out of range
+ */
+export function findConfigIssues(
+    config: unknown,
+    registry: HeuristicRegistry = defaultHeuristicRegistry
+): SchemaValidationIssue[] {
+    const issues = validateFields(getConfigFields(registry), config);
+    if (!isPlainObject(config)) return issues;
+
+    // Ranges are only checked where the structure is right
+    const invalidPaths = new Set(issues.map(issue => issue.path));
+    const check = (path: string, valid: (value: number) => boolean, message: string) => {
+        const value = getPath(config, path);
+        if (typeof value === 'number' && !invalidPaths.has(path) && !valid(value)) {
+            issues.push({ path, message });
+        }
+    };
+
+    for (const id of registry.getIds()) {
+        check(`weights.${id}`, value => value >= 0 && value <= 1, 'must be between 0 and 1');
+    }
+    for (const { key } of registry.getThresholds()) {
+        check(`thresholds.${key}`, value => value >= 0, 'must not be negative');
+    }
+
+    for (const key of Object.keys(CLASSIFICATION_FIELDS)) {
+        check(`classification.${key}`, value => value >= 0 && value <= 1, 'must be between 0 and 1');
+    }
+    const isAbove = (path: string) => (value: number) => {
+        const lower = getPath(config, path);
+        return typeof lower !== 'number' || value > lower;
+    };
+    check('classification.aiAssistedThreshold', isAbove('classification.humanThreshold'),
+        'must be above classification.humanThreshold');
+    check('classification.aiGeneratedThreshold', isAbove('classification.aiAssistedThreshold'),
+        'must be above classification.aiAssistedThreshold');
+
+    check('bucketConfig.intervalMinutes', value => value > 0, 'must be above 0');
+    check('bucketConfig.percentile', value => value >= 0 && value <= 100, 'must be between 0 and 100');
+    check('bucketConfig.minEventsPerBucket', value => value >= 0, 'must not be negative');
+    check('bucketConfig.windowStepMinutes', value => value > 0, 'must be above 0');
+
+    return issues;
+}
+
+/**
+ * One line per issue, naming the layer that set the offending value
+ */
+export function formatConfigIssues(issues: ConfigIssue[]): string {
+    return issues.map(issue => {
+        const where = issue.source ? ` (${issue.source.origin ?? issue.source.layer})` : '';
+        return `${issue.path || '(config)'} ${issue.message}${where}`;
+    }).join('\n');
+}
+
+/**
+ * Scales the classification cutoffs for a sensitivity between 0 and 1. Each cutoff is raised
+ * to the power 4^(sensitivity - 0.5): above the neutral 0.5 all cutoffs drop, so lower scores
+ * are flagged as AI, and below it they all rise. The cutoffs keep their order and stay in 0..1.
+ */
+export function applySensitivity(
+    classification: AIDetectionConfig['classification'],
+    sensitivity: number
+): AIDetectionConfig['classification'] {
+    const exponent = Math.pow(4, Math.min(Math.max(sensitivity, 0), 1) - NEUTRAL_SENSITIVITY);
+    const scale = (cutoff: number) => Math.pow(cutoff, exponent);
+
+    return {
+        humanThreshold: scale(classification.humanThreshold),
+        aiAssistedThreshold: scale(classification.aiAssistedThreshold),
+        aiGeneratedThreshold: scale(classification.aiGeneratedThreshold)
+    };
+}
+
+/**
+ * Dotted paths of every value a config can set, e.g. 'thresholds.fastTypingSpeed'
+ */
+export function getConfigPaths(registry: HeuristicRegistry = defaultHeuristicRegistry): string[] {
+    return Object.entries(getConfigFields(registry))
+        .flatMap(([section, spec]) => Object.keys(spec.fields ?? {}).map(key => `${section}.${key}`));
+}
+
+/**
+ * The built-in defaults, with the defaults of any custom heuristics in the registry
+ */
+export function getDefaultConfig(registry: HeuristicRegistry = defaultHeuristicRegistry): AIDetectionConfig {
+    return deepMerge(DEFAULT_AI_DETECTION_CONFIG, {
+        weights: { ...registry.getDefaultWeights(), ...DEFAULT_AI_DETECTION_CONFIG.weights },
+        thresholds: { ...registry.getDefaultThresholds(), ...DEFAULT_AI_DETECTION_CONFIG.thresholds }
+    });
+}
+
+function getConfigFields(registry: HeuristicRegistry): FieldSpecs {
+    return {
+        weights: object(Object.fromEntries(registry.getIds().map(id => [id, number]))),
+        thresholds: object(Object.fromEntries(registry.getThresholds().map(threshold => [threshold.key, number]))),
+        classification: object(CLASSIFICATION_FIELDS),
+        bucketConfig: object(BUCKET_CONFIG_FIELDS),
+        attribution: optional(object(ATTRIBUTION_FIELDS))
+    };
+}
+
+// Settings a layer sets that nothing reads, usually typos
+function findUnknownKeys(config: PartialAIDetectionConfig, registry: HeuristicRegistry): SchemaValidationIssue[] {
+    const fields = getConfigFields(registry);
+    const issues: SchemaValidationIssue[] = [];
+
+    for (const [section, value] of Object.entries(config)) {
+        const known = fields[section]?.fields;
+        if (!known) {
+            issues.push({ path: section, message: 'is not a known setting' });
+        } else if (isPlainObject(value)) {
+            for (const key of Object.keys(value)) {
+                if (!(key in known)) {
+                    issues.push({ path: `${section}.${key}`, message: 'is not a known setting' });
+                }
+            }
+        }
+    }
+
+    return issues;
+}
+
+// Attributes every value a layer sets to it, replacing what earlier layers set at or below that path
+function recordSources(value: unknown, path: string, source: ConfigValueSource, sources: Record<string, ConfigValueSource>): void {
+    if (value === undefined) return;
+
+    if (isPlainObject(value) && path !== '') {
+        delete sources[path];
+    } else if (!isPlainObject(value)) {
+        for (const key of Object.keys(sources)) {
+            if (key.startsWith(`${path}.`)) {
+                delete sources[key];
+            }
+        }
+        sources[path] = source;
+        return;
+    }
+
+    for (const [key, nested] of Object.entries(value)) {
+        recordSources(nested, path ? `${path}.${key}` : key, source, sources);
+    }
+}
+
+// Source of the value at `path`, or of the nearest value above it
+function findSource(path: string, sources: Record<string, ConfigValueSource>): ConfigValueSource | undefined {
+    for (let current = path; current; current = current.slice(0, Math.max(current.lastIndexOf('.'), 0))) {
+        if (sources[current]) return sources[current];
+    }
+    return undefined;
+}
+
+function getPath(value: unknown, path: string): unknown {
+    return path.split('.').reduce<unknown>((current, key) => isPlainObject(current) ? current[key] : undefined, value);
+}
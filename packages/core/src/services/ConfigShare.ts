@@ -0,0 +1,76 @@
+import type { AIDetectionConfig } from '../types/AIDetection';
+import type { PartialAIDetectionConfig } from '../types/Config';
+import { HeuristicRegistry, defaultHeuristicRegistry } from './HeuristicRegistry';
+import { getDefaultConfig } from './ConfigResolver';
+import { decodeBase64Url, encodeBase64Url } from '../utils/base64';
+import { isPlainObject } from '../utils/deepMerge';
+
+/**
+ * Marks a share string, so pasted text can be told apart from config JSON
+ */
+export const CONFIG_SHARE_PREFIX = 'quantifai-config:';
+
+/**
+ * The values of `config` that differ from `base`, as a partial config
+ */
+export function getConfigChanges(
+    config: AIDetectionConfig,
+    base: AIDetectionConfig = getDefaultConfig()
+): PartialAIDetectionConfig {
+    return (diffValue(config, base) ?? {}) as PartialAIDetectionConfig;
+}
+
+/**
+ * A copy-able string holding the changes `config` makes to the defaults. It survives
+ * URLs and chat messages, and `parseSharedConfig` turns it back into a config layer.
+ */
+export function encodeConfigShareString(
+    config: AIDetectionConfig,
+    registry: HeuristicRegistry = defaultHeuristicRegistry
+): string {
+    return CONFIG_SHARE_PREFIX + encodeBase64Url(JSON.stringify(getConfigChanges(config, getDefaultConfig(registry))));
+}
+
+/**
+ * Reads a share string or config JSON, such as an exported config file, as a partial
+ * config. Only the format is checked here; resolve the result to validate the values.
+ */
+export function parseSharedConfig(text: string): PartialAIDetectionConfig {
+    const trimmed = text.trim();
+    let json = trimmed;
+    if (trimmed.startsWith(CONFIG_SHARE_PREFIX)) {
+        try {
+            json = decodeBase64Url(trimmed.slice(CONFIG_SHARE_PREFIX.length));
+        } catch (error) {
+            throw new Error(`Invalid config share string: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch (error) {
+        throw new Error(`Invalid config: expected a share string or JSON (${error instanceof Error ? error.message : error})`);
+    }
+
+    if (!isPlainObject(parsed)) {
+        throw new Error('Invalid config: expected an object of settings');
+    }
+    return parsed as PartialAIDetectionConfig;
+}
+
+// Undefined when nothing differs; arrays and other values are compared as a whole
+function diffValue(value: unknown, base: unknown): unknown {
+    if (isPlainObject(value) && isPlainObject(base)) {
+        const changes: Record<string, unknown> = {};
+        for (const [key, nested] of Object.entries(value)) {
+            const change = diffValue(nested, base[key]);
+            if (change !== undefined) {
+                changes[key] = change;
+            }
+        }
+        return Object.keys(changes).length > 0 ? changes : undefined;
+    }
+
+    return JSON.stringify(value) === JSON.stringify(base) ? undefined : value;
+}
@@ -0,0 +1,465 @@
+import type { EnhancedChangeEvent } from '../types/ChangeEvent';
+import type {
+    HeuristicScores,
+    AIAttribution,
+    AIDetectionResult,
+    AIEvidence,
+    DecisionTraceStep,
+    WeightedScore,
+    AIDetectionConfig,
+    CharacterAttribution,
+    EventRollup,
+    EventScore,
+    EventScoreLabel,
+    ExternalChangeEvent,
+    TimeGap
+} from '../types/AIDetection';
+import type { Heuristic, HeuristicAccumulator, HeuristicContext } from '../types/Heuristic';
+import type { HeuristicRegistry } from './HeuristicRegistry';
+import { classifyScore, createHeuristicContext, getHeuristicWeight, scoreEvent } from './EventScoring';
+import { CharacterAttributionMap, mergeCharacterAttributions } from './CharacterAttributionMap';
+
+interface HeuristicState {
+    heuristic: Heuristic;
+    accumulator?: HeuristicAccumulator;
+}
+
+/**
+ * Running detection state for a growing sequence of change events. Heuristics,
+ * evidence and timeline are updated as each event is pushed, so the current result
+ * never revisits earlier events (except for heuristics without an accumulator).
+ *
+ * Results share the stream's append-only lists (events, bulk changes, gaps, ...),
+ * which keep growing as events arrive; copy them to keep a snapshot.
+ */
+export class DetectionStream {
+    private config: AIDetectionConfig;
+    private registry: HeuristicRegistry;
+    private context: HeuristicContext;
+    private heuristics: HeuristicState[];
+    private eventContext: number;     // Preceding events the event scores need at most
+
+    private events: EnhancedChangeEvent[] = [];
+    private eventScores: EventScore[] = [];      // Caught up with the events when asked for
+    private labelCounts: Record<EventScoreLabel, number> = { 'human': 0, 'ai-assisted': 0, 'ai-generated': 0 };
+    private probabilitySum = 0;
+    private characterMaps: Map<string, CharacterAttributionMap> = new Map();   // Per file, likewise
+    private characterEventCount = 0;
+    private bulkChanges: AIEvidence['bulkChanges'] = [];
+    private typingBursts: AIEvidence['typingBursts'] = [];
+    private externalIndicators: string[] = [];
+    private externalEvents: ExternalChangeEvent[] = [];
+    private gaps: TimeGap[] = [];
+
+    private hasExternalSignature = false;
+    private hasTimingAnomalies = false;
+    private hasCodeBlocks = false;
+    private hasComments = false;
+    private hasFunctions = false;
+    private hasClasses = false;
+    private hasRapidLargeInsertion = false;
+    private hasFormattedBulkCode = false;
+    private hasHumanIndicators = false;
+    private hasAIIndicators = false;
+
+    private cachedResult: AIDetectionResult | null = null;
+
+    constructor(config: AIDetectionConfig, registry: HeuristicRegistry) {
+        this.config = config;
+        this.registry = registry;
+        this.context = createHeuristicContext(config, registry);
+        this.heuristics = registry.list().map(heuristic => ({
+            heuristic,
+            accumulator: heuristic.createAccumulator?.(this.context)
+        }));
+        this.eventContext = Math.max(0, ...registry.list().map(heuristic => heuristic.eventContext ?? 0));
+    }
+
+    /**
+     * Add the next change event. Events are expected in timestamp order.
+     */
+    push(change: EnhancedChangeEvent): void {
+        const { thresholds } = this.config;
+        const previous = this.events[this.events.length - 1];
+
+        this.events.push(change);
+        this.cachedResult = null;
+
+        for (const { accumulator } of this.heuristics) {
+            accumulator?.add(change);
+        }
+
+        // Evidence
+        if (change.contentLength > thresholds.bulkInsertionSize) {
+            this.bulkChanges.push({
+                size: change.contentLength,
+                timespan: change.timeSinceLastChange,
+                content: change.content ?
+                    change.content.substring(0, 100) + (change.content.length > 100 ? '...' : '') :
+                    `[${change.contentLength} chars]`
+            });
+
+            if (change.timeSinceLastChange < thresholds.pasteTimeThreshold) {
+                this.hasRapidLargeInsertion = true;
+            }
+            if (change.content?.includes('\n') && change.indentationLevel > 0) {
+                this.hasFormattedBulkCode = true;
+            }
+        }
+
+        if (change.burstDetected) {
+            this.typingBursts.push({
+                speed: change.instantTypingSpeed,
+                duration: change.timeSinceLastChange,
+                content: change.content ?
+                    change.content.substring(0, 50) + (change.content.length > 50 ? '...' : '') :
+                    `[${change.contentLength} chars]`
+            });
+        }
+
+        if (
+            change.timeSinceLastChange > thresholds.longPauseThreshold ||
+            (change.timeSinceLastChange < thresholds.rapidSequenceThreshold && change.timeSinceLastChange > 0)
+        ) {
+            this.hasTimingAnomalies = true;
+        }
+
+        if (change.isCodeBlock) {
+            this.hasCodeBlocks = true;
+        }
+        if (change.isComment) {
+            this.hasComments = true;
+        }
+        if (change.languageConstruct === 'function') {
+            this.hasFunctions = true;
+        } else if (change.languageConstruct === 'class') {
+            this.hasClasses = true;
+        }
+
+        // Timeline
+        if (change.externalToolSignature?.detected) {
+            this.hasExternalSignature = true;
+            this.externalIndicators.push(...(change.externalToolSignature.indicators || []));
+            this.externalEvents.push({
+                timestamp: change.timestamp,
+                fileUri: change.fileUri,
+                changeType: change.contentLength > 200 ? 'bulk-insert' : 'structured-edit',
+                contentLength: change.contentLength,
+                detectedTool: change.externalToolSignature.toolType || 'unknown',
+                confidence: change.externalToolSignature.confidence || 0
+            });
+        }
+
+        if (previous) {
+            const gap = change.timestamp - previous.timestamp;
+            if (gap > 10000) { // 10+ second gaps
+                this.gaps.push({
+                    startTime: previous.timestamp,
+                    endTime: change.timestamp,
+                    duration: gap,
+                    likelyActivity: gap > 300000 ? 'extended-break' : 'thinking-pause'
+                });
+            }
+        }
+
+        // Indicators for the mixed classification
+        if (
+            change.instantTypingSpeed > 0 &&
+            change.instantTypingSpeed < thresholds.fastTypingSpeed &&
+            change.contentLength < 50
+        ) {
+            this.hasHumanIndicators = true;
+        }
+        if (
+            change.externalToolSignature?.detected ||
+            (change.contentLength > thresholds.bulkInsertionSize &&
+                change.timeSinceLastChange < thresholds.pasteTimeThreshold)
+        ) {
+            this.hasAIIndicators = true;
+        }
+    }
+
+    /**
+     * Number of events pushed so far
+     */
+    get size(): number {
+        return this.events.length;
+    }
+
+    /**
+     * The events pushed so far, in push order
+     */
+    getEvents(): readonly EnhancedChangeEvent[] {
+        return this.events;
+    }
+
+    /**
+     * Current attribution together with the heuristic scores, weighted scores and
+     * decision trace behind it. Cached until the next push.
+     */
+    getResult(): AIDetectionResult {
+        if (!this.cachedResult) {
+            this.cachedResult = this.events.length === 0 ? this.createEmptyResult() : this.computeResult();
+        }
+        return this.cachedResult;
+    }
+
+    /**
+     * Scores of the events pushed so far, each scored with the events just before it, in
+     * push order. Events are scored when first asked for and never rescored.
+     */
+    getEventScores(): EventScore[] {
+        for (let i = this.eventScores.length; i < this.events.length; i++) {
+            const preceding = this.events.slice(Math.max(0, i - this.eventContext), i);
+            const score = scoreEvent(this.events[i], this.config, this.registry, this.context, preceding);
+            this.eventScores.push(score);
+            this.labelCounts[score.label]++;
+            this.probabilitySum += score.aiProbability;
+        }
+        return this.eventScores;
+    }
+
+    /**
+     * The event scores rolled up, kept as events are scored so it never revisits them
+     */
+    getEventRollup(): EventRollup {
+        const eventCount = this.getEventScores().length;
+        return {
+            eventCount,
+            aiProbability: eventCount > 0 ? this.probabilitySum / eventCount : 0,
+            labelCounts: { ...this.labelCounts }
+        };
+    }
+
+    /**
+     * Characters written by the events pushed so far and by those labelled as AI, with
+     * each event labelled on its own. Like the event scores, only new events are replayed.
+     */
+    getCharacterAttribution(): CharacterAttribution {
+        const eventScores = this.getEventScores();
+        for (; this.characterEventCount < this.events.length; this.characterEventCount++) {
+            const event = this.events[this.characterEventCount];
+            let map = this.characterMaps.get(event.fileUri);
+            if (!map) {
+                map = new CharacterAttributionMap();
+                this.characterMaps.set(event.fileUri, map);
+            }
+            map.apply(event, eventScores[this.characterEventCount].label !== 'human');
+        }
+
+        return mergeCharacterAttributions(Array.from(this.characterMaps.values(), map => map.getAttribution()));
+    }
+
+    /**
+     * Current attribution
+     */
+    getAttribution(): AIAttribution {
+        const { source, confidence, aiProbability, evidence, timeline } = this.getResult();
+        return { source, confidence, aiProbability, evidence, timeline };
+    }
+
+    private computeResult(): AIDetectionResult {
+        const decisionTrace: DecisionTraceStep[] = [];
+
+        // Calculate individual heuristic scores
+        const heuristicScores = this.calculateHeuristicScores(decisionTrace);
+
+        // Apply weights and combine scores
+        const weightedScores = this.combineScores(heuristicScores, decisionTrace);
+        const totalScore = this.sumWeightedScores(weightedScores);
+
+        // The events mode rolls up the event scores, the character modes attribute the
+        // share of characters written by AI-like events
+        const eventRollup = this.getEventRollup();
+        const characterAttribution = (this.config.attribution?.mode ?? 'events') === 'events' ?
+            undefined :
+            this.getCharacterAttribution();
+
+        // Make final determination
+        const finalResult = this.makeFinalDecision(totalScore, eventRollup, decisionTrace, characterAttribution);
+
+        return {
+            ...finalResult,
+            evidence: this.createEvidence(),
+            timeline: {
+                vsCodeEvents: this.events,
+                externalEvents: this.externalEvents,
+                gaps: this.gaps
+            },
+            heuristicScores,
+            weightedScores,
+            totalScore,
+            decisionTrace,
+            eventRollup,
+            ...(characterAttribution && { characterAttribution })
+        };
+    }
+
+    private calculateHeuristicScores(trace: DecisionTraceStep[]): HeuristicScores {
+        const scores: { [heuristicId: string]: number } = {};
+
+        for (const { heuristic, accumulator } of this.heuristics) {
+            const evaluation = accumulator ?
+                accumulator.evaluate() :
+                heuristic.evaluate(this.events, this.context);
+            const score = Math.min(Math.max(evaluation.score, 0), 1.0);
+
+            trace.push({
+                step: heuristic.traceStep,
+                input: evaluation.input,
+                output: score,
+                reasoning: evaluation.reasoning
+            });
+
+            scores[heuristic.id] = score;
+        }
+
+        return scores as HeuristicScores;
+    }
+
+    private combineScores(heuristicScores: HeuristicScores, trace: DecisionTraceStep[]): { [heuristic: string]: WeightedScore } {
+        const weightedScores: { [heuristic: string]: WeightedScore } = {};
+
+        for (const [heuristic, rawScore] of Object.entries(heuristicScores)) {
+            const weight = getHeuristicWeight(this.config, this.registry, heuristic);
+            const weightedScore = rawScore * weight;
+
+            weightedScores[heuristic] = {
+                rawScore,
+                weight,
+                weightedScore
+            };
+        }
+
+        const totalWeightedScore = this.sumWeightedScores(weightedScores);
+
+        trace.push({
+            step: 'score-combination',
+            input: { heuristicScores, weights: this.config.weights },
+            output: { weightedScores, totalWeightedScore },
+            reasoning: `Combined weighted scores: ${totalWeightedScore.toFixed(3)}`
+        });
+
+        return weightedScores;
+    }
+
+    private sumWeightedScores(weightedScores: { [heuristic: string]: WeightedScore }): number {
+        return Object.values(weightedScores)
+            .reduce((sum, score) => sum + score.weightedScore, 0);
+    }
+
+    private makeFinalDecision(
+        totalScore: number,
+        eventRollup: EventRollup,
+        trace: DecisionTraceStep[],
+        characterAttribution?: CharacterAttribution
+    ): Pick<AIAttribution, 'source' | 'confidence' | 'aiProbability'> {
+        const mode = this.config.attribution?.mode ?? 'events';
+        const aiShare = !characterAttribution ? undefined : mode === 'inserted-characters' ?
+            characterAttribution.insertedAIShare :
+            characterAttribution.survivingAIShare;
+
+        // The mean event probability or AI share is classified with the same cutoffs,
+        // and is itself the probability
+        const aiProbability = aiShare ?? eventRollup.aiProbability;
+        const classified = classifyScore(aiProbability, this.config.classification);
+        let source: AIAttribution['source'] = classified.label;
+        let confidence = classified.confidence;
+
+        // Check for mixed patterns
+        const { hasHumanIndicators, hasAIIndicators } = this;
+
+        if (hasHumanIndicators && hasAIIndicators && source !== 'human') {
+            source = 'mixed';
+            confidence = Math.min(confidence, 0.8);
+        }
+
+        trace.push({
+            step: 'final-decision',
+            input: {
+                totalScore,
+                eventRollup,
+                hasHumanIndicators,
+                hasAIIndicators,
+                thresholds: this.config.classification,
+                ...(characterAttribution && { mode, characterAttribution })
+            },
+            output: { source, confidence, aiProbability },
+            reasoning: aiShare === undefined ?
+                `Mean probability of ${eventRollup.eventCount} events: ${aiProbability.toFixed(3)} -> ${source} (confidence: ${confidence.toFixed(3)})` :
+                `AI share of ${mode}: ${aiShare.toFixed(3)} -> ${source} (confidence: ${confidence.toFixed(3)})`
+        });
+
+        return { source, confidence, aiProbability };
+    }
+
+    private createEvidence(): AIEvidence {
+        const contentCharacteristics: string[] = [];
+        if (this.hasCodeBlocks) {
+            contentCharacteristics.push('contains-code-blocks');
+        }
+        if (this.hasComments) {
+            contentCharacteristics.push('contains-comments');
+        }
+        if (this.hasFunctions) {
+            contentCharacteristics.push('contains-functions');
+        }
+        if (this.hasClasses) {
+            contentCharacteristics.push('contains-classes');
+        }
+
+        const suspiciousPatterns: string[] = [];
+        if (this.hasRapidLargeInsertion) {
+            // Very fast large insertions
+            suspiciousPatterns.push('rapid-large-insertion');
+        }
+        if (this.hasFormattedBulkCode) {
+            // Perfect formatting in bulk changes
+            suspiciousPatterns.push('formatted-bulk-code');
+        }
+
+        return {
+            externalToolSignature: this.hasExternalSignature,
+            bulkChangePattern: this.bulkChanges.length > 0,
+            timingAnomalies: this.hasTimingAnomalies,
+            contentCharacteristics,
+            bulkChanges: this.bulkChanges,
+            typingBursts: this.typingBursts,
+            externalIndicators: this.externalIndicators,
+            suspiciousPatterns
+        };
+    }
+
+    private createEmptyResult(): AIDetectionResult {
+        const heuristicScores: { [heuristicId: string]: number } = {};
+        for (const id of this.registry.getIds()) {
+            heuristicScores[id] = 0;
+        }
+
+        return {
+            source: 'human',
+            confidence: 0,
+            aiProbability: 0,
+            evidence: {
+                externalToolSignature: false,
+                bulkChangePattern: false,
+                timingAnomalies: false,
+                contentCharacteristics: [],
+                bulkChanges: [],
+                typingBursts: [],
+                externalIndicators: [],
+                suspiciousPatterns: []
+            },
+            timeline: {
+                vsCodeEvents: [],
+                externalEvents: [],
+                gaps: []
+            },
+            heuristicScores: heuristicScores as HeuristicScores,
+            weightedScores: {},
+            totalScore: 0,
+            decisionTrace: [],
+            eventRollup: this.getEventRollup()
+        };
+    }
+}
@@ -0,0 +1,193 @@
+import type { EnhancedChangeEvent } from '../types/ChangeEvent';
+import type { AIAttribution, AIDetectionConfig } from '../types/AIDetection';
+import type { FieldSpecs } from '../types/LogSchema';
+import type {
+    DetectorEvaluation,
+    EvaluationSample,
+    GroundTruthClass,
+    GroundTruthDataset,
+    GroundTruthLabel,
+    EventLabel,
+    ThresholdMetrics
+} from '../types/Evaluation';
+import { AIDetectionEngine, DEFAULT_AI_DETECTION_CONFIG } from './AIDetectionEngine';
+import { computeAUC, computeRocCurve, computeThresholdMetrics, type ScoredSample } from '../utils/classificationMetrics';
+import { validateFields } from '../utils/schemaValidation';
+import { runToCompletion, type Incremental } from '../utils/incremental';
+
+export interface DetectorEvaluationOptions {
+    config?: AIDetectionConfig;
+    engine?: AIDetectionEngine;     // Takes precedence over config
+    thresholds?: number[];          // AI probability thresholds to sweep
+}
+
+// 0, 0.05, ..., 1
+export const DEFAULT_EVALUATION_THRESHOLDS: number[] = Array.from({ length: 21 }, (_, i) => i / 20);
+
+const GROUND_TRUTH_CLASSES: GroundTruthClass[] = ['human', 'ai-generated', 'ai-assisted'];
+const PREDICTED_SOURCES: AIAttribution['source'][] = ['human', 'ai-assisted', 'ai-generated', 'mixed'];
+
+const labelFields: FieldSpecs = {
+    label: { type: 'string', values: GROUND_TRUTH_CLASSES },
+    toolName: { type: 'string', optional: true },
+    note: { type: 'string', optional: true }
+};
+
+const eventLabelFields: FieldSpecs = {
+    eventId: { type: 'string' },
+    ...labelFields
+};
+
+const timeRangeLabelFields: FieldSpecs = {
+    startTime: { type: 'number' },
+    endTime: { type: 'number' },
+    sessionId: { type: 'string', optional: true },
+    fileUri: { type: 'string', optional: true },
+    ...labelFields
+};
+
+export function isEventLabel(label: GroundTruthLabel): label is EventLabel {
+    return 'eventId' in label;
+}
+
+/**
+ * Validates a parsed labels file, throwing an Error that lists every invalid field
+ */
+export function parseGroundTruthDataset(value: unknown): GroundTruthDataset {
+    const issues = validateFields({
+        name: { type: 'string', optional: true },
+        labels: { type: 'array', items: { type: 'object' } }
+    }, value);
+
+    if (issues.length === 0) {
+        (value as GroundTruthDataset).labels.forEach((label, index) => {
+            const path = `labels[${index}]`;
+            if (isEventLabel(label)) {
+                issues.push(...validateFields(eventLabelFields, label, path));
+                return;
+            }
+
+            const rangeIssues = validateFields(timeRangeLabelFields, label, path);
+            if (rangeIssues.length === 0 && label.startTime > label.endTime) {
+                rangeIssues.push({ path: `${path}.endTime`, message: 'is before startTime' });
+            }
+            issues.push(...rangeIssues);
+        });
+    }
+
+    if (issues.length > 0) {
+        throw new Error(`Invalid ground truth dataset: ${issues.map(issue => `${issue.path || '(root)'} ${issue.message}`).join('; ')}`);
+    }
+
+    return value as GroundTruthDataset;
+}
+
+/**
+ * Events a label covers, in timestamp order
+ */
+export function selectLabeledEvents(events: EnhancedChangeEvent[], label: GroundTruthLabel): EnhancedChangeEvent[] {
+    const matches = isEventLabel(label)
+        ? events.filter(event => event.eventId === label.eventId)
+        : events.filter(event =>
+            event.timestamp >= label.startTime &&
+            event.timestamp <= label.endTime &&
+            (label.sessionId === undefined || event.sessionId === label.sessionId) &&
+            (label.fileUri === undefined || event.fileUri === label.fileUri)
+        );
+
+    return matches.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Runs the detection engine over every labeled unit and scores its AI probability
+ * against the labels, treating ai-generated and ai-assisted as the positive class
+ */
+export function evaluateDetector(
+    events: EnhancedChangeEvent[],
+    dataset: GroundTruthDataset,
+    options: DetectorEvaluationOptions = {}
+): DetectorEvaluation {
+    return runToCompletion(evaluateDetectorIncrementally(events, dataset, options));
+}
+
+/**
+ * evaluateDetector, pausing after each labeled unit
+ */
+export function* evaluateDetectorIncrementally(
+    events: EnhancedChangeEvent[],
+    dataset: GroundTruthDataset,
+    options: DetectorEvaluationOptions = {}
+): Incremental<DetectorEvaluation> {
+    const engine = options.engine ?? new AIDetectionEngine(options.config ?? DEFAULT_AI_DETECTION_CONFIG);
+    const classification = engine.getConfig().classification;
+
+    const units = dataset.labels.map(label => selectLabeledEvents(events, label));
+    const progress = { completed: 0, total: units.reduce((sum, covered) => sum + covered.length, 0) };
+    const samples: EvaluationSample[] = [];
+    let unmatchedLabels = 0;
+
+    for (const [index, label] of dataset.labels.entries()) {
+        const covered = units[index];
+        if (covered.length === 0) {
+            unmatchedLabels++;
+            continue;
+        }
+
+        const attribution = engine.analyze(covered);
+        samples.push({
+            id: isEventLabel(label) ? label.eventId : `range-${index}`,
+            label: label.label,
+            toolName: label.toolName,
+            eventCount: covered.length,
+            aiProbability: attribution.aiProbability,
+            predictedSource: attribution.source
+        });
+
+        progress.completed += covered.length;
+        yield { ...progress };
+    }
+
+    const scored: ScoredSample[] = samples.map(sample => ({
+        score: sample.aiProbability,
+        positive: sample.label !== 'human'
+    }));
+
+    const thresholdSweep = (options.thresholds ?? DEFAULT_EVALUATION_THRESHOLDS)
+        .map(threshold => computeThresholdMetrics(scored, threshold));
+
+    return {
+        datasetName: dataset.name,
+        samples,
+        unmatchedLabels,
+        positives: scored.filter(sample => sample.positive).length,
+        negatives: scored.filter(sample => !sample.positive).length,
+        thresholdSweep,
+        classificationThresholds: {
+            humanThreshold: computeThresholdMetrics(scored, classification.humanThreshold),
+            aiAssistedThreshold: computeThresholdMetrics(scored, classification.aiAssistedThreshold),
+            aiGeneratedThreshold: computeThresholdMetrics(scored, classification.aiGeneratedThreshold)
+        },
+        bestF1: findBestF1(thresholdSweep),
+        rocCurve: computeRocCurve(scored),
+        auc: computeAUC(scored),
+        classConfusion: buildClassConfusion(samples)
+    };
+}
+
+function findBestF1(sweep: ThresholdMetrics[]): ThresholdMetrics | null {
+    return sweep.reduce<ThresholdMetrics | null>(
+        (best, metrics) => metrics.f1 > (best?.f1 ?? 0) ? metrics : best,
+        null
+    );
+}
+
+function buildClassConfusion(samples: EvaluationSample[]): DetectorEvaluation['classConfusion'] {
+    const emptyRow = () => Object.fromEntries(PREDICTED_SOURCES.map(source => [source, 0])) as Record<AIAttribution['source'], number>;
+    const confusion = Object.fromEntries(GROUND_TRUTH_CLASSES.map(label => [label, emptyRow()])) as DetectorEvaluation['classConfusion'];
+
+    for (const sample of samples) {
+        confusion[sample.label][sample.predictedSource]++;
+    }
+
+    return confusion;
+}
@@ -0,0 +1,127 @@
+import type { EnhancedChangeEvent } from '../types/ChangeEvent';
+import type {
+    AIDetectionConfig,
+    EventScoreLabel,
+    EventRollup,
+    EventScore,
+    HeuristicScores
+} from '../types/AIDetection';
+import type { HeuristicContext } from '../types/Heuristic';
+import { HeuristicRegistry, defaultHeuristicRegistry } from './HeuristicRegistry';
+
+export interface ScoreClassification {
+    label: EventScoreLabel;
+    confidence: number;
+    aiProbability: number;
+}
+
+/**
+ * The context heuristics evaluate in; thresholds the config leaves out fall back to the
+ * defaults the heuristics declare
+ */
+export function createHeuristicContext(config: AIDetectionConfig, registry: HeuristicRegistry): HeuristicContext {
+    return {
+        config,
+        getThreshold: key => config.thresholds[key] ?? registry.getThreshold(key)?.defaultValue ?? 0
+    };
+}
+
+/**
+ * Weight of a heuristic in the total score; custom heuristics default to their declared weight
+ */
+export function getHeuristicWeight(config: AIDetectionConfig, registry: HeuristicRegistry, id: string): number {
+    return config.weights[id] ?? registry.get(id)?.defaultWeight ?? 0;
+}
+
+/**
+ * Maps a weighted total score onto the classification cutoffs
+ */
+export function classifyScore(totalScore: number, classification: AIDetectionConfig['classification']): ScoreClassification {
+    if (totalScore < classification.humanThreshold) {
+        return { label: 'human', confidence: 1 - totalScore, aiProbability: totalScore };
+    }
+    if (totalScore < classification.aiAssistedThreshold) {
+        return { label: 'ai-assisted', confidence: 0.8, aiProbability: totalScore };
+    }
+    if (totalScore < classification.aiGeneratedThreshold) {
+        return { label: 'ai-generated', confidence: totalScore, aiProbability: totalScore };
+    }
+    return { label: 'ai-generated', confidence: totalScore, aiProbability: Math.min(totalScore + 0.1, 1.0) };
+}
+
+/**
+ * Scores a single change event: each heuristic evaluates that event, together with the
+ * last of the `preceding` events for heuristics that declare an `eventContext`, and the
+ * weighted sum is classified like the total score of a sequence.
+ *
+ * Heuristics that need context the event does not have are left out, and the weights of
+ * the others scaled up to the full weight, so their weight does not cap the score.
+ */
+export function scoreEvent(
+    change: EnhancedChangeEvent,
+    config: AIDetectionConfig,
+    registry: HeuristicRegistry = defaultHeuristicRegistry,
+    context: HeuristicContext = createHeuristicContext(config, registry),
+    preceding: readonly EnhancedChangeEvent[] = []
+): EventScore {
+    const heuristicScores: { [heuristicId: string]: number } = {};
+    const firedHeuristics: string[] = [];
+    const evidence: string[] = [];
+    let weightedSum = 0;
+    let totalWeight = 0;
+    let appliedWeight = 0;
+
+    for (const heuristic of registry.list()) {
+        const weight = getHeuristicWeight(config, registry, heuristic.id);
+        totalWeight += weight;
+
+        const contextSize = Math.min(heuristic.eventContext ?? 0, preceding.length);
+        if (heuristic.eventContext && contextSize === 0) {
+            heuristicScores[heuristic.id] = 0;
+            continue;
+        }
+
+        const changes = contextSize > 0 ? [...preceding.slice(-contextSize), change] : [change];
+        const evaluation = heuristic.evaluate(changes, context);
+        const score = Math.min(Math.max(evaluation.score, 0), 1.0);
+
+        heuristicScores[heuristic.id] = score;
+        weightedSum += score * weight;
+        appliedWeight += weight;
+        if (score > 0) {
+            firedHeuristics.push(heuristic.id);
+            evidence.push(evaluation.reasoning ? `${heuristic.label}: ${evaluation.reasoning}` : heuristic.label);
+        }
+    }
+
+    const totalScore = appliedWeight > 0 ? weightedSum * totalWeight / appliedWeight : 0;
+    const { label, aiProbability } = classifyScore(totalScore, config.classification);
+    return {
+        eventId: change.eventId,
+        timestamp: change.timestamp,
+        aiProbability,
+        label,
+        heuristicScores: heuristicScores as HeuristicScores,
+        firedHeuristics,
+        evidence
+    };
+}
+
+/**
+ * Rolls event scores up into label counts and their mean probability
+ */
+export function rollupEventScores(scores: readonly EventScore[]): EventRollup {
+    const labelCounts: Record<EventScoreLabel, number> = { 'human': 0, 'ai-assisted': 0, 'ai-generated': 0 };
+    let probabilitySum = 0;
+
+    for (const score of scores) {
+        labelCounts[score.label]++;
+        probabilitySum += score.aiProbability;
+    }
+
+    return {
+        eventCount: scores.length,
+        aiProbability: scores.length > 0 ? probabilitySum / scores.length : 0,
+        labelCounts
+    };
+}
@@ -0,0 +1,111 @@
+import type { Heuristic, HeuristicThreshold } from '../types/Heuristic';
+import { BUILTIN_HEURISTICS } from './BuiltinHeuristics';
+
+/**
+ * Ordered collection of the heuristics the detection engine runs.
+ * Register custom heuristics here instead of forking the engine.
+ */
+export class HeuristicRegistry {
+    private heuristics: Map<string, Heuristic> = new Map();
+
+    constructor(heuristics: Heuristic[] = []) {
+        heuristics.forEach(heuristic => this.register(heuristic));
+    }
+
+    /**
+     * Add a heuristic. Ids must be unique within the registry.
+     */
+    register(heuristic: Heuristic): this {
+        if (this.heuristics.has(heuristic.id)) {
+            throw new Error(`Heuristic "${heuristic.id}" is already registered`);
+        }
+
+        for (const threshold of heuristic.thresholds) {
+            const existing = this.getThreshold(threshold.key);
+            if (existing && existing.defaultValue !== threshold.defaultValue) {
+                throw new Error(
+                    `Threshold "${threshold.key}" is already declared with default ${existing.defaultValue}`
+                );
+            }
+        }
+
+        this.heuristics.set(heuristic.id, heuristic);
+        return this;
+    }
+
+    /**
+     * Remove a heuristic, returning whether it was registered
+     */
+    unregister(id: string): boolean {
+        return this.heuristics.delete(id);
+    }
+
+    has(id: string): boolean {
+        return this.heuristics.has(id);
+    }
+
+    get(id: string): Heuristic | undefined {
+        return this.heuristics.get(id);
+    }
+
+    /**
+     * All heuristics in registration order
+     */
+    list(): Heuristic[] {
+        return Array.from(this.heuristics.values());
+    }
+
+    getIds(): string[] {
+        return Array.from(this.heuristics.keys());
+    }
+
+    /**
+     * All thresholds declared by registered heuristics, de-duplicated by key
+     */
+    getThresholds(): HeuristicThreshold[] {
+        const thresholds = new Map<string, HeuristicThreshold>();
+
+        for (const heuristic of this.heuristics.values()) {
+            for (const threshold of heuristic.thresholds) {
+                if (!thresholds.has(threshold.key)) {
+                    thresholds.set(threshold.key, threshold);
+                }
+            }
+        }
+
+        return Array.from(thresholds.values());
+    }
+
+    getThreshold(key: string): HeuristicThreshold | undefined {
+        return this.getThresholds().find(threshold => threshold.key === key);
+    }
+
+    getDefaultWeights(): { [heuristicId: string]: number } {
+        const weights: { [heuristicId: string]: number } = {};
+        for (const heuristic of this.heuristics.values()) {
+            weights[heuristic.id] = heuristic.defaultWeight;
+        }
+        return weights;
+    }
+
+    getDefaultThresholds(): { [threshold: string]: number } {
+        const thresholds: { [threshold: string]: number } = {};
+        for (const threshold of this.getThresholds()) {
+            thresholds[threshold.key] = threshold.defaultValue;
+        }
+        return thresholds;
+    }
+}
+
+/**
+ * Create a registry containing only the built-in heuristics
+ */
+export function createDefaultHeuristicRegistry(): HeuristicRegistry {
+    return new HeuristicRegistry(BUILTIN_HEURISTICS);
+}
+
+/**
+ * Shared registry used by the engine, validation and tuning UIs unless
+ * another registry is passed explicitly
+ */
+export const defaultHeuristicRegistry = createDefaultHeuristicRegistry();
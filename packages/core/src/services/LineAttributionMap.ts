@@ -0,0 +1,216 @@
+import type { EnhancedChangeEvent, Position } from '../types/ChangeEvent';
+import type {
+    EventClassifier,
+    LineAttributionKind,
+    LineAttributionSummary,
+    LineHistory,
+    LineProvenance
+} from '../types/LineAttribution';
+import { AIDetectionEngine } from './AIDetectionEngine';
+
+interface LineRecord {
+    origin: LineProvenance;
+    edits: LineProvenance[];
+}
+
+/**
+ * Per-line provenance for a single file, built by replaying its change events in order.
+ * Each line remembers the event that created it and every later event that wrote onto it;
+ * lines shift as later edits insert or remove lines above them. Lines no replayed event
+ * touched are unknown (null).
+ *
+ * Events logged before ranges were recorded only carry a start position and are
+ * replayed as single-line edits, so line shifts from those events are lost.
+ */
+export class LineAttributionMap {
+    private lines: Array<LineRecord | null> = [];
+
+    static fromEvents(events: EnhancedChangeEvent[], classify: EventClassifier): LineAttributionMap {
+        const map = new LineAttributionMap();
+        // Stable sort keeps the logged order of changes that share a timestamp
+        const ordered = [...events].sort((a, b) => a.timestamp - b.timestamp);
+        for (const event of ordered) {
+            map.apply(event, classify);
+        }
+        return map;
+    }
+
+    apply(event: EnhancedChangeEvent, classify: EventClassifier): void {
+        const start = event.range?.start ?? event.position;
+        const end = event.range?.end ?? event.position;
+        const insertedEnd = event.insertedEnd ?? this.estimateInsertedEnd(event, start);
+
+        this.ensureLine(end.line);
+        const firstOld = this.lines[start.line];
+        const lastOld = this.lines[end.line];
+        const provenance = this.createProvenance(event, classify);
+
+        let replacement: Array<LineRecord | null>;
+        if (event.changeType === 'delete' || event.contentLength === 0) {
+            // The joined line keeps whichever old line contributes its leading text,
+            // and counts as edited unless whole lines were removed
+            const kept = start.character === 0 ? lastOld : firstOld;
+            const partial = start.character > 0 || end.character > 0;
+            replacement = [partial ? writeOnto(kept, provenance) : kept];
+        } else {
+            const insertedLineBreaks = insertedEnd.line - start.line;
+            replacement = [];
+
+            for (let i = 0; i <= insertedLineBreaks; i++) {
+                if (i === 0) {
+                    // Keeps the old line's prefix, or its suffix when nothing was inserted after it
+                    const base = start.character > 0 ? firstOld : insertedLineBreaks === 0 ? lastOld : null;
+                    replacement.push(writeOnto(base, provenance));
+                } else if (i === insertedLineBreaks) {
+                    // Text ending in a line break leaves the old remainder alone on the last line
+                    replacement.push(insertedEnd.character === 0 ? lastOld : writeOnto(lastOld, provenance));
+                } else {
+                    replacement.push({ origin: provenance, edits: [] });
+                }
+            }
+        }
+
+        this.lines.splice(start.line, end.line - start.line + 1, ...replacement);
+    }
+
+    get lineCount(): number {
+        return this.lines.length;
+    }
+
+    /**
+     * Last event that wrote a 0-based line, or null when no replayed event wrote it
+     */
+    getLine(line: number): LineProvenance | null {
+        const record = this.lines[line];
+        if (!record) return null;
+        return record.edits.length > 0 ? record.edits[record.edits.length - 1] : record.origin;
+    }
+
+    getLines(): Array<LineProvenance | null> {
+        return this.lines.map((_record, line) => this.getLine(line));
+    }
+
+    getLineHistory(line: number): LineHistory | null {
+        const record = this.lines[line];
+        if (!record) return null;
+        return { origin: record.origin, edits: [...record.edits], kind: classifyRecord(record) };
+    }
+
+    getLineKind(line: number): LineAttributionKind | null {
+        const record = this.lines[line];
+        return record ? classifyRecord(record) : null;
+    }
+
+    /**
+     * 0-based lines written at least in part by an event classified as anything other than human
+     */
+    getAILines(): number[] {
+        const aiLines: number[] = [];
+        this.lines.forEach((_record, line) => {
+            if (this.isAILine(line)) aiLines.push(line);
+        });
+        return aiLines;
+    }
+
+    isAILine(line: number): boolean {
+        const kind = this.getLineKind(line);
+        return kind === 'ai' || kind === 'mixed';
+    }
+
+    getSummary(): LineAttributionSummary {
+        const summary: LineAttributionSummary = {
+            totalLines: this.lines.length,
+            aiLines: 0,
+            mixedLines: 0,
+            humanLines: 0,
+            unknownLines: 0
+        };
+
+        for (const record of this.lines) {
+            if (!record) {
+                summary.unknownLines++;
+                continue;
+            }
+
+            const kind = classifyRecord(record);
+            if (kind === 'ai') summary.aiLines++;
+            else if (kind === 'mixed') summary.mixedLines++;
+            else summary.humanLines++;
+        }
+
+        return summary;
+    }
+
+    private createProvenance(event: EnhancedChangeEvent, classify: EventClassifier): LineProvenance {
+        const provenance: LineProvenance = {
+            ...classify(event),
+            eventId: event.eventId,
+            timestamp: event.timestamp,
+            sessionId: event.sessionId,
+            whitespaceOnly: event.isWhitespace
+        };
+
+        if (event.externalToolSignature?.detected) {
+            provenance.toolType = event.externalToolSignature.toolType;
+        }
+
+        return provenance;
+    }
+
+    private ensureLine(line: number): void {
+        while (this.lines.length <= line) {
+            this.lines.push(null);
+        }
+    }
+
+    private estimateInsertedEnd(event: EnhancedChangeEvent, start: Position): Position {
+        if (event.content === undefined) {
+            return { line: start.line, character: start.character + event.contentLength };
+        }
+
+        const segments = event.content.split('\n');
+        return {
+            line: start.line + segments.length - 1,
+            character: segments.length === 1
+                ? start.character + event.content.length
+                : segments[segments.length - 1].length
+        };
+    }
+}
+
+/**
+ * Classifies each event with the detection engine, given the events of its file classified
+ * before it, using the reasoning of every heuristic that fired as evidence
+ */
+export function createEngineEventClassifier(engine: AIDetectionEngine = new AIDetectionEngine()): EventClassifier {
+    const contextSize = Math.max(0, ...engine.getRegistry().list().map(heuristic => heuristic.eventContext ?? 0));
+    const precedingByFile = new Map<string, EnhancedChangeEvent[]>();
+
+    return event => {
+        const preceding = precedingByFile.get(event.fileUri) ?? [];
+        const { label, aiProbability, evidence } = engine.scoreEvent(event, preceding);
+
+        if (contextSize > 0) {
+            precedingByFile.set(event.fileUri, [...preceding, event].slice(-contextSize));
+        }
+        return { source: label, aiProbability, evidence };
+    };
+}
+
+function writeOnto(record: LineRecord | null, provenance: LineProvenance): LineRecord {
+    return record
+        ? { origin: record.origin, edits: [...record.edits, provenance] }
+        : { origin: provenance, edits: [] };
+}
+
+function classifyRecord(record: LineRecord): LineAttributionKind {
+    const writers = [record.origin, ...record.edits];
+    const authors = writers.filter(writer => !writer.whitespaceOnly);
+    const counted = authors.length > 0 ? authors : writers;
+
+    const hasAI = counted.some(writer => writer.source !== 'human');
+    const hasHuman = counted.some(writer => writer.source === 'human');
+
+    if (hasAI && hasHuman) return 'mixed';
+    return hasAI ? 'ai' : 'human';
+}
@@ -0,0 +1,201 @@
+import type {
+    LogMigration,
+    LogRecordParseResult,
+    LogRecordType,
+    LogRecordTypeMap,
+    LogSchema,
+    SchemaValidationResult
+} from '../types/LogSchema';
+import { validateFields } from '../utils/schemaValidation';
+import { BUILTIN_LOG_MIGRATIONS, BUILTIN_LOG_SCHEMAS } from './BuiltinLogSchemas';
+
+// Lines written before the registry existed may lack `_version`; all of them were 1.0
+const UNVERSIONED_RECORD_VERSION = '1.0';
+
+/**
+ * Every known version of each log record type and the migrations between them.
+ * Readers parse log lines through the registry so records written by older
+ * versions of the extension arrive in the current shape.
+ */
+export class LogSchemaRegistry {
+    private schemas: Map<LogRecordType, Map<string, LogSchema>> = new Map();
+    private migrations: Map<string, LogMigration> = new Map();
+
+    constructor(schemas: LogSchema[] = [], migrations: LogMigration[] = []) {
+        schemas.forEach(schema => this.registerSchema(schema));
+        migrations.forEach(migration => this.registerMigration(migration));
+    }
+
+    /**
+     * Add a version of a record type. The highest registered version becomes the current one.
+     */
+    registerSchema(schema: LogSchema): this {
+        const versions = this.schemas.get(schema.type) ?? new Map<string, LogSchema>();
+        if (versions.has(schema.version)) {
+            throw new Error(`${schema.type} schema version ${schema.version} is already registered`);
+        }
+
+        versions.set(schema.version, schema);
+        this.schemas.set(schema.type, versions);
+        return this;
+    }
+
+    /**
+     * Add an upgrade step. Both versions must be registered and only one step may leave each version.
+     */
+    registerMigration(migration: LogMigration): this {
+        if (!this.getSchema(migration.type, migration.from) || !this.getSchema(migration.type, migration.to)) {
+            throw new Error(`${migration.type} migration ${migration.from} -> ${migration.to} references an unknown version`);
+        }
+        if (compareVersions(migration.from, migration.to) >= 0) {
+            throw new Error(`${migration.type} migration ${migration.from} -> ${migration.to} must upgrade to a newer version`);
+        }
+
+        const key = migrationKey(migration.type, migration.from);
+        if (this.migrations.has(key)) {
+            throw new Error(`${migration.type} already has a migration from version ${migration.from}`);
+        }
+
+        this.migrations.set(key, migration);
+        return this;
+    }
+
+    getSchema(type: LogRecordType, version: string = this.getCurrentVersion(type)): LogSchema | undefined {
+        return this.schemas.get(type)?.get(version);
+    }
+
+    /**
+     * Registered versions of a record type, oldest first
+     */
+    getVersions(type: LogRecordType): string[] {
+        return Array.from(this.schemas.get(type)?.keys() ?? []).sort(compareVersions);
+    }
+
+    /**
+     * Version new records of this type are written with
+     */
+    getCurrentVersion(type: LogRecordType): string {
+        const versions = this.getVersions(type);
+        if (versions.length === 0) {
+            throw new Error(`No schema registered for ${type}`);
+        }
+        return versions[versions.length - 1];
+    }
+
+    /**
+     * Check a record against one version of its schema, by default the version it declares
+     */
+    validate(type: LogRecordType, record: unknown, version: string = recordVersion(record)): SchemaValidationResult {
+        const schema = this.getSchema(type, version);
+        if (!schema) {
+            return {
+                valid: false,
+                type,
+                version,
+                errors: [{ path: '_version', message: `unknown ${type} version "${version}"` }]
+            };
+        }
+
+        const errors = validateFields(schema.fields, record);
+        return { valid: errors.length === 0, type, version, errors };
+    }
+
+    /**
+     * Validate a record against the version it declares, then migrate it to the current version
+     */
+    parse<K extends LogRecordType>(type: K, record: unknown): LogRecordParseResult<LogRecordTypeMap[K]> {
+        const declared = recordVersion(record);
+        const versioned = typeof record === 'object' && record !== null && !Array.isArray(record)
+            ? { _version: declared, ...record }
+            : record;
+
+        const validation = this.validate(type, versioned, declared);
+        if (!validation.valid) {
+            return { ok: false, version: declared, errors: validation.errors };
+        }
+
+        const current = this.getCurrentVersion(type);
+        let upgraded = versioned as Record<string, unknown>;     // Validation only passes objects
+        let version = declared;
+
+        while (version !== current) {
+            const migration = this.migrations.get(migrationKey(type, version));
+            if (!migration) {
+                return {
+                    ok: false,
+                    version: declared,
+                    errors: [{ path: '_version', message: `no migration from ${type} version ${version} to ${current}` }]
+                };
+            }
+
+            upgraded = { ...migration.migrate({ ...upgraded }), _version: migration.to };
+            version = migration.to;
+        }
+
+        if (version !== declared) {
+            const result = this.validate(type, upgraded, version);
+            if (!result.valid) {
+                return { ok: false, version: declared, errors: result.errors };
+            }
+        }
+
+        return {
+            ok: true,
+            // Validated against the schema of the current version
+            record: upgraded as unknown as LogRecordTypeMap[K],
+            migratedFrom: version !== declared ? declared : null
+        };
+    }
+
+    /**
+     * Parse one JSONL line, reporting malformed JSON the same way as schema errors
+     */
+    parseLine<K extends LogRecordType>(type: K, line: string): LogRecordParseResult<LogRecordTypeMap[K]> {
+        let record: unknown;
+        try {
+            record = JSON.parse(line);
+        } catch (error) {
+            return {
+                ok: false,
+                version: null,
+                errors: [{ path: '', message: `invalid JSON: ${error instanceof Error ? error.message : error}` }]
+            };
+        }
+        return this.parse(type, record);
+    }
+}
+
+/**
+ * Compare dotted version strings numerically ('1.10' is newer than '1.9')
+ */
+export function compareVersions(a: string, b: string): number {
+    const left = a.split('.').map(Number);
+    const right = b.split('.').map(Number);
+
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const difference = (left[i] ?? 0) - (right[i] ?? 0);
+        if (difference !== 0) return difference;
+    }
+    return 0;
+}
+
+function recordVersion(record: unknown): string {
+    const version = typeof record === 'object' && record !== null ? (record as { _version?: unknown })._version : undefined;
+    return typeof version === 'string' ? version : UNVERSIONED_RECORD_VERSION;
+}
+
+function migrationKey(type: LogRecordType, from: string): string {
+    return `${type}@${from}`;
+}
+
+/**
+ * Create a registry containing the built-in log schemas and migrations
+ */
+export function createDefaultLogSchemaRegistry(): LogSchemaRegistry {
+    return new LogSchemaRegistry(BUILTIN_LOG_SCHEMAS, BUILTIN_LOG_MIGRATIONS);
+}
+
+/**
+ * Shared registry used by the log readers and writers unless another registry is passed explicitly
+ */
+export const defaultLogSchemaRegistry = createDefaultLogSchemaRegistry();
@@ -0,0 +1,498 @@
+import type { EnhancedChangeEvent } from '../types/ChangeEvent';
+import type {
+    ReviewQualityAssessment,
+    ReviewQualityLevel,
+    ReviewQualityResult,
+    TimeMetrics,
+    EditPatterns,
+    ReviewIndicators,
+    ReviewScoreBreakdown,
+    ReviewPatterns,
+    ReviewEvidence
+} from '../models/ReviewQuality';
+import type { DeepPartial } from '../types/Config';
+import { deepMerge } from '../utils/deepMerge';
+
+export interface ReviewCommitInfo {
+    commitTime: number;
+}
+
+/**
+ * Thresholds the review score is derived from
+ */
+export interface ReviewQualityConfig {
+    time: {
+        sessionGapMinutes: number;          // Gaps longer than this start a new edit session
+        longDevelopmentMinutes: number;     // Development time that earns a time investment point
+        extendedDevelopmentMinutes: number; // Development time that earns a second point
+        reviewBeforeCommitMinutes: number;  // Time between the last edit and the commit that earns a third
+        reflectionPauseSeconds: number;     // Pauses longer than this count as reflection
+        longPauseMinutes: number;           // A longest pause above this earns a thoughtfulness point
+        iterationPauseSeconds: number;      // Gap before a smaller follow-up edit for incremental refinement
+    };
+    editPatterns: {
+        incrementalEditSize: number;        // Insertions below this many characters are incremental edits
+        bulkReplacementSize: number;        // Replacements above this many characters are bulk replacements
+        refinementPauseSeconds: number;     // Small edits after a longer pause than this are refinements
+        refinementEditSize: number;         // Characters below which an edit after such a pause is a refinement
+    };
+}
+
+export const DEFAULT_REVIEW_QUALITY_CONFIG: ReviewQualityConfig = {
+    time: {
+        sessionGapMinutes: 30,
+        longDevelopmentMinutes: 30,
+        extendedDevelopmentMinutes: 120,
+        reviewBeforeCommitMinutes: 10,
+        reflectionPauseSeconds: 60,
+        longPauseMinutes: 5,
+        iterationPauseSeconds: 5
+    },
+    editPatterns: {
+        incrementalEditSize: 50,
+        bulkReplacementSize: 100,
+        refinementPauseSeconds: 10,
+        refinementEditSize: 100
+    }
+};
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+/**
+ * Pure review quality engine with no external dependencies.
+ * Scores how much review a set of changes received before being committed.
+ */
+export class ReviewQualityEngine {
+    private config: ReviewQualityConfig;
+
+    /**
+     * Thresholds the config leaves out keep their defaults
+     */
+    constructor(config: DeepPartial<ReviewQualityConfig> = {}) {
+        this.config = deepMerge(DEFAULT_REVIEW_QUALITY_CONFIG, config);
+    }
+
+    /**
+     * Replace the thresholds, e.g. when settings change; those left out return to their defaults
+     */
+    setConfig(config: DeepPartial<ReviewQualityConfig>): void {
+        this.config = deepMerge(DEFAULT_REVIEW_QUALITY_CONFIG, config);
+    }
+
+    /**
+     * Get a copy of the current thresholds
+     */
+    getConfig(): ReviewQualityConfig {
+        return deepMerge(this.config);
+    }
+
+    assess(changes: EnhancedChangeEvent[], commitInfo?: ReviewCommitInfo): ReviewQualityAssessment {
+        const { overallScore, breakdown, patterns, evidence, qualityLevel, confidence } =
+            this.assessDetailed(changes, commitInfo);
+        return { overallScore, breakdown, patterns, evidence, qualityLevel, confidence };
+    }
+
+    /**
+     * Full assessment including the intermediate metrics the score was derived from
+     */
+    assessDetailed(changes: EnhancedChangeEvent[], commitInfo?: ReviewCommitInfo): ReviewQualityResult {
+        if (changes.length === 0) {
+            return this.createEmptyResult();
+        }
+
+        // Calculate time-based metrics
+        const timeMetrics = this.calculateTimeMetrics(changes, commitInfo);
+
+        // Analyze edit patterns
+        const editPatterns = this.analyzeEditPatterns(changes);
+
+        // Identify review indicators
+        const reviewIndicators = this.identifyReviewIndicators(changes, timeMetrics);
+
+        // Calculate scoring breakdown
+        const scoreBreakdown = this.calculateScoreBreakdown(timeMetrics, editPatterns, reviewIndicators);
+
+        // Determine quality level and confidence
+        const qualityLevel = this.getQualityLevel(scoreBreakdown.finalScore);
+        const confidence = this.calculateConfidence(changes, scoreBreakdown);
+
+        return {
+            overallScore: scoreBreakdown.finalScore,
+            breakdown: scoreBreakdown,
+            patterns: this.createPatterns(reviewIndicators, timeMetrics, editPatterns),
+            evidence: this.extractEvidence(changes, timeMetrics),
+            qualityLevel,
+            confidence,
+            timeMetrics,
+            editPatterns,
+            reviewIndicators
+        };
+    }
+
+    getQualityLevel(score: number): ReviewQualityLevel {
+        if (score <= 2) return 'immediate-commit';
+        if (score <= 5) return 'light-review';
+        if (score <= 8) return 'thorough-review';
+        return 'extensive-review';
+    }
+
+    private calculateTimeMetrics(
+        changes: EnhancedChangeEvent[],
+        commitInfo?: ReviewCommitInfo
+    ): TimeMetrics {
+        if (changes.length === 0) {
+            return {
+                totalDevelopmentTime: 0,
+                timeBeforeFirstCommit: 0,
+                numberOfEditSessions: 0,
+                averageSessionLength: 0,
+                longestPauseBetweenEdits: 0,
+                editingVelocityOverTime: []
+            };
+        }
+
+        const firstChange = changes[0].timestamp;
+        const lastChange = changes[changes.length - 1].timestamp;
+        const totalDevelopmentTime = lastChange - firstChange;
+
+        const timeBeforeFirstCommit = commitInfo
+            ? commitInfo.commitTime - lastChange
+            : 0;
+
+        // Long gaps start new edit sessions
+        const sessions = this.identifyEditSessions(changes, this.config.time.sessionGapMinutes * MINUTE);
+
+        const numberOfEditSessions = sessions.length;
+        const averageSessionLength = sessions.length > 0
+            ? sessions.reduce((sum, session) => sum + session.duration, 0) / sessions.length
+            : 0;
+
+        // Find longest pause between edits
+        const pauses = [];
+        for (let i = 1; i < changes.length; i++) {
+            const pause = changes[i].timestamp - changes[i - 1].timestamp;
+            pauses.push(pause);
+        }
+        const longestPauseBetweenEdits = pauses.length > 0 ? Math.max(...pauses) : 0;
+
+        // Calculate editing velocity over time (changes per 5-minute window)
+        const editingVelocityOverTime = this.calculateEditingVelocity(changes);
+
+        return {
+            totalDevelopmentTime,
+            timeBeforeFirstCommit,
+            numberOfEditSessions,
+            averageSessionLength,
+            longestPauseBetweenEdits,
+            editingVelocityOverTime
+        };
+    }
+
+    private identifyEditSessions(changes: EnhancedChangeEvent[], gapThreshold: number): Array<{
+        start: number;
+        end: number;
+        duration: number;
+        changeCount: number;
+    }> {
+        if (changes.length === 0) return [];
+
+        const sessions = [];
+        let sessionStart = changes[0].timestamp;
+        let sessionEnd = changes[0].timestamp;
+        let sessionChangeCount = 1;
+
+        for (let i = 1; i < changes.length; i++) {
+            const gap = changes[i].timestamp - changes[i - 1].timestamp;
+
+            if (gap > gapThreshold) {
+                // End current session
+                sessions.push({
+                    start: sessionStart,
+                    end: sessionEnd,
+                    duration: sessionEnd - sessionStart,
+                    changeCount: sessionChangeCount
+                });
+
+                // Start new session
+                sessionStart = changes[i].timestamp;
+                sessionEnd = changes[i].timestamp;
+                sessionChangeCount = 1;
+            } else {
+                sessionEnd = changes[i].timestamp;
+                sessionChangeCount++;
+            }
+        }
+
+        // Add final session
+        sessions.push({
+            start: sessionStart,
+            end: sessionEnd,
+            duration: sessionEnd - sessionStart,
+            changeCount: sessionChangeCount
+        });
+
+        return sessions;
+    }
+
+    private calculateEditingVelocity(changes: EnhancedChangeEvent[]): number[] {
+        if (changes.length === 0) return [];
+
+        const windowSize = 5 * 60 * 1000; // 5 minutes
+        const velocity = [];
+        const startTime = changes[0].timestamp;
+        const endTime = changes[changes.length - 1].timestamp;
+
+        for (let windowStart = startTime; windowStart < endTime; windowStart += windowSize) {
+            const windowEnd = windowStart + windowSize;
+            const changesInWindow = changes.filter(change =>
+                change.timestamp >= windowStart && change.timestamp < windowEnd
+            );
+            velocity.push(changesInWindow.length);
+        }
+
+        return velocity;
+    }
+
+    private analyzeEditPatterns(changes: EnhancedChangeEvent[]): EditPatterns {
+        const thresholds = this.config.editPatterns;
+        const incrementalEdits = changes.filter(change =>
+            change.contentLength < thresholds.incrementalEditSize && change.changeType !== 'delete'
+        ).length;
+
+        const bulkReplacements = changes.filter(change =>
+            change.changeType === 'replace' && change.contentLength > thresholds.bulkReplacementSize
+        ).length;
+
+        const refinementEdits = changes.filter(change =>
+            change.timeSinceLastChange > thresholds.refinementPauseSeconds * SECOND && // After some thought
+            change.contentLength < thresholds.refinementEditSize // Small refinements
+        ).length;
+
+        const commentAdditions = changes.filter(change =>
+            change.isComment
+        ).length;
+
+        const variableRenames = changes.filter(change =>
+            change.changeType === 'replace' &&
+            change.contentLength < 50 &&
+            change.content && /\b[a-zA-Z_][a-zA-Z0-9_]*\b/.test(change.content) // Looks like identifier
+        ).length;
+
+        const structuralChanges = changes.filter(change =>
+            change.languageConstruct !== 'unknown' &&
+            change.changeType === 'replace'
+        ).length;
+
+        return {
+            incrementalEdits,
+            bulkReplacements,
+            refinementEdits,
+            commentAdditions,
+            variableRenames,
+            structuralChanges
+        };
+    }
+
+    private identifyReviewIndicators(
+        changes: EnhancedChangeEvent[],
+        timeMetrics: TimeMetrics
+    ): ReviewIndicators {
+        const { time } = this.config;
+        const multipleEditSessions = timeMetrics.numberOfEditSessions > 1;
+
+        const pausesForReflection = changes.some(change =>
+            change.timeSinceLastChange > time.reflectionPauseSeconds * SECOND
+        );
+
+        const incrementalRefinement = changes.filter((change, index) => {
+            if (index === 0) return false;
+            const prevChange = changes[index - 1];
+            return change.timeSinceLastChange > time.iterationPauseSeconds * SECOND &&
+                change.contentLength < prevChange.contentLength; // Smaller changes
+        }).length > 2;
+
+        const commentaryAdded = changes.some(change => change.isComment);
+
+        const codeRestructuring = changes.some(change =>
+            change.changeType === 'replace' &&
+            change.contentLength > 50 &&
+            change.languageConstruct !== 'unknown'
+        );
+
+        const testingEvidence = changes.some(change =>
+            change.content?.toLowerCase().includes('test') ||
+            change.content?.toLowerCase().includes('spec') ||
+            change.content?.toLowerCase().includes('assert')
+        );
+
+        return {
+            multipleEditSessions,
+            pausesForReflection,
+            incrementalRefinement,
+            commentaryAdded,
+            codeRestructuring,
+            testingEvidence
+        };
+    }
+
+    private calculateScoreBreakdown(
+        timeMetrics: TimeMetrics,
+        editPatterns: EditPatterns,
+        reviewIndicators: ReviewIndicators
+    ): ReviewScoreBreakdown {
+        const { time } = this.config;
+
+        // Time investment score (0-3)
+        let timeInvestmentScore = 0;
+        if (timeMetrics.totalDevelopmentTime > time.longDevelopmentMinutes * MINUTE) timeInvestmentScore += 1;
+        if (timeMetrics.totalDevelopmentTime > time.extendedDevelopmentMinutes * MINUTE) timeInvestmentScore += 1;
+        if (timeMetrics.timeBeforeFirstCommit > time.reviewBeforeCommitMinutes * MINUTE) timeInvestmentScore += 1;
+
+        // Iteration score (0-3)
+        let iterationScore = 0;
+        if (reviewIndicators.multipleEditSessions) iterationScore += 1;
+        if (editPatterns.refinementEdits > 2) iterationScore += 1;
+        if (reviewIndicators.incrementalRefinement) iterationScore += 1;
+
+        // Refinement score (0-2)
+        let refinementScore = 0;
+        if (editPatterns.commentAdditions > 0) refinementScore += 0.5;
+        if (editPatterns.variableRenames > 0) refinementScore += 0.5;
+        if (reviewIndicators.codeRestructuring) refinementScore += 0.5;
+        if (reviewIndicators.testingEvidence) refinementScore += 0.5;
+
+        // Thoughtfulness score (0-2)
+        let thoughtfulnessScore = 0;
+        if (reviewIndicators.pausesForReflection) thoughtfulnessScore += 1;
+        if (timeMetrics.longestPauseBetweenEdits > time.longPauseMinutes * MINUTE) thoughtfulnessScore += 1;
+
+        const finalScore = timeInvestmentScore + iterationScore + refinementScore + thoughtfulnessScore;
+
+        return {
+            timeInvestment: timeMetrics.totalDevelopmentTime,
+            iterationCount: timeMetrics.numberOfEditSessions,
+            externalToolUsage: 0, // Could be enhanced with external tool detection
+            humanRefinement: editPatterns.refinementEdits,
+            timeInvestmentScore,
+            iterationScore,
+            refinementScore,
+            thoughtfulnessScore,
+            finalScore
+        };
+    }
+
+    private calculateConfidence(changes: EnhancedChangeEvent[], scoreBreakdown: ReviewScoreBreakdown): number {
+        let confidence = 0.7; // Base confidence
+
+        // Increase confidence with more data points
+        if (changes.length > 10) confidence += 0.1;
+        if (changes.length > 50) confidence += 0.1;
+
+        // Increase confidence with clear patterns
+        if (scoreBreakdown.finalScore <= 2 || scoreBreakdown.finalScore >= 8) {
+            confidence += 0.1; // Clear extremes
+        }
+
+        return Math.min(confidence, 1.0);
+    }
+
+    private extractEvidence(changes: EnhancedChangeEvent[], _timeMetrics: TimeMetrics): ReviewEvidence {
+        const editTimeline = changes.map(change => ({
+            timestamp: change.timestamp,
+            editType: `${change.changeType}-${change.languageConstruct}`,
+            significance: change.contentLength > 100 ? 3 : change.contentLength > 20 ? 2 : 1
+        }));
+
+        const pauseAnalysis = [];
+        for (let i = 1; i < changes.length; i++) {
+            const pause = changes[i].timestamp - changes[i - 1].timestamp;
+            if (pause > 30000) { // 30+ second pauses
+                let likelyActivity = 'unknown';
+                if (pause > 300000) likelyActivity = 'extended-break';
+                else if (pause > 60000) likelyActivity = 'thinking-reviewing';
+                else likelyActivity = 'brief-pause';
+
+                pauseAnalysis.push({
+                    duration: pause,
+                    context: changes[i - 1].languageConstruct,
+                    likelyActivity
+                });
+            }
+        }
+
+        const refinementExamples = changes
+            .filter(change => change.timeSinceLastChange > 10000 && change.contentLength < 100 && change.content)
+            .map(change => change.content!.substring(0, 50))
+            .slice(0, 5); // Keep only first 5 examples
+
+        return {
+            editTimeline,
+            pauseAnalysis,
+            refinementExamples
+        };
+    }
+
+    private createPatterns(
+        reviewIndicators: ReviewIndicators,
+        timeMetrics: TimeMetrics,
+        _editPatterns: EditPatterns
+    ): ReviewPatterns {
+        return {
+            immediateCommit: timeMetrics.timeBeforeFirstCommit < 5 * 60 * 1000, // < 5 minutes
+            multiSessionReview: reviewIndicators.multipleEditSessions,
+            crossToolCollaboration: false, // Could be enhanced with external tool detection
+            incrementalRefinement: reviewIndicators.incrementalRefinement,
+            multipleEditSessions: reviewIndicators.multipleEditSessions,
+            pausesForReflection: reviewIndicators.pausesForReflection,
+            commentaryAdded: reviewIndicators.commentaryAdded,
+            codeRestructuring: reviewIndicators.codeRestructuring,
+            testingEvidence: reviewIndicators.testingEvidence
+        };
+    }
+
+    private createEmptyResult(): ReviewQualityResult {
+        return {
+            overallScore: 0,
+            breakdown: {
+                timeInvestment: 0,
+                iterationCount: 0,
+                externalToolUsage: 0,
+                humanRefinement: 0,
+                timeInvestmentScore: 0,
+                iterationScore: 0,
+                refinementScore: 0,
+                thoughtfulnessScore: 0,
+                finalScore: 0
+            },
+            patterns: {
+                immediateCommit: true,
+                multiSessionReview: false,
+                crossToolCollaboration: false,
+                incrementalRefinement: false,
+                multipleEditSessions: false,
+                pausesForReflection: false,
+                commentaryAdded: false,
+                codeRestructuring: false,
+                testingEvidence: false
+            },
+            evidence: {
+                editTimeline: [],
+                pauseAnalysis: [],
+                refinementExamples: []
+            },
+            qualityLevel: 'immediate-commit',
+            confidence: 1.0,
+            timeMetrics: this.calculateTimeMetrics([]),
+            editPatterns: this.analyzeEditPatterns([]),
+            reviewIndicators: {
+                multipleEditSessions: false,
+                pausesForReflection: false,
+                incrementalRefinement: false,
+                commentaryAdded: false,
+                codeRestructuring: false,
+                testingEvidence: false
+            }
+        };
+    }
+}
@@ -0,0 +1,149 @@
+import type { EnhancedChangeEvent } from '../types/ChangeEvent';
+import type { AIAttribution, AIDetectionResult, AIDetectionConfig, CharacterAttribution, EventScore } from '../types/AIDetection';
+import type { PartialAIDetectionConfig } from '../types/Config';
+import { AIDetectionEngine, DEFAULT_AI_DETECTION_CONFIG } from './AIDetectionEngine';
+import { HeuristicRegistry, defaultHeuristicRegistry } from './HeuristicRegistry';
+import type { DetectionStream } from './DetectionStream';
+
+/**
+ * Maps a change event to the stream it belongs to
+ */
+export type StreamKeyFunction = (change: EnhancedChangeEvent) => string;
+
+export const streamKeyByFile: StreamKeyFunction = change => change.fileUri;
+
+export const streamKeyByFileAndSession: StreamKeyFunction = change => `${change.sessionId}:${change.fileUri}`;
+
+/**
+ * Detection engine that accepts change events one at a time and keeps a running
+ * detection stream per key (per file by default). The current attribution of a
+ * stream is available at any time without re-analyzing its events.
+ */
+export class StreamingDetectionEngine {
+    private engine: AIDetectionEngine;
+    private keyOf: StreamKeyFunction;
+    private streams: Map<string, DetectionStream> = new Map();
+
+    constructor(
+        config: AIDetectionConfig = DEFAULT_AI_DETECTION_CONFIG,
+        registry: HeuristicRegistry = defaultHeuristicRegistry,
+        keyOf: StreamKeyFunction = streamKeyByFile
+    ) {
+        this.engine = new AIDetectionEngine(config, registry);
+        this.keyOf = keyOf;
+    }
+
+    /**
+     * Add a change event to its stream, returning the stream key
+     */
+    push(change: EnhancedChangeEvent): string {
+        const key = this.keyOf(change);
+        let stream = this.streams.get(key);
+        if (!stream) {
+            stream = this.engine.createStream();
+            this.streams.set(key, stream);
+        }
+        stream.push(change);
+        return key;
+    }
+
+    /**
+     * Add change events in order
+     */
+    pushAll(changes: EnhancedChangeEvent[]): void {
+        for (const change of changes) {
+            this.push(change);
+        }
+    }
+
+    has(key: string): boolean {
+        return this.streams.has(key);
+    }
+
+    keys(): string[] {
+        return Array.from(this.streams.keys());
+    }
+
+    /**
+     * Current attribution of a stream, or null when it has no events
+     */
+    getAttribution(key: string): AIAttribution | null {
+        return this.streams.get(key)?.getAttribution() ?? null;
+    }
+
+    /**
+     * Current attribution of a stream with its scores and decision trace, or null when it has no events
+     */
+    getResult(key: string): AIDetectionResult | null {
+        return this.streams.get(key)?.getResult() ?? null;
+    }
+
+    /**
+     * Events pushed to a stream, in push order
+     */
+    getEvents(key: string): readonly EnhancedChangeEvent[] {
+        return this.streams.get(key)?.getEvents() ?? [];
+    }
+
+    /**
+     * Scores of a stream's events, each scored on its own, in push order. Only events
+     * not scored by an earlier call are scored.
+     */
+    getEventScores(key: string): readonly EventScore[] {
+        return this.streams.get(key)?.getEventScores() ?? [];
+    }
+
+    /**
+     * Characters a stream's events wrote and how many of them came from AI-like events,
+     * or null when it has no events
+     */
+    getCharacterAttribution(key: string): CharacterAttribution | null {
+        return this.streams.get(key)?.getCharacterAttribution() ?? null;
+    }
+
+    /**
+     * Drop one stream, or all of them when no key is given
+     */
+    reset(key?: string): void {
+        if (key === undefined) {
+            this.streams.clear();
+        } else {
+            this.streams.delete(key);
+        }
+    }
+
+    /**
+     * Update the detection configuration. Existing streams are rebuilt from their
+     * events, since heuristic state depends on the thresholds.
+     */
+    updateConfig(newConfig: PartialAIDetectionConfig): void {
+        this.engine.updateConfig(newConfig);
+        this.rebuildStreams();
+    }
+
+    /**
+     * Replace the detection configuration, clearing optional settings it leaves out
+     */
+    setConfig(config: AIDetectionConfig): void {
+        this.engine.setConfig(config);
+        this.rebuildStreams();
+    }
+
+    /**
+     * Get a copy of the current configuration
+     */
+    getConfig(): AIDetectionConfig {
+        return this.engine.getConfig();
+    }
+
+    // Heuristic state depends on the config, so existing streams replay their events
+    private rebuildStreams(): void {
+        for (const [key, stream] of this.streams) {
+            const rebuilt = this.engine.createStream();
+            for (const change of stream.getEvents()) {
+                rebuilt.push(change);
+            }
+            this.streams.set(key, rebuilt);
+        }
+    }
+}
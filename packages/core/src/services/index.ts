@@ -1,2 +1,17 @@
 // Shared services for AI Code Analyzer
 export * from './AIDetectionEngine';
+export * from './DetectionStream';
+export * from './EventScoring';
+export * from './StreamingDetectionEngine';
+export * from './BuiltinHeuristics';
+export * from './HeuristicRegistry';
+export * from './CommitAnalysisEngine';
+export * from './ReviewQualityEngine';
+export * from './LineAttributionMap';
+export * from './CharacterAttributionMap';
+export * from './BuiltinLogSchemas';
+export * from './LogSchemaRegistry';
+export * from './DetectorEvaluation';
+export * from './ConfigOptimizer';
+export * from './ConfigResolver';
+export * from './ConfigShare';
@@ -54,6 +54,7 @@ export interface HeuristicScores {
     externalToolScore: number;
     contentPatternScore: number;
     timingAnomalyScore: number;
+    [heuristicId: string]: number;    // Scores from registered custom heuristics
 }
 
 export interface WeightedScore {
@@ -69,6 +70,69 @@ export interface DecisionTraceStep {
     reasoning: string;
 }
 
+/**
+ * Label of a single change event; only sequences of events can be mixed
+ */
+export type EventScoreLabel = Exclude<AIAttribution['source'], 'mixed'>;
+
+/**
+ * Verdict on one change event, scored on its own with the same heuristics,
+ * weights and classification cutoffs as whole sequences
+ */
+export interface EventScore {
+    eventId: string;
+    timestamp: number;
+    aiProbability: number;
+    label: EventScoreLabel;
+    heuristicScores: HeuristicScores;
+    firedHeuristics: string[];      // Ids of the heuristics that scored above 0
+    evidence: string[];             // Reasoning of the heuristics that fired
+}
+
+/**
+ * The event scores of a sequence rolled up
+ */
+export interface EventRollup {
+    eventCount: number;
+    aiProbability: number;          // Mean of the event probabilities, 0 without events
+    labelCounts: Record<EventScoreLabel, number>;
+}
+
+/**
+ * What a sequence's AI probability measures: the heuristics' verdict on its events
+ * ('events', where every event counts alike), or the share of characters written by
+ * events labelled as AI, counting everything they inserted ('inserted-characters') or
+ * only what later edits left in place ('surviving-characters')
+ */
+export type AttributionMode = 'events' | 'inserted-characters' | 'surviving-characters';
+
+/**
+ * Characters written by a sequence's events and by those labelled as AI. Line breaks
+ * are not counted.
+ */
+export interface CharacterAttribution {
+    insertedCharacters: number;
+    aiInsertedCharacters: number;
+    insertedAIShare: number;        // aiInsertedCharacters / insertedCharacters, 0 without characters
+    survivingCharacters: number;    // Inserted characters no later event deleted or replaced
+    aiSurvivingCharacters: number;
+    survivingAIShare: number;       // aiSurvivingCharacters / survivingCharacters, 0 without characters
+}
+
+/**
+ * Full analysis output: the attribution plus the intermediate scores and
+ * trace that produced it.
+ */
+export interface AIDetectionResult extends AIAttribution {
+    heuristicScores: HeuristicScores;
+    weightedScores: { [heuristic: string]: WeightedScore };
+    totalScore: number;
+    decisionTrace: DecisionTraceStep[];
+    eventScores?: EventScore[];     // One per event in event order, when requested with `scoreEvents`
+    eventRollup?: EventRollup;      // The event scores rolled up, the aggregate in the 'events' mode
+    characterAttribution?: CharacterAttribution;    // In the character modes, or with `scoreEvents`
+}
+
 export interface AIDetectionMetricsLog {
     timestamp: number;
     sessionId: string;
@@ -111,6 +175,7 @@ export interface AIDetectionConfig {
         externalToolScore: number;
         contentPatternScore: number;
         timingAnomalyScore: number;
+        [heuristicId: string]: number;
     };
 
     // Thresholds for detection
@@ -120,6 +185,7 @@ export interface AIDetectionConfig {
         pasteTimeThreshold: number;       // ms for paste detection
         longPauseThreshold: number;       // ms for long pauses
         rapidSequenceThreshold: number;   // ms for rapid sequences
+        [threshold: string]: number;      // Thresholds declared by custom heuristics
     };
 
     // Classification thresholds
@@ -132,7 +198,15 @@ export interface AIDetectionConfig {
     // Bucket configuration for timeline analysis
     bucketConfig: {
         intervalMinutes: number;          // Time bucket size in minutes
-        aggregationMethod: 'average' | 'max' | 'weighted'; // How to combine scores
+        aggregationMethod: 'average' | 'max' | 'weighted' | 'median' | 'percentile'; // How to combine scores
+        percentile?: number;              // 0-100, used by the 'percentile' method
         minEventsPerBucket: number;       // Minimum events to consider bucket active
+        alignment?: 'first-event' | 'calendar';  // Start buckets at the first event or on the clock
+        windowStepMinutes?: number;       // Start a bucket this often; below intervalMinutes windows overlap
+    };
+
+    // What the AI probability measures, 'events' when left out
+    attribution?: {
+        mode: AttributionMode;
     };
 }
@@ -26,6 +26,8 @@ export interface EnhancedChangeEvent {
     position: Position;
     content?: string; // Made optional for privacy - not logged to disk
     contentLength: number;
+    range?: SelectionRange;  // Range replaced by the change, in the document before it
+    insertedEnd?: Position;  // End of the inserted text, in the document after the change
 
     // Timing metrics
     timeSinceLastChange: number;
@@ -0,0 +1,37 @@
+import type { AIDetectionConfig } from './AIDetection';
+import type { SchemaValidationIssue } from './LogSchema';
+
+export type DeepPartial<T> = {
+    [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+export type PartialAIDetectionConfig = DeepPartial<AIDetectionConfig>;
+
+/**
+ * Where configuration comes from, lowest precedence first: the built-in defaults, the
+ * user's editor settings, the workspace's checked-in `.quantifai.json`, the config saved
+ * from the web dashboard, then explicit overrides such as a `--config` file
+ */
+export type ConfigLayerName = 'defaults' | 'user' | 'workspace' | 'dashboard' | 'override';
+
+export interface ConfigLayer {
+    name: ConfigLayerName;
+    config: PartialAIDetectionConfig;
+    origin?: string;        // What the layer was read from, e.g. the path of `.quantifai.json`
+}
+
+export interface ConfigValueSource {
+    layer: ConfigLayerName;
+    origin?: string;
+}
+
+export interface ConfigIssue extends SchemaValidationIssue {
+    source?: ConfigValueSource;     // Layer that set the offending value, when one did
+}
+
+export interface ResolvedConfig {
+    config: AIDetectionConfig;
+    sources: Record<string, ConfigValueSource>;     // Keyed by dotted path, e.g. 'thresholds.fastTypingSpeed'
+    issues: ConfigIssue[];
+    valid: boolean;
+}
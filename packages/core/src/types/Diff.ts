@@ -0,0 +1,19 @@
+export interface DiffHunk {
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    addedLines: number[];   // 1-based line numbers in the new file
+    deletedLines: number[]; // 1-based line numbers in the old file
+}
+
+export interface DiffFile {
+    oldPath: string | null; // null for added files
+    newPath: string | null; // null for deleted files
+    path: string;           // newPath, or oldPath for deletions
+    status: 'added' | 'modified' | 'deleted' | 'renamed';
+    isBinary: boolean;
+    hunks: DiffHunk[];
+    linesAdded: number;
+    linesDeleted: number;
+}
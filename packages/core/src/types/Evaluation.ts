@@ -0,0 +1,95 @@
+import type { AIAttribution } from './AIDetection';
+
+export type GroundTruthClass = 'human' | 'ai-generated' | 'ai-assisted';
+
+/**
+ * Labels a single logged change event
+ */
+export interface EventLabel {
+    eventId: string;
+    label: GroundTruthClass;
+    toolName?: string;      // 'copilot', 'claude-code', ... for AI labels
+    note?: string;
+}
+
+/**
+ * Labels every event in a time range, optionally restricted to one session and/or file
+ */
+export interface TimeRangeLabel {
+    startTime: number;      // Inclusive, epoch ms
+    endTime: number;        // Inclusive, epoch ms
+    sessionId?: string;
+    fileUri?: string;
+    label: GroundTruthClass;
+    toolName?: string;
+    note?: string;
+}
+
+export type GroundTruthLabel = EventLabel | TimeRangeLabel;
+
+/**
+ * A set of labels for events recorded in change-events.jsonl
+ */
+export interface GroundTruthDataset {
+    name?: string;
+    labels: GroundTruthLabel[];
+}
+
+/**
+ * One labeled unit: the events a label covers, scored together by the engine
+ */
+export interface EvaluationSample {
+    id: string;
+    label: GroundTruthClass;
+    toolName?: string;
+    eventCount: number;
+    aiProbability: number;
+    predictedSource: AIAttribution['source'];
+}
+
+export interface ConfusionMatrix {
+    truePositives: number;
+    falsePositives: number;
+    trueNegatives: number;
+    falseNegatives: number;
+}
+
+/**
+ * Binary metrics with AI (generated or assisted) as the positive class, predicting AI
+ * when a sample's AI probability reaches the threshold
+ */
+export interface ThresholdMetrics {
+    threshold: number;
+    confusion: ConfusionMatrix;
+    precision: number;
+    recall: number;             // True positive rate
+    f1: number;
+    accuracy: number;
+    falsePositiveRate: number;
+}
+
+export interface RocPoint {
+    threshold: number;
+    truePositiveRate: number;
+    falsePositiveRate: number;
+}
+
+export interface DetectorEvaluation {
+    datasetName?: string;
+    samples: EvaluationSample[];
+    unmatchedLabels: number;    // Labels that covered no recorded event
+    positives: number;
+    negatives: number;
+    thresholdSweep: ThresholdMetrics[];
+    // Metrics at the config's classification thresholds
+    classificationThresholds: {
+        humanThreshold: ThresholdMetrics;
+        aiAssistedThreshold: ThresholdMetrics;
+        aiGeneratedThreshold: ThresholdMetrics;
+    };
+    bestF1: ThresholdMetrics | null;
+    rocCurve: RocPoint[];
+    auc: number | null;         // Null unless both classes are present
+    // Counts of predicted source per ground-truth class
+    classConfusion: Record<GroundTruthClass, Record<AIAttribution['source'], number>>;
+}
@@ -0,0 +1,61 @@
+import type { EnhancedChangeEvent } from './ChangeEvent';
+import type { AIDetectionConfig } from './AIDetection';
+
+/**
+ * A tunable threshold a heuristic reads from `AIDetectionConfig.thresholds`
+ */
+export interface HeuristicThreshold {
+    key: string;            // Key in AIDetectionConfig.thresholds
+    label: string;
+    description: string;
+    defaultValue: number;
+    min: number;            // Suggested range for tuning UIs
+    max: number;
+    step: number;
+    unit: string;           // 'chars', 'CPM', 'ms', ...
+}
+
+export interface HeuristicContext {
+    config: AIDetectionConfig;
+    // Configured value for a threshold, falling back to its declared default
+    getThreshold(key: string): number;
+}
+
+/**
+ * Result of running a heuristic over a sequence of change events.
+ * `input` and `reasoning` are recorded in the decision trace.
+ */
+export interface HeuristicEvaluation {
+    score: number;          // 0-1, clamped by the engine
+    input: any;
+    reasoning: string;
+}
+
+/**
+ * Running state for one heuristic over a growing sequence of change events.
+ * Both methods should run in constant time so streams can be scored per event.
+ */
+export interface HeuristicAccumulator {
+    add(change: EnhancedChangeEvent): void;
+    evaluate(): HeuristicEvaluation;
+}
+
+/**
+ * A single AI detection signal. The id doubles as the key in
+ * `HeuristicScores` and `AIDetectionConfig.weights`.
+ */
+export interface Heuristic {
+    id: string;
+    label: string;
+    description: string;
+    traceStep: string;      // Step name used in the decision trace
+    defaultWeight: number;
+    thresholds: HeuristicThreshold[];
+    // For heuristics that judge the rhythm between events rather than an event itself:
+    // how many preceding events an event's own score lets it see. Events with none
+    // are scored without it.
+    eventContext?: number;
+    evaluate(changes: EnhancedChangeEvent[], context: HeuristicContext): HeuristicEvaluation;
+    // Incremental form of `evaluate`; streams without one re-evaluate all their events
+    createAccumulator?(context: HeuristicContext): HeuristicAccumulator;
+}
@@ -0,0 +1,34 @@
+import type { EnhancedChangeEvent, ExternalToolSignature } from './ChangeEvent';
+import type { AIAttribution } from './AIDetection';
+
+export interface EventClassification {
+    source: AIAttribution['source'];
+    aiProbability: number;
+    evidence?: string[]; // human-readable reasons behind the classification
+}
+
+export type EventClassifier = (event: EnhancedChangeEvent) => EventClassification;
+
+export interface LineProvenance extends EventClassification {
+    eventId: string;
+    timestamp: number;
+    sessionId: string;
+    toolType?: ExternalToolSignature['toolType']; // set when an external tool was detected
+    whitespaceOnly: boolean;                      // whitespace edits don't change authorship
+}
+
+export type LineAttributionKind = 'ai' | 'mixed' | 'human';
+
+export interface LineHistory {
+    origin: LineProvenance;  // event that created the line
+    edits: LineProvenance[]; // later events that wrote onto it, oldest first
+    kind: LineAttributionKind;
+}
+
+export interface LineAttributionSummary {
+    totalLines: number;
+    aiLines: number;
+    mixedLines: number;
+    humanLines: number;
+    unknownLines: number; // lines not written by any replayed event
+}
@@ -0,0 +1,74 @@
+import type { ChangeEventLog } from './ChangeEvent';
+import type { AIDetectionMetricsLog } from './AIDetection';
+import type { ReviewQualityMetricsLog } from '../models/ReviewQuality';
+import type { SessionSummaryLog, CommitAnalysisLog } from '../models/Session';
+
+/**
+ * Record types written to the JSONL logs, keyed by the name of their interface
+ */
+export interface LogRecordTypeMap {
+    ChangeEventLog: ChangeEventLog;
+    AIDetectionMetricsLog: AIDetectionMetricsLog;
+    ReviewQualityMetricsLog: ReviewQualityMetricsLog;
+    SessionSummaryLog: SessionSummaryLog;
+    CommitAnalysisLog: CommitAnalysisLog;
+}
+
+export type LogRecordType = keyof LogRecordTypeMap;
+
+/**
+ * Expected shape of one field. Objects only check the fields they list,
+ * so records may carry extra fields.
+ */
+export interface FieldSpec {
+    type: 'string' | 'number' | 'boolean' | 'object' | 'array' | 'any';
+    optional?: boolean;
+    nullable?: boolean;
+    values?: readonly string[];     // Allowed values of a string field
+    fields?: FieldSpecs;            // Members of an object field
+    items?: FieldSpec;              // Elements of an array field
+}
+
+export type FieldSpecs = Record<string, FieldSpec>;
+
+/**
+ * Shape of a log record type as written under one `_version`
+ */
+export interface LogSchema {
+    type: LogRecordType;
+    version: string;
+    description: string;
+    fields: FieldSpecs;
+}
+
+/**
+ * Upgrades a record from one version of its schema to the next.
+ * `migrate` receives a copy and does not need to set `_version`.
+ */
+export interface LogMigration {
+    type: LogRecordType;
+    from: string;
+    to: string;
+    description: string;
+    migrate(record: Record<string, any>): Record<string, any>;
+}
+
+export interface SchemaValidationIssue {
+    path: string;       // Dotted path of the offending field, e.g. 'position.line'
+    message: string;
+}
+
+export interface SchemaValidationResult {
+    valid: boolean;
+    type: LogRecordType;
+    version: string;
+    errors: SchemaValidationIssue[];
+}
+
+/**
+ * Outcome of reading one log record: the record upgraded to the current version,
+ * or every problem found with it
+ */
+export type LogRecordParseResult<T> =
+    | { ok: true; record: T; migratedFrom: string | null }
+    | { ok: false; version: string | null; errors: SchemaValidationIssue[] };
@@ -1,3 +1,9 @@
 // Shared types for AI Code Analyzer
 export * from './ChangeEvent';
 export * from './AIDetection';
+export * from './Heuristic';
+export * from './Diff';
+export * from './LineAttribution';
+export * from './LogSchema';
+export * from './Evaluation';
+export * from './Config';
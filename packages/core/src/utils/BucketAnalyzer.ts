@@ -1,22 +1,40 @@
 import type { EnhancedChangeEvent } from '../types/ChangeEvent';
 import type { HeuristicScores, AIAttribution } from '../types/AIDetection';
 import { AIDetectionEngine } from '../services/AIDetectionEngine';
+import { calculatePercentile, calculateWeightedMean } from './calculations';
 
 export interface BucketConfig {
     intervalMinutes: number; // default: 15
-    aggregationMethod: 'average' | 'max' | 'weighted'; // default: 'average'
+    aggregationMethod: BucketAggregationMethod; // default: 'average'
+    percentile?: number; // 0-100, used by the 'percentile' method, default: 90
     minEventsPerBucket: number; // default: 1
+    alignment?: BucketAlignment; // default: 'first-event'
+    windowStepMinutes?: number; // default: intervalMinutes; smaller values give overlapping windows
 }
 
+/**
+ * Where bucket boundaries fall: at the first event, or at multiples of the bucket step
+ * since the Unix epoch (UTC), so 15-minute buckets start at :00, :15, :30 and :45
+ */
+export type BucketAlignment = 'first-event' | 'calendar';
+
+/**
+ * How scores roll up, both from the files within a bucket to the bucket and from the
+ * buckets to the summary. 'weighted' weights each file or bucket by the characters changed.
+ */
+export type BucketAggregationMethod = 'average' | 'max' | 'weighted' | 'median' | 'percentile';
+
+export const DEFAULT_BUCKET_PERCENTILE = 90;
+
 export interface TimeBucket {
     startTime: number;
     endTime: number;
     events: EnhancedChangeEvent[];
-    aiProbability: number | null; // null when no events
-    heuristicScores: HeuristicScores | null;
+    aiProbability: number | null; // null when no events; per-file probabilities rolled up by the aggregation method
+    heuristicScores: HeuristicScores | null; // Per-file scores rolled up the same way
     eventCount: number;
     isEmpty: boolean;
-    attribution: AIAttribution | null;
+    attribution: AIAttribution | null; // The engine's verdict on the bucket's events as one sequence
 }
 
 export interface BucketSummary {
@@ -25,6 +43,8 @@ export interface BucketSummary {
     emptyBuckets: number;
     averageAIProbability: number;
     maxAIProbability: number;
+    aggregationMethod: BucketAggregationMethod;
+    aggregatedAIProbability: number; // Active buckets rolled up by the aggregation method
     timeSpanMs: number;
 }
 
@@ -39,25 +59,44 @@ export const DEFAULT_BUCKET_CONFIG: BucketConfig = {
  */
 export class BucketAnalyzer {
     /**
-     * Create time buckets from events with specified interval
+     * Create time buckets from events with specified interval, in a single pass over the
+     * events. Every interval from the first to the last event gets a bucket, even if empty.
+     * With `windowStepMinutes` below `intervalMinutes` a new window starts every step and
+     * events fall into every window that covers them.
      */
     static createBuckets(events: EnhancedChangeEvent[], config: BucketConfig = DEFAULT_BUCKET_CONFIG): TimeBucket[] {
         if (events.length === 0) return [];
 
         const intervalMs = config.intervalMinutes * 60 * 1000;
-        const startTime = events[0].timestamp;
-        const endTime = events[events.length - 1].timestamp;
+        const stepMs = (config.windowStepMinutes ?? config.intervalMinutes) * 60 * 1000;
+        if (!(intervalMs > 0) || !(stepMs > 0)) {
+            throw new Error(`Bucket interval and window step must be positive, got ${config.intervalMinutes} and ${config.windowStepMinutes}`);
+        }
+
+        const sorted = this.sortByTimestamp(events);
+        const firstTime = sorted[0].timestamp;
+        const lastTime = sorted[sorted.length - 1].timestamp;
+        const origin = config.alignment === 'calendar'
+            ? Math.floor(firstTime / stepMs) * stepMs
+            : firstTime;
+        const windowCount = Math.floor((lastTime - origin) / stepMs) + 1;
         const buckets: TimeBucket[] = [];
 
-        // Create all time intervals, even if empty
-        for (let time = startTime; time < endTime; time += intervalMs) {
-            const bucketEvents = events.filter(e =>
-                e.timestamp >= time && e.timestamp < time + intervalMs
-            );
+        // Window starts only move forward, so both ends of the event range do too
+        let first = 0;
+        let end = 0;
+        for (let i = 0; i < windowCount; i++) {
+            const startTime = origin + i * stepMs;
+            const endTime = startTime + intervalMs;
 
+            while (first < sorted.length && sorted[first].timestamp < startTime) first++;
+            if (end < first) end = first;
+            while (end < sorted.length && sorted[end].timestamp < endTime) end++;
+
+            const bucketEvents = sorted.slice(first, end);
             buckets.push({
-                startTime: time,
-                endTime: time + intervalMs,
+                startTime,
+                endTime,
                 events: bucketEvents,
                 eventCount: bucketEvents.length,
                 isEmpty: bucketEvents.length < config.minEventsPerBucket,
@@ -71,19 +110,52 @@ export class BucketAnalyzer {
     }
 
     /**
-     * Analyze a single bucket using the AI detection engine
+     * The events in timestamp order, without copying when they already are
+     */
+    private static sortByTimestamp(events: EnhancedChangeEvent[]): EnhancedChangeEvent[] {
+        for (let i = 1; i < events.length; i++) {
+            if (events[i].timestamp < events[i - 1].timestamp) {
+                return [...events].sort((a, b) => a.timestamp - b.timestamp);
+            }
+        }
+        return events;
+    }
+
+    /**
+     * Analyze a single bucket using the AI detection engine. Each file's events are
+     * analyzed separately and the results rolled up by the aggregation method.
      */
-    static analyzeBucket(bucket: TimeBucket, aiEngine: AIDetectionEngine): TimeBucket {
+    static analyzeBucket(bucket: TimeBucket, aiEngine: AIDetectionEngine, config: BucketConfig = DEFAULT_BUCKET_CONFIG): TimeBucket {
         if (bucket.isEmpty) {
             return bucket; // Leave empty buckets unchanged
         }
 
-        const analysis = aiEngine.analyze(bucket.events);
+        const analysis = aiEngine.analyzeDetailed(bucket.events);
+        const fileEvents = this.groupByFile(bucket.events);
+        if (fileEvents.length === 1) {
+            return {
+                ...bucket,
+                aiProbability: analysis.aiProbability,
+                heuristicScores: analysis.heuristicScores,
+                attribution: analysis
+            };
+        }
+
+        const fileAnalyses = fileEvents.map(events => aiEngine.analyzeDetailed(events));
+        const weights = fileEvents.map(events => this.totalContentLength(events));
+        const heuristicScores = { ...analysis.heuristicScores };
+        for (const heuristic of Object.keys(heuristicScores)) {
+            heuristicScores[heuristic] = this.aggregate(
+                fileAnalyses.map(fileAnalysis => fileAnalysis.heuristicScores[heuristic] ?? 0),
+                weights,
+                config
+            );
+        }
 
         return {
             ...bucket,
-            aiProbability: analysis.aiProbability,
-            heuristicScores: this.extractHeuristicScores(analysis),
+            aiProbability: this.aggregate(fileAnalyses.map(fileAnalysis => fileAnalysis.aiProbability), weights, config),
+            heuristicScores,
             attribution: analysis
         };
     }
@@ -91,8 +163,8 @@ export class BucketAnalyzer {
     /**
      * Analyze all buckets in a collection
      */
-    static analyzeBuckets(buckets: TimeBucket[], aiEngine: AIDetectionEngine): TimeBucket[] {
-        return buckets.map(bucket => this.analyzeBucket(bucket, aiEngine));
+    static analyzeBuckets(buckets: TimeBucket[], aiEngine: AIDetectionEngine, config: BucketConfig = DEFAULT_BUCKET_CONFIG): TimeBucket[] {
+        return buckets.map(bucket => this.analyzeBucket(bucket, aiEngine, config));
     }
 
     /**
@@ -104,17 +176,18 @@ export class BucketAnalyzer {
         config: BucketConfig = DEFAULT_BUCKET_CONFIG
     ): TimeBucket[] {
         const buckets = this.createBuckets(events, config);
-        return this.analyzeBuckets(buckets, aiEngine);
+        return this.analyzeBuckets(buckets, aiEngine, config);
     }
 
     /**
      * Generate summary statistics for a collection of buckets
      */
-    static summarizeBuckets(buckets: TimeBucket[]): BucketSummary {
-        const activeBuckets = buckets.filter(b => !b.isEmpty);
-        const aiProbabilities = activeBuckets
-            .map(b => b.aiProbability)
-            .filter((p): p is number => p !== null);
+    static summarizeBuckets(
+        buckets: TimeBucket[],
+        config: Pick<BucketConfig, 'aggregationMethod' | 'percentile'> = DEFAULT_BUCKET_CONFIG
+    ): BucketSummary {
+        const activeBuckets = buckets.filter(b => !b.isEmpty && b.aiProbability !== null);
+        const aiProbabilities = activeBuckets.map(b => b.aiProbability as number);
 
         const averageAIProbability = aiProbabilities.length > 0
             ? aiProbabilities.reduce((sum, p) => sum + p, 0) / aiProbabilities.length
@@ -130,14 +203,62 @@ export class BucketAnalyzer {
 
         return {
             totalBuckets: buckets.length,
-            activeBuckets: activeBuckets.length,
-            emptyBuckets: buckets.length - activeBuckets.length,
+            activeBuckets: buckets.filter(b => !b.isEmpty).length,
+            emptyBuckets: buckets.filter(b => b.isEmpty).length,
             averageAIProbability,
             maxAIProbability,
+            aggregationMethod: config.aggregationMethod,
+            aggregatedAIProbability: this.aggregate(
+                aiProbabilities,
+                activeBuckets.map(b => this.totalContentLength(b.events)),
+                config
+            ),
             timeSpanMs
         };
     }
 
+    /**
+     * Combine values with the configured aggregation method; 0 when there are none
+     */
+    static aggregate(
+        values: number[],
+        weights: number[],
+        config: Pick<BucketConfig, 'aggregationMethod' | 'percentile'>
+    ): number {
+        if (values.length === 0) return 0;
+
+        switch (config.aggregationMethod) {
+            case 'max':
+                return values.reduce((max, value) => Math.max(max, value), -Infinity);
+            case 'weighted':
+                return calculateWeightedMean(values, weights);
+            case 'median':
+                return calculatePercentile(values, 50);
+            case 'percentile':
+                return calculatePercentile(values, config.percentile ?? DEFAULT_BUCKET_PERCENTILE);
+            case 'average':
+            default:
+                return values.reduce((sum, value) => sum + value, 0) / values.length;
+        }
+    }
+
+    private static groupByFile(events: EnhancedChangeEvent[]): EnhancedChangeEvent[][] {
+        const files = new Map<string, EnhancedChangeEvent[]>();
+        for (const event of events) {
+            const fileEvents = files.get(event.fileUri);
+            if (fileEvents) {
+                fileEvents.push(event);
+            } else {
+                files.set(event.fileUri, [event]);
+            }
+        }
+        return [...files.values()];
+    }
+
+    private static totalContentLength(events: EnhancedChangeEvent[]): number {
+        return events.reduce((total, event) => total + event.contentLength, 0);
+    }
+
     /**
      * Get buckets within a specific time range
      */
@@ -162,57 +283,4 @@ export class BucketAnalyzer {
             bucket.aiProbability !== null && bucket.aiProbability >= threshold
         );
     }
-
-    /**
-     * Extract heuristic scores from AI attribution
-     */
-    private static extractHeuristicScores(attribution: AIAttribution): HeuristicScores {
-        // The AIDetectionEngine doesn't directly expose heuristic scores in the result
-        // We'll need to calculate them separately or modify the engine
-        // For now, we'll create a placeholder that calculates basic scores
-        const events = attribution.timeline.vsCodeEvents as EnhancedChangeEvent[];
-
-        if (events.length === 0) {
-            return {
-                bulkInsertionScore: 0,
-                typingSpeedScore: 0,
-                pastePatternScore: 0,
-                externalToolScore: 0,
-                contentPatternScore: 0,
-                timingAnomalyScore: 0
-            };
-        }
-
-        // Basic heuristic calculations
-        const bulkChanges = events.filter(e => e.contentLength > 100);
-        const bulkInsertionScore = Math.min(bulkChanges.length / events.length, 1.0);
-
-        const typingSpeeds = events.filter(e => e.instantTypingSpeed > 0).map(e => e.instantTypingSpeed);
-        const avgSpeed = typingSpeeds.length > 0 ? typingSpeeds.reduce((a, b) => a + b, 0) / typingSpeeds.length : 0;
-        const typingSpeedScore = Math.min(avgSpeed / 300, 1.0);
-
-        const pastePatterns = events.filter(e => e.timeSinceLastChange < 100 && e.contentLength > 50);
-        const pastePatternScore = Math.min(pastePatterns.length / Math.max(events.length, 1), 1.0);
-
-        const externalEvents = events.filter(e => e.externalToolSignature?.detected);
-        const externalToolScore = externalEvents.length > 0 ?
-            externalEvents.reduce((sum, e) => sum + (e.externalToolSignature?.confidence || 0), 0) / externalEvents.length : 0;
-
-        const codeBlocks = events.filter(e => e.isCodeBlock);
-        const comments = events.filter(e => e.isComment);
-        const contentPatternScore = (codeBlocks.length * 0.6 + comments.length * 0.4) / Math.max(events.length, 1);
-
-        const longPauses = events.filter(e => e.timeSinceLastChange > 30000);
-        const rapidSequences = events.filter(e => e.timeSinceLastChange < 100);
-        const timingAnomalyScore = (longPauses.length + rapidSequences.length) / Math.max(events.length, 1);
-
-        return {
-            bulkInsertionScore: Math.min(bulkInsertionScore, 1.0),
-            typingSpeedScore: Math.min(typingSpeedScore, 1.0),
-            pastePatternScore: Math.min(pastePatternScore, 1.0),
-            externalToolScore: Math.min(externalToolScore, 1.0),
-            contentPatternScore: Math.min(contentPatternScore, 1.0),
-            timingAnomalyScore: Math.min(timingAnomalyScore, 1.0)
-        };
-    }
 }
@@ -0,0 +1,83 @@
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/**
+ * Unpadded URL-safe base64 of the UTF-8 encoding of `text`. Free of Node and browser APIs,
+ * so strings encoded in the extension decode the same way in the web app and vice versa.
+ */
+export function encodeBase64Url(text: string): string {
+    const bytes = utf8Encode(text);
+    let encoded = '';
+
+    for (let i = 0; i < bytes.length; i += 3) {
+        const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+        const length = Math.min(bytes.length - i, 3) + 1;
+        for (let j = 0; j < length; j++) {
+            encoded += ALPHABET[(chunk >> (18 - j * 6)) & 0x3f];
+        }
+    }
+
+    return encoded;
+}
+
+/**
+ * Reverses `encodeBase64Url`, also accepting standard base64 with padding
+ */
+export function decodeBase64Url(encoded: string): string {
+    const normalized = encoded.trim().replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+    if (normalized.length % 4 === 1) {
+        throw new Error('Invalid base64: truncated input');
+    }
+
+    const bytes: number[] = [];
+    for (let i = 0; i < normalized.length; i += 4) {
+        const group = normalized.slice(i, i + 4);
+        let chunk = 0;
+        for (let j = 0; j < 4; j++) {
+            const value = j < group.length ? ALPHABET.indexOf(group[j]) : 0;
+            if (value < 0) {
+                throw new Error(`Invalid base64 character "${group[j]}"`);
+            }
+            chunk = (chunk << 6) | value;
+        }
+        bytes.push((chunk >> 16) & 0xff, (chunk >> 8) & 0xff, chunk & 0xff);
+        bytes.length -= 4 - group.length;
+    }
+
+    return utf8Decode(bytes);
+}
+
+export function utf8Encode(text: string): Uint8Array {
+    const bytes: number[] = [];
+    for (const char of text) {
+        const code = char.codePointAt(0)!;
+        if (code < 0x80) {
+            bytes.push(code);
+        } else if (code < 0x800) {
+            bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+        } else if (code < 0x10000) {
+            bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+        } else {
+            bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+        }
+    }
+    return new Uint8Array(bytes);
+}
+
+function utf8Decode(bytes: number[]): string {
+    let text = '';
+    for (let i = 0; i < bytes.length;) {
+        const first = bytes[i];
+        const length = first < 0x80 ? 1 : first >= 0xf0 ? 4 : first >= 0xe0 ? 3 : first >= 0xc0 ? 2 : 0;
+        if (length === 0 || i + length > bytes.length) {
+            throw new Error('Invalid UTF-8 sequence');
+        }
+
+        let code = length === 1 ? first : first & (0xff >> (length + 1));
+        for (let j = 1; j < length; j++) {
+            code = (code << 6) | (bytes[i + j] & 0x3f);
+        }
+        text += String.fromCodePoint(code);
+        i += length;
+    }
+    return text;
+}
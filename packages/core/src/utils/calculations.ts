@@ -51,6 +51,36 @@ export function calculateStatistics(values: number[]): Statistics {
     };
 }
 
+/**
+ * Calculates the p-th percentile (0-100) of an array of numbers, interpolating
+ * linearly between the two closest ranks
+ */
+export function calculatePercentile(values: number[], percentile: number): number {
+    if (values.length === 0) return 0;
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const rank = (Math.min(Math.max(percentile, 0), 100) / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Calculates the weighted mean of an array of numbers, falling back to the plain
+ * mean when the weights sum to zero
+ */
+export function calculateWeightedMean(values: number[], weights: number[]): number {
+    if (values.length === 0) return 0;
+
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    if (totalWeight <= 0) {
+        return values.reduce((sum, value) => sum + value, 0) / values.length;
+    }
+
+    return values.reduce((sum, value, i) => sum + value * weights[i], 0) / totalWeight;
+}
+
 /**
  * Calculates typing speed statistics from change events
  */
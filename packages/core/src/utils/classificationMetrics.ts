@@ -0,0 +1,98 @@
+import type { ConfusionMatrix, RocPoint, ThresholdMetrics } from '../types/Evaluation';
+
+/**
+ * A scored prediction with its ground truth; `positive` is the class being detected
+ */
+export interface ScoredSample {
+    score: number;
+    positive: boolean;
+}
+
+/**
+ * Confusion matrix when predicting positive for scores at or above the threshold
+ */
+export function computeConfusionMatrix(samples: ScoredSample[], threshold: number): ConfusionMatrix {
+    const matrix: ConfusionMatrix = { truePositives: 0, falsePositives: 0, trueNegatives: 0, falseNegatives: 0 };
+
+    for (const sample of samples) {
+        const predicted = sample.score >= threshold;
+        if (predicted && sample.positive) matrix.truePositives++;
+        else if (predicted) matrix.falsePositives++;
+        else if (sample.positive) matrix.falseNegatives++;
+        else matrix.trueNegatives++;
+    }
+
+    return matrix;
+}
+
+/**
+ * Precision, recall and F1 at one threshold. Ratios with an empty denominator are 0.
+ */
+export function computeThresholdMetrics(samples: ScoredSample[], threshold: number): ThresholdMetrics {
+    const confusion = computeConfusionMatrix(samples, threshold);
+    const { truePositives: tp, falsePositives: fp, trueNegatives: tn, falseNegatives: fn } = confusion;
+
+    const precision = ratio(tp, tp + fp);
+    const recall = ratio(tp, tp + fn);
+
+    return {
+        threshold,
+        confusion,
+        precision,
+        recall,
+        f1: ratio(2 * precision * recall, precision + recall),
+        accuracy: ratio(tp + tn, samples.length),
+        falsePositiveRate: ratio(fp, fp + tn)
+    };
+}
+
+/**
+ * ROC points at every distinct score, from the strictest threshold to the most lenient
+ */
+export function computeRocCurve(samples: ScoredSample[]): RocPoint[] {
+    const thresholds = Array.from(new Set(samples.map(sample => sample.score))).sort((a, b) => b - a);
+
+    return thresholds.map(threshold => {
+        const metrics = computeThresholdMetrics(samples, threshold);
+        return {
+            threshold,
+            truePositiveRate: metrics.recall,
+            falsePositiveRate: metrics.falsePositiveRate
+        };
+    });
+}
+
+/**
+ * Area under the ROC curve: the probability that a random positive scores above a
+ * random negative, counting ties as half. Null unless both classes are present.
+ */
+export function computeAUC(samples: ScoredSample[]): number | null {
+    const positives = samples.filter(sample => sample.positive).map(sample => sample.score);
+    const negatives = samples.filter(sample => !sample.positive).map(sample => sample.score).sort((a, b) => a - b);
+    if (positives.length === 0 || negatives.length === 0) return null;
+
+    let wins = 0;
+    for (const score of positives) {
+        const below = lowerBound(negatives, score);
+        const ties = lowerBound(negatives, score, true) - below;
+        wins += below + ties / 2;
+    }
+
+    return wins / (positives.length * negatives.length);
+}
+
+function ratio(numerator: number, denominator: number): number {
+    return denominator === 0 ? 0 : numerator / denominator;
+}
+
+// Index of the first element >= value (or > value when `after` is set) in a sorted array
+function lowerBound(sorted: number[], value: number, after: boolean = false): number {
+    let low = 0;
+    let high = sorted.length;
+    while (low < high) {
+        const middle = (low + high) >> 1;
+        if (sorted[middle] < value || (after && sorted[middle] === value)) low = middle + 1;
+        else high = middle;
+    }
+    return low;
+}
@@ -0,0 +1,40 @@
+import type { DeepPartial } from '../types/Config';
+
+/**
+ * Merges patches into a copy of `base`, later patches winning. Nested objects are merged
+ * key by key, so `{ thresholds: { fastTypingSpeed: 400 } }` keeps the other thresholds.
+ * Arrays and other values replace what they override; undefined values are ignored.
+ */
+export function deepMerge<T>(base: T, ...patches: Array<DeepPartial<T> | undefined>): T {
+    let merged: unknown = cloneValue(base);
+    for (const patch of patches) {
+        merged = mergeValue(merged, patch);
+    }
+    return merged as T;
+}
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function mergeValue(base: unknown, patch: unknown): unknown {
+    if (patch === undefined) return base;
+    if (!isPlainObject(patch)) return cloneValue(patch);
+
+    const merged: Record<string, unknown> = isPlainObject(base) ? { ...base } : {};
+    for (const [key, value] of Object.entries(patch)) {
+        merged[key] = mergeValue(merged[key], value);
+    }
+    return merged;
+}
+
+function cloneValue(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(cloneValue);
+    if (!isPlainObject(value)) return value;
+
+    const clone: Record<string, unknown> = {};
+    for (const [key, nested] of Object.entries(value)) {
+        clone[key] = cloneValue(nested);
+    }
+    return clone;
+}
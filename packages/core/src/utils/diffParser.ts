@@ -0,0 +1,124 @@
+import type { DiffFile, DiffHunk } from '../types/Diff';
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parses the output of `git diff` (any context size, rename detection on or off)
+ * into per-file hunks with the line numbers each hunk adds and removes
+ */
+export function parseUnifiedDiff(diff: string): DiffFile[] {
+    const files: DiffFile[] = [];
+    let file: DiffFile | null = null;
+    let hunk: DiffHunk | null = null;
+    let oldLine = 0;
+    let newLine = 0;
+
+    for (const line of diff.split('\n')) {
+        if (line.startsWith('diff --git ')) {
+            file = createDiffFile(line);
+            files.push(file);
+            hunk = null;
+            continue;
+        }
+
+        if (!file) continue;
+
+        if (!hunk) {
+            if (line.startsWith('new file mode')) {
+                file.status = 'added';
+            } else if (line.startsWith('deleted file mode')) {
+                file.status = 'deleted';
+            } else if (line.startsWith('rename from ')) {
+                file.status = 'renamed';
+                file.oldPath = unquotePath(line.substring('rename from '.length));
+            } else if (line.startsWith('rename to ')) {
+                file.status = 'renamed';
+                file.newPath = unquotePath(line.substring('rename to '.length));
+            } else if (line.startsWith('Binary files ') || line.startsWith('GIT binary patch')) {
+                file.isBinary = true;
+            } else if (line.startsWith('--- ')) {
+                file.oldPath = parseHeaderPath(line.substring(4), 'a/');
+            } else if (line.startsWith('+++ ')) {
+                file.newPath = parseHeaderPath(line.substring(4), 'b/');
+            }
+        }
+
+        const header = HUNK_HEADER.exec(line);
+        if (header) {
+            hunk = {
+                oldStart: parseInt(header[1], 10),
+                oldLines: header[2] !== undefined ? parseInt(header[2], 10) : 1,
+                newStart: parseInt(header[3], 10),
+                newLines: header[4] !== undefined ? parseInt(header[4], 10) : 1,
+                addedLines: [],
+                deletedLines: []
+            };
+            file.hunks.push(hunk);
+            oldLine = hunk.oldStart;
+            newLine = hunk.newStart;
+            continue;
+        }
+
+        if (!hunk) continue;
+
+        if (line.startsWith('+')) {
+            hunk.addedLines.push(newLine++);
+            file.linesAdded++;
+        } else if (line.startsWith('-')) {
+            hunk.deletedLines.push(oldLine++);
+            file.linesDeleted++;
+        } else if (line.startsWith(' ')) {
+            oldLine++;
+            newLine++;
+        }
+        // '\ No newline at end of file' and trailing blank lines carry no line numbers
+    }
+
+    for (const parsed of files) {
+        if (parsed.status === 'added') parsed.oldPath = null;
+        if (parsed.status === 'deleted') parsed.newPath = null;
+        parsed.path = parsed.newPath ?? parsed.oldPath ?? parsed.path;
+    }
+
+    return files;
+}
+
+function createDiffFile(headerLine: string): DiffFile {
+    // "diff --git a/path b/path" - only reliable when the path has no spaces,
+    // so the ---/+++ and rename lines override it when present
+    const match = /^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/.exec(headerLine);
+    const oldPath = match ? unquotePath(match[1]) : '';
+    const newPath = match ? unquotePath(match[2]) : '';
+
+    return {
+        oldPath,
+        newPath,
+        path: newPath,
+        status: 'modified',
+        isBinary: false,
+        hunks: [],
+        linesAdded: 0,
+        linesDeleted: 0
+    };
+}
+
+function parseHeaderPath(value: string, prefix: string): string | null {
+    const unquoted = unquotePath(value.replace(/\t.*$/, ''));
+    if (unquoted === '/dev/null') return null;
+    return unquoted.startsWith(prefix) ? unquoted.substring(prefix.length) : unquoted;
+}
+
+function unquotePath(value: string): string {
+    if (!value.startsWith('"') || !value.endsWith('"')) {
+        return value;
+    }
+
+    // git C-quotes paths with special characters; decode the common escapes
+    return value
+        .slice(1, -1)
+        .replace(/\\([0-7]{3})/g, (_match, octal: string) => String.fromCharCode(parseInt(octal, 8)))
+        .replace(/\\t/g, '\t')
+        .replace(/\\n/g, '\n')
+        .replace(/\\"/g, '"')
+        .replace(/\\\\/g, '\\');
+}
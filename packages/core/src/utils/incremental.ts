@@ -0,0 +1,25 @@
+/**
+ * Progress of a long computation: events analyzed so far out of all it will analyze
+ */
+export interface IncrementalProgress {
+    completed: number;
+    total: number;
+}
+
+/**
+ * A computation that pauses after each piece of work and reports its progress, so a
+ * caller such as a web worker can yield to its event loop and cancel between pieces
+ */
+export type Incremental<T> = Generator<IncrementalProgress, T, void>;
+
+/**
+ * Runs an incremental computation to the end without pausing
+ */
+export function runToCompletion<T>(steps: Incremental<T>): T {
+    for (;;) {
+        const step = steps.next();
+        if (step.done) {
+            return step.value;
+        }
+    }
+}
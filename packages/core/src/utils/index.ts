@@ -2,3 +2,12 @@
 export * from './validation';
 export * from './calculations';
 export * from './BucketAnalyzer';
+export * from './diffParser';
+export * from './schemaValidation';
+export * from './classificationMetrics';
+export * from './logArchives';
+export * from './hash';
+export * from './base64';
+export * from './redaction';
+export * from './deepMerge';
+export * from './incremental';
@@ -0,0 +1,90 @@
+/**
+ * How long rotated log archives are kept. Limits apply per log; unset limits don't apply.
+ */
+export interface LogRetentionPolicy {
+    maxAgeDays?: number;
+    maxArchives?: number;
+    maxTotalSizeMB?: number;
+}
+
+export const DEFAULT_LOG_RETENTION_POLICY: LogRetentionPolicy = {
+    maxAgeDays: 365,
+    maxArchives: 50,
+    maxTotalSizeMB: 200
+};
+
+export interface LogArchiveInfo {
+    name: string;
+    rotatedAt: number;
+    compressed: boolean;
+}
+
+const COMPRESSED_SUFFIX = '.jsonl.gz';
+const LEGACY_SUFFIX = '.archive';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Name of the gzip archive a log is rotated into, e.g.
+ * `change-events.jsonl` -> `change-events.1700000000000.jsonl.gz`
+ */
+export function getArchiveFileName(logFile: string, rotatedAt: number): string {
+    return `${logFile.replace(/\.jsonl$/, '')}.${rotatedAt}${COMPRESSED_SUFFIX}`;
+}
+
+/**
+ * Recognizes archives of `logFile`: gzip archives and the uncompressed
+ * `<log>.<time>.archive` files written by earlier versions
+ */
+export function parseArchiveFileName(logFile: string, name: string): LogArchiveInfo | null {
+    const stem = logFile.replace(/\.jsonl$/, '');
+
+    let rotatedAt: string | null = null;
+    let compressed = false;
+    if (name.startsWith(`${stem}.`) && name.endsWith(COMPRESSED_SUFFIX)) {
+        rotatedAt = name.slice(stem.length + 1, -COMPRESSED_SUFFIX.length);
+        compressed = true;
+    } else if (name.startsWith(`${logFile}.`) && name.endsWith(LEGACY_SUFFIX)) {
+        rotatedAt = name.slice(logFile.length + 1, -LEGACY_SUFFIX.length);
+    }
+
+    if (rotatedAt === null || !/^\d+$/.test(rotatedAt)) return null;
+    return { name, rotatedAt: parseInt(rotatedAt, 10), compressed };
+}
+
+export function isCompressedLogFile(name: string): boolean {
+    return name.endsWith('.gz');
+}
+
+/**
+ * Archives the policy no longer keeps. Newer archives take precedence: they are kept
+ * while they are young enough and fit within the count and size limits, and every
+ * archive older than the first one that doesn't is dropped too, so history stays contiguous.
+ */
+export function selectExpiredArchives<T extends { rotatedAt: number; size: number }>(
+    archives: T[],
+    policy: LogRetentionPolicy,
+    now: number = Date.now()
+): T[] {
+    const newestFirst = [...archives].sort((a, b) => b.rotatedAt - a.rotatedAt);
+    const maxBytes = policy.maxTotalSizeMB !== undefined ? policy.maxTotalSizeMB * 1024 * 1024 : Infinity;
+    const expired: T[] = [];
+    let keptCount = 0;
+    let keptBytes = 0;
+    let full = false;
+
+    for (const archive of newestFirst) {
+        const tooOld = policy.maxAgeDays !== undefined && now - archive.rotatedAt > policy.maxAgeDays * DAY_MS;
+        const tooMany = policy.maxArchives !== undefined && keptCount >= policy.maxArchives;
+        const tooLarge = keptBytes + archive.size > maxBytes;
+
+        if (full || tooOld || tooMany || tooLarge) {
+            full = true;
+            expired.push(archive);
+        } else {
+            keptCount++;
+            keptBytes += archive.size;
+        }
+    }
+
+    return expired;
+}
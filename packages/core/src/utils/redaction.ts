@@ -0,0 +1,154 @@
+import { sha256Hex } from './hash';
+
+/**
+ * How file URIs are written: unchanged, relative to the workspace root
+ * (paths outside the workspace are hashed), or hashed
+ */
+export type FilePathRedaction = 'keep' | 'relative' | 'hash';
+
+/**
+ * What is removed or obscured from records before they leave the editor.
+ * Event content is always removed, at any depth.
+ */
+export interface RedactionPolicy {
+    filePaths: FilePathRedaction;
+    hashSessionIds: boolean;
+    timestampPrecisionMs: number;   // timestamps are rounded down to this; 0 keeps them exact
+    allowFields?: string[];         // top-level fields to keep; all of them when unset or empty
+    denyFields?: string[];          // top-level fields to remove
+    salt?: string;                  // mixed into every hash so values can't be looked up by hashing guesses
+}
+
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+    filePaths: 'keep',
+    hashSessionIds: false,
+    timestampPrecisionMs: 0
+};
+
+export const REDACTED_PREFIX = 'redacted:';
+
+const ALWAYS_REDACTED_FIELDS = new Set(['content']);
+const PATH_FIELDS = new Set(['fileUri', 'uri']);
+const SESSION_FIELDS = new Set(['sessionId']);
+const TIMESTAMP_FIELDS = new Set(['timestamp', 'startTime', 'endTime', '_loggedAt']);
+const HASH_LENGTH = 16;
+
+/**
+ * Applies a redaction policy to log records. Content, path, session and timestamp fields
+ * are recognized by name at any depth. Redacting a record twice gives the same result,
+ * so records redacted when written can safely be redacted again on export.
+ */
+export class LogRedactor {
+    private policy: RedactionPolicy;
+    private workspaceRoot: string | null;
+    private hashes: Map<string, string> = new Map();
+
+    constructor(policy: RedactionPolicy = DEFAULT_REDACTION_POLICY, workspaceRoot?: string) {
+        this.policy = policy;
+        this.workspaceRoot = workspaceRoot ? normalizePath(workspaceRoot) : null;
+    }
+
+    getPolicy(): RedactionPolicy {
+        return this.policy;
+    }
+
+    /**
+     * Copy of `record` with the policy applied. `requiredFields` are kept even when the
+     * field lists would remove them, so records stay readable by their log schema.
+     */
+    redact<T extends object>(record: T, requiredFields: readonly string[] = []): T {
+        const { allowFields = [], denyFields = [] } = this.policy;
+        const redacted: Record<string, unknown> = {};
+
+        for (const [key, value] of Object.entries(record)) {
+            if (ALWAYS_REDACTED_FIELDS.has(key)) continue;
+            if (!requiredFields.includes(key)) {
+                if (denyFields.includes(key)) continue;
+                if (allowFields.length > 0 && !allowFields.includes(key)) continue;
+            }
+            redacted[key] = this.redactValue(key, value);
+        }
+
+        return redacted as T;
+    }
+
+    redactFilePath(fileUri: string): string {
+        if (this.policy.filePaths === 'keep' || fileUri.startsWith(REDACTED_PREFIX)) {
+            return fileUri;
+        }
+
+        if (this.policy.filePaths === 'relative') {
+            const relative = this.relativize(fileUri);
+            if (relative !== null) {
+                return relative;
+            }
+        }
+
+        // Keep the extension, which the analysis uses to tell languages apart
+        const extension = /\.[A-Za-z0-9]+$/.exec(fileUri)?.[0] ?? '';
+        return this.hash(fileUri) + extension;
+    }
+
+    redactSessionId(sessionId: string): string {
+        if (!this.policy.hashSessionIds || sessionId.startsWith(REDACTED_PREFIX)) {
+            return sessionId;
+        }
+        return this.hash(sessionId);
+    }
+
+    redactTimestamp(timestamp: number): number {
+        const precision = this.policy.timestampPrecisionMs;
+        return precision > 0 ? Math.floor(timestamp / precision) * precision : timestamp;
+    }
+
+    private redactValue(key: string, value: unknown): unknown {
+        if (typeof value === 'string') {
+            if (PATH_FIELDS.has(key)) return this.redactFilePath(value);
+            if (SESSION_FIELDS.has(key)) return this.redactSessionId(value);
+        } else if (typeof value === 'number') {
+            if (TIMESTAMP_FIELDS.has(key)) return this.redactTimestamp(value);
+        } else if (Array.isArray(value)) {
+            return value.map(item => this.redactValue(key, item));
+        } else if (typeof value === 'object' && value !== null) {
+            const nested: Record<string, unknown> = {};
+            for (const [nestedKey, nestedValue] of Object.entries(value)) {
+                if (ALWAYS_REDACTED_FIELDS.has(nestedKey)) continue;
+                nested[nestedKey] = this.redactValue(nestedKey, nestedValue);
+            }
+            return nested;
+        }
+        return value;
+    }
+
+    // Path relative to the workspace root, or null for paths outside it
+    private relativize(fileUri: string): string | null {
+        if (!/^[a-zA-Z][\w+.-]*:/.test(fileUri) && !fileUri.startsWith('/') && !fileUri.startsWith('\\')) {
+            return fileUri;    // already relative
+        }
+        if (!this.workspaceRoot) return null;
+
+        const filePath = fileUri.startsWith('file://') ?
+            normalizePath(decodeURIComponent(fileUri.slice('file://'.length))) :
+            /^[a-zA-Z]:[\\/]|^[\\/]/.test(fileUri) ? normalizePath(fileUri) : null;
+
+        if (filePath === null || !filePath.startsWith(`${this.workspaceRoot}/`)) {
+            return null;
+        }
+        return filePath.slice(this.workspaceRoot.length + 1);
+    }
+
+    private hash(value: string): string {
+        let hashed = this.hashes.get(value);
+        if (!hashed) {
+            hashed = REDACTED_PREFIX + sha256Hex(`${this.policy.salt ?? ''}\0${value}`).slice(0, HASH_LENGTH);
+            this.hashes.set(value, hashed);
+        }
+        return hashed;
+    }
+}
+
+// Forward slashes, no trailing slash, and Windows drive paths from URIs (`/c:/...`) without the leading slash
+function normalizePath(value: string): string {
+    const normalized = value.replace(/\\/g, '/').replace(/\/+$/, '');
+    return /^\/[a-zA-Z]:\//.test(normalized) ? normalized.slice(1) : normalized;
+}
@@ -0,0 +1,76 @@
+import type { FieldSpec, FieldSpecs, SchemaValidationIssue } from '../types/LogSchema';
+
+/**
+ * Checks an object against field specs, returning one issue per offending field.
+ * Fields the specs do not mention are allowed.
+ */
+export function validateFields(fields: FieldSpecs, value: unknown, path: string = ''): SchemaValidationIssue[] {
+    if (!isPlainObject(value)) {
+        return [{ path, message: `expected object, got ${describeType(value)}` }];
+    }
+
+    const issues: SchemaValidationIssue[] = [];
+    for (const [name, spec] of Object.entries(fields)) {
+        issues.push(...validateField(spec, value[name], joinPath(path, name)));
+    }
+    return issues;
+}
+
+/**
+ * Checks a single value against its field spec
+ */
+export function validateField(spec: FieldSpec, value: unknown, path: string): SchemaValidationIssue[] {
+    if (value === undefined) {
+        return spec.optional ? [] : [{ path, message: 'is required' }];
+    }
+    if (value === null) {
+        return spec.nullable ? [] : [{ path, message: `expected ${spec.type}, got null` }];
+    }
+
+    switch (spec.type) {
+        case 'any':
+            return [];
+
+        case 'object':
+            if (!isPlainObject(value)) break;
+            return spec.fields ? validateFields(spec.fields, value, path) : [];
+
+        case 'array':
+            if (!Array.isArray(value)) break;
+            return spec.items
+                ? value.flatMap((item, index) => validateField(spec.items!, item, `${path}[${index}]`))
+                : [];
+
+        case 'number':
+            if (typeof value !== 'number' || Number.isNaN(value)) break;
+            return [];
+
+        case 'string':
+            if (typeof value !== 'string') break;
+            if (spec.values && !spec.values.includes(value)) {
+                return [{ path, message: `expected one of ${spec.values.join(', ')}, got "${value}"` }];
+            }
+            return [];
+
+        case 'boolean':
+            if (typeof value !== 'boolean') break;
+            return [];
+    }
+
+    return [{ path, message: `expected ${spec.type}, got ${describeType(value)}` }];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeType(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number' && Number.isNaN(value)) return 'NaN';
+    return typeof value;
+}
+
+function joinPath(parent: string, name: string): string {
+    return parent ? `${parent}.${name}` : name;
+}
@@ -1,111 +1,27 @@
 import type { EnhancedChangeEvent } from '../types/ChangeEvent';
 import type { AIDetectionConfig } from '../types/AIDetection';
+import { HeuristicRegistry, defaultHeuristicRegistry } from '../services/HeuristicRegistry';
+import { CHANGE_EVENT_FIELDS } from '../services/BuiltinLogSchemas';
+import { findConfigIssues } from '../services/ConfigResolver';
+import { validateFields } from './schemaValidation';
 
 /**
  * Validates that a change event has all required fields
  */
 export function validateChangeEvent(event: any): event is EnhancedChangeEvent {
-    return (
-        typeof event === 'object' &&
-        event !== null &&
-        typeof event.timestamp === 'number' &&
-        typeof event.sessionId === 'string' &&
-        typeof event.fileUri === 'string' &&
-        typeof event.eventId === 'string' &&
-        ['insert', 'delete', 'replace'].includes(event.changeType) &&
-        typeof event.position === 'object' &&
-        typeof event.position.line === 'number' &&
-        typeof event.position.character === 'number' &&
-        typeof event.contentLength === 'number' &&
-        typeof event.timeSinceLastChange === 'number' &&
-        typeof event.timeSinceSessionStart === 'number' &&
-        typeof event.timeSinceFileOpen === 'number' &&
-        ['live', 'history', 'external'].includes(event.source) &&
-        typeof event.vsCodeActive === 'boolean' &&
-        typeof event.cursorPosition === 'object' &&
-        typeof event.instantTypingSpeed === 'number' &&
-        typeof event.rollingTypingSpeed === 'number' &&
-        typeof event.burstDetected === 'boolean' &&
-        typeof event.pauseBeforeChange === 'number' &&
-        typeof event.isCodeBlock === 'boolean' &&
-        typeof event.isComment === 'boolean' &&
-        typeof event.isWhitespace === 'boolean' &&
-        typeof event.languageConstruct === 'string' &&
-        typeof event.indentationLevel === 'number'
-    );
+    return validateFields(CHANGE_EVENT_FIELDS, event).length === 0;
 }
 
 /**
- * Validates that an AI detection config has all required fields and valid values
+ * Validates that an AI detection config has all required fields and valid values.
+ * Weights and thresholds are checked for every heuristic in the registry.
+ * `findConfigIssues` reports what is wrong.
  */
-export function validateAIDetectionConfig(config: any): config is AIDetectionConfig {
-    if (typeof config !== 'object' || config === null) {
-        return false;
-    }
-
-    // Check weights
-    if (typeof config.weights !== 'object' || config.weights === null) {
-        return false;
-    }
-
-    const requiredWeights = [
-        'bulkInsertionScore',
-        'typingSpeedScore',
-        'pastePatternScore',
-        'externalToolScore',
-        'contentPatternScore',
-        'timingAnomalyScore'
-    ];
-
-    for (const weight of requiredWeights) {
-        if (typeof config.weights[weight] !== 'number' ||
-            config.weights[weight] < 0 ||
-            config.weights[weight] > 1) {
-            return false;
-        }
-    }
-
-    // Check thresholds
-    if (typeof config.thresholds !== 'object' || config.thresholds === null) {
-        return false;
-    }
-
-    const requiredThresholds = [
-        'bulkInsertionSize',
-        'fastTypingSpeed',
-        'pasteTimeThreshold',
-        'longPauseThreshold',
-        'rapidSequenceThreshold'
-    ];
-
-    for (const threshold of requiredThresholds) {
-        if (typeof config.thresholds[threshold] !== 'number' || config.thresholds[threshold] < 0) {
-            return false;
-        }
-    }
-
-    // Check classification thresholds
-    if (typeof config.classification !== 'object' || config.classification === null) {
-        return false;
-    }
-
-    const requiredClassification = ['humanThreshold', 'aiAssistedThreshold', 'aiGeneratedThreshold'];
-
-    for (const threshold of requiredClassification) {
-        if (typeof config.classification[threshold] !== 'number' ||
-            config.classification[threshold] < 0 ||
-            config.classification[threshold] > 1) {
-            return false;
-        }
-    }
-
-    // Check that thresholds are in logical order
-    if (config.classification.humanThreshold >= config.classification.aiAssistedThreshold ||
-        config.classification.aiAssistedThreshold >= config.classification.aiGeneratedThreshold) {
-        return false;
-    }
-
-    return true;
+export function validateAIDetectionConfig(
+    config: any,
+    registry: HeuristicRegistry = defaultHeuristicRegistry
+): config is AIDetectionConfig {
+    return findConfigIssues(config, registry).length === 0;
 }
 
 /**
@@ -1,14 +1,42 @@
 import * as vscode from 'vscode';
+import { randomBytes } from 'crypto';
+import {
+    DASHBOARD_CONFIG_FILE,
+    encodeConfigShareString,
+    formatConfigIssues,
+    parseSharedConfig,
+    resolveConfig
+} from '@ai-analyzer/core';
+import { createGitClient } from '@ai-analyzer/core/dist/cli/git';
 import { MetricsLogger } from './services/MetricsLogger';
 import { ChangeTracker } from './services/ChangeTracker';
 import { AIDetectionService } from './services/AIDetectionService';
 import { ReviewAnalyzer } from './services/ReviewAnalyzer';
+import { CommitAnalyzer } from './services/CommitAnalyzer';
+import { AttributionDecorator } from './services/AttributionDecorator';
+import { AttributionStatusBar, SHOW_FILE_ATTRIBUTIONS_COMMAND } from './services/AttributionStatusBar';
+import { DetectionConfigService } from './services/DetectionConfigService';
 
 let logger: MetricsLogger;
 let changeTracker: ChangeTracker;
 let aiDetectionService: AIDetectionService;
 let reviewAnalyzer: ReviewAnalyzer;
-let statusBarItem: vscode.StatusBarItem;
+let commitAnalyzer: CommitAnalyzer;
+let attributionDecorator: AttributionDecorator;
+let attributionStatusBar: AttributionStatusBar;
+let detectionConfig: DetectionConfigService;
+
+const REDACTION_SALT_KEY = 'aiCodeAnalyzer.redactionSalt';
+
+// Kept out of the workspace so shared logs can't be reversed by hashing guessed paths
+function getRedactionSalt(context: vscode.ExtensionContext): string {
+    let salt = context.workspaceState.get<string>(REDACTION_SALT_KEY);
+    if (!salt) {
+        salt = randomBytes(16).toString('hex');
+        void context.workspaceState.update(REDACTION_SALT_KEY, salt);
+    }
+    return salt;
+}
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('AI Code Analyzer extension is now active!');
@@ -20,17 +48,30 @@ export function activate(context: vscode.ExtensionContext) {
         return;
     }
 
-    logger = new MetricsLogger(workspaceRoot);
+    logger = new MetricsLogger(workspaceRoot, getRedactionSalt(context));
     changeTracker = new ChangeTracker(logger);
     aiDetectionService = new AIDetectionService(logger, changeTracker.getCurrentSessionId());
+    detectionConfig = new DetectionConfigService(workspaceRoot);
     reviewAnalyzer = new ReviewAnalyzer(logger, changeTracker.getCurrentSessionId());
+    commitAnalyzer = new CommitAnalyzer(logger, aiDetectionService, reviewAnalyzer, createGitClient(workspaceRoot));
+    attributionDecorator = new AttributionDecorator(aiDetectionService, changeTracker);
+
+    // Keep per-file detection running as changes are recorded
+    const trackChanges = changeTracker.onDidRecordChange(change => aiDetectionService.track(change));
+    const releaseClosedFiles = vscode.workspace.onDidCloseTextDocument(document => {
+        aiDetectionService.releaseFile(document.uri.toString());
+    });
 
-    // Create status bar item
-    statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
-    statusBarItem.text = '$(robot) AI Analyzer';
-    statusBarItem.tooltip = 'AI Code Analyzer - Click for current file analysis';
-    statusBarItem.command = 'ai-analyzer.analyzeCurrentFile';
-    statusBarItem.show();
+    // Status bar follows the active editor and live edits
+    attributionStatusBar = new AttributionStatusBar(aiDetectionService, changeTracker, reviewAnalyzer.getEngine());
+
+    // Detection follows the layered config as its sources change, settings included
+    const applyDetectionConfig = detectionConfig.onDidChange(resolved => {
+        aiDetectionService.setConfig(resolved.config);
+        attributionStatusBar.refresh().catch(error => console.error('Failed to refresh attribution status bar:', error));
+        attributionDecorator.refresh().catch(error => console.error('Failed to refresh attribution decorations:', error));
+    });
+    void detectionConfig.reload();
 
     // Register commands
     registerCommands(context);
@@ -44,8 +85,14 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Register disposables
     context.subscriptions.push(
+        logger,
         changeTracker,
-        statusBarItem,
+        detectionConfig,
+        applyDetectionConfig,
+        trackChanges,
+        releaseClosedFiles,
+        attributionDecorator,
+        attributionStatusBar,
         { dispose: () => clearInterval(rotationInterval) }
     );
 
@@ -54,11 +101,26 @@ export function activate(context: vscode.ExtensionContext) {
         if (event.affectsConfiguration('aiCodeAnalyzer')) {
             logger.updateConfiguration();
         }
+        if (event.affectsConfiguration('aiCodeAnalyzer.review')) {
+            reviewAnalyzer.updateConfiguration();
+            attributionStatusBar.invalidateReviews();
+            attributionStatusBar.refresh().catch(error => console.error('Failed to refresh attribution status bar:', error));
+        }
     });
 
     console.log('AI Code Analyzer extension initialized successfully');
 }
 
+// Problems with a pasted config, or null when it can be imported
+function validateSharedConfig(text: string): string | null {
+    try {
+        const resolved = resolveConfig([{ name: 'override', config: parseSharedConfig(text) }]);
+        return resolved.valid ? null : formatConfigIssues(resolved.issues);
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+}
+
 function registerCommands(context: vscode.ExtensionContext) {
     // Show AI Attribution Report
     const showReportCommand = vscode.commands.registerCommand('ai-analyzer.showReport', async () => {
@@ -90,21 +152,21 @@ function registerCommands(context: vscode.ExtensionContext) {
             }
 
             const fileUri = editor.document.uri.toString();
-            const changes = await logger.getChangeEventsForFile(fileUri);
+            const changes = await aiDetectionService.getFileEvents(fileUri);
 
             if (changes.length === 0) {
                 vscode.window.showInformationMessage('No changes recorded for this file yet');
                 return;
             }
 
-            // Analyze AI attribution
-            const aiAttribution = await aiDetectionService.analyze(changes);
+            // AI attribution from the file's running analysis
+            const aiAttribution = await aiDetectionService.analyzeFile(fileUri);
 
             // Analyze review quality
-            const reviewQuality = await reviewAnalyzer.assessQuality(changes);
+            const reviewQuality = await reviewAnalyzer.assessQuality([...changes]);
 
             // Update status bar
-            updateStatusBar(aiAttribution, reviewQuality);
+            await attributionStatusBar.refresh();
 
             // Show analysis results
             const message = `File Analysis Results:
@@ -124,11 +186,46 @@ Confidence: ${(aiAttribution.confidence * 100).toFixed(1)}%`;
         }
     });
 
+    // Show Attribution of Open Files
+    const showFileAttributionsCommand = vscode.commands.registerCommand(SHOW_FILE_ATTRIBUTIONS_COMMAND, async () => {
+        try {
+            await attributionStatusBar.showFileAttributions();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to show file attributions: ${error}`);
+        }
+    });
+
+    // Toggle AI Attribution Decorations
+    const toggleAttributionCommand = vscode.commands.registerCommand('ai-analyzer.toggleAttributionDecorations', async () => {
+        try {
+            const enabled = await attributionDecorator.toggle();
+            vscode.window.showInformationMessage(`AI attribution decorations ${enabled ? 'enabled' : 'disabled'}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to toggle attribution decorations: ${error}`);
+        }
+    });
+
     // Generate Commit Summary
     const generateCommitSummaryCommand = vscode.commands.registerCommand('ai-analyzer.generateCommitSummary', async () => {
         try {
-            // This would integrate with git to analyze staged files
-            vscode.window.showInformationMessage('Commit summary generation coming soon!');
+            const analysis = await commitAnalyzer.analyzeStagedChanges();
+            if (!analysis) {
+                vscode.window.showInformationMessage('No staged changes to analyze');
+                return;
+            }
+
+            const summary = commitAnalyzer.formatSummary(analysis);
+            const message = `Commit Summary: ${analysis.commitMetrics.aiContributionPercentage.toFixed(1)}% AI | ` +
+                `Review: ${analysis.commitMetrics.averageReviewQuality.toFixed(1)}/10 | ` +
+                `Files: ${analysis.fileAnalysis.length}`;
+
+            const selection = await vscode.window.showInformationMessage(message, 'Copy Summary', 'Open Summary');
+            if (selection === 'Copy Summary') {
+                await vscode.env.clipboard.writeText(summary);
+            } else if (selection === 'Open Summary') {
+                const document = await vscode.workspace.openTextDocument({ content: summary, language: 'plaintext' });
+                await vscode.window.showTextDocument(document);
+            }
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to generate commit summary: ${error}`);
         }
@@ -170,7 +267,16 @@ Confidence: ${(aiAttribution.confidence * 100).toFixed(1)}%`;
     // Export Metrics
     const exportMetricsCommand = vscode.commands.registerCommand('ai-analyzer.exportMetrics', async () => {
         try {
-            const csv = await logger.exportMetricsAsCSV();
+            const day = 24 * 60 * 60 * 1000;
+            const range = await vscode.window.showQuickPick([
+                { label: 'All time', fromTime: undefined },
+                { label: 'Last 24 hours', fromTime: Date.now() - day },
+                { label: 'Last 7 days', fromTime: Date.now() - 7 * day },
+                { label: 'Last 30 days', fromTime: Date.now() - 30 * day }
+            ], { placeHolder: 'Time range to export (includes archived logs)' });
+            if (!range) return;
+
+            const csv = await logger.exportMetricsAsCSV(range.fromTime);
 
             const uri = await vscode.window.showSaveDialog({
                 defaultUri: vscode.Uri.file('ai-code-metrics.csv'),
@@ -188,31 +294,80 @@ Confidence: ${(aiAttribution.confidence * 100).toFixed(1)}%`;
         }
     });
 
+    // Show Log Buffer Statistics
+    const showLogBufferStatsCommand = vscode.commands.registerCommand('ai-analyzer.showLogBufferStats', async () => {
+        const stats = logger.getBufferStats();
+        const averageLatency = stats.flushes > 0 ? stats.totalFlushLatencyMs / stats.flushes : 0;
+        const message = `Log buffer: ${stats.bufferedRecords} records (${(stats.bufferedBytes / 1024).toFixed(1)} KB) waiting | ` +
+            `Written: ${stats.recordsWritten} records in ${stats.flushes} flushes | ` +
+            `Flush latency: last ${stats.lastFlushLatencyMs} ms, avg ${averageLatency.toFixed(1)} ms, max ${stats.maxFlushLatencyMs} ms | ` +
+            `Back-pressure waits: ${stats.backPressureWaits} | Failed writes: ${stats.failedWrites} | Dropped: ${stats.droppedRecords}`;
+
+        const selection = await vscode.window.showInformationMessage(message, 'Flush Now');
+        if (selection === 'Flush Now') {
+            await logger.flush();
+        }
+    });
+
+    // Show Detection Config
+    const showDetectionConfigCommand = vscode.commands.registerCommand('ai-analyzer.showDetectionConfig', async () => {
+        const { config, sources } = await detectionConfig.reload();
+        const origins: Record<string, string> = {};
+        for (const [key, source] of Object.entries(sources)) {
+            origins[key] = source.origin ? `${source.layer} (${source.origin})` : source.layer;
+        }
+
+        const document = await vscode.workspace.openTextDocument({
+            language: 'json',
+            content: JSON.stringify({ config, sources: origins }, null, 4)
+        });
+        await vscode.window.showTextDocument(document);
+    });
+
+    // Open Detection Config in Dashboard
+    const openConfigInDashboardCommand = vscode.commands.registerCommand('ai-analyzer.openConfigInDashboard', async () => {
+        const { config } = await detectionConfig.reload();
+        const dashboardUrl = vscode.workspace.getConfiguration('aiCodeAnalyzer').get('dashboardUrl', 'http://localhost:3000');
+
+        // In the fragment, so the config is never sent to the server
+        const uri = vscode.Uri.parse(dashboardUrl).with({ fragment: `config=${encodeConfigShareString(config)}` });
+        await vscode.env.openExternal(uri);
+    });
+
+    // Import Detection Config
+    const importDetectionConfigCommand = vscode.commands.registerCommand('ai-analyzer.importDetectionConfig', async () => {
+        const text = await vscode.window.showInputBox({
+            prompt: 'Paste a config share string or config JSON from the dashboard',
+            placeHolder: 'quantifai-config:...',
+            ignoreFocusOut: true,
+            validateInput: value => value.trim() ? validateSharedConfig(value) : null
+        });
+        if (!text) return;
+
+        try {
+            await detectionConfig.saveDashboardConfig(parseSharedConfig(text));
+            vscode.window.showInformationMessage(`Detection config saved to ${DASHBOARD_CONFIG_FILE}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to import detection config: ${error}`);
+        }
+    });
+
     // Register all commands
     context.subscriptions.push(
         showReportCommand,
         analyzeCurrentFileCommand,
+        showFileAttributionsCommand,
+        toggleAttributionCommand,
         generateCommitSummaryCommand,
         showTimelineCommand,
-        exportMetricsCommand
+        exportMetricsCommand,
+        showLogBufferStatsCommand,
+        showDetectionConfigCommand,
+        openConfigInDashboardCommand,
+        importDetectionConfigCommand
     );
 }
 
-function updateStatusBar(aiAttribution: any, reviewQuality: any) {
-    const aiPercentage = Math.round(aiAttribution.aiProbability * 100);
-    const reviewScore = reviewQuality.overallScore;
-
-    let icon = '$(robot)';
-    if (aiAttribution.source === 'human') {
-        icon = '$(person)';
-    } else if (aiAttribution.source === 'mixed') {
-        icon = '$(organization)';
-    }
-
-    statusBarItem.text = `${icon} ${aiPercentage}% AI | Review: ${reviewScore}/10`;
-    statusBarItem.tooltip = `AI Attribution: ${aiAttribution.source} (${aiPercentage}%)\nReview Quality: ${reviewQuality.qualityLevel} (${reviewScore}/10)`;
-}
-
 async function generateReportHtml(): Promise<string> {
     // Get recent analysis data
     const commits = await logger.getAllCommitAnalyses();
@@ -415,6 +570,8 @@ function generateTimelineHtml(changes: any[]): string {
     `;
 }
 
-export function deactivate() {
+export async function deactivate(): Promise<void> {
+    // Write out buffered log records before the extension host shuts down
+    await logger?.flush();
     console.log('AI Code Analyzer extension deactivated');
 }
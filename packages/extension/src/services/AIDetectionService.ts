@@ -1,44 +1,39 @@
 import { v4 as uuidv4 } from 'uuid';
 import {
     AIDetectionEngine,
+    StreamingDetectionEngine,
     DEFAULT_AI_DETECTION_CONFIG,
+    deepMerge,
+    defaultLogSchemaRegistry,
     type EnhancedChangeEvent,
     type AIAttribution,
     type AIDetectionConfig,
-    type HeuristicScores,
-    type WeightedScore
+    type AIDetectionResult,
+    type AIDetectionMetricsLog,
+    type EventScore,
+    type PartialAIDetectionConfig
 } from '@ai-analyzer/core';
 import { MetricsLogger } from './MetricsLogger';
 
-// Extension-specific metrics logging interface (since this is extension-specific)
-interface AIDetectionMetricsLog {
-    timestamp: number;
-    sessionId: string;
-    fileUri: string;
-    analysisId: string;
-    totalChanges: number;
-    timeSpanMs: number;
-    contentLengthTotal: number;
-    heuristicScores: HeuristicScores;
-    weightedScores: { [heuristic: string]: WeightedScore };
-    finalConfidence: number;
-    aiProbability: number;
-    classification: 'human' | 'ai-assisted' | 'ai-generated' | 'mixed';
-    evidence: any;
-    decisionTrace: any[];
-    _loggedAt: number;
-    _version: string;
+interface PendingHistory {
+    promise: Promise<void>;
+    liveEvents: EnhancedChangeEvent[];   // Tracked while the logged history was loading
 }
 
 export class AIDetectionService {
     private logger: MetricsLogger;
     private currentSessionId: string;
     private engine: AIDetectionEngine;
+    private streaming: StreamingDetectionEngine;
+    private loadedFiles: Set<string> = new Set();
+    private pendingHistory: Map<string, PendingHistory> = new Map();
 
-    constructor(logger: MetricsLogger, sessionId: string, config?: Partial<AIDetectionConfig>) {
+    constructor(logger: MetricsLogger, sessionId: string, config?: PartialAIDetectionConfig) {
         this.logger = logger;
         this.currentSessionId = sessionId;
-        this.engine = new AIDetectionEngine(config ? { ...DEFAULT_AI_DETECTION_CONFIG, ...config } : DEFAULT_AI_DETECTION_CONFIG);
+        const initialConfig = deepMerge(DEFAULT_AI_DETECTION_CONFIG, config);
+        this.engine = new AIDetectionEngine(initialConfig);
+        this.streaming = new StreamingDetectionEngine(initialConfig);
     }
 
     async analyze(changes: EnhancedChangeEvent[]): Promise<AIAttribution> {
@@ -46,12 +41,116 @@ export class AIDetectionService {
             return this.engine.analyze([]);
         }
 
+        // Use the core engine for analysis
+        const result = this.engine.analyzeDetailed(changes);
+        await this.logResult(changes, result);
+
+        const { source, confidence, aiProbability, evidence, timeline } = result;
+        return { source, confidence, aiProbability, evidence, timeline };
+    }
+
+    /**
+     * Feed a live change event into the running analysis of its file
+     */
+    track(change: EnhancedChangeEvent): void {
+        const pending = this.pendingHistory.get(change.fileUri);
+        if (pending) {
+            pending.liveEvents.push(change);
+        } else if (this.loadedFiles.has(change.fileUri)) {
+            this.streaming.push(change);
+        } else {
+            // The logged history already includes this event; a failed load is logged and retried later
+            this.loadFileHistory(change.fileUri).catch(() => undefined);
+        }
+    }
+
+    /**
+     * Analyze everything recorded for a file from its running analysis. Only the
+     * first call for a file reads the change log.
+     */
+    async analyzeFile(fileUri: string): Promise<AIAttribution> {
+        await this.loadFileHistory(fileUri);
+
+        const result = this.streaming.getResult(fileUri);
+        if (!result) {
+            return this.engine.analyze([]);
+        }
+
+        await this.logResult(this.streaming.getEvents(fileUri), result);
+
+        const { source, confidence, aiProbability, evidence, timeline } = result;
+        return { source, confidence, aiProbability, evidence, timeline };
+    }
+
+    /**
+     * Change events recorded for a file, in timestamp order
+     */
+    async getFileEvents(fileUri: string): Promise<readonly EnhancedChangeEvent[]> {
+        await this.loadFileHistory(fileUri);
+        return this.streaming.getEvents(fileUri);
+    }
+
+    /**
+     * Change events recorded for a file with their scores, index for index. Events are
+     * scored once, when first asked for; both arrays are replaced when the analysis is rebuilt.
+     */
+    async getFileEventScores(fileUri: string): Promise<{ events: readonly EnhancedChangeEvent[]; scores: readonly EventScore[] }> {
+        await this.loadFileHistory(fileUri);
+        return { events: this.streaming.getEvents(fileUri), scores: this.streaming.getEventScores(fileUri) };
+    }
+
+    /**
+     * Current attribution of a file without touching the logs, or null when
+     * the file has no analysis loaded yet
+     */
+    getCurrentAttribution(fileUri: string): AIAttribution | null {
+        return this.streaming.getAttribution(fileUri);
+    }
+
+    /**
+     * Drop the running analysis of a file; it is reloaded from the log when next needed
+     */
+    releaseFile(fileUri: string): void {
+        if (this.pendingHistory.has(fileUri)) return;
+        this.loadedFiles.delete(fileUri);
+        this.streaming.reset(fileUri);
+    }
+
+    private loadFileHistory(fileUri: string): Promise<void> {
+        if (this.loadedFiles.has(fileUri)) {
+            return Promise.resolve();
+        }
+
+        const existing = this.pendingHistory.get(fileUri);
+        if (existing) {
+            return existing.promise;
+        }
+
+        const liveEvents: EnhancedChangeEvent[] = [];
+        const promise = this.logger.readChangeEventsForFile(fileUri).then(history => {
+            // Events tracked during the read may or may not have made it into the log
+            const loggedIds = new Set(history.map(change => change.eventId));
+            this.streaming.pushAll(history);
+            this.streaming.pushAll(liveEvents.filter(change => !loggedIds.has(change.eventId)));
+
+            this.loadedFiles.add(fileUri);
+            this.pendingHistory.delete(fileUri);
+        }, error => {
+            // Left unloaded, so the next event or analysis of the file reads the log again;
+            // the events tracked meanwhile are in the log too
+            this.pendingHistory.delete(fileUri);
+            console.error(`Failed to load change history of ${fileUri}:`, error);
+            throw error;
+        });
+
+        this.pendingHistory.set(fileUri, { promise, liveEvents });
+        return promise;
+    }
+
+    private async logResult(changes: readonly EnhancedChangeEvent[], result: AIDetectionResult): Promise<void> {
         const analysisId = uuidv4();
         const startTime = Date.now();
 
-        // Use the core engine for analysis
-        const result = this.engine.analyze(changes);
-
         // Log comprehensive metrics for extension-specific tracking
         await this.logAnalysisMetrics({
             timestamp: startTime,
@@ -61,23 +160,30 @@ export class AIDetectionService {
             totalChanges: changes.length,
             timeSpanMs: this.calculateTimeSpan(changes),
             contentLengthTotal: changes.reduce((sum, c) => sum + c.contentLength, 0),
-            heuristicScores: this.createPlaceholderHeuristicScores(),
-            weightedScores: this.createPlaceholderWeightedScores(),
+            heuristicScores: result.heuristicScores,
+            weightedScores: result.weightedScores,
             finalConfidence: result.confidence,
             aiProbability: result.aiProbability,
             classification: result.source,
             evidence: result.evidence,
-            decisionTrace: []
+            decisionTrace: result.decisionTrace
         });
-
-        return result;
     }
 
     /**
-     * Update the AI detection configuration
+     * Update the AI detection configuration; nested settings are merged into the current ones
      */
-    updateConfig(config: Partial<AIDetectionConfig>): void {
+    updateConfig(config: PartialAIDetectionConfig): void {
         this.engine.updateConfig(config);
+        this.streaming.updateConfig(config);
+    }
+
+    /**
+     * Replace the AI detection configuration with a complete one, such as a newly resolved config
+     */
+    setConfig(config: AIDetectionConfig): void {
+        this.engine.setConfig(config);
+        this.streaming.setConfig(config);
     }
 
     /**
@@ -87,7 +193,7 @@ export class AIDetectionService {
         return this.engine.getConfig();
     }
 
-    private calculateTimeSpan(changes: EnhancedChangeEvent[]): number {
+    private calculateTimeSpan(changes: readonly EnhancedChangeEvent[]): number {
         if (changes.length < 2) return 0;
         return changes[changes.length - 1].timestamp - changes[0].timestamp;
     }
@@ -96,31 +202,10 @@ export class AIDetectionService {
         await this.logger.logAIDetectionMetrics({
             ...metrics,
             _loggedAt: Date.now(),
-            _version: '1.0'
+            _version: defaultLogSchemaRegistry.getCurrentVersion('AIDetectionMetricsLog')
         });
     }
 
-    /**
-     * Create placeholder heuristic scores since core engine doesn't expose them
-     */
-    private createPlaceholderHeuristicScores(): HeuristicScores {
-        return {
-            bulkInsertionScore: 0,
-            typingSpeedScore: 0,
-            pastePatternScore: 0,
-            externalToolScore: 0,
-            contentPatternScore: 0,
-            timingAnomalyScore: 0
-        };
-    }
-
-    /**
-     * Create placeholder weighted scores since core engine doesn't expose them
-     */
-    private createPlaceholderWeightedScores(): { [heuristic: string]: WeightedScore } {
-        return {};
-    }
-
     /**
      * Public method to update session ID
      */
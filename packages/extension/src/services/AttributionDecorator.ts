@@ -0,0 +1,204 @@
+import * as vscode from 'vscode';
+import {
+    LineAttributionMap,
+    type EnhancedChangeEvent,
+    type LineAttributionKind,
+    type LineHistory,
+    type LineProvenance
+} from '@ai-analyzer/core';
+import { AIDetectionService } from './AIDetectionService';
+import { ChangeTracker } from './ChangeTracker';
+
+const REFRESH_DELAY_MS = 300; // redraws once a burst of edits settles
+
+const KIND_STYLES: Record<LineAttributionKind, { label: string; color: string; background?: string }> = {
+    ai: { label: 'AI-generated', color: '#b180d7', background: 'rgba(177, 128, 215, 0.08)' },
+    mixed: { label: 'Mixed (AI + human)', color: '#d7ba7d' },
+    human: { label: 'Human', color: '#89d185' }
+};
+
+interface FileAttribution {
+    events: readonly EnhancedChangeEvent[];     // the file's running analysis the map was replayed from
+    applied: number;                            // how many of its events the map has replayed
+    map: LineAttributionMap;
+}
+
+/**
+ * Renders per-line AI attribution as gutter markers with a blame-style hover. Each
+ * visible file keeps a line map that replays its recorded changes as they come in,
+ * classified by the event scores of the file's running analysis.
+ */
+export class AttributionDecorator implements vscode.Disposable {
+    private aiDetectionService: AIDetectionService;
+    private enabled = false;
+    private decorationTypes: Record<LineAttributionKind, vscode.TextEditorDecorationType>;
+    private attributions: Map<string, FileAttribution> = new Map();
+    private refreshTimers: Map<string, NodeJS.Timeout> = new Map();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(aiDetectionService: AIDetectionService, changeTracker: ChangeTracker) {
+        this.aiDetectionService = aiDetectionService;
+        this.decorationTypes = {
+            ai: this.createDecorationType('ai'),
+            mixed: this.createDecorationType('mixed'),
+            human: this.createDecorationType('human')
+        };
+
+        this.disposables.push(
+            vscode.window.onDidChangeVisibleTextEditors(() => {
+                this.refresh().catch(error => console.error('Failed to refresh attribution decorations:', error));
+            }),
+            changeTracker.onDidRecordChange(change => this.scheduleRefresh(change.fileUri)),
+            vscode.workspace.onDidCloseTextDocument(document => this.attributions.delete(document.uri.toString()))
+        );
+    }
+
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    async toggle(): Promise<boolean> {
+        this.enabled = !this.enabled;
+
+        if (this.enabled) {
+            await this.refresh();
+        } else {
+            for (const editor of vscode.window.visibleTextEditors) {
+                this.clear(editor);
+            }
+            this.attributions.clear();
+        }
+
+        return this.enabled;
+    }
+
+    /**
+     * Redecorate the visible editors, e.g. after the detection config changed; files
+     * whose analysis was rebuilt since are replayed from the start
+     */
+    async refresh(): Promise<void> {
+        if (!this.enabled) return;
+
+        for (const editor of vscode.window.visibleTextEditors) {
+            await this.decorate(editor);
+        }
+    }
+
+    private scheduleRefresh(fileUri: string): void {
+        if (!this.enabled) return;
+
+        clearTimeout(this.refreshTimers.get(fileUri));
+        this.refreshTimers.set(fileUri, setTimeout(() => {
+            this.refreshTimers.delete(fileUri);
+            const editors = vscode.window.visibleTextEditors.filter(e => e.document.uri.toString() === fileUri);
+            editors.forEach(editor => {
+                this.decorate(editor).catch(error => console.error('Failed to refresh attribution decorations:', error));
+            });
+        }, REFRESH_DELAY_MS));
+    }
+
+    private async decorate(editor: vscode.TextEditor): Promise<void> {
+        const document = editor.document;
+        if (document.uri.scheme !== 'file') return;
+
+        const attribution = await this.getAttribution(document.uri.toString());
+
+        const options: Record<LineAttributionKind, vscode.DecorationOptions[]> = { ai: [], mixed: [], human: [] };
+        const lineCount = Math.min(attribution.lineCount, document.lineCount);
+
+        for (let line = 0; line < lineCount; line++) {
+            const history = attribution.getLineHistory(line);
+            if (!history) continue;
+
+            options[history.kind].push({
+                range: document.lineAt(line).range,
+                hoverMessage: this.formatHover(history)
+            });
+        }
+
+        for (const kind of Object.keys(options) as LineAttributionKind[]) {
+            editor.setDecorations(this.decorationTypes[kind], options[kind]);
+        }
+    }
+
+    // The file's line map with every recorded change applied. The running analysis is
+    // rebuilt, and so replaced, when the detection config changes or the file is reloaded.
+    private async getAttribution(fileUri: string): Promise<LineAttributionMap> {
+        const { events, scores } = await this.aiDetectionService.getFileEventScores(fileUri);
+
+        let attribution = this.attributions.get(fileUri);
+        if (!attribution || attribution.events !== events) {
+            attribution = { events, applied: 0, map: new LineAttributionMap() };
+            this.attributions.set(fileUri, attribution);
+        }
+
+        for (; attribution.applied < scores.length; attribution.applied++) {
+            const { label, aiProbability, evidence } = scores[attribution.applied];
+            attribution.map.apply(events[attribution.applied], () => ({ source: label, aiProbability, evidence }));
+        }
+        return attribution.map;
+    }
+
+    private clear(editor: vscode.TextEditor): void {
+        for (const decorationType of Object.values(this.decorationTypes)) {
+            editor.setDecorations(decorationType, []);
+        }
+    }
+
+    private formatHover(history: LineHistory): vscode.MarkdownString {
+        const hover = new vscode.MarkdownString();
+        hover.appendMarkdown(`**AI Attribution: ${KIND_STYLES[history.kind].label}**\n\n`);
+        hover.appendMarkdown(`Created ${this.describeWriter(history.origin)}\n\n`);
+
+        const evidence = history.origin.evidence ?? [];
+        if (evidence.length > 0) {
+            hover.appendMarkdown('Evidence:\n');
+            for (const item of evidence) {
+                hover.appendMarkdown('- ');
+                hover.appendText(item);
+                hover.appendMarkdown('\n');
+            }
+            hover.appendMarkdown('\n');
+        }
+
+        if (history.edits.length > 0) {
+            hover.appendMarkdown('Later edits:\n');
+            for (const edit of history.edits) {
+                hover.appendMarkdown(`- ${this.describeWriter(edit)}\n`);
+            }
+        }
+
+        return hover;
+    }
+
+    private describeWriter(provenance: LineProvenance): string {
+        const when = new Date(provenance.timestamp).toLocaleString();
+        const probability = Math.round(provenance.aiProbability * 100);
+        const tool = provenance.toolType ? ` via ${provenance.toolType}` : '';
+        const whitespace = provenance.whitespaceOnly ? ', whitespace only' : '';
+        return `${when}: ${provenance.source} edit (${probability}% AI${whitespace})${tool}`;
+    }
+
+    private createDecorationType(kind: LineAttributionKind): vscode.TextEditorDecorationType {
+        const style = KIND_STYLES[kind];
+        const gutterIcon = `<svg xmlns="http://www.w3.org/2000/svg" width="4" height="16"><rect width="4" height="16" fill="${style.color}"/></svg>`;
+
+        return vscode.window.createTextEditorDecorationType({
+            gutterIconPath: vscode.Uri.parse(`data:image/svg+xml;utf8,${encodeURIComponent(gutterIcon)}`),
+            gutterIconSize: 'auto',
+            isWholeLine: true,
+            backgroundColor: style.background,
+            overviewRulerColor: kind === 'human' ? undefined : style.color,
+            overviewRulerLane: vscode.OverviewRulerLane.Left
+        });
+    }
+
+    dispose(): void {
+        this.refreshTimers.forEach(timer => clearTimeout(timer));
+        this.refreshTimers.clear();
+        this.attributions.clear();
+        Object.values(this.decorationTypes).forEach(decorationType => decorationType.dispose());
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+}
@@ -0,0 +1,223 @@
+import * as vscode from 'vscode';
+import {
+    type ReviewQualityEngine,
+    type AIAttribution,
+    type EnhancedChangeEvent,
+    type ReviewQualityAssessment
+} from '@ai-analyzer/core';
+import { AIDetectionService } from './AIDetectionService';
+import { ChangeTracker } from './ChangeTracker';
+
+export const SHOW_FILE_ATTRIBUTIONS_COMMAND = 'ai-analyzer.showFileAttributions';
+
+const REFRESH_INTERVAL_MS = 1000; // at most one refresh per second while edits stream in
+
+interface FileStatus {
+    fileUri: string;
+    attribution: AIAttribution;
+    review: ReviewQualityAssessment;
+    changeCount: number;
+    lastChange: number;
+}
+
+interface CachedReview {
+    events: readonly EnhancedChangeEvent[];
+    eventCount: number;
+    review: ReviewQualityAssessment;
+}
+
+interface FileStatusItem extends vscode.QuickPickItem {
+    fileUri?: string;
+    command?: string;
+}
+
+/**
+ * Shows the active file's AI attribution and review quality in the status bar,
+ * following the editor focus and the edits recorded by the change tracker.
+ */
+export class AttributionStatusBar implements vscode.Disposable {
+    private aiDetectionService: AIDetectionService;
+    private reviewEngine: ReviewQualityEngine;
+    private item: vscode.StatusBarItem;
+    private refreshTimer: NodeJS.Timeout | undefined;
+    private reviews: Map<string, CachedReview> = new Map();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(aiDetectionService: AIDetectionService, changeTracker: ChangeTracker, reviewEngine: ReviewQualityEngine) {
+        this.aiDetectionService = aiDetectionService;
+        this.reviewEngine = reviewEngine;
+
+        this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+        this.item.command = SHOW_FILE_ATTRIBUTIONS_COMMAND;
+        this.renderIdle('AI Code Analyzer - Click for attribution of open files');
+        this.item.show();
+
+        this.disposables.push(
+            vscode.window.onDidChangeActiveTextEditor(() => this.refreshSafely()),
+            vscode.workspace.onDidCloseTextDocument(document => this.reviews.delete(document.uri.toString())),
+            changeTracker.onDidRecordChange(change => {
+                if (change.fileUri === vscode.window.activeTextEditor?.document.uri.toString()) {
+                    this.scheduleRefresh();
+                }
+            })
+        );
+
+        this.refreshSafely();
+    }
+
+    /**
+     * Show the current attribution of the active file
+     */
+    async refresh(): Promise<void> {
+        const document = vscode.window.activeTextEditor?.document;
+        if (!document || document.uri.scheme !== 'file') {
+            this.renderIdle('AI Code Analyzer - No file open');
+            return;
+        }
+
+        const status = await this.getFileStatus(document.uri.toString());
+
+        // The user may have switched editors while the file's history loaded
+        if (vscode.window.activeTextEditor?.document !== document) return;
+
+        if (status) {
+            this.render(status);
+        } else {
+            this.renderIdle('AI Code Analyzer - No changes recorded for this file yet');
+        }
+    }
+
+    /**
+     * Forget the cached review assessments, e.g. once the review settings changed
+     */
+    invalidateReviews(): void {
+        this.reviews.clear();
+    }
+
+    /**
+     * Quick pick listing the attribution of every open file with recorded changes,
+     * most recently edited first
+     */
+    async showFileAttributions(): Promise<void> {
+        const statuses: FileStatus[] = [];
+        for (const document of vscode.workspace.textDocuments) {
+            if (document.uri.scheme !== 'file') continue;
+
+            const status = await this.getFileStatus(document.uri.toString());
+            if (status) {
+                statuses.push(status);
+            }
+        }
+        statuses.sort((a, b) => b.lastChange - a.lastChange);
+
+        const items: FileStatusItem[] = statuses.map(status => ({
+            label: `${this.getIcon(status.attribution.source)} ${vscode.workspace.asRelativePath(vscode.Uri.parse(status.fileUri))}`,
+            description: this.formatSummary(status),
+            detail: `${status.attribution.source}, ${status.review.qualityLevel} review - ` +
+                `${status.changeCount} changes, last at ${new Date(status.lastChange).toLocaleTimeString()}`,
+            fileUri: status.fileUri
+        }));
+
+        if (vscode.window.activeTextEditor) {
+            items.unshift({
+                label: '$(search) Analyze Current File',
+                description: 'Full analysis with confidence and details',
+                command: 'ai-analyzer.analyzeCurrentFile'
+            });
+        }
+
+        if (statuses.length === 0) {
+            items.push({ label: 'No changes recorded in open files yet' });
+        }
+
+        const selection = await vscode.window.showQuickPick(items, {
+            placeHolder: 'AI attribution of open files',
+            matchOnDescription: true,
+            matchOnDetail: true
+        });
+
+        if (selection?.command) {
+            await vscode.commands.executeCommand(selection.command);
+        } else if (selection?.fileUri) {
+            await vscode.window.showTextDocument(vscode.Uri.parse(selection.fileUri));
+        }
+    }
+
+    private scheduleRefresh(): void {
+        if (this.refreshTimer) return;
+
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = undefined;
+            this.refreshSafely();
+        }, REFRESH_INTERVAL_MS);
+    }
+
+    private refreshSafely(): void {
+        this.refresh().catch(error => console.error('Failed to refresh attribution status bar:', error));
+    }
+
+    private async getFileStatus(fileUri: string): Promise<FileStatus | null> {
+        const events = await this.aiDetectionService.getFileEvents(fileUri);
+        const attribution = this.aiDetectionService.getCurrentAttribution(fileUri);
+        if (events.length === 0 || !attribution) {
+            return null;
+        }
+
+        return {
+            fileUri,
+            attribution,
+            review: this.getReview(fileUri, events),
+            changeCount: events.length,
+            lastChange: events[events.length - 1].timestamp
+        };
+    }
+
+    // Histories only grow while a file is tracked, so the assessment holds until a change
+    // is recorded or the history is reloaded into a new array
+    private getReview(fileUri: string, events: readonly EnhancedChangeEvent[]): ReviewQualityAssessment {
+        const cached = this.reviews.get(fileUri);
+        if (cached && cached.events === events && cached.eventCount === events.length) {
+            return cached.review;
+        }
+
+        const review = this.reviewEngine.assess([...events]);
+        this.reviews.set(fileUri, { events, eventCount: events.length, review });
+        return review;
+    }
+
+    private render(status: FileStatus): void {
+        const { attribution, review } = status;
+        const aiPercentage = Math.round(attribution.aiProbability * 100);
+
+        this.item.text = `${this.getIcon(attribution.source)} ${this.formatSummary(status)}`;
+        this.item.tooltip = `AI Attribution: ${attribution.source} (${aiPercentage}%)\n` +
+            `Review Quality: ${review.qualityLevel} (${review.overallScore}/10)\n` +
+            'Click for attribution of open files';
+    }
+
+    private renderIdle(tooltip: string): void {
+        this.item.text = '$(robot) AI Analyzer';
+        this.item.tooltip = tooltip;
+    }
+
+    private formatSummary({ attribution, review }: FileStatus): string {
+        return `${Math.round(attribution.aiProbability * 100)}% AI | Review: ${review.overallScore}/10`;
+    }
+
+    private getIcon(source: AIAttribution['source']): string {
+        if (source === 'human') {
+            return '$(person)';
+        } else if (source === 'mixed') {
+            return '$(organization)';
+        }
+        return '$(robot)';
+    }
+
+    dispose(): void {
+        clearTimeout(this.refreshTimer);
+        this.reviews.clear();
+        this.item.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+}
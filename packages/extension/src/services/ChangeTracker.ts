@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import { v4 as uuidv4 } from 'uuid';
-import { type EnhancedChangeEvent, type Position, type SelectionRange } from '@ai-analyzer/core';
+import { defaultLogSchemaRegistry, type ChangeEventLog, type EnhancedChangeEvent, type Position, type SelectionRange } from '@ai-analyzer/core';
 import { MetricsLogger } from './MetricsLogger';
 
 export class ChangeTracker {
@@ -11,6 +11,12 @@ export class ChangeTracker {
     private lastChangeTime: Map<string, number> = new Map();
     private typingHistory: Map<string, Array<{ timestamp: number; length: number }>> = new Map();
     private logger: MetricsLogger;
+    private changeRecorded = new vscode.EventEmitter<ChangeEventLog>();
+
+    /**
+     * Fires for every live change event once it has been logged, in the form written to the log
+     */
+    public readonly onDidRecordChange: vscode.Event<ChangeEventLog> = this.changeRecorded.event;
 
     constructor(logger: MetricsLogger) {
         this.logger = logger;
@@ -66,11 +72,14 @@ export class ChangeTracker {
             // Remove content field before logging for privacy
             const { content: _content, ...eventToLog } = enhancedEvent as any;
 
-            await this.logger.logChangeEvent({
+            const loggedEvent: ChangeEventLog = {
                 ...eventToLog,
                 _loggedAt: timestamp,
-                _version: '1.0'
-            });
+                _version: defaultLogSchemaRegistry.getCurrentVersion('ChangeEventLog')
+            };
+
+            await this.logger.logChangeEvent(loggedEvent);
+            this.changeRecorded.fire(loggedEvent);
         }
 
         this.lastChangeTime.set(fileUri, timestamp);
@@ -168,6 +177,11 @@ export class ChangeTracker {
             },
             // content: excluded for privacy - not logged to disk
             contentLength: change.text.length,
+            range: {
+                start: { line: change.range.start.line, character: change.range.start.character },
+                end: { line: change.range.end.line, character: change.range.end.character }
+            },
+            insertedEnd: this.calculateInsertedEnd(change),
             timeSinceLastChange,
             timeSinceSessionStart: timestamp - this.sessionStartTime,
             timeSinceFileOpen: timestamp - fileOpenTime,
@@ -195,6 +209,20 @@ export class ChangeTracker {
         return enhancedEvent;
     }
 
+    private calculateInsertedEnd(change: vscode.TextDocumentContentChangeEvent): Position {
+        const start = change.range.start;
+        const lastBreak = change.text.lastIndexOf('\n');
+
+        if (lastBreak === -1) {
+            return { line: start.line, character: start.character + change.text.length };
+        }
+
+        return {
+            line: start.line + change.text.split('\n').length - 1,
+            character: change.text.length - lastBreak - 1
+        };
+    }
+
     private calculateInstantTypingSpeed(text: string, timeMs: number): number {
         if (timeMs === 0) return 0;
         const charactersPerMinute = (text.length / timeMs) * 60000;
@@ -425,5 +453,6 @@ export class ChangeTracker {
     public dispose(): void {
         this.disposables.forEach(disposable => disposable.dispose());
         this.disposables = [];
+        this.changeRecorded.dispose();
     }
 }
@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+    AIDetectionEngine,
+    CommitAnalysisEngine,
+    LineAttributionMap,
+    createEngineEventClassifier,
+    defaultLogSchemaRegistry,
+    parseUnifiedDiff,
+    type CommitAnalysis,
+    type CommitFileInput,
+    type DiffFile,
+    type EnhancedChangeEvent
+} from '@ai-analyzer/core';
+// Node-only, so it is not re-exported from the browser-safe package root
+import type { GitClient } from '@ai-analyzer/core/dist/cli/git';
+import { MetricsLogger } from './MetricsLogger';
+import { AIDetectionService } from './AIDetectionService';
+import { ReviewAnalyzer } from './ReviewAnalyzer';
+
+export class CommitAnalyzer {
+    private logger: MetricsLogger;
+    private aiDetectionService: AIDetectionService;
+    private reviewAnalyzer: ReviewAnalyzer;
+    private git: GitClient;
+    private engine: CommitAnalysisEngine;
+
+    constructor(
+        logger: MetricsLogger,
+        aiDetectionService: AIDetectionService,
+        reviewAnalyzer: ReviewAnalyzer,
+        git: GitClient
+    ) {
+        this.logger = logger;
+        this.aiDetectionService = aiDetectionService;
+        this.reviewAnalyzer = reviewAnalyzer;
+        this.git = git;
+        this.engine = new CommitAnalysisEngine();
+    }
+
+    /**
+     * Analyzes the staged diff against the change events recorded since the last commit.
+     * Returns null when nothing is staged.
+     */
+    async analyzeStagedChanges(message: string = '(staged changes)'): Promise<CommitAnalysis | null> {
+        const diffFiles = parseUnifiedDiff(await this.git.getStagedDiff());
+        if (diffFiles.length === 0) {
+            return null;
+        }
+
+        const repositoryRoot = await this.git.getRepositoryRoot();
+        const head = await this.git.getHeadCommit();
+        const since = head?.timestamp ?? 0;
+        const commitTime = Date.now();
+        const classify = createEngineEventClassifier(new AIDetectionEngine(this.aiDetectionService.getConfig()));
+
+        const files: CommitFileInput[] = [];
+        for (const diff of diffFiles) {
+            const recorded = await this.getRecordedEvents(repositoryRoot, diff, since);
+            const events = this.engine.matchEventsToHunks(recorded, diff, since);
+
+            files.push({
+                diff,
+                events,
+                attribution: await this.aiDetectionService.analyze(events),
+                review: events.length > 0
+                    ? await this.reviewAnalyzer.assessQuality(events, { commitTime })
+                    : null,
+                lineAttribution: recorded.length > 0 ? LineAttributionMap.fromEvents(recorded, classify) : undefined
+            });
+        }
+
+        const analysis = this.engine.analyzeCommit(
+            { commitId: `staged-${uuidv4()}`, message, timestamp: commitTime },
+            files
+        );
+
+        await this.logger.logCommitAnalysis({
+            ...analysis,
+            _loggedAt: Date.now(),
+            _version: defaultLogSchemaRegistry.getCurrentVersion('CommitAnalysisLog')
+        });
+
+        return analysis;
+    }
+
+    formatSummary(analysis: CommitAnalysis): string {
+        return this.engine.formatSummary(analysis);
+    }
+
+    private async getRecordedEvents(repositoryRoot: string, diff: DiffFile, since: number): Promise<EnhancedChangeEvent[]> {
+        if (diff.isBinary || diff.status === 'deleted') {
+            return [];
+        }
+
+        // Renamed files keep the history recorded under their previous name
+        const paths = [diff.path];
+        if (diff.status === 'renamed' && diff.oldPath) {
+            paths.push(diff.oldPath);
+        }
+
+        const events: EnhancedChangeEvent[] = [];
+        for (const filePath of paths) {
+            const fileUri = vscode.Uri.file(path.join(repositoryRoot, filePath)).toString();
+            events.push(...await this.logger.getChangeEventsForFile(fileUri, since));
+        }
+
+        return events.sort((a, b) => a.timestamp - b.timestamp);
+    }
+}
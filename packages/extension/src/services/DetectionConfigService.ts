@@ -0,0 +1,179 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import {
+    DASHBOARD_CONFIG_FILE,
+    WORKSPACE_CONFIG_FILE,
+    applySensitivity,
+    deepMerge,
+    formatConfigIssues,
+    getConfigPaths,
+    getDefaultConfig,
+    resolveConfig,
+    type ConfigLayer,
+    type PartialAIDetectionConfig,
+    type ResolvedConfig
+} from '@ai-analyzer/core';
+
+const DETECTION_SETTINGS = 'aiCodeAnalyzer.detection';
+const SENSITIVITY_SETTING = 'aiCodeAnalyzer.aiDetectionSensitivity';
+
+/**
+ * Resolves the detection config from its layers and re-resolves it when one changes.
+ * Invalid configs are reported and not applied; the last valid one stays in effect.
+ */
+export class DetectionConfigService implements vscode.Disposable {
+    private workspaceRoot: string;
+    private resolved: ResolvedConfig = resolveConfig([]);
+    private lastReportedIssues = '';
+    private changed = new vscode.EventEmitter<ResolvedConfig>();
+    private disposables: vscode.Disposable[] = [];
+
+    readonly onDidChange: vscode.Event<ResolvedConfig> = this.changed.event;
+
+    constructor(workspaceRoot: string) {
+        this.workspaceRoot = workspaceRoot;
+
+        const reload = () => void this.reload();
+        for (const configFile of [WORKSPACE_CONFIG_FILE, DASHBOARD_CONFIG_FILE]) {
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(workspaceRoot, configFile));
+            this.disposables.push(
+                watcher,
+                watcher.onDidCreate(reload),
+                watcher.onDidChange(reload),
+                watcher.onDidDelete(reload)
+            );
+        }
+
+        this.disposables.push(
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration(DETECTION_SETTINGS) || event.affectsConfiguration(SENSITIVITY_SETTING)) {
+                    reload();
+                }
+            }),
+            this.changed
+        );
+    }
+
+    /**
+     * The config in effect, with the layer each value came from
+     */
+    getResolved(): ResolvedConfig {
+        return this.resolved;
+    }
+
+    /**
+     * Read the layers again and apply the result if it is valid
+     */
+    async reload(): Promise<ResolvedConfig> {
+        let resolved: ResolvedConfig;
+        try {
+            resolved = resolveConfig(await this.readLayers());
+        } catch (error) {
+            this.reportProblem(error instanceof Error ? error.message : String(error));
+            return this.resolved;
+        }
+
+        if (!resolved.valid) {
+            this.reportProblem(`Invalid AI detection config, keeping the previous one:\n${formatConfigIssues(resolved.issues)}`);
+            return this.resolved;
+        }
+
+        this.lastReportedIssues = '';
+        this.resolved = resolved;
+        this.changed.fire(resolved);
+        return resolved;
+    }
+
+    /**
+     * Save a config, such as one tuned in the dashboard, as the workspace's dashboard
+     * config and apply it. Returns the config in effect afterwards.
+     */
+    async saveDashboardConfig(config: PartialAIDetectionConfig): Promise<ResolvedConfig> {
+        const filePath = path.join(this.workspaceRoot, DASHBOARD_CONFIG_FILE);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, JSON.stringify(config, null, 4) + '\n', 'utf8');
+        return this.reload();
+    }
+
+    private async readLayers(): Promise<ConfigLayer[]> {
+        const layers: ConfigLayer[] = [];
+
+        const settings = this.readSettings();
+        if (settings) {
+            layers.push({ name: 'user', config: settings, origin: 'settings' });
+        }
+
+        const workspaceFile = path.join(this.workspaceRoot, WORKSPACE_CONFIG_FILE);
+        const workspaceConfig = await this.readConfigFile(workspaceFile);
+        if (workspaceConfig) {
+            layers.push({ name: 'workspace', config: workspaceConfig, origin: WORKSPACE_CONFIG_FILE });
+        }
+
+        const dashboardConfig = await this.readConfigFile(path.join(this.workspaceRoot, DASHBOARD_CONFIG_FILE));
+        if (dashboardConfig) {
+            layers.push({ name: 'dashboard', config: dashboardConfig, origin: DASHBOARD_CONFIG_FILE });
+        }
+
+        return layers;
+    }
+
+    // Only values set in some settings scope, so the defaults keep their own layer
+    private readSettings(): ConfigLayer['config'] | null {
+        const settings = vscode.workspace.getConfiguration(DETECTION_SETTINGS);
+        const config: Record<string, Record<string, unknown>> = {};
+
+        for (const settingPath of getConfigPaths()) {
+            const value = getSetValue(settings.inspect(settingPath));
+            if (value !== undefined) {
+                const [section, key] = settingPath.split('.');
+                config[section] = { ...config[section], [key]: value };
+            }
+        }
+
+        // Sensitivity scales the cutoffs of this layer; a workspace file's cutoffs apply as written
+        const sensitivity = getSetValue(vscode.workspace.getConfiguration().inspect<number>(SENSITIVITY_SETTING));
+        if (typeof sensitivity === 'number') {
+            const classification = deepMerge(getDefaultConfig().classification, config.classification);
+            config.classification = applySensitivity(classification, sensitivity);
+        }
+
+        return Object.keys(config).length > 0 ? config : null;
+    }
+
+    private async readConfigFile(filePath: string): Promise<ConfigLayer['config'] | null> {
+        let content: string;
+        try {
+            content = await fs.readFile(filePath, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            throw error;
+        }
+
+        try {
+            return JSON.parse(content);
+        } catch (error) {
+            throw new Error(`Failed to parse ${path.basename(filePath)}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    // Each problem is shown once, not again on every reload that still has it
+    private reportProblem(message: string): void {
+        console.warn(message);
+        if (message !== this.lastReportedIssues) {
+            this.lastReportedIssues = message;
+            vscode.window.showWarningMessage(message);
+        }
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+}
+
+// The most specific value set for a setting, ignoring its contributed default and empty (null) values
+function getSetValue<T>(inspected: { globalValue?: T; workspaceValue?: T; workspaceFolderValue?: T } | undefined): T | undefined {
+    const value = inspected?.workspaceFolderValue ?? inspected?.workspaceValue ?? inspected?.globalValue;
+    return value === null ? undefined : value;
+}
@@ -0,0 +1,495 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { mkdirSync, renameSync, writeFileSync } from 'fs';
+import {
+    defaultLogSchemaRegistry,
+    type LogRecordType,
+    type LogRecordTypeMap
+} from '@ai-analyzer/core';
+import { compressToArchive, listArchives, readSegment } from './LogArchiver';
+
+const INDEX_VERSION = 1;
+const INDEX_DIRECTORY = 'index';
+const SCAN_CHUNK_BYTES = 1024 * 1024;
+const MAX_READ_GAP_BYTES = 64 * 1024;      // neighbouring records closer than this are read together
+const MAX_READ_BYTES = 4 * 1024 * 1024;
+const INDEX_SAVE_DELAY_MS = 5000;           // the active log's index is persisted at most this often
+const MAX_CACHED_ARCHIVE_BYTES = 32 * 1024 * 1024;     // decompressed archives kept for later queries
+
+export interface LogQuery {
+    fileUri?: string;
+    sessionId?: string;
+    fromTime?: number;      // inclusive
+    toTime?: number;        // inclusive
+}
+
+/**
+ * Byte offsets of the valid records in one log segment, kept next to the logs so
+ * queries only read the lines they need. `size` always sits on a line boundary;
+ * anything after it has not been indexed yet.
+ */
+interface SegmentIndex {
+    version: number;
+    ino: number;            // detects a segment replaced under the same name
+    size: number;
+    minTimestamp: number;
+    maxTimestamp: number;
+    offsets: number[];
+    lengths: number[];
+    timestamps: number[];
+    files: Record<string, number[]>;        // record positions per file URI
+    sessions: Record<string, number[]>;     // record positions per session id
+    complete?: boolean;     // compressed archives are indexed in one pass and never grow
+}
+
+interface Segment {
+    name: string;
+    compressed: boolean;
+}
+
+interface CachedArchive {
+    ino: number;
+    content: Buffer;
+}
+
+/**
+ * A JSONL log and its rotated archives, queried through per-segment indexes of
+ * file URI, session id and timestamp. Indexes are built on first use, extended as
+ * the active log grows and persisted in an `index` directory beside the logs; growth
+ * of the active log's index is saved a few seconds later, so a burst of queries
+ * between appends writes it once. Recently read archives stay decompressed in memory.
+ */
+export class IndexedLog<K extends LogRecordType> {
+    readonly filename: string;
+    private directory: string;
+    private type: K;
+    private timeOf: (record: LogRecordTypeMap[K]) => number;
+    private indexes: Map<string, SegmentIndex> = new Map();
+    private unsavedIndexes: Set<string> = new Set();
+    private saveTimer: NodeJS.Timeout | undefined;
+    private archives: Map<string, CachedArchive> = new Map();     // least recently read first
+    private cachedArchiveBytes = 0;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(
+        directory: string,
+        filename: string,
+        type: K,
+        timeOf: (record: LogRecordTypeMap[K]) => number = record => (record as { timestamp: number }).timestamp
+    ) {
+        this.directory = directory;
+        this.filename = filename;
+        this.type = type;
+        this.timeOf = timeOf;
+    }
+
+    /**
+     * Records matching the query across the active log and its archives, in timestamp order.
+     * Records written by older versions are upgraded; invalid lines are skipped.
+     */
+    query(query: LogQuery = {}): Promise<LogRecordTypeMap[K][]> {
+        return this.exclusive(async () => {
+            const records: LogRecordTypeMap[K][] = [];
+
+            for (const segment of await this.listSegments(query.fromTime)) {
+                const index = await this.updateIndex(segment);
+                if (!index || index.offsets.length === 0) continue;
+                if (query.fromTime && index.maxTimestamp < query.fromTime) continue;
+                if (query.toTime !== undefined && index.minTimestamp > query.toTime) continue;
+
+                const positions = this.selectPositions(index, query);
+                for (const record of await this.readRecords(segment, index, positions)) {
+                    if (query.fileUri !== undefined && (record as { fileUri?: string }).fileUri !== query.fileUri) continue;
+                    if (query.sessionId !== undefined && (record as { sessionId?: string }).sessionId !== query.sessionId) continue;
+                    records.push(record);
+                }
+            }
+
+            return records.sort((a, b) => this.timeOf(a) - this.timeOf(b));
+        });
+    }
+
+    /**
+     * Compress the active log into an archive and carry its index over. Callers must
+     * hold back writes meanwhile so the index covers everything that is archived.
+     */
+    rotate(rotatedAt: number): Promise<string> {
+        return this.exclusive(async () => {
+            const active = { name: this.filename, compressed: false };
+            const index = await this.updateIndex(active);
+            const archiveName = await compressToArchive(this.directory, this.filename, rotatedAt);
+
+            this.indexes.delete(this.filename);
+            this.unsavedIndexes.delete(this.filename);
+            await fs.rm(this.indexPath(this.filename), { force: true });
+
+            // Without an index the archive is indexed again on first use
+            if (index) {
+                const { ino } = await fs.stat(path.join(this.directory, archiveName));
+                const archived = { ...index, ino, complete: true };
+                this.indexes.set(archiveName, archived);
+                await this.saveIndex(archiveName, archived);
+            }
+
+            return archiveName;
+        });
+    }
+
+    /**
+     * Delete an archive together with its index
+     */
+    removeArchive(archiveName: string): Promise<void> {
+        return this.exclusive(async () => {
+            await fs.unlink(path.join(this.directory, archiveName));
+            this.indexes.delete(archiveName);
+            this.uncacheArchive(archiveName);
+            await fs.rm(this.indexPath(archiveName), { force: true });
+        });
+    }
+
+    /**
+     * Persist index growth that is still waiting for its delayed save
+     */
+    flush(): Promise<void> {
+        return this.exclusive(async () => {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = undefined;
+
+            for (const segment of this.takeUnsavedIndexes()) {
+                await this.saveIndex(segment, this.indexes.get(segment)!);
+            }
+        });
+    }
+
+    /**
+     * Persist pending index growth synchronously, e.g. while the extension shuts down
+     */
+    dispose(): void {
+        clearTimeout(this.saveTimer);
+        this.saveTimer = undefined;
+
+        for (const segment of this.takeUnsavedIndexes()) {
+            const indexPath = this.indexPath(segment);
+            try {
+                mkdirSync(path.dirname(indexPath), { recursive: true });
+                writeFileSync(`${indexPath}.tmp`, JSON.stringify(this.indexes.get(segment)), 'utf8');
+                renameSync(`${indexPath}.tmp`, indexPath);
+            } catch (error) {
+                console.error(`Failed to save index of ${segment}:`, error);
+            }
+        }
+    }
+
+    // Runs tasks one at a time so concurrent queries never index the same bytes twice
+    private exclusive<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(task);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    // Archives that may hold records at or after `fromTime`, oldest first, then the active log
+    private async listSegments(fromTime?: number): Promise<Segment[]> {
+        const archives = await listArchives(this.directory, this.filename);
+        // Archives are named after their rotation time, so older ones only hold older records
+        return archives
+            .filter(archive => !fromTime || archive.rotatedAt >= fromTime)
+            .map(({ name, compressed }): Segment => ({ name, compressed }))
+            .concat({ name: this.filename, compressed: false });
+    }
+
+    private async updateIndex({ name: segment, compressed }: Segment): Promise<SegmentIndex | null> {
+        const segmentPath = path.join(this.directory, segment);
+        let stats: { ino: number; size: number };
+        try {
+            stats = await fs.stat(segmentPath);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                this.indexes.delete(segment);
+                return null;
+            }
+            throw error;
+        }
+
+        let index = this.indexes.get(segment) ?? await this.loadIndex(segment);
+        if (compressed) {
+            // Offsets refer to the decompressed content, which is indexed all at once
+            if (!index || index.version !== INDEX_VERSION || index.ino !== stats.ino || !index.complete) {
+                index = this.createIndex(stats.ino);
+                this.indexLines(await this.readArchive(segment, stats.ino), index, segment);
+                index.complete = true;
+                await this.saveIndex(segment, index);
+            }
+            this.indexes.set(segment, index);
+            return index;
+        }
+
+        if (!index || index.version !== INDEX_VERSION || index.ino !== stats.ino || index.size > stats.size) {
+            index = this.createIndex(stats.ino);
+        }
+        this.indexes.set(segment, index);
+
+        if (index.size < stats.size) {
+            const indexedSize = index.size;
+            await this.scan(segmentPath, index, stats.size);
+            if (index.size !== indexedSize) {
+                this.scheduleSave(segment);
+            }
+        }
+
+        return index;
+    }
+
+    private scheduleSave(segment: string): void {
+        this.unsavedIndexes.add(segment);
+        if (!this.saveTimer) {
+            this.saveTimer = setTimeout(() => {
+                this.saveTimer = undefined;
+                void this.flush();
+            }, INDEX_SAVE_DELAY_MS);
+            // A pending save must not keep the process alive; dispose writes it instead
+            this.saveTimer.unref?.();
+        }
+    }
+
+    // Segments with unsaved growth whose index is still held, clearing the list
+    private takeUnsavedIndexes(): string[] {
+        const segments = Array.from(this.unsavedIndexes).filter(segment => this.indexes.has(segment));
+        this.unsavedIndexes.clear();
+        return segments;
+    }
+
+    // Decompressed content of an archive, kept for later queries within the cache budget
+    private async readArchive(name: string, ino: number): Promise<Buffer> {
+        const cached = this.archives.get(name);
+        if (cached && cached.ino === ino) {
+            // Re-inserting marks it as the most recently read
+            this.archives.delete(name);
+            this.archives.set(name, cached);
+            return cached.content;
+        }
+
+        this.uncacheArchive(name);
+        const content = await readSegment(this.directory, name);
+        if (content.length <= MAX_CACHED_ARCHIVE_BYTES) {
+            this.archives.set(name, { ino, content });
+            this.cachedArchiveBytes += content.length;
+            for (const [oldest, archive] of this.archives) {
+                if (this.cachedArchiveBytes <= MAX_CACHED_ARCHIVE_BYTES) break;
+                this.archives.delete(oldest);
+                this.cachedArchiveBytes -= archive.content.length;
+            }
+        }
+        return content;
+    }
+
+    private uncacheArchive(name: string): void {
+        const cached = this.archives.get(name);
+        if (cached) {
+            this.archives.delete(name);
+            this.cachedArchiveBytes -= cached.content.length;
+        }
+    }
+
+    // Indexes the complete lines between `index.size` and `size`
+    private async scan(segmentPath: string, index: SegmentIndex, size: number): Promise<void> {
+        const handle = await fs.open(segmentPath, 'r');
+        const skipped = { count: 0, firstError: '' };
+
+        try {
+            let position = index.size;
+            let pending = Buffer.alloc(0);      // start of a line that continues in the next chunk
+
+            while (position < size) {
+                const chunk = Buffer.alloc(Math.min(SCAN_CHUNK_BYTES, size - position));
+                const { bytesRead } = await handle.read(chunk, 0, chunk.length, position);
+                if (bytesRead === 0) break;
+                position += bytesRead;
+
+                const buffer = pending.length > 0 ?
+                    Buffer.concat([pending, chunk.subarray(0, bytesRead)]) :
+                    chunk.subarray(0, bytesRead);
+
+                pending = buffer.subarray(this.indexCompleteLines(buffer, index, skipped));
+            }
+        } finally {
+            await handle.close();
+        }
+
+        this.reportSkipped(path.basename(segmentPath), skipped);
+    }
+
+    private indexLines(buffer: Buffer, index: SegmentIndex, segment: string): void {
+        const skipped = { count: 0, firstError: '' };
+        this.indexCompleteLines(buffer, index, skipped);
+        this.reportSkipped(segment, skipped);
+    }
+
+    // Adds the lines of `buffer`, which starts at `index.size`, returning where the unfinished last line starts
+    private indexCompleteLines(buffer: Buffer, index: SegmentIndex, skipped: { count: number; firstError: string }): number {
+        let lineStart = 0;
+        let lineEnd = buffer.indexOf(0x0a, lineStart);
+        while (lineEnd !== -1) {
+            const line = buffer.toString('utf8', lineStart, lineEnd);
+            if (line.trim().length > 0) {
+                const result = defaultLogSchemaRegistry.parseLine(this.type, line);
+                if (result.ok) {
+                    this.addRecord(index, result.record, lineEnd - lineStart);
+                } else {
+                    skipped.count++;
+                    skipped.firstError ||= result.errors.map(error => `${error.path || '(record)'} ${error.message}`).join('; ');
+                }
+            }
+
+            index.size += lineEnd - lineStart + 1;
+            lineStart = lineEnd + 1;
+            lineEnd = buffer.indexOf(0x0a, lineStart);
+        }
+
+        return lineStart;
+    }
+
+    private reportSkipped(segment: string, skipped: { count: number; firstError: string }): void {
+        if (skipped.count > 0) {
+            console.warn(`Skipped ${skipped.count} invalid ${this.type} records in ${segment}: ${skipped.firstError}`);
+        }
+    }
+
+    private addRecord(index: SegmentIndex, record: LogRecordTypeMap[K], length: number): void {
+        const position = index.offsets.length;
+        const timestamp = this.timeOf(record);
+
+        index.offsets.push(index.size);
+        index.lengths.push(length);
+        index.timestamps.push(timestamp);
+        index.minTimestamp = Math.min(index.minTimestamp, timestamp);
+        index.maxTimestamp = Math.max(index.maxTimestamp, timestamp);
+
+        const { fileUri, sessionId } = record as { fileUri?: unknown; sessionId?: unknown };
+        if (typeof fileUri === 'string') {
+            (index.files[fileUri] ??= []).push(position);
+        }
+        if (typeof sessionId === 'string') {
+            (index.sessions[sessionId] ??= []).push(position);
+        }
+    }
+
+    // Record positions matching the query's keys and time range, in file order
+    private selectPositions(index: SegmentIndex, query: LogQuery): number[] {
+        let candidates: number[];
+        if (query.fileUri !== undefined) {
+            candidates = index.files[query.fileUri] ?? [];
+        } else if (query.sessionId !== undefined) {
+            candidates = index.sessions[query.sessionId] ?? [];
+        } else {
+            candidates = index.offsets.map((_, position) => position);
+        }
+
+        return candidates.filter(position => {
+            const timestamp = index.timestamps[position];
+            return (!query.fromTime || timestamp >= query.fromTime) &&
+                (query.toTime === undefined || timestamp <= query.toTime);
+        });
+    }
+
+    private async readRecords(segment: Segment, index: SegmentIndex, positions: number[]): Promise<LogRecordTypeMap[K][]> {
+        if (positions.length === 0) return [];
+
+        if (segment.compressed) {
+            const content = await this.readArchive(segment.name, index.ino);
+            return this.parseRecords(positions.map(position =>
+                content.toString('utf8', index.offsets[position], index.offsets[position] + index.lengths[position])));
+        }
+
+        const records: LogRecordTypeMap[K][] = [];
+        const handle = await fs.open(path.join(this.directory, segment.name), 'r');
+
+        try {
+            let first = 0;
+            while (first < positions.length) {
+                // Group records that sit close together into a single read
+                const start = index.offsets[positions[first]];
+                let last = first;
+                while (last + 1 < positions.length) {
+                    const next = positions[last + 1];
+                    const end = index.offsets[positions[last]] + index.lengths[positions[last]];
+                    if (index.offsets[next] - end > MAX_READ_GAP_BYTES ||
+                        index.offsets[next] + index.lengths[next] - start > MAX_READ_BYTES) {
+                        break;
+                    }
+                    last++;
+                }
+
+                const length = index.offsets[positions[last]] + index.lengths[positions[last]] - start;
+                const buffer = Buffer.alloc(length);
+                await handle.read(buffer, 0, length, start);
+
+                const lines: string[] = [];
+                for (let i = first; i <= last; i++) {
+                    const offset = index.offsets[positions[i]] - start;
+                    lines.push(buffer.toString('utf8', offset, offset + index.lengths[positions[i]]));
+                }
+                records.push(...this.parseRecords(lines));
+
+                first = last + 1;
+            }
+        } finally {
+            await handle.close();
+        }
+
+        return records;
+    }
+
+    private parseRecords(lines: string[]): LogRecordTypeMap[K][] {
+        const records: LogRecordTypeMap[K][] = [];
+        for (const line of lines) {
+            const result = defaultLogSchemaRegistry.parseLine(this.type, line);
+            if (result.ok) {
+                records.push(result.record);
+            }
+        }
+        return records;
+    }
+
+    private createIndex(ino: number): SegmentIndex {
+        return {
+            version: INDEX_VERSION,
+            ino,
+            size: 0,
+            minTimestamp: Infinity,
+            maxTimestamp: -Infinity,
+            offsets: [],
+            lengths: [],
+            timestamps: [],
+            files: {},
+            sessions: {}
+        };
+    }
+
+    private indexPath(segment: string): string {
+        return path.join(this.directory, INDEX_DIRECTORY, `${segment}.index.json`);
+    }
+
+    private async loadIndex(segment: string): Promise<SegmentIndex | null> {
+        try {
+            const index = JSON.parse(await fs.readFile(this.indexPath(segment), 'utf8')) as SegmentIndex;
+            // JSON has no Infinity; empty indexes come back with null bounds
+            index.minTimestamp ??= Infinity;
+            index.maxTimestamp ??= -Infinity;
+            return index;
+        } catch {
+            // Missing or unreadable indexes are rebuilt from the segment
+            return null;
+        }
+    }
+
+    private async saveIndex(segment: string, index: SegmentIndex): Promise<void> {
+        const indexPath = this.indexPath(segment);
+        try {
+            await fs.mkdir(path.dirname(indexPath), { recursive: true });
+            await fs.writeFile(`${indexPath}.tmp`, JSON.stringify(index), 'utf8');
+            await fs.rename(`${indexPath}.tmp`, indexPath);
+        } catch (error) {
+            console.error(`Failed to save index of ${segment}:`, error);
+        }
+    }
+}
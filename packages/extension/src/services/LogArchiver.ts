@@ -0,0 +1,77 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import { promisify } from 'util';
+import { createGzip, gunzip } from 'zlib';
+import {
+    getArchiveFileName,
+    isCompressedLogFile,
+    parseArchiveFileName,
+    type LogArchiveInfo
+} from '@ai-analyzer/core';
+
+const gunzipAsync = promisify(gunzip);
+const ROTATING_SUFFIX = '.rotating';
+
+/**
+ * Archives of a log in `directory`, oldest first
+ */
+export async function listArchives(directory: string, filename: string): Promise<LogArchiveInfo[]> {
+    let entries: string[];
+    try {
+        entries = await fs.readdir(directory);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+    }
+
+    return entries
+        .map(name => parseArchiveFileName(filename, name))
+        .filter((archive): archive is LogArchiveInfo => archive !== null)
+        .sort((a, b) => a.rotatedAt - b.rotatedAt);
+}
+
+/**
+ * Contents of a log segment, decompressing gzip archives
+ */
+export async function readSegment(directory: string, name: string): Promise<Buffer> {
+    const content = await fs.readFile(path.join(directory, name));
+    return isCompressedLogFile(name) ? await gunzipAsync(content) : content;
+}
+
+/**
+ * Rotates a log into a gzip archive, returning the archive name. The log is renamed
+ * first, so records appended meanwhile start a fresh log instead of being lost.
+ */
+export async function compressToArchive(directory: string, filename: string, rotatedAt: number): Promise<string> {
+    const rotating = path.join(directory, `${filename}.${rotatedAt}${ROTATING_SUFFIX}`);
+    await fs.rename(path.join(directory, filename), rotating);
+    return finishArchive(directory, filename, rotatedAt, rotating);
+}
+
+/**
+ * Completes rotations that were interrupted after the log had been renamed
+ */
+export async function finishInterruptedArchives(directory: string, filename: string): Promise<void> {
+    const pattern = new RegExp(`^${filename.replace(/\./g, '\\.')}\\.(\\d+)${ROTATING_SUFFIX}$`);
+
+    for (const name of await fs.readdir(directory)) {
+        const match = pattern.exec(name);
+        if (match) {
+            await finishArchive(directory, filename, parseInt(match[1], 10), path.join(directory, name));
+        }
+    }
+}
+
+async function finishArchive(directory: string, filename: string, rotatedAt: number, source: string): Promise<string> {
+    const archiveName = getArchiveFileName(filename, rotatedAt);
+    const target = path.join(directory, archiveName);
+
+    // Written under a temporary name so a half-written archive is never read
+    await pipeline(createReadStream(source), createGzip(), createWriteStream(`${target}.tmp`));
+    await fs.rename(`${target}.tmp`, target);
+    await fs.unlink(source);
+
+    return archiveName;
+}
@@ -1,48 +1,94 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs/promises';
+import { appendFileSync } from 'fs';
 import {
-    type EnhancedChangeEvent,
+    DEFAULT_LOG_RETENTION_POLICY,
+    DEFAULT_REDACTION_POLICY,
+    LogRedactor,
+    defaultLogSchemaRegistry,
+    selectExpiredArchives,
+    type ChangeEventLog,
+    type AIDetectionMetricsLog,
     type SessionSummaryLog,
     type CommitAnalysisLog,
-    type ReviewQualityMetricsLog
+    type ReviewQualityMetricsLog,
+    type LogRecordType,
+    type LogRecordTypeMap,
+    type LogRetentionPolicy,
+    type RedactionPolicy
 } from '@ai-analyzer/core';
-
-// Extension-specific logging interfaces
-interface ChangeEventLog extends EnhancedChangeEvent {
-    _loggedAt: number;
-    _version: string;
-}
-
-interface AIDetectionMetricsLog {
-    timestamp: number;
-    sessionId: string;
-    fileUri: string;
-    analysisId: string;
-    totalChanges: number;
-    timeSpanMs: number;
-    contentLengthTotal: number;
-    heuristicScores: any;
-    weightedScores: any;
-    finalConfidence: number;
-    aiProbability: number;
-    classification: 'human' | 'ai-assisted' | 'ai-generated' | 'mixed';
-    evidence: any;
-    decisionTrace: any[];
-    _loggedAt: number;
-    _version: string;
+import { IndexedLog } from './IndexedLog';
+import { compressToArchive, finishInterruptedArchives, listArchives } from './LogArchiver';
+
+const FLUSH_INTERVAL_MS = 1000;
+const FLUSH_THRESHOLD_BYTES = 64 * 1024;
+const MAX_BUFFERED_BYTES = 4 * 1024 * 1024;    // writers wait for the disk beyond this
+
+export interface LogBufferStats {
+    bufferedRecords: number;
+    bufferedBytes: number;
+    recordsWritten: number;
+    flushes: number;
+    failedWrites: number;
+    droppedRecords: number;
+    backPressureWaits: number;
+    lastFlushLatencyMs: number;
+    maxFlushLatencyMs: number;
+    totalFlushLatencyMs: number;
 }
 
-export class MetricsLogger {
+export class MetricsLogger implements vscode.Disposable {
     private workspaceRoot: string;
     private logDirectory: string;
     private isEnabled: boolean;
-
-    constructor(workspaceRoot: string) {
+    private retention: LogRetentionPolicy;
+    private redactionSalt: string;
+    private redactor: LogRedactor;
+    private logs: { [K in LogRecordType]: IndexedLog<K> };
+
+    // Lines waiting to be appended, per log file
+    private buffers: Map<string, string[]> = new Map();
+    private bufferedRecords = 0;
+    private bufferedBytes = 0;
+    private flushTimer: NodeJS.Timeout | undefined;
+    private flushing: Promise<void> | null = null;
+    private stats: Omit<LogBufferStats, 'bufferedRecords' | 'bufferedBytes'> = {
+        recordsWritten: 0,
+        flushes: 0,
+        failedWrites: 0,
+        droppedRecords: 0,
+        backPressureWaits: 0,
+        lastFlushLatencyMs: 0,
+        maxFlushLatencyMs: 0,
+        totalFlushLatencyMs: 0
+    };
+    private disposables: vscode.Disposable[] = [];
+    private flushOnExit = () => this.flushSync();
+
+    constructor(workspaceRoot: string, redactionSalt: string) {
         this.workspaceRoot = workspaceRoot;
         this.logDirectory = path.join(workspaceRoot, '.vscode', 'ai-code-analyzer');
         this.isEnabled = vscode.workspace.getConfiguration('aiCodeAnalyzer').get('enableLogging', true);
+        this.retention = this.readRetentionPolicy();
+        this.redactionSalt = redactionSalt;
+        this.redactor = this.createRedactor();
+        this.logs = {
+            ChangeEventLog: new IndexedLog(this.logDirectory, 'change-events.jsonl', 'ChangeEventLog'),
+            AIDetectionMetricsLog: new IndexedLog(this.logDirectory, 'ai-detection-metrics.jsonl', 'AIDetectionMetricsLog'),
+            ReviewQualityMetricsLog: new IndexedLog(this.logDirectory, 'review-quality-metrics.jsonl', 'ReviewQualityMetricsLog'),
+            SessionSummaryLog: new IndexedLog(this.logDirectory, 'session-summaries.jsonl', 'SessionSummaryLog', summary => summary.startTime),
+            CommitAnalysisLog: new IndexedLog(this.logDirectory, 'commit-analysis.jsonl', 'CommitAnalysisLog')
+        };
         this.ensureLogDirectory();
+
+        // Nothing is left in memory when the window loses focus or the process goes away
+        this.disposables.push(vscode.window.onDidChangeWindowState(state => {
+            if (!state.focused) {
+                void this.flush();
+            }
+        }));
+        process.on('exit', this.flushOnExit);
     }
 
     private async ensureLogDirectory(): Promise<void> {
@@ -55,27 +101,27 @@ export class MetricsLogger {
 
     async logChangeEvent(event: ChangeEventLog): Promise<void> {
         if (!this.isEnabled) return;
-        await this.appendToLog('change-events.jsonl', event);
+        await this.appendToLog('change-events.jsonl', event, 'ChangeEventLog');
     }
 
     async logAIDetectionMetrics(metrics: AIDetectionMetricsLog): Promise<void> {
         if (!this.isEnabled) return;
-        await this.appendToLog('ai-detection-metrics.jsonl', metrics);
+        await this.appendToLog('ai-detection-metrics.jsonl', metrics, 'AIDetectionMetricsLog');
     }
 
     async logReviewQualityMetrics(metrics: ReviewQualityMetricsLog): Promise<void> {
         if (!this.isEnabled) return;
-        await this.appendToLog('review-quality-metrics.jsonl', metrics);
+        await this.appendToLog('review-quality-metrics.jsonl', metrics, 'ReviewQualityMetricsLog');
     }
 
     async logSessionSummary(summary: SessionSummaryLog): Promise<void> {
         if (!this.isEnabled) return;
-        await this.appendToLog('session-summaries.jsonl', summary);
+        await this.appendToLog('session-summaries.jsonl', summary, 'SessionSummaryLog');
     }
 
     async logCommitAnalysis(analysis: CommitAnalysisLog): Promise<void> {
         if (!this.isEnabled) return;
-        await this.appendToLog('commit-analysis.jsonl', analysis);
+        await this.appendToLog('commit-analysis.jsonl', analysis, 'CommitAnalysisLog');
     }
 
     async logDebugTrace(trace: any): Promise<void> {
@@ -88,39 +134,179 @@ export class MetricsLogger {
         });
     }
 
-    private async appendToLog(filename: string, data: any): Promise<void> {
-        try {
-            const logPath = path.join(this.logDirectory, filename);
-            const logLine = JSON.stringify({
-                ...data,
-                _loggedAt: data._loggedAt || Date.now(),
-                _version: data._version || '1.0'
-            }) + '\n';
-
-            await fs.appendFile(logPath, logLine, 'utf8');
-        } catch (error) {
-            console.error(`Failed to write to log file ${filename}:`, error);
+    /**
+     * Buffers a record for its log, redacted by the configured policy. Buffers are written
+     * once they pass a size threshold, a second after the first record, on window blur and
+     * on deactivation. When the disk falls too far behind, callers wait for the pending write.
+     */
+    private async appendToLog(filename: string, data: any, type?: LogRecordType): Promise<void> {
+        const record = {
+            ...data,
+            _loggedAt: data._loggedAt || Date.now(),
+            _version: data._version || '1.0'
+        };
+        const logLine = JSON.stringify(this.redactor.redact(record, type ? this.getRequiredFields(type) : [])) + '\n';
+
+        this.bufferLines(filename, [logLine]);
+
+        if (this.bufferedBytes >= MAX_BUFFERED_BYTES) {
+            this.stats.backPressureWaits++;
+            await this.flush();
+        } else if (this.bufferedBytes >= FLUSH_THRESHOLD_BYTES) {
+            void this.flush();
+        } else {
+            this.scheduleFlush();
+        }
+    }
+
+    /**
+     * Write all buffered records to disk
+     */
+    async flush(): Promise<void> {
+        while (this.flushing) {
+            await this.flushing;
+        }
+        if (this.bufferedRecords === 0) return;
+
+        await this.holdWrites(() => this.writeBuffers());
+    }
+
+    // Runs a task while no other write to the log files is in progress
+    private async holdWrites(task: () => Promise<void>): Promise<void> {
+        while (this.flushing) {
+            await this.flushing;
+        }
+
+        this.flushing = task().finally(() => {
+            this.flushing = null;
+        });
+        await this.flushing;
+    }
+
+    /**
+     * Buffering and write latency counters, for diagnosing slow disks
+     */
+    getBufferStats(): LogBufferStats {
+        return {
+            bufferedRecords: this.bufferedRecords,
+            bufferedBytes: this.bufferedBytes,
+            ...this.stats
+        };
+    }
+
+    private bufferLines(filename: string, lines: string[]): void {
+        const buffer = this.buffers.get(filename);
+        if (buffer) {
+            buffer.push(...lines);
+        } else {
+            this.buffers.set(filename, lines);
+        }
+
+        this.bufferedRecords += lines.length;
+        for (const line of lines) {
+            this.bufferedBytes += line.length;
+        }
+    }
+
+    private scheduleFlush(): void {
+        if (this.flushTimer) return;
+
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = undefined;
+            void this.flush();
+        }, FLUSH_INTERVAL_MS);
+    }
+
+    private async writeBuffers(): Promise<void> {
+        clearTimeout(this.flushTimer);
+        this.flushTimer = undefined;
+
+        const pending = this.buffers;
+        this.buffers = new Map();
+        this.bufferedRecords = 0;
+        this.bufferedBytes = 0;
+
+        const startTime = Date.now();
+        let failed = false;
+
+        for (const [filename, lines] of pending) {
+            try {
+                await fs.appendFile(path.join(this.logDirectory, filename), lines.join(''), 'utf8');
+                this.stats.recordsWritten += lines.length;
+            } catch (error) {
+                console.error(`Failed to write to log file ${filename}:`, error);
+                this.stats.failedWrites++;
+                failed = true;
+                this.requeue(filename, lines);
+            }
         }
+
+        const latency = Date.now() - startTime;
+        this.stats.flushes++;
+        this.stats.lastFlushLatencyMs = latency;
+        this.stats.maxFlushLatencyMs = Math.max(this.stats.maxFlushLatencyMs, latency);
+        this.stats.totalFlushLatencyMs += latency;
+
+        if (failed) {
+            this.scheduleFlush();
+        }
+    }
+
+    // Puts lines that failed to write back ahead of newer ones, unless the buffer is full
+    private requeue(filename: string, lines: string[]): void {
+        if (this.bufferedBytes >= MAX_BUFFERED_BYTES) {
+            this.stats.droppedRecords += lines.length;
+            return;
+        }
+
+        const newer = this.buffers.get(filename) ?? [];
+        this.buffers.delete(filename);
+        this.bufferedRecords -= newer.length;
+        for (const line of newer) {
+            this.bufferedBytes -= line.length;
+        }
+        this.bufferLines(filename, lines.concat(newer));
+    }
+
+    // Last-chance synchronous write when the extension host exits without deactivating
+    private flushSync(): void {
+        for (const [filename, lines] of this.buffers) {
+            try {
+                appendFileSync(path.join(this.logDirectory, filename), lines.join(''), 'utf8');
+            } catch (error) {
+                console.error(`Failed to write to log file ${filename}:`, error);
+            }
+        }
+        this.buffers.clear();
+        this.bufferedRecords = 0;
+        this.bufferedBytes = 0;
     }
 
     // Analysis helper methods
     async getChangeEventsForFile(fileUri: string, fromTime?: number): Promise<ChangeEventLog[]> {
         try {
-            const events = await this.readLogFile<ChangeEventLog>('change-events.jsonl');
-            return events
-                .filter(event => event.fileUri === fileUri)
-                .filter(event => !fromTime || event.timestamp >= fromTime)
-                .sort((a, b) => a.timestamp - b.timestamp);
+            return await this.readChangeEventsForFile(fileUri, fromTime);
         } catch (error) {
             console.error('Failed to read change events:', error);
             return [];
         }
     }
 
+    /**
+     * Like getChangeEventsForFile, but rejects when the log cannot be read instead of
+     * returning no events, for callers that must not mistake a failed read for an empty history
+     */
+    async readChangeEventsForFile(fileUri: string, fromTime?: number): Promise<ChangeEventLog[]> {
+        await this.flush();
+        return this.queryFile('ChangeEventLog', fileUri, fromTime);
+    }
+
     async getSessionSummary(sessionId: string): Promise<SessionSummaryLog | null> {
         try {
-            const summaries = await this.readLogFile<SessionSummaryLog>('session-summaries.jsonl');
-            return summaries.find(s => s.sessionId === sessionId) || null;
+            await this.flush();
+            // Stored under the redacted id, handed back under the caller's
+            const summaries = await this.logs.SessionSummaryLog.query({ sessionId: this.redactor.redactSessionId(sessionId) });
+            return summaries.length > 0 ? { ...summaries[0], sessionId } : null;
         } catch (error) {
             console.error('Failed to read session summary:', error);
             return null;
@@ -129,11 +315,8 @@ export class MetricsLogger {
 
     async getAIDetectionMetrics(fileUri: string, fromTime?: number): Promise<AIDetectionMetricsLog[]> {
         try {
-            const metrics = await this.readLogFile<AIDetectionMetricsLog>('ai-detection-metrics.jsonl');
-            return metrics
-                .filter(metric => metric.fileUri === fileUri)
-                .filter(metric => !fromTime || metric.timestamp >= fromTime)
-                .sort((a, b) => a.timestamp - b.timestamp);
+            await this.flush();
+            return await this.queryFile('AIDetectionMetricsLog', fileUri, fromTime);
         } catch (error) {
             console.error('Failed to read AI detection metrics:', error);
             return [];
@@ -142,11 +325,8 @@ export class MetricsLogger {
 
     async getReviewQualityMetrics(fileUri: string, fromTime?: number): Promise<ReviewQualityMetricsLog[]> {
         try {
-            const metrics = await this.readLogFile<ReviewQualityMetricsLog>('review-quality-metrics.jsonl');
-            return metrics
-                .filter(metric => metric.fileUri === fileUri)
-                .filter(metric => !fromTime || metric.timestamp >= fromTime)
-                .sort((a, b) => a.timestamp - b.timestamp);
+            await this.flush();
+            return await this.queryFile('ReviewQualityMetricsLog', fileUri, fromTime);
         } catch (error) {
             console.error('Failed to read review quality metrics:', error);
             return [];
@@ -155,35 +335,37 @@ export class MetricsLogger {
 
     async getAllCommitAnalyses(): Promise<CommitAnalysisLog[]> {
         try {
-            const analyses = await this.readLogFile<CommitAnalysisLog>('commit-analysis.jsonl');
-            return analyses.sort((a, b) => a.timestamp - b.timestamp);
+            await this.flush();
+            return await this.logs.CommitAnalysisLog.query();
         } catch (error) {
             console.error('Failed to read commit analyses:', error);
             return [];
         }
     }
 
-    private async readLogFile<T>(filename: string): Promise<T[]> {
-        try {
-            const logPath = path.join(this.logDirectory, filename);
-            const content = await fs.readFile(logPath, 'utf8');
-            const lines = content.trim().split('\n').filter(line => line.length > 0);
-            return lines.map(line => JSON.parse(line) as T);
-        } catch (error) {
-            if ((error as any).code === 'ENOENT') {
-                // File doesn't exist yet, return empty array
-                return [];
-            }
-            throw error;
-        }
+    // Records of a file are stored under its redacted URI and handed back under the caller's
+    private async queryFile<K extends 'ChangeEventLog' | 'AIDetectionMetricsLog' | 'ReviewQualityMetricsLog'>(
+        type: K,
+        fileUri: string,
+        fromTime?: number
+    ): Promise<LogRecordTypeMap[K][]> {
+        const log = this.logs[type] as IndexedLog<K>;
+        const records = await log.query({ fileUri: this.redactor.redactFilePath(fileUri), fromTime });
+        return records.map(record => ({ ...record, fileUri }));
     }
 
-    // Export functionality for external analysis
-    async exportMetricsAsCSV(): Promise<string> {
+    /**
+     * Export functionality for external analysis, optionally limited to a time range. The
+     * redaction policy is applied again, covering records logged before it was configured.
+     */
+    async exportMetricsAsCSV(fromTime?: number, toTime?: number): Promise<string> {
         try {
-            const changeEvents = await this.readLogFile<ChangeEventLog>('change-events.jsonl');
-            const aiMetrics = await this.readLogFile<AIDetectionMetricsLog>('ai-detection-metrics.jsonl');
-            const reviewMetrics = await this.readLogFile<ReviewQualityMetricsLog>('review-quality-metrics.jsonl');
+            await this.flush();
+            const range = { fromTime, toTime };
+            const redact = <T extends object>(record: T) => this.redactor.redact(record);
+            const changeEvents = (await this.logs.ChangeEventLog.query(range)).map(redact);
+            const aiMetrics = (await this.logs.AIDetectionMetricsLog.query(range)).map(redact);
+            const reviewMetrics = (await this.logs.ReviewQualityMetricsLog.query(range)).map(redact);
 
             // Create CSV content
             let csv = 'Type,Timestamp,FileUri,SessionId,Data\n';
@@ -209,6 +391,9 @@ export class MetricsLogger {
 
     // Log rotation and cleanup
     async rotateLogsIfNeeded(): Promise<void> {
+        // Buffered records belong in the current files, not the ones created after rotation
+        await this.flush();
+
         const maxLogSize = 10 * 1024 * 1024; // 10MB
         const maxLogAge = 30 * 24 * 60 * 60 * 1000; // 30 days
 
@@ -223,17 +408,23 @@ export class MetricsLogger {
 
         for (const filename of logFiles) {
             try {
+                await finishInterruptedArchives(this.logDirectory, filename);
+
                 const logPath = path.join(this.logDirectory, filename);
                 const stats = await fs.stat(logPath);
 
                 // Check if file is too large or too old
                 if (stats.size > maxLogSize || (Date.now() - stats.mtime.getTime()) > maxLogAge) {
-                    // Archive the file
-                    const archivePath = path.join(this.logDirectory, `${filename}.${Date.now()}.archive`);
-                    await fs.rename(logPath, archivePath);
-
-                    // Clean up old archives (keep only last 5)
-                    await this.cleanupOldArchives(filename);
+                    // Compress the file into an archive, keeping its index. Records logged
+                    // meanwhile stay buffered and go to the new file.
+                    await this.holdWrites(async () => {
+                        const indexedLog = this.findIndexedLog(filename);
+                        if (indexedLog) {
+                            await indexedLog.rotate(Date.now());
+                        } else {
+                            await compressToArchive(this.logDirectory, filename, Date.now());
+                        }
+                    });
                 }
             } catch (error) {
                 // File might not exist, which is fine
@@ -241,36 +432,51 @@ export class MetricsLogger {
                     console.error(`Failed to rotate log ${filename}:`, error);
                 }
             }
+
+            await this.cleanupOldArchives(filename);
         }
     }
 
+    // Deletes the archives the retention policy no longer keeps
     private async cleanupOldArchives(baseFilename: string): Promise<void> {
         try {
-            const files = await fs.readdir(this.logDirectory);
-            const archives = files
-                .filter(file => file.startsWith(`${baseFilename}.`) && file.endsWith('.archive'))
-                .map(file => ({
-                    name: file,
-                    path: path.join(this.logDirectory, file),
-                    timestamp: parseInt(file.split('.')[1])
-                }))
-                .sort((a, b) => b.timestamp - a.timestamp);
-
-            // Keep only the 5 most recent archives
-            const toDelete = archives.slice(5);
-            for (const archive of toDelete) {
-                await fs.unlink(archive.path);
+            const archives = await Promise.all((await listArchives(this.logDirectory, baseFilename)).map(async archive => ({
+                ...archive,
+                size: (await fs.stat(path.join(this.logDirectory, archive.name))).size
+            })));
+            const indexedLog = this.findIndexedLog(baseFilename);
+
+            for (const archive of selectExpiredArchives(archives, this.retention)) {
+                if (indexedLog) {
+                    await indexedLog.removeArchive(archive.name);
+                } else {
+                    await fs.unlink(path.join(this.logDirectory, archive.name));
+                }
             }
         } catch (error) {
             console.error('Failed to cleanup old archives:', error);
         }
     }
 
+    private findIndexedLog(filename: string) {
+        return Object.values(this.logs).find(log => log.filename === filename);
+    }
+
     // Get log directory path for external access
     getLogDirectory(): string {
         return this.logDirectory;
     }
 
+    dispose(): void {
+        this.flushSync();
+        Object.values(this.logs).forEach(log => log.dispose());
+        clearTimeout(this.flushTimer);
+        this.flushTimer = undefined;
+        process.removeListener('exit', this.flushOnExit);
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+
     // Check if logging is enabled
     isLoggingEnabled(): boolean {
         return this.isEnabled;
@@ -279,5 +485,38 @@ export class MetricsLogger {
     // Update logging configuration
     updateConfiguration(): void {
         this.isEnabled = vscode.workspace.getConfiguration('aiCodeAnalyzer').get('enableLogging', true);
+        this.retention = this.readRetentionPolicy();
+        this.redactor = this.createRedactor();
+    }
+
+    private createRedactor(): LogRedactor {
+        const config = vscode.workspace.getConfiguration('aiCodeAnalyzer.redaction');
+        const policy: RedactionPolicy = {
+            filePaths: config.get('filePaths', DEFAULT_REDACTION_POLICY.filePaths),
+            hashSessionIds: config.get('hashSessionIds', DEFAULT_REDACTION_POLICY.hashSessionIds),
+            timestampPrecisionMs: config.get('timestampPrecisionMs', DEFAULT_REDACTION_POLICY.timestampPrecisionMs),
+            allowFields: config.get<string[]>('allowFields', []),
+            denyFields: config.get<string[]>('denyFields', []),
+            salt: this.redactionSalt
+        };
+        return new LogRedactor(policy, this.workspaceRoot);
+    }
+
+    // Fields the log schema requires, which redaction keeps so the extension can read its logs back
+    private getRequiredFields(type: LogRecordType): string[] {
+        const fields = defaultLogSchemaRegistry.getSchema(type)?.fields ?? {};
+        return Object.keys(fields).filter(field => !fields[field].optional);
+    }
+
+    // A limit of 0 keeps archives regardless of that limit
+    private readRetentionPolicy(): LogRetentionPolicy {
+        const config = vscode.workspace.getConfiguration('aiCodeAnalyzer.logRetention');
+        const limit = (key: keyof LogRetentionPolicy) => config.get<number>(key, DEFAULT_LOG_RETENTION_POLICY[key]!) || undefined;
+
+        return {
+            maxAgeDays: limit('maxAgeDays'),
+            maxArchives: limit('maxArchives'),
+            maxTotalSizeMB: limit('maxTotalSizeMB')
+        };
     }
 }
@@ -1,4 +1,4 @@
-import { EnhancedChangeEvent } from '../../src/models/ChangeEvent';
+import type { EnhancedChangeEvent } from '@ai-analyzer/core';
 
 export class ChangeEventGenerator {
     private static baseTimestamp = 1000000000000; // Fixed timestamp for deterministic tests
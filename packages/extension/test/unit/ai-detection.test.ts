@@ -10,7 +10,7 @@ describe('AI Detection Service', () => {
     let mockLogger: jest.Mocked<MetricsLogger>;
 
     beforeEach(() => {
-        mockLogger = new MetricsLogger('/mock/workspace') as jest.Mocked<MetricsLogger>;
+        mockLogger = new MetricsLogger('/mock/workspace', 'test-salt') as jest.Mocked<MetricsLogger>;
         mockLogger.logAIDetectionMetrics = jest.fn().mockResolvedValue(undefined);
         aiDetector = new AIDetectionService(mockLogger, 'test-session');
     });
@@ -210,6 +210,51 @@ describe('AI Detection Service', () => {
         });
     });
 
+    describe('File history loading', () => {
+        const events = ChangeEventGenerator.generateHumanTyping('abc');
+        const fileUri = events[0].fileUri;
+
+        test('leaves a file unloaded when its history fails to load', async () => {
+            mockLogger.readChangeEventsForFile = jest.fn()
+                .mockRejectedValueOnce(new Error('disk error'))
+                .mockResolvedValueOnce(events);
+
+            aiDetector.track(events[0]);
+            await new Promise(resolve => setImmediate(resolve));
+
+            expect(console.error).toHaveBeenCalledWith(`Failed to load change history of ${fileUri}:`, expect.any(Error));
+            expect(aiDetector.getCurrentAttribution(fileUri)).toBeNull();
+
+            // The next read tries the log again
+            expect(await aiDetector.getFileEvents(fileUri)).toEqual(events);
+            expect(mockLogger.readChangeEventsForFile).toHaveBeenCalledTimes(2);
+        });
+
+        test('rejects an analysis whose history fails to load', async () => {
+            mockLogger.readChangeEventsForFile = jest.fn().mockRejectedValue(new Error('disk error'));
+
+            await expect(aiDetector.analyzeFile(fileUri)).rejects.toThrow('disk error');
+        });
+
+        test('scores tracked events once until the detection config changes', async () => {
+            mockLogger.readChangeEventsForFile = jest.fn().mockResolvedValue(events.slice(0, 2));
+
+            const loaded = await aiDetector.getFileEventScores(fileUri);
+            aiDetector.track(events[2]);
+            const tracked = await aiDetector.getFileEventScores(fileUri);
+
+            expect(tracked.events).toBe(loaded.events);
+            expect(tracked.scores.map(score => score.eventId)).toEqual(events.map(event => event.eventId));
+            expect(tracked.scores[0]).toBe(loaded.scores[0]);
+
+            aiDetector.setConfig(aiDetector.getConfig());
+            const rebuilt = await aiDetector.getFileEventScores(fileUri);
+
+            expect(rebuilt.events).not.toBe(loaded.events);
+            expect(rebuilt.scores).toHaveLength(3);
+        });
+    });
+
     describe('Session ID updates', () => {
         test('updates session ID correctly', () => {
             const newSessionId = 'new-session-id';
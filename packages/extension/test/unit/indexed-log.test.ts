@@ -0,0 +1,211 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { gzipSync } from 'zlib';
+import { getArchiveFileName, type EnhancedChangeEvent } from '@ai-analyzer/core';
+import { IndexedLog } from '../../src/services/IndexedLog';
+import * as LogArchiver from '../../src/services/LogArchiver';
+
+const LOG_FILE = 'change-events.jsonl';
+
+describe('IndexedLog', () => {
+    let directory: string;
+    let log: IndexedLog<'ChangeEventLog'>;
+
+    const createEvent = (overrides: Partial<EnhancedChangeEvent> = {}): EnhancedChangeEvent => ({
+        timestamp: 1000,
+        sessionId: 'session-a',
+        fileUri: 'file:///workspace/a.ts',
+        eventId: 'event-' + Math.random(),
+        changeType: 'insert',
+        position: { line: 0, character: 0 },
+        contentLength: 1,
+        timeSinceLastChange: 100,
+        timeSinceSessionStart: 1000,
+        timeSinceFileOpen: 1000,
+        source: 'live',
+        vsCodeActive: true,
+        cursorPosition: { line: 0, character: 0 },
+        instantTypingSpeed: 100,
+        rollingTypingSpeed: 100,
+        burstDetected: false,
+        pauseBeforeChange: 100,
+        isCodeBlock: false,
+        isComment: false,
+        isWhitespace: false,
+        languageConstruct: 'unknown',
+        indentationLevel: 0,
+        ...overrides
+    });
+
+    const toLine = (event: EnhancedChangeEvent) =>
+        JSON.stringify({ ...event, _loggedAt: event.timestamp, _version: '1.1' }) + '\n';
+
+    const logPath = (name: string = LOG_FILE) => path.join(directory, name);
+    const append = (...events: EnhancedChangeEvent[]) => fs.appendFileSync(logPath(), events.map(toLine).join(''));
+    const readIndex = (segment: string) =>
+        JSON.parse(fs.readFileSync(path.join(directory, 'index', `${segment}.index.json`), 'utf8'));
+    const timestamps = (events: EnhancedChangeEvent[]) => events.map(event => event.timestamp);
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'indexed-log-'));
+        log = new IndexedLog(directory, LOG_FILE, 'ChangeEventLog');
+    });
+
+    afterEach(() => {
+        log.dispose();
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('queries by file, session and time range', async () => {
+        append(
+            createEvent({ timestamp: 1000 }),
+            createEvent({ timestamp: 2000, fileUri: 'file:///workspace/b.ts' }),
+            createEvent({ timestamp: 3000, sessionId: 'session-b' }),
+            createEvent({ timestamp: 4000 })
+        );
+
+        expect(timestamps(await log.query())).toEqual([1000, 2000, 3000, 4000]);
+        expect(timestamps(await log.query({ fileUri: 'file:///workspace/a.ts' }))).toEqual([1000, 3000, 4000]);
+        expect(timestamps(await log.query({ sessionId: 'session-b' }))).toEqual([3000]);
+        expect(timestamps(await log.query({ fileUri: 'file:///workspace/a.ts', fromTime: 2000, toTime: 3000 }))).toEqual([3000]);
+        expect(await log.query({ fileUri: 'file:///workspace/unknown.ts' })).toEqual([]);
+    });
+
+    test('skips invalid lines and reports them once', async () => {
+        fs.writeFileSync(logPath(), toLine(createEvent({ timestamp: 1000 })) + 'not json\n{"timestamp": 2}\n' +
+            toLine(createEvent({ timestamp: 3000 })));
+
+        expect(timestamps(await log.query())).toEqual([1000, 3000]);
+        await log.flush();
+        expect(readIndex(LOG_FILE).offsets).toHaveLength(2);
+        expect(console.warn).toHaveBeenCalledWith(expect.stringMatching(/^Skipped 2 invalid ChangeEventLog records in change-events\.jsonl/));
+    });
+
+    test('indexes a partly written last line once it is complete', async () => {
+        append(createEvent({ timestamp: 1000 }), createEvent({ timestamp: 2000 }));
+        const partial = toLine(createEvent({ timestamp: 3000 }));
+        const complete = fs.statSync(logPath()).size;
+        fs.appendFileSync(logPath(), partial.slice(0, 40));
+
+        expect(timestamps(await log.query())).toEqual([1000, 2000]);
+        await log.flush();
+        expect(readIndex(LOG_FILE).size).toBe(complete);
+
+        fs.appendFileSync(logPath(), partial.slice(40));
+        append(createEvent({ timestamp: 4000 }));
+
+        expect(timestamps(await log.query())).toEqual([1000, 2000, 3000, 4000]);
+        await log.flush();
+        expect(readIndex(LOG_FILE).size).toBe(fs.statSync(logPath()).size);
+    });
+
+    test('picks up an index persisted by an earlier instance', async () => {
+        fs.writeFileSync(logPath(), 'not json\n');
+        append(createEvent({ timestamp: 1000 }));
+        await log.query();
+        log.dispose();
+        append(createEvent({ timestamp: 2000 }));
+        (console.warn as jest.Mock).mockClear();
+
+        const reopened = new IndexedLog(directory, LOG_FILE, 'ChangeEventLog');
+
+        expect(timestamps(await reopened.query())).toEqual([1000, 2000]);
+        await reopened.flush();
+        expect(readIndex(LOG_FILE).offsets).toHaveLength(2);
+        // Only the appended line was scanned, not the invalid one before it
+        expect(console.warn).not.toHaveBeenCalled();
+    });
+
+    test('saves index growth once it is flushed rather than on every query', async () => {
+        append(createEvent({ timestamp: 1000 }));
+        await log.query();
+        append(createEvent({ timestamp: 2000 }));
+        await log.query();
+
+        expect(fs.existsSync(path.join(directory, 'index', `${LOG_FILE}.index.json`))).toBe(false);
+
+        await log.flush();
+        expect(readIndex(LOG_FILE).offsets).toHaveLength(2);
+    });
+
+    test('rebuilds the index when the log is truncated', async () => {
+        append(createEvent({ timestamp: 1000 }), createEvent({ timestamp: 2000 }), createEvent({ timestamp: 3000 }));
+        await log.query();
+
+        fs.truncateSync(logPath(), 0);
+        append(createEvent({ timestamp: 5000, fileUri: 'file:///workspace/b.ts' }));
+
+        expect(timestamps(await log.query())).toEqual([5000]);
+        expect(await log.query({ fileUri: 'file:///workspace/a.ts' })).toEqual([]);
+    });
+
+    test('rebuilds the index when the log is replaced under the same name', async () => {
+        append(createEvent({ timestamp: 1000 }));
+        await log.query();
+
+        // A larger file, so only the inode tells it apart from a log that grew
+        const replacement = path.join(directory, 'replacement.jsonl');
+        fs.writeFileSync(replacement, [createEvent({ timestamp: 7000 }), createEvent({ timestamp: 8000 })].map(toLine).join(''));
+        fs.renameSync(replacement, logPath());
+
+        expect(timestamps(await log.query())).toEqual([7000, 8000]);
+    });
+
+    test('reads records that sit close together and far apart', async () => {
+        const padding = 'x'.repeat(70 * 1024);
+        const events = Array.from({ length: 6 }, (_, i) => createEvent({
+            timestamp: 1000 + i,
+            fileUri: i % 2 === 0 ? 'file:///workspace/a.ts' : 'file:///workspace/b.ts'
+        }));
+        // A long invalid line splits the records of a.ts into two reads
+        fs.writeFileSync(logPath(), events.slice(0, 3).map(toLine).join('') + padding + '\n' + events.slice(3).map(toLine).join(''));
+
+        const records = await log.query({ fileUri: 'file:///workspace/a.ts' });
+
+        expect(records.map(record => record.eventId)).toEqual([events[0], events[2], events[4]].map(event => event.eventId));
+    });
+
+    test('skips archives rotated before fromTime', async () => {
+        // Records a pruned archive could not hold; they only show up if it is read
+        fs.writeFileSync(logPath(`${LOG_FILE}.1500.archive`), toLine(createEvent({ timestamp: 6000 })));
+        fs.writeFileSync(logPath(getArchiveFileName(LOG_FILE, 4500)), gzipSync(toLine(createEvent({ timestamp: 4000 }))));
+        append(createEvent({ timestamp: 5000 }));
+
+        expect(timestamps(await log.query())).toEqual([4000, 5000, 6000]);
+        expect(timestamps(await log.query({ fromTime: 2000 }))).toEqual([4000, 5000]);
+    });
+
+    test('decompresses an archive once across queries', async () => {
+        const readSegment = jest.spyOn(LogArchiver, 'readSegment');
+        fs.writeFileSync(logPath(getArchiveFileName(LOG_FILE, 4500)), gzipSync(
+            [createEvent({ timestamp: 3000 }), createEvent({ timestamp: 4000, sessionId: 'session-b' })].map(toLine).join('')
+        ));
+
+        try {
+            expect(timestamps(await log.query())).toEqual([3000, 4000]);
+            expect(timestamps(await log.query({ sessionId: 'session-b' }))).toEqual([4000]);
+            expect(readSegment).toHaveBeenCalledTimes(1);
+        } finally {
+            readSegment.mockRestore();
+        }
+    });
+
+    test('carries the index over to the archive on rotation', async () => {
+        append(createEvent({ timestamp: 1000 }), createEvent({ timestamp: 2000, sessionId: 'session-b' }));
+        await log.query();
+
+        const archiveName = await log.rotate(3000);
+        append(createEvent({ timestamp: 4000 }));
+
+        const archived = readIndex(archiveName);
+        expect(archived.complete).toBe(true);
+        expect(archived.ino).toBe(fs.statSync(logPath(archiveName)).ino);
+        expect(archived.offsets).toHaveLength(2);
+        expect(fs.existsSync(path.join(directory, 'index', `${LOG_FILE}.index.json`))).toBe(false);
+
+        expect(timestamps(await log.query())).toEqual([1000, 2000, 4000]);
+        expect(timestamps(await log.query({ sessionId: 'session-b' }))).toEqual([2000]);
+        expect(readIndex(archiveName)).toEqual(archived);
+    });
+});
@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MetricsLogger } from '../../src/services/MetricsLogger';
+
+const LOG_FILE = 'debug-traces.jsonl';
+
+describe('MetricsLogger buffering', () => {
+    let workspace: string;
+    let logger: MetricsLogger;
+
+    const logPath = () => path.join(logger.getLogDirectory(), LOG_FILE);
+    const readPayloads = (): string[] => fs.existsSync(logPath())
+        ? fs.readFileSync(logPath(), 'utf8').split('\n').filter(Boolean).map(line => JSON.parse(line).payload)
+        : [];
+    // Lets pending file system callbacks and promise continuations run
+    const settle = () => new Promise(resolve => setImmediate(resolve));
+
+    // Holds appendFile calls until released, so the disk can be made slow or failing
+    const holdAppends = () => {
+        const releases: Array<(error?: Error) => void> = [];
+        const original = fs.promises.appendFile;
+        const spy = jest.spyOn(fs.promises, 'appendFile').mockImplementation((...args: Parameters<typeof original>) =>
+            new Promise<void>((resolve, reject) => {
+                releases.push(error => error ? reject(error) : resolve(original(...args)));
+            })
+        );
+        return { releases, restore: () => spy.mockRestore() };
+    };
+
+    beforeEach(() => {
+        workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'metrics-logger-'));
+        logger = new MetricsLogger(workspace, 'test-salt');
+        fs.mkdirSync(logger.getLogDirectory(), { recursive: true });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        jest.useRealTimers();
+        logger.dispose();
+        fs.rmSync(workspace, { recursive: true, force: true });
+    });
+
+    test('writes buffered records once they pass the size threshold', async () => {
+        await logger.logDebugTrace({ payload: 'small' });
+        expect(logger.getBufferStats().bufferedRecords).toBe(1);
+
+        await logger.logDebugTrace({ payload: 'x'.repeat(64 * 1024) });
+        expect(logger.getBufferStats().bufferedRecords).toBe(0);
+        await logger.flush();
+
+        expect(readPayloads()).toEqual(['small', 'x'.repeat(64 * 1024)]);
+        expect(logger.getBufferStats()).toMatchObject({ bufferedRecords: 0, flushes: 1, recordsWritten: 2 });
+    });
+
+    test('writes buffered records a second after the first one', async () => {
+        jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+
+        await logger.logDebugTrace({ payload: 'first' });
+        jest.advanceTimersByTime(500);
+        await logger.logDebugTrace({ payload: 'second' });
+        jest.advanceTimersByTime(499);
+        expect(logger.getBufferStats().bufferedRecords).toBe(2);
+
+        jest.advanceTimersByTime(1);
+        expect(logger.getBufferStats().bufferedRecords).toBe(0);
+        await logger.flush();
+
+        expect(readPayloads()).toEqual(['first', 'second']);
+        expect(logger.getBufferStats().flushes).toBe(1);
+    });
+
+    test('makes writers wait for the disk once the buffer is full', async () => {
+        const disk = holdAppends();
+        const megabyte = 'x'.repeat(1024 * 1024);
+
+        // The first record starts a write that holds; the next ones pile up behind it
+        for (let i = 0; i < 4; i++) {
+            await logger.logDebugTrace({ payload: megabyte });
+        }
+        let waited = false;
+        const fifth = logger.logDebugTrace({ payload: megabyte }).then(() => {
+            waited = true;
+        });
+        await settle();
+
+        expect(waited).toBe(false);
+        expect(logger.getBufferStats().backPressureWaits).toBe(1);
+
+        disk.restore();
+        disk.releases[0]();
+        await fifth;
+
+        expect(logger.getBufferStats()).toMatchObject({ bufferedRecords: 0, recordsWritten: 5, backPressureWaits: 1 });
+        expect(readPayloads()).toHaveLength(5);
+    });
+
+    test('puts records from a failed write back ahead of newer ones', async () => {
+        const disk = holdAppends();
+
+        await logger.logDebugTrace({ payload: 'a' });
+        await logger.logDebugTrace({ payload: 'b' });
+        const failing = logger.flush();
+        await logger.logDebugTrace({ payload: 'c' });
+
+        disk.restore();
+        disk.releases[0](new Error('disk full'));
+        await failing;
+
+        expect(readPayloads()).toEqual([]);
+        expect(logger.getBufferStats()).toMatchObject({ bufferedRecords: 3, failedWrites: 1, droppedRecords: 0 });
+        expect(console.error).toHaveBeenCalledWith(`Failed to write to log file ${LOG_FILE}:`, expect.any(Error));
+
+        await logger.flush();
+
+        expect(readPayloads()).toEqual(['a', 'b', 'c']);
+    });
+
+    test('writes the pending buffer synchronously on dispose', async () => {
+        await logger.logDebugTrace({ payload: 'pending' });
+        expect(readPayloads()).toEqual([]);
+
+        logger.dispose();
+
+        expect(readPayloads()).toEqual(['pending']);
+        expect(logger.getBufferStats().bufferedRecords).toBe(0);
+    });
+});
@@ -1,3 +1,4 @@
+import * as vscode from 'vscode';
 import { ReviewAnalyzer } from '../../src/services/ReviewAnalyzer';
 import { MetricsLogger } from '../../src/services/MetricsLogger';
 import { ChangeEventGenerator } from '../fixtures/change-events';
@@ -10,7 +11,7 @@ describe('Review Analyzer', () => {
     let mockLogger: jest.Mocked<MetricsLogger>;
 
     beforeEach(() => {
-        mockLogger = new MetricsLogger('/mock/workspace') as jest.Mocked<MetricsLogger>;
+        mockLogger = new MetricsLogger('/mock/workspace', 'test-salt') as jest.Mocked<MetricsLogger>;
         mockLogger.logReviewQualityMetrics = jest.fn().mockResolvedValue(undefined);
         mockLogger.getChangeEventsForFile = jest.fn().mockResolvedValue([]);
         reviewAnalyzer = new ReviewAnalyzer(mockLogger, 'test-session');
@@ -353,4 +354,21 @@ describe('Review Analyzer', () => {
             expect(result.qualityLevel).toBeDefined();
         });
     });
+
+    describe('Settings', () => {
+        test('reads the review thresholds again when settings change', () => {
+            expect(reviewAnalyzer.getEngine().getConfig().time.sessionGapMinutes).toBe(30);
+
+            const settings: Record<string, number> = { 'time.sessionGapMinutes': 10, 'editPatterns.refinementEditSize': 40 };
+            (vscode.workspace.getConfiguration as jest.Mock).mockReturnValueOnce({
+                get: (key: string, defaultValue?: number) => settings[key] ?? defaultValue
+            });
+            reviewAnalyzer.updateConfiguration();
+
+            const config = reviewAnalyzer.getEngine().getConfig();
+            expect(config.time.sessionGapMinutes).toBe(10);
+            expect(config.editPatterns.refinementEditSize).toBe(40);
+            expect(config.time.reflectionPauseSeconds).toBe(60);
+        });
+    });
 });
@@ -1,12 +1,15 @@
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useAppStore } from '@/lib/store';
 import { useAIDetection } from '@/lib/hooks/useAIDetection';
 import DataImport from '@/components/DataImport';
 import EnhancedRadarWithTimeline from '@/components/EnhancedRadarWithTimeline';
 import ParameterTuning from '@/components/ParameterTuning';
-import { calculateHeuristicScores } from '@/lib/utils/calculations';
+import DetectorEvaluationPanel from '@/components/DetectorEvaluationPanel';
+import AttributionModeComparison from '@/components/AttributionModeComparison';
+import { importSharedConfig, readConfigFromLocation } from '@/lib/utils/configShare';
+import type { GroundTruthDataset } from '@ai-analyzer/core';
 
 export default function Dashboard() {
   const {
@@ -15,17 +18,37 @@ export default function Dashboard() {
     aiDetectionConfig,
     isLoading,
     error,
-    clearError
+    clearError,
+    setError
   } = useAppStore();
 
-  const { analyzeEvents } = useAIDetection();
+  const { analyzeEvents, updateConfig } = useAIDetection();
+  // Shared by the evaluation panel (which loads it) and the tuning panel (which optimizes against it)
+  const [groundTruth, setGroundTruth] = useState<GroundTruthDataset | null>(null);
 
-  // Re-analyze when dataset or config changes
+  useEffect(() => {
+    useAppStore.persist.rehydrate();
+  }, []);
+
+  // A config opened from the extension arrives in the fragment; drop it once applied
+  useEffect(() => {
+    const shared = readConfigFromLocation(window.location);
+    if (!shared) return;
+
+    try {
+      updateConfig(importSharedConfig(shared, 'the extension'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  }, [updateConfig, setError]);
+
+  // Re-analyze when a dataset is loaded; config changes re-analyze through updateConfig
   useEffect(() => {
     if (currentDataset?.events) {
       analyzeEvents(currentDataset.events);
     }
-  }, [currentDataset, aiDetectionConfig]);
+  }, [currentDataset, analyzeEvents]);
 
   return (
     <div className="space-y-8">
@@ -106,18 +129,36 @@ export default function Dashboard() {
               {/* Enhanced Radar with Timeline */}
               <div className="bg-white rounded-lg shadow p-6">
                 <EnhancedRadarWithTimeline
-                  scores={calculateHeuristicScores(currentDataset.events)}
+                  scores={currentAnalysis?.heuristicScores ?? null}
                   events={currentDataset.events}
                   config={aiDetectionConfig}
                   title={`AI Detection Analysis: ${currentDataset.name}`}
                 />
               </div>
 
+              {/* Attribution by Mode */}
+              {currentAnalysis?.characterAttribution && (
+                <div className="bg-white rounded-lg shadow p-6">
+                  <AttributionModeComparison analysis={currentAnalysis} config={aiDetectionConfig} />
+                </div>
+              )}
+
               {/* Parameter Tuning */}
               <div className="bg-white rounded-lg shadow p-6">
                 <ParameterTuning
                   events={currentDataset.events}
                   currentConfig={aiDetectionConfig}
+                  groundTruth={groundTruth}
+                />
+              </div>
+
+              {/* Detector Evaluation */}
+              <div className="bg-white rounded-lg shadow p-6">
+                <DetectorEvaluationPanel
+                  events={currentDataset.events}
+                  currentConfig={aiDetectionConfig}
+                  dataset={groundTruth}
+                  onDatasetChange={setGroundTruth}
                 />
               </div>
 
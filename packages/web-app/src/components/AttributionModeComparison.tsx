@@ -0,0 +1,78 @@
+'use client';
+
+import React from 'react';
+import { classifyScore } from '@ai-analyzer/core';
+import type { AIDetectionConfig, AIDetectionResult, AttributionMode } from '@ai-analyzer/core';
+
+interface AttributionModeComparisonProps {
+    analysis: AIDetectionResult;
+    config: AIDetectionConfig;
+}
+
+interface ModeColumn {
+    mode: AttributionMode;
+    label: string;
+    aiProbability: number;
+    detail: string;
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * The dataset's AI probability under each attribution mode, with the configured one highlighted
+ */
+const AttributionModeComparison: React.FC<AttributionModeComparisonProps> = ({ analysis, config }) => {
+    const characters = analysis.characterAttribution;
+    if (!characters) {
+        return null;
+    }
+
+    const selectedMode = config.attribution?.mode ?? 'events';
+    const rollup = analysis.eventRollup;
+    const aiEvents = rollup ? rollup.eventCount - rollup.labelCounts.human : 0;
+
+    const columns: ModeColumn[] = [
+        {
+            mode: 'events',
+            label: 'Events',
+            // The heuristics' verdict, whatever mode the analysis ran in
+            aiProbability: classifyScore(analysis.totalScore, config.classification).aiProbability,
+            detail: rollup ? `${aiEvents} of ${rollup.eventCount} edits scored as AI` : 'Heuristic verdict on all edits'
+        },
+        {
+            mode: 'inserted-characters',
+            label: 'Inserted Characters',
+            aiProbability: characters.insertedAIShare,
+            detail: `${characters.aiInsertedCharacters.toLocaleString()} of ${characters.insertedCharacters.toLocaleString()} characters from AI-like edits`
+        },
+        {
+            mode: 'surviving-characters',
+            label: 'Surviving Characters',
+            aiProbability: characters.survivingAIShare,
+            detail: `${characters.aiSurvivingCharacters.toLocaleString()} of ${characters.survivingCharacters.toLocaleString()} remaining characters from AI-like edits`
+        }
+    ];
+
+    return (
+        <div>
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Attribution by Mode</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {columns.map(column => (
+                    <div
+                        key={column.mode}
+                        className={`p-4 rounded-lg border text-center ${column.mode === selectedMode ? 'border-blue-500 bg-blue-50' : 'border-gray-200'}`}
+                    >
+                        <div className="text-sm font-medium text-gray-700">
+                            {column.label}
+                            {column.mode === selectedMode && <span className="ml-1 text-xs text-blue-600">(selected)</span>}
+                        </div>
+                        <div className="text-2xl font-bold text-gray-900 mt-1">{formatPercent(column.aiProbability)}</div>
+                        <div className="text-xs text-gray-500 mt-1">{column.detail}</div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default AttributionModeComparison;
@@ -4,10 +4,10 @@ import React, { useState, useRef } from 'react';
 import { Upload, FileText } from 'lucide-react';
 import { useAppStore } from '@/lib/store';
 import { DataService } from '@/services/DataService';
-import type { EnhancedChangeEvent } from '@ai-analyzer/core';
+import { isCompressedLogFile, type EnhancedChangeEvent } from '@ai-analyzer/core';
 
 const DataImport: React.FC = () => {
-    const { loadDataset, setError, setIsLoading, isLoading } = useAppStore();
+    const { loadDataset, setError, setIsLoading, isLoading, currentDataset, lastDatasetName } = useAppStore();
     const [localError, setLocalError] = useState<string | null>(null);
     const [uploadProgress, setUploadProgress] = useState<number>(0);
     const fileInputRef = useRef<HTMLInputElement>(null);
@@ -34,11 +34,11 @@ const DataImport: React.FC = () => {
         setUploadProgress(0);
 
         try {
-            if (file.name.endsWith('.jsonl')) {
+            if (file.name.endsWith('.jsonl') || file.name.endsWith('.jsonl.gz')) {
                 let events: EnhancedChangeEvent[];
 
-                // Use streaming for larger files (>1MB)
-                if (file.size > 1024 * 1024) {
+                // Use streaming for larger files (>1MB) and for compressed archives
+                if (file.size > 1024 * 1024 || isCompressedLogFile(file.name)) {
                     setLocalError('Processing large file...');
                     events = await DataService.parseJSONLFileStreaming(file, (progress) => {
                         setUploadProgress(progress);
@@ -57,7 +57,7 @@ const DataImport: React.FC = () => {
                 loadDataset(events, file.name);
                 setLocalError(null); // Clear any processing messages
             } else {
-                setLocalError('Please upload a .jsonl file');
+                setLocalError('Please upload a .jsonl file or a compressed .jsonl.gz archive');
             }
         } catch (err) {
             setLocalError(`Failed to parse file: ${err instanceof Error ? err.message : 'Unknown error'}`);
@@ -87,11 +87,16 @@ const DataImport: React.FC = () => {
                 <p className="text-sm text-gray-600 mb-3">
                     Upload your own review quality metrics or change event logs:
                 </p>
+                {!currentDataset && lastDatasetName && (
+                    <p className="text-xs text-gray-500 mb-3">
+                        Last loaded: <span className="font-medium">{lastDatasetName}</span>
+                    </p>
+                )}
                 <div className="space-y-2">
                     <input
                         ref={fileInputRef}
                         type="file"
-                        accept=".jsonl"
+                        accept=".jsonl,.gz"
                         onChange={handleFileUpload}
                         disabled={isLoading}
                         className="hidden"
@@ -138,6 +143,7 @@ const DataImport: React.FC = () => {
                     <h4 className="font-medium text-gray-700 mb-1">Supported Formats:</h4>
                     <ul className="space-y-1">
                         <li>• <strong>JSONL:</strong> Review quality metrics from your AI detection extension</li>
+                        <li>• <strong>JSONL.GZ:</strong> Compressed log archives created when the extension rotates its logs</li>
                     </ul>
                 </div>
                 <div>
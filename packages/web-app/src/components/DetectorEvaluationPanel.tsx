@@ -0,0 +1,260 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { parseGroundTruthDataset } from '@ai-analyzer/core';
+import { useDetectorEvaluation } from '@/lib/hooks/useDetectorEvaluation';
+import type {
+    AIDetectionConfig,
+    EnhancedChangeEvent,
+    GroundTruthClass,
+    GroundTruthDataset,
+    ThresholdMetrics
+} from '@ai-analyzer/core';
+
+interface DetectorEvaluationPanelProps {
+    events: EnhancedChangeEvent[];
+    currentConfig: AIDetectionConfig;
+    dataset: GroundTruthDataset | null;
+    onDatasetChange: (dataset: GroundTruthDataset) => void;
+}
+
+const GROUND_TRUTH_CLASSES: GroundTruthClass[] = ['human', 'ai-assisted', 'ai-generated'];
+const PREDICTED_SOURCES = ['human', 'ai-assisted', 'ai-generated', 'mixed'] as const;
+
+const formatRatio = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const DetectorEvaluationPanel: React.FC<DetectorEvaluationPanelProps> = ({ events, currentConfig, dataset, onDatasetChange }) => {
+    const [labelsError, setLabelsError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    // Re-evaluates in the analysis worker whenever the tuned config changes, so the metrics follow the sliders
+    const { evaluation, isEvaluating, error: evaluationError } = useDetectorEvaluation(events, dataset, currentConfig);
+
+    const handleLabelsUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+
+        try {
+            onDatasetChange(parseGroundTruthDataset(JSON.parse(await file.text())));
+            setLabelsError(null);
+        } catch (err) {
+            setLabelsError(err instanceof Error ? err.message : 'Unknown error');
+        }
+
+        if (fileInputRef.current) {
+            fileInputRef.current.value = '';
+        }
+    };
+
+    const rocData = evaluation
+        ? [{ falsePositiveRate: 0, truePositiveRate: 0 }, ...evaluation.rocCurve]
+        : [];
+
+    const classificationRows: Array<[string, ThresholdMetrics]> = evaluation
+        ? [
+            ['Human threshold', evaluation.classificationThresholds.humanThreshold],
+            ['AI assisted threshold', evaluation.classificationThresholds.aiAssistedThreshold],
+            ['AI generated threshold', evaluation.classificationThresholds.aiGeneratedThreshold]
+        ]
+        : [];
+
+    const renderMetricsRow = (label: string, metrics: ThresholdMetrics, highlight = false) => (
+        <tr key={label} className={highlight ? 'bg-green-50' : undefined}>
+            <td className="px-2 py-1 text-gray-700">{label}</td>
+            <td className="px-2 py-1 text-right">{formatRatio(metrics.precision)}</td>
+            <td className="px-2 py-1 text-right">{formatRatio(metrics.recall)}</td>
+            <td className="px-2 py-1 text-right">{metrics.f1.toFixed(3)}</td>
+            <td className="px-2 py-1 text-right">{formatRatio(metrics.falsePositiveRate)}</td>
+            <td className="px-2 py-1 text-right text-gray-500">
+                {metrics.confusion.truePositives}/{metrics.confusion.falsePositives}/{metrics.confusion.trueNegatives}/{metrics.confusion.falseNegatives}
+            </td>
+        </tr>
+    );
+
+    const metricsHeader = (
+        <thead>
+            <tr className="text-gray-500 border-b">
+                <th className="px-2 py-1 text-left font-medium">Threshold</th>
+                <th className="px-2 py-1 text-right font-medium">Precision</th>
+                <th className="px-2 py-1 text-right font-medium">Recall</th>
+                <th className="px-2 py-1 text-right font-medium">F1</th>
+                <th className="px-2 py-1 text-right font-medium">FPR</th>
+                <th className="px-2 py-1 text-right font-medium" title="True positives / false positives / true negatives / false negatives">
+                    TP/FP/TN/FN
+                </th>
+            </tr>
+        </thead>
+    );
+
+    return (
+        <div className="w-full">
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-medium text-gray-900">Detector Evaluation</h3>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".json"
+                    onChange={handleLabelsUpload}
+                    className="hidden"
+                />
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="flex items-center px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md transition-colors"
+                >
+                    <Upload className="h-4 w-4 mr-2" />
+                    {dataset ? 'Replace Labels' : 'Load Labels'}
+                </button>
+            </div>
+
+            <div className="mb-4 p-3 bg-gray-50 rounded-lg">
+                <p className="text-sm text-gray-700">
+                    Load a ground-truth labels file to measure how well the current parameters separate AI from human code.
+                    Each label marks one event (<code>eventId</code>) or a time range (<code>startTime</code>, <code>endTime</code>,
+                    optionally <code>sessionId</code> and <code>fileUri</code>) as <code>human</code>, <code>ai-generated</code> or
+                    <code> ai-assisted</code>. AI-generated and AI-assisted labels both count as AI.
+                </p>
+            </div>
+
+            {labelsError && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+                    <p className="text-sm text-red-700">Error: {labelsError}</p>
+                </div>
+            )}
+
+            {evaluationError && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+                    <p className="text-sm text-red-700">Evaluation failed: {evaluationError}</p>
+                </div>
+            )}
+
+            {isEvaluating && !evaluation && (
+                <p className="mb-4 text-sm text-gray-500">Evaluating detector...</p>
+            )}
+
+            {evaluation && (
+                <div className={`space-y-6 ${isEvaluating ? 'opacity-60' : ''}`}>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        <div className="text-center">
+                            <div className="text-2xl font-bold text-blue-600">{evaluation.samples.length}</div>
+                            <div className="text-sm text-gray-500">Labeled Samples</div>
+                        </div>
+                        <div className="text-center">
+                            <div className="text-2xl font-bold text-purple-600">{evaluation.positives} / {evaluation.negatives}</div>
+                            <div className="text-sm text-gray-500">AI / Human</div>
+                        </div>
+                        <div className="text-center">
+                            <div className="text-2xl font-bold text-green-600">
+                                {evaluation.auc !== null ? evaluation.auc.toFixed(3) : 'N/A'}
+                            </div>
+                            <div className="text-sm text-gray-500">ROC AUC</div>
+                        </div>
+                        <div className="text-center">
+                            <div className="text-2xl font-bold text-orange-600">
+                                {evaluation.bestF1 ? evaluation.bestF1.f1.toFixed(3) : 'N/A'}
+                            </div>
+                            <div className="text-sm text-gray-500">
+                                Best F1{evaluation.bestF1 ? ` @ ${evaluation.bestF1.threshold.toFixed(2)}` : ''}
+                            </div>
+                        </div>
+                    </div>
+
+                    {evaluation.unmatchedLabels > 0 && (
+                        <p className="text-xs text-orange-600">
+                            {evaluation.unmatchedLabels} label(s) matched no event in the current dataset and were skipped.
+                        </p>
+                    )}
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        <div>
+                            <h4 className="text-md font-medium text-gray-800 mb-3">ROC Curve</h4>
+                            <div className="h-64">
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <LineChart data={rocData} margin={{ top: 5, right: 10, bottom: 15, left: 0 }}>
+                                        <CartesianGrid strokeDasharray="3 3" />
+                                        <XAxis
+                                            type="number"
+                                            dataKey="falsePositiveRate"
+                                            domain={[0, 1]}
+                                            label={{ value: 'False positive rate', position: 'insideBottom', offset: -10 }}
+                                        />
+                                        <YAxis type="number" domain={[0, 1]} />
+                                        <Tooltip formatter={(value: number) => value.toFixed(3)} />
+                                        <Line
+                                            type="stepAfter"
+                                            dataKey="truePositiveRate"
+                                            name="True positive rate"
+                                            stroke="#3B82F6"
+                                            strokeWidth={2}
+                                            dot={false}
+                                            isAnimationActive={false}
+                                        />
+                                    </LineChart>
+                                </ResponsiveContainer>
+                            </div>
+                        </div>
+
+                        <div>
+                            <h4 className="text-md font-medium text-gray-800 mb-3">Confusion Matrix</h4>
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-gray-500 border-b">
+                                        <th className="px-2 py-1 text-left font-medium">Label \ Predicted</th>
+                                        {PREDICTED_SOURCES.map(source => (
+                                            <th key={source} className="px-2 py-1 text-right font-medium">{source}</th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {GROUND_TRUTH_CLASSES.map(label => (
+                                        <tr key={label}>
+                                            <td className="px-2 py-1 text-gray-700">{label}</td>
+                                            {PREDICTED_SOURCES.map(source => (
+                                                <td key={source} className="px-2 py-1 text-right">
+                                                    {evaluation.classConfusion[label][source]}
+                                                </td>
+                                            ))}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+
+                    <div>
+                        <h4 className="text-md font-medium text-gray-800 mb-3">Classification Thresholds</h4>
+                        <table className="w-full text-sm">
+                            {metricsHeader}
+                            <tbody>
+                                {classificationRows.map(([label, metrics]) =>
+                                    renderMetricsRow(`${label} (${metrics.threshold.toFixed(2)})`, metrics)
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div>
+                        <h4 className="text-md font-medium text-gray-800 mb-3">Threshold Sweep</h4>
+                        <div className="max-h-64 overflow-y-auto">
+                            <table className="w-full text-sm">
+                                {metricsHeader}
+                                <tbody>
+                                    {evaluation.thresholdSweep.map(metrics =>
+                                        renderMetricsRow(
+                                            metrics.threshold.toFixed(2),
+                                            metrics,
+                                            metrics.threshold === evaluation.bestF1?.threshold
+                                        )
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default DetectorEvaluationPanel;
@@ -2,34 +2,42 @@
 
 import React, { useState, useMemo } from 'react';
 import { Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, ResponsiveContainer } from 'recharts';
-import type { HeuristicScores, AIDetectionConfig, EnhancedChangeEvent, TimeBucket } from '@ai-analyzer/core';
-import { useAIDetection } from '@/lib/hooks/useAIDetection';
+import { BucketAnalyzer, DEFAULT_BUCKET_PERCENTILE, defaultHeuristicRegistry } from '@ai-analyzer/core';
+import type { HeuristicScores, AIDetectionConfig, EnhancedChangeEvent, EventScoreLabel } from '@ai-analyzer/core';
+import { useBucketAnalysis } from '@/lib/hooks/useBucketAnalysis';
+import { useEventAnalysis } from '@/lib/hooks/useEventAnalysis';
 
 interface EnhancedRadarWithTimelineProps {
-    scores: HeuristicScores;
+    scores: HeuristicScores | null;     // Dataset-wide scores, null until the first analysis completes
     events: EnhancedChangeEvent[];
     config: AIDetectionConfig;
     title: string;
 }
 
+const EVENT_LABEL_COLORS: Record<EventScoreLabel, string> = {
+    'human': 'bg-green-500',
+    'ai-assisted': 'bg-orange-500',
+    'ai-generated': 'bg-red-500'
+};
+
 const EnhancedRadarWithTimeline: React.FC<EnhancedRadarWithTimelineProps> = ({
     scores,
     events,
     config,
     title
 }) => {
-    const { analyzeBuckets, analyzeEvents } = useAIDetection();
     const [selectedInterval, setSelectedInterval] = useState(5); // Default 5 minutes
     const [selectedBucket, setSelectedBucket] = useState(0); // Selected bucket index
     const [selectedFile, setSelectedFile] = useState<string | null>(null); // Selected file for individual analysis
     const [viewMode, setViewMode] = useState<'all' | 'file'>('all'); // Toggle between all changes and specific file
 
-    // Create buckets with selected interval
-    const buckets = useMemo(() => {
-        if (events.length === 0) return [];
-        const intervalConfig = { ...config.bucketConfig, intervalMinutes: selectedInterval };
-        return analyzeBuckets(events, intervalConfig);
-    }, [events, config.bucketConfig, selectedInterval]);
+    // Create buckets with selected interval; they arrive from the analysis worker in batches
+    const intervalConfig = useMemo(
+        () => ({ ...config.bucketConfig, intervalMinutes: selectedInterval }),
+        [config.bucketConfig, selectedInterval]
+    );
+    const { buckets, progress } = useBucketAnalysis(events, intervalConfig);
+    const summary = useMemo(() => BucketAnalyzer.summarizeBuckets(buckets, intervalConfig), [buckets, intervalConfig]);
 
     // Get the selected bucket
     const currentBucket = useMemo(() => {
@@ -39,6 +47,9 @@ const EnhancedRadarWithTimeline: React.FC<EnhancedRadarWithTimelineProps> = ({
         return activeBuckets[bucketIndex];
     }, [buckets, selectedBucket]);
 
+    // Scores of the selected bucket's edits, computed in the analysis worker
+    const bucketEventScores = useEventAnalysis(events, currentBucket?.events ?? null)?.eventScores ?? [];
+
     // Get files in the current bucket
     const filesInBucket = useMemo(() => {
         if (!currentBucket) return [];
@@ -62,113 +73,25 @@ const EnhancedRadarWithTimeline: React.FC<EnhancedRadarWithTimelineProps> = ({
         })).sort((a, b) => b.eventCount - a.eventCount);
     }, [currentBucket]);
 
-    // Calculate scores for selected bucket or file
-    const filteredScores = useMemo(() => {
-        if (!currentBucket) return scores;
-
-        let eventsToAnalyze = currentBucket.events;
-
-        // If a specific file is selected and we're in file view mode, filter events
-        if (viewMode === 'file' && selectedFile) {
-            const fileData = filesInBucket.find(f => f.fileName === selectedFile);
-            if (fileData) {
-                eventsToAnalyze = fileData.events;
-            }
-        }
-
-        // If we have specific events to analyze, calculate scores for them
-        if (eventsToAnalyze.length > 0 && viewMode === 'file') {
-            try {
-                // Calculate basic heuristic scores directly from events without calling analyzeEvents
-                const bulkChanges = eventsToAnalyze.filter(e => e.contentLength > 100);
-                const bulkInsertionScore = Math.min(bulkChanges.length / eventsToAnalyze.length, 1.0);
-
-                const typingSpeeds = eventsToAnalyze.filter(e => e.instantTypingSpeed > 0).map(e => e.instantTypingSpeed);
-                const avgSpeed = typingSpeeds.length > 0 ? typingSpeeds.reduce((a, b) => a + b, 0) / typingSpeeds.length : 0;
-                const typingSpeedScore = Math.min(avgSpeed / 300, 1.0);
-
-                const pastePatterns = eventsToAnalyze.filter(e => e.timeSinceLastChange < 100 && e.contentLength > 50);
-                const pastePatternScore = Math.min(pastePatterns.length / Math.max(eventsToAnalyze.length, 1), 1.0);
-
-                const externalEvents = eventsToAnalyze.filter(e => e.externalToolSignature?.detected);
-                const externalToolScore = externalEvents.length > 0 ?
-                    externalEvents.reduce((sum, e) => sum + (e.externalToolSignature?.confidence || 0), 0) / externalEvents.length : 0;
-
-                const codeBlocks = eventsToAnalyze.filter(e => e.isCodeBlock);
-                const comments = eventsToAnalyze.filter(e => e.isComment);
-                const contentPatternScore = (codeBlocks.length * 0.6 + comments.length * 0.4) / Math.max(eventsToAnalyze.length, 1);
-
-                const longPauses = eventsToAnalyze.filter(e => e.timeSinceLastChange > 30000);
-                const rapidSequences = eventsToAnalyze.filter(e => e.timeSinceLastChange < 100);
-                const timingAnomalyScore = (longPauses.length + rapidSequences.length) / Math.max(eventsToAnalyze.length, 1);
-
-                return {
-                    bulkInsertionScore: Math.min(bulkInsertionScore, 1.0),
-                    typingSpeedScore: Math.min(typingSpeedScore, 1.0),
-                    pastePatternScore: Math.min(pastePatternScore, 1.0),
-                    externalToolScore: Math.min(externalToolScore, 1.0),
-                    contentPatternScore: Math.min(contentPatternScore, 1.0),
-                    timingAnomalyScore: Math.min(timingAnomalyScore, 1.0)
-                };
-            } catch (error) {
-                console.warn('Error calculating scores:', error);
-            }
-        }
+    // Events of the selected file, scored with the same engine and config as the buckets
+    const selectedFileEvents = useMemo(() => {
+        if (!currentBucket || viewMode !== 'file' || !selectedFile) return null;
+        return filesInBucket.find(f => f.fileName === selectedFile)?.events ?? null;
+    }, [currentBucket, viewMode, selectedFile, filesInBucket]);
+    const selectedFileAnalysis = useEventAnalysis(events, selectedFileEvents);
 
-        // Fallback to bucket scores or scaled original scores
-        if (currentBucket.heuristicScores) {
-            return currentBucket.heuristicScores;
-        }
+    // Scores for selected bucket or file
+    const filteredScores = selectedFileAnalysis?.heuristicScores ?? currentBucket?.heuristicScores ?? scores;
 
-        // Use the bucket's AI probability to scale the scores
-        const bucketProbability = currentBucket.aiProbability || 0;
-        const originalAvg = Object.values(scores).reduce((sum, score) => sum + score, 0) / Object.values(scores).length;
-        const scaleFactor = originalAvg > 0 ? bucketProbability / originalAvg : 1;
-
-        return {
-            bulkInsertionScore: Math.min(1, scores.bulkInsertionScore * scaleFactor),
-            typingSpeedScore: Math.min(1, scores.typingSpeedScore * scaleFactor),
-            pastePatternScore: Math.min(1, scores.pastePatternScore * scaleFactor),
-            externalToolScore: Math.min(1, scores.externalToolScore * scaleFactor),
-            contentPatternScore: Math.min(1, scores.contentPatternScore * scaleFactor),
-            timingAnomalyScore: Math.min(1, scores.timingAnomalyScore * scaleFactor)
-        };
-    }, [currentBucket, scores, viewMode, selectedFile, filesInBucket, config]);
-
-    const radarData = [
-        {
-            subject: 'Bulk Insertion',
-            score: filteredScores.bulkInsertionScore,
-            fullMark: 1
-        },
-        {
-            subject: 'Typing Speed',
-            score: filteredScores.typingSpeedScore,
-            fullMark: 1
-        },
-        {
-            subject: 'Paste Pattern',
-            score: filteredScores.pastePatternScore,
-            fullMark: 1
-        },
-        {
-            subject: 'External Tool',
-            score: filteredScores.externalToolScore,
-            fullMark: 1
-        },
-        {
-            subject: 'Content Pattern',
-            score: filteredScores.contentPatternScore,
-            fullMark: 1
-        },
-        {
-            subject: 'Timing Anomaly',
-            score: filteredScores.timingAnomalyScore,
-            fullMark: 1
-        }
-    ];
+    const radarData = defaultHeuristicRegistry.list().map(heuristic => ({
+        subject: heuristic.label,
+        score: filteredScores?.[heuristic.id] ?? 0,
+        fullMark: 1
+    }));
 
-    const averageScore = Object.values(filteredScores).reduce((sum, score) => sum + score, 0) / Object.values(filteredScores).length;
+    const averageScore = radarData.length > 0
+        ? radarData.reduce((sum, entry) => sum + entry.score, 0) / radarData.length
+        : 0;
 
     // Timeline rendering logic
     const renderTimeline = () => {
@@ -262,6 +185,33 @@ const EnhancedRadarWithTimeline: React.FC<EnhancedRadarWithTimelineProps> = ({
         );
     };
 
+    const renderBucketEvents = () => {
+        if (!currentBucket || bucketEventScores.length === 0) return null;
+
+        const bucketDuration = currentBucket.endTime - currentBucket.startTime;
+        const aiEdits = bucketEventScores.filter(score => score.label !== 'human').length;
+
+        return (
+            <div className="mt-3">
+                <div className="flex justify-between text-xs text-gray-600 mb-1">
+                    <span>Edits in selected bucket</span>
+                    <span>{aiEdits} of {bucketEventScores.length} edits scored as AI</span>
+                </div>
+                <div className="relative h-6 bg-gray-50 rounded-md">
+                    {bucketEventScores.map(score => (
+                        <div
+                            key={score.eventId}
+                            className={`absolute top-1 bottom-1 w-1 rounded-sm ${EVENT_LABEL_COLORS[score.label]}`}
+                            style={{ left: `${bucketDuration > 0 ? ((score.timestamp - currentBucket.startTime) / bucketDuration) * 100 : 0}%` }}
+                            title={`${new Date(score.timestamp).toLocaleTimeString()} | ${score.label} | AI Probability: ${(score.aiProbability * 100).toFixed(1)}%` +
+                                (score.evidence.length > 0 ? `\n${score.evidence.join('\n')}` : '')}
+                        ></div>
+                    ))}
+                </div>
+            </div>
+        );
+    };
+
     const activeBuckets = buckets.filter(bucket => !bucket.isEmpty);
 
     return (
@@ -270,8 +220,24 @@ const EnhancedRadarWithTimeline: React.FC<EnhancedRadarWithTimelineProps> = ({
 
             {/* Timeline Section */}
             <div className="mb-6">
-                <h4 className="text-md font-medium text-gray-700 mb-2">Timeline Analysis</h4>
+                <div className="flex justify-between items-center mb-2">
+                    <h4 className="text-md font-medium text-gray-700">Timeline Analysis</h4>
+                    {progress && progress.total > 0 && (
+                        <span className="text-xs text-blue-600">
+                            Analyzing buckets {progress.completed} / {progress.total}
+                        </span>
+                    )}
+                </div>
                 {renderTimeline()}
+                {renderBucketEvents()}
+                {summary.activeBuckets > 0 && (
+                    <p className="mt-2 text-xs text-gray-600">
+                        Overall AI probability ({summary.aggregationMethod}
+                        {summary.aggregationMethod === 'percentile' ? ` p${intervalConfig.percentile ?? DEFAULT_BUCKET_PERCENTILE}` : ''}):{' '}
+                        <span className="font-medium">{(summary.aggregatedAIProbability * 100).toFixed(1)}%</span>
+                        {' '}across {summary.activeBuckets} active buckets, peak {(summary.maxAIProbability * 100).toFixed(1)}%
+                    </p>
+                )}
             </div>
 
             {/* Interval Selection */}
@@ -455,30 +421,12 @@ const EnhancedRadarWithTimeline: React.FC<EnhancedRadarWithTimelineProps> = ({
 
                 {/* Individual Scores */}
                 <div className="grid grid-cols-2 gap-2 text-xs text-gray-600">
-                    <div className="flex justify-between">
-                        <span>Bulk Insertion:</span>
-                        <span>{filteredScores.bulkInsertionScore.toFixed(3)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                        <span>Typing Speed:</span>
-                        <span>{filteredScores.typingSpeedScore.toFixed(3)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                        <span>Paste Pattern:</span>
-                        <span>{filteredScores.pastePatternScore.toFixed(3)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                        <span>External Tool:</span>
-                        <span>{filteredScores.externalToolScore.toFixed(3)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                        <span>Content Pattern:</span>
-                        <span>{filteredScores.contentPatternScore.toFixed(3)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                        <span>Timing Anomaly:</span>
-                        <span>{filteredScores.timingAnomalyScore.toFixed(3)}</span>
-                    </div>
+                    {radarData.map(entry => (
+                        <div key={entry.subject} className="flex justify-between">
+                            <span>{entry.subject}:</span>
+                            <span>{entry.score.toFixed(3)}</span>
+                        </div>
+                    ))}
                 </div>
             </div>
 
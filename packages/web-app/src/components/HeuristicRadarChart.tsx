@@ -2,6 +2,7 @@
 
 import React from 'react';
 import { Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, ResponsiveContainer } from 'recharts';
+import { defaultHeuristicRegistry } from '@ai-analyzer/core';
 import type { HeuristicScores } from '@ai-analyzer/core';
 
 interface HeuristicRadarChartProps {
@@ -10,40 +11,17 @@ interface HeuristicRadarChartProps {
 }
 
 const HeuristicRadarChart: React.FC<HeuristicRadarChartProps> = ({ scores, title }) => {
-    const data = [
-        {
-            subject: 'Bulk Insertion',
-            score: scores.bulkInsertionScore,
-            fullMark: 1
-        },
-        {
-            subject: 'Typing Speed',
-            score: scores.typingSpeedScore,
-            fullMark: 1
-        },
-        {
-            subject: 'Paste Pattern',
-            score: scores.pastePatternScore,
-            fullMark: 1
-        },
-        {
-            subject: 'External Tool',
-            score: scores.externalToolScore,
-            fullMark: 1
-        },
-        {
-            subject: 'Content Pattern',
-            score: scores.contentPatternScore,
-            fullMark: 1
-        },
-        {
-            subject: 'Timing Anomaly',
-            score: scores.timingAnomalyScore,
-            fullMark: 1
-        }
-    ];
+    const heuristics = defaultHeuristicRegistry.list();
 
-    const averageScore = Object.values(scores).reduce((sum, score) => sum + score, 0) / Object.values(scores).length;
+    const data = heuristics.map(heuristic => ({
+        subject: heuristic.label,
+        score: scores[heuristic.id] ?? 0,
+        fullMark: 1
+    }));
+
+    const averageScore = data.length > 0
+        ? data.reduce((sum, entry) => sum + entry.score, 0) / data.length
+        : 0;
 
     return (
         <div className="w-full">
@@ -85,30 +63,12 @@ const HeuristicRadarChart: React.FC<HeuristicRadarChartProps> = ({ scores, title
 
                 {/* Individual Scores */}
                 <div className="grid grid-cols-2 gap-2 text-xs text-gray-600">
-                    <div className="flex justify-between">
-                        <span>Bulk Insertion:</span>
-                        <span>{scores.bulkInsertionScore.toFixed(3)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                        <span>Typing Speed:</span>
-                        <span>{scores.typingSpeedScore.toFixed(3)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                        <span>Paste Pattern:</span>
-                        <span>{scores.pastePatternScore.toFixed(3)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                        <span>External Tool:</span>
-                        <span>{scores.externalToolScore.toFixed(3)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                        <span>Content Pattern:</span>
-                        <span>{scores.contentPatternScore.toFixed(3)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                        <span>Timing Anomaly:</span>
-                        <span>{scores.timingAnomalyScore.toFixed(3)}</span>
-                    </div>
+                    {data.map(entry => (
+                        <div key={entry.subject} className="flex justify-between">
+                            <span>{entry.subject}:</span>
+                            <span>{entry.score.toFixed(3)}</span>
+                        </div>
+                    ))}
                 </div>
             </div>
 
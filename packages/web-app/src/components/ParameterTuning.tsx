@@ -1,29 +1,72 @@
 'use client';
 
-import React, { useCallback, useRef } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { useAppStore } from '@/lib/store';
 import { useAIDetection } from '@/lib/hooks/useAIDetection';
-import type { EnhancedChangeEvent, AIDetectionConfig } from '@ai-analyzer/core';
+import { CONFIG_EXPORT_FILE_NAME, importSharedConfig } from '@/lib/utils/configShare';
+import { getAnalysisClient, type AnalysisTask } from '@/lib/workers/analysisClient';
+import type { AnalysisProgress } from '@/lib/workers/analysisProtocol';
+import {
+    DEFAULT_BUCKET_PERCENTILE,
+    deepMerge,
+    defaultHeuristicRegistry,
+    encodeConfigShareString,
+    getDefaultConfig
+} from '@ai-analyzer/core';
+import type {
+    EnhancedChangeEvent,
+    AIDetectionConfig,
+    AttributionMode,
+    ConfigOptimizationResult,
+    GroundTruthDataset,
+    HeuristicThreshold,
+    OptimizationMethod,
+    OptimizationMetric
+} from '@ai-analyzer/core';
 
 interface ParameterTuningProps {
     events: EnhancedChangeEvent[];
     currentConfig: AIDetectionConfig;
+    groundTruth?: GroundTruthDataset | null;   // Labels loaded in the evaluation panel, enables "Suggest Config"
 }
 
-const ParameterTuning: React.FC<ParameterTuningProps> = ({ events, currentConfig }) => {
-    const { setAiDetectionConfig } = useAppStore();
+const OPTIMIZATION_METRICS: Array<[OptimizationMetric, string]> = [
+    ['f1', 'F1 score'],
+    ['auc', 'ROC AUC'],
+    ['accuracy', 'Accuracy'],
+    ['balanced-accuracy', 'Balanced accuracy']
+];
+
+const OPTIMIZATION_METHODS: Array<[OptimizationMethod, string]> = [
+    ['coordinate-descent', 'Coordinate descent'],
+    ['grid-search', 'Grid search'],
+    ['logistic', 'Logistic regression']
+];
+
+const CLASSIFICATION_LABELS: Array<[keyof AIDetectionConfig['classification'], string]> = [
+    ['humanThreshold', 'Human threshold'],
+    ['aiAssistedThreshold', 'AI assisted threshold'],
+    ['aiGeneratedThreshold', 'AI generated threshold']
+];
+
+const ParameterTuning: React.FC<ParameterTuningProps> = ({ events, currentConfig, groundTruth = null }) => {
+    const { setAiDetectionConfig, savedConfigs, saveConfig, deleteSavedConfig } = useAppStore();
     const { updateConfig } = useAIDetection();
     const debounceTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-
-    // Ensure bucketConfig exists with default values
-    const safeConfig = {
-        ...currentConfig,
-        bucketConfig: currentConfig.bucketConfig || {
-            intervalMinutes: 15,
-            aggregationMethod: 'average' as const,
-            minEventsPerBucket: 1
-        }
-    };
+    const [optimizationMetric, setOptimizationMetric] = useState<OptimizationMetric>('f1');
+    const [optimizationMethod, setOptimizationMethod] = useState<OptimizationMethod>('coordinate-descent');
+    const [suggestion, setSuggestion] = useState<ConfigOptimizationResult | null>(null);
+    const [isOptimizing, setIsOptimizing] = useState(false);
+    const [optimizationProgress, setOptimizationProgress] = useState<AnalysisProgress | null>(null);
+    const [optimizationError, setOptimizationError] = useState<string | null>(null);
+    const optimizationTaskRef = useRef<AnalysisTask<ConfigOptimizationResult> | null>(null);
+    const [configName, setConfigName] = useState('');
+    const [shareInput, setShareInput] = useState('');
+    const [shareStatus, setShareStatus] = useState<{ message: string; isError: boolean } | null>(null);
+    const configFileInputRef = useRef<HTMLInputElement>(null);
+
+    // Fill in anything an older saved config is missing
+    const safeConfig = deepMerge(getDefaultConfig(), currentConfig);
 
     // Debounced config update to prevent excessive re-analysis
     const debouncedUpdateConfig = useCallback((newConfig: AIDetectionConfig) => {
@@ -36,13 +79,28 @@ const ParameterTuning: React.FC<ParameterTuningProps> = ({ events, currentConfig
         }, 300); // 300ms debounce
     }, [updateConfig]);
 
-    const handleWeightChange = (heuristic: keyof AIDetectionConfig['weights'], value: number) => {
+    const heuristics = defaultHeuristicRegistry.list();
+    const thresholds = defaultHeuristicRegistry.getThresholds();
+
+    const getWeight = (heuristicId: string) =>
+        currentConfig.weights[heuristicId] ?? defaultHeuristicRegistry.get(heuristicId)?.defaultWeight ?? 0;
+
+    const getThresholdValue = (threshold: HeuristicThreshold) =>
+        currentConfig.thresholds[threshold.key] ?? threshold.defaultValue;
+
+    const formatThresholdValue = (threshold: HeuristicThreshold, value: number) =>
+        threshold.unit === 'ms' && value >= 1000
+            ? `${(value / 1000).toFixed(1)} s`
+            : `${value} ${threshold.unit}`;
+
+    const handleWeightChange = (heuristic: string, value: number) => {
         const currentWeights = { ...currentConfig.weights };
-        const oldValue = currentWeights[heuristic];
-        const difference = value - oldValue;
+        heuristics.forEach(h => {
+            currentWeights[h.id] = getWeight(h.id);
+        });
 
         // Get all other weight keys
-        const otherKeys = Object.keys(currentWeights).filter(key => key !== heuristic) as Array<keyof AIDetectionConfig['weights']>;
+        const otherKeys = Object.keys(currentWeights).filter(key => key !== heuristic);
 
         if (otherKeys.length === 0) {
             // Edge case: only one weight exists
@@ -90,7 +148,7 @@ const ParameterTuning: React.FC<ParameterTuningProps> = ({ events, currentConfig
         debouncedUpdateConfig(newConfig);
     };
 
-    const handleThresholdChange = (threshold: keyof AIDetectionConfig['thresholds'], value: number) => {
+    const handleThresholdChange = (threshold: string, value: number) => {
         const newConfig = {
             ...currentConfig,
             thresholds: {
@@ -114,50 +172,139 @@ const ParameterTuning: React.FC<ParameterTuningProps> = ({ events, currentConfig
         debouncedUpdateConfig(newConfig);
     };
 
+    const handleAttributionModeChange = (mode: AttributionMode) => {
+        const newConfig = {
+            ...currentConfig,
+            attribution: { mode }
+        };
+        setAiDetectionConfig(newConfig);
+        debouncedUpdateConfig(newConfig);
+    };
+
     const handleBucketConfigChange = (setting: keyof AIDetectionConfig['bucketConfig'], value: number | string) => {
+        const bucketConfig = { ...safeConfig.bucketConfig, [setting]: value };
+        // A step longer than the interval would leave gaps between windows
+        if (bucketConfig.windowStepMinutes !== undefined && bucketConfig.windowStepMinutes > bucketConfig.intervalMinutes) {
+            bucketConfig.windowStepMinutes = bucketConfig.intervalMinutes;
+        }
         const newConfig = {
             ...currentConfig,
-            bucketConfig: {
-                ...safeConfig.bucketConfig,
-                [setting]: value
-            }
+            bucketConfig
         };
         setAiDetectionConfig(newConfig);
         debouncedUpdateConfig(newConfig);
     };
 
     const resetToDefaults = () => {
-        const defaultConfig: AIDetectionConfig = {
-            weights: {
-                bulkInsertionScore: 0.15,
-                typingSpeedScore: 0.70,
-                pastePatternScore: 0.05,
-                externalToolScore: 0.05,
-                contentPatternScore: 0.03,
-                timingAnomalyScore: 0.02
-            },
-            thresholds: {
-                bulkInsertionSize: 100,
-                fastTypingSpeed: 300,
-                pasteTimeThreshold: 100,
-                longPauseThreshold: 5000,
-                rapidSequenceThreshold: 100
-            },
-            classification: {
-                humanThreshold: 0.3,
-                aiAssistedThreshold: 0.7,
-                aiGeneratedThreshold: 0.9
-            },
-            bucketConfig: {
-                intervalMinutes: 15,
-                aggregationMethod: 'average',
-                minEventsPerBucket: 1
-            }
-        };
+        const defaultConfig = getDefaultConfig();
         setAiDetectionConfig(defaultConfig);
         updateConfig(defaultConfig);
     };
 
+    const handleSaveConfig = () => {
+        const name = configName.trim();
+        if (!name) return;
+
+        saveConfig(name);
+        setConfigName('');
+    };
+
+    const loadSavedConfig = (config: AIDetectionConfig) => {
+        setAiDetectionConfig(config);
+        updateConfig(config);
+    };
+
+    const applySharedConfig = (text: string, origin: string) => {
+        try {
+            loadSavedConfig(importSharedConfig(text, origin));
+            setShareStatus({ message: `Loaded config from ${origin}`, isError: false });
+            return true;
+        } catch (err) {
+            setShareStatus({ message: err instanceof Error ? err.message : 'Unknown error', isError: true });
+            return false;
+        }
+    };
+
+    const exportConfigFile = () => {
+        const blob = new Blob([JSON.stringify(safeConfig, null, 4) + '\n'], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = CONFIG_EXPORT_FILE_NAME;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleConfigFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (file) {
+            applySharedConfig(await file.text(), file.name);
+        }
+
+        if (configFileInputRef.current) {
+            configFileInputRef.current.value = '';
+        }
+    };
+
+    const copyShareString = async () => {
+        try {
+            await navigator.clipboard.writeText(encodeConfigShareString(safeConfig));
+            setShareStatus({ message: 'Share string copied to the clipboard', isError: false });
+        } catch (err) {
+            setShareStatus({ message: `Could not copy: ${err instanceof Error ? err.message : 'Unknown error'}`, isError: true });
+        }
+    };
+
+    const applyShareInput = () => {
+        if (applySharedConfig(shareInput, 'the pasted text')) {
+            setShareInput('');
+        }
+    };
+
+    // Stops a search still running in the worker when the panel goes away
+    useEffect(() => () => optimizationTaskRef.current?.cancel(), []);
+
+    const suggestConfig = async () => {
+        if (!groundTruth) return;
+
+        optimizationTaskRef.current?.cancel();
+        const task = getAnalysisClient().optimize(events, groundTruth, {
+            baseConfig: currentConfig,
+            metric: optimizationMetric,
+            method: optimizationMethod
+        }, {
+            onProgress: setOptimizationProgress
+        });
+        optimizationTaskRef.current = task;
+
+        setIsOptimizing(true);
+        setOptimizationProgress(null);
+        setOptimizationError(null);
+        try {
+            const result = await task.promise;
+            if (result) {
+                setSuggestion(result);
+            }
+        } catch (err) {
+            setOptimizationError(err instanceof Error ? err.message : 'Unknown error');
+        } finally {
+            // A newer search owns the busy state until it finishes itself
+            if (optimizationTaskRef.current === task) {
+                optimizationTaskRef.current = null;
+                setIsOptimizing(false);
+                setOptimizationProgress(null);
+            }
+        }
+    };
+
+    const applySuggestion = () => {
+        if (!suggestion) return;
+
+        setAiDetectionConfig(suggestion.config);
+        updateConfig(suggestion.config);
+        setSuggestion(null);
+    };
+
     return (
         <div className="w-full">
             <div className="flex justify-between items-center mb-6">
@@ -181,31 +328,18 @@ const ParameterTuning: React.FC<ParameterTuningProps> = ({ events, currentConfig
                         </p>
                     </div>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        {Object.entries(currentConfig.weights).map(([key, value]) => {
-                            const getFeatureDescription = (featureKey: string) => {
-                                const descriptions: Record<string, string> = {
-                                    bulkInsertionScore: "Detects large blocks of text inserted quickly, often indicating copy-paste or AI generation. Calculated based on content length and insertion speed.",
-                                    typingSpeedScore: "Measures unusually fast typing speeds that exceed human capabilities. Calculated from characters per minute during active typing periods.",
-                                    pastePatternScore: "Identifies patterns consistent with paste operations, including timing gaps and content structure. Detects clipboard-based content insertion.",
-                                    externalToolScore: "Detects indicators of external tool usage such as formatting patterns, code structure, or metadata suggesting AI assistance.",
-                                    contentPatternScore: "Analyzes content for patterns typical of AI-generated text, including repetitive structures and unnatural language flows.",
-                                    timingAnomalyScore: "Identifies unusual timing patterns in coding behavior, such as inconsistent pauses or unnatural rhythm variations."
-                                };
-                                return descriptions[featureKey] || "Feature description not available.";
-                            };
-
-                            const displayName = key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase()).replace('Score', '');
-                            const description = getFeatureDescription(key);
+                        {heuristics.map(heuristic => {
+                            const value = getWeight(heuristic.id);
 
                             return (
-                                <div key={key} className="space-y-2">
+                                <div key={heuristic.id} className="space-y-2">
                                     <div className="flex justify-between items-start">
                                         <div className="flex-1">
                                             <label className="text-sm font-medium text-gray-700">
-                                                {displayName}
+                                                {heuristic.label}
                                             </label>
                                             <div className="text-xs text-gray-500 mt-1 leading-tight">
-                                                {description}
+                                                {heuristic.description}
                                             </div>
                                         </div>
                                         <span className="text-sm text-gray-500 ml-2">{value.toFixed(2)}</span>
@@ -216,7 +350,7 @@ const ParameterTuning: React.FC<ParameterTuningProps> = ({ events, currentConfig
                                         max="1"
                                         step="0.05"
                                         value={value}
-                                        onChange={(e) => handleWeightChange(key as keyof AIDetectionConfig['weights'], parseFloat(e.target.value))}
+                                        onChange={(e) => handleWeightChange(heuristic.id, parseFloat(e.target.value))}
                                         className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
                                     />
                                 </div>
@@ -224,8 +358,8 @@ const ParameterTuning: React.FC<ParameterTuningProps> = ({ events, currentConfig
                         })}
                     </div>
                     <div className="mt-2 text-xs text-gray-500">
-                        Total weight: {Object.values(currentConfig.weights).reduce((sum, w) => sum + w, 0).toFixed(2)}
-                        {Object.values(currentConfig.weights).reduce((sum, w) => sum + w, 0) !== 1 && (
+                        Total weight: {heuristics.reduce((sum, h) => sum + getWeight(h.id), 0).toFixed(2)}
+                        {Math.abs(heuristics.reduce((sum, h) => sum + getWeight(h.id), 0) - 1) > 0.001 && (
                             <span className="text-orange-600 ml-2">⚠️ Weights should sum to 1.0</span>
                         )}
                     </div>
@@ -241,69 +375,29 @@ const ParameterTuning: React.FC<ParameterTuningProps> = ({ events, currentConfig
                         </p>
                     </div>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        <div className="space-y-2">
-                            <div className="flex justify-between">
-                                <label className="text-sm font-medium text-gray-700">Bulk Insertion Size</label>
-                                <span className="text-sm text-gray-500">{currentConfig.thresholds.bulkInsertionSize} chars</span>
-                            </div>
-                            <input
-                                type="range"
-                                min="10"
-                                max="500"
-                                step="10"
-                                value={currentConfig.thresholds.bulkInsertionSize}
-                                onChange={(e) => handleThresholdChange('bulkInsertionSize', parseInt(e.target.value))}
-                                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
-                            />
-                        </div>
+                        {thresholds.map(threshold => {
+                            const value = getThresholdValue(threshold);
 
-                        <div className="space-y-2">
-                            <div className="flex justify-between">
-                                <label className="text-sm font-medium text-gray-700">Fast Typing Speed</label>
-                                <span className="text-sm text-gray-500">{currentConfig.thresholds.fastTypingSpeed} CPM</span>
-                            </div>
-                            <input
-                                type="range"
-                                min="100"
-                                max="1000"
-                                step="50"
-                                value={currentConfig.thresholds.fastTypingSpeed}
-                                onChange={(e) => handleThresholdChange('fastTypingSpeed', parseInt(e.target.value))}
-                                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
-                            />
-                        </div>
-
-                        <div className="space-y-2">
-                            <div className="flex justify-between">
-                                <label className="text-sm font-medium text-gray-700">Paste Time Threshold</label>
-                                <span className="text-sm text-gray-500">{currentConfig.thresholds.pasteTimeThreshold} ms</span>
-                            </div>
-                            <input
-                                type="range"
-                                min="10"
-                                max="1000"
-                                step="10"
-                                value={currentConfig.thresholds.pasteTimeThreshold}
-                                onChange={(e) => handleThresholdChange('pasteTimeThreshold', parseInt(e.target.value))}
-                                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
-                            />
-                        </div>
-
-                        <div className="space-y-2">
-                            <div className="flex justify-between">
-                                <label className="text-sm font-medium text-gray-700">Long Pause Threshold</label>
-                                <span className="text-sm text-gray-500">{(currentConfig.thresholds.longPauseThreshold / 1000).toFixed(1)} s</span>
-                            </div>
-                            <input
-                                type="range"
-                                min="1000"
-                                max="30000"
-                                step="1000"
-                                value={currentConfig.thresholds.longPauseThreshold}
-                                onChange={(e) => handleThresholdChange('longPauseThreshold', parseInt(e.target.value))}
-                                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
-                            />
-                        </div>
+                            return (
+                                <div key={threshold.key} className="space-y-2">
+                                    <div className="flex justify-between">
+                                        <label className="text-sm font-medium text-gray-700" title={threshold.description}>
+                                            {threshold.label}
+                                        </label>
+                                        <span className="text-sm text-gray-500">{formatThresholdValue(threshold, value)}</span>
+                                    </div>
+                                    <input
+                                        type="range"
+                                        min={threshold.min}
+                                        max={threshold.max}
+                                        step={threshold.step}
+                                        value={value}
+                                        onChange={(e) => handleThresholdChange(threshold.key, parseFloat(e.target.value))}
+                                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                                    />
+                                </div>
+                            );
+                        })}
                     </div>
                 </div>
 
@@ -368,6 +462,26 @@ const ParameterTuning: React.FC<ParameterTuningProps> = ({ events, currentConfig
                     </div>
                 </div>
 
+                {/* Attribution Mode */}
+                <div>
+                    <h4 className="text-md font-medium text-gray-800 mb-3">Attribution Mode</h4>
+                    <div className="space-y-2">
+                        <select
+                            value={safeConfig.attribution?.mode ?? 'events'}
+                            onChange={(e) => handleAttributionModeChange(e.target.value as AttributionMode)}
+                            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                            <option value="events">Events (heuristic verdict)</option>
+                            <option value="inserted-characters">Inserted characters</option>
+                            <option value="surviving-characters">Surviving characters</option>
+                        </select>
+                        <div className="text-xs text-gray-500">
+                            What the AI probability measures. The character modes report the share of the code written by
+                            edits scored as AI, so one large paste outweighs many single keystrokes
+                        </div>
+                    </div>
+                </div>
+
                 {/* Bucket Configuration */}
                 <div>
                     <h4 className="text-md font-medium text-gray-800 mb-3">Timeline Bucket Configuration</h4>
@@ -429,15 +543,307 @@ const ParameterTuning: React.FC<ParameterTuningProps> = ({ events, currentConfig
                             >
                                 <option value="average">Average</option>
                                 <option value="max">Maximum</option>
-                                <option value="weighted">Weighted</option>
+                                <option value="weighted">Weighted (by characters changed)</option>
+                                <option value="median">Median</option>
+                                <option value="percentile">Percentile</option>
                             </select>
                             <div className="text-xs text-gray-500">
-                                How to combine multiple AI scores within a bucket
+                                How to combine the per-file AI scores within a bucket, and the buckets in the overall summary
+                            </div>
+                        </div>
+
+                        {safeConfig.bucketConfig.aggregationMethod === 'percentile' && (
+                            <div className="space-y-2">
+                                <div className="flex justify-between">
+                                    <label className="text-sm font-medium text-gray-700">Percentile</label>
+                                    <span className="text-sm text-gray-500">
+                                        p{safeConfig.bucketConfig.percentile ?? DEFAULT_BUCKET_PERCENTILE}
+                                    </span>
+                                </div>
+                                <input
+                                    type="range"
+                                    min="0"
+                                    max="100"
+                                    step="5"
+                                    value={safeConfig.bucketConfig.percentile ?? DEFAULT_BUCKET_PERCENTILE}
+                                    onChange={(e) => handleBucketConfigChange('percentile', parseInt(e.target.value))}
+                                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                                />
+                                <div className="text-xs text-gray-500">
+                                    p50 is the median, p100 the maximum
+                                </div>
+                            </div>
+                        )}
+
+                        <div className="space-y-2">
+                            <div className="flex justify-between">
+                                <label className="text-sm font-medium text-gray-700">Bucket Alignment</label>
+                                <span className="text-sm text-gray-500">{safeConfig.bucketConfig.alignment ?? 'first-event'}</span>
+                            </div>
+                            <select
+                                value={safeConfig.bucketConfig.alignment ?? 'first-event'}
+                                onChange={(e) => handleBucketConfigChange('alignment', e.target.value)}
+                                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                                <option value="first-event">From first event</option>
+                                <option value="calendar">Calendar (:00, :15, ...)</option>
+                            </select>
+                            <div className="text-xs text-gray-500">
+                                Calendar alignment starts buckets on the clock, e.g. 15-minute buckets at :00, :15, :30 and :45
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            <div className="flex justify-between">
+                                <label className="text-sm font-medium text-gray-700">Window Step</label>
+                                <span className="text-sm text-gray-500">
+                                    {safeConfig.bucketConfig.windowStepMinutes ?? safeConfig.bucketConfig.intervalMinutes} min
+                                </span>
+                            </div>
+                            <input
+                                type="range"
+                                min="1"
+                                max={safeConfig.bucketConfig.intervalMinutes}
+                                step="1"
+                                value={Math.min(
+                                    safeConfig.bucketConfig.windowStepMinutes ?? safeConfig.bucketConfig.intervalMinutes,
+                                    safeConfig.bucketConfig.intervalMinutes
+                                )}
+                                onChange={(e) => handleBucketConfigChange('windowStepMinutes', parseInt(e.target.value))}
+                                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                            />
+                            <div className="text-xs text-gray-500">
+                                A step below the interval gives overlapping (sliding) windows
                             </div>
                         </div>
                     </div>
                 </div>
 
+                {/* Saved Configurations */}
+                <div>
+                    <h4 className="text-md font-medium text-gray-800 mb-3">Saved Configurations</h4>
+                    <div className="flex gap-2 mb-3">
+                        <input
+                            type="text"
+                            value={configName}
+                            onChange={(e) => setConfigName(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleSaveConfig()}
+                            placeholder="Configuration name"
+                            className="flex-1 p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                        <button
+                            onClick={handleSaveConfig}
+                            disabled={!configName.trim()}
+                            className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white rounded-md transition-colors"
+                        >
+                            Save Current
+                        </button>
+                    </div>
+                    {savedConfigs.length > 0 ? (
+                        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                            {savedConfigs.map(saved => (
+                                <li key={saved.name} className="flex justify-between items-center px-3 py-2 text-sm">
+                                    <div>
+                                        <span className="font-medium text-gray-800">{saved.name}</span>
+                                        <span className="ml-2 text-xs text-gray-500">{new Date(saved.savedAt).toLocaleString()}</span>
+                                    </div>
+                                    <div className="space-x-2">
+                                        <button
+                                            onClick={() => loadSavedConfig(saved.config)}
+                                            className="px-2 py-1 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md transition-colors"
+                                        >
+                                            Load
+                                        </button>
+                                        <button
+                                            onClick={() => deleteSavedConfig(saved.name)}
+                                            className="px-2 py-1 text-xs bg-red-50 hover:bg-red-100 text-red-700 rounded-md transition-colors"
+                                        >
+                                            Delete
+                                        </button>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <p className="text-sm text-gray-500">Saved configurations are kept in this browser and survive reloads.</p>
+                    )}
+                </div>
+
+                {/* Share Configuration */}
+                <div>
+                    <h4 className="text-md font-medium text-gray-800 mb-3">Share Configuration</h4>
+                    <div className="mb-3 p-3 bg-gray-50 rounded-lg">
+                        <p className="text-sm text-gray-700">
+                            Export the current parameters as <code>{CONFIG_EXPORT_FILE_NAME}</code> and place it in
+                            <code> .vscode/ai-code-analyzer/</code> of a workspace, or run &quot;Import Detection Config&quot; in the
+                            extension with the share string, to make the extension use them.
+                        </p>
+                    </div>
+                    <div className="flex flex-wrap gap-2 mb-3">
+                        <button
+                            onClick={exportConfigFile}
+                            className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md transition-colors"
+                        >
+                            Export JSON
+                        </button>
+                        <input
+                            ref={configFileInputRef}
+                            type="file"
+                            accept=".json"
+                            onChange={handleConfigFileUpload}
+                            className="hidden"
+                        />
+                        <button
+                            onClick={() => configFileInputRef.current?.click()}
+                            className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md transition-colors"
+                        >
+                            Import JSON
+                        </button>
+                        <button
+                            onClick={copyShareString}
+                            className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md transition-colors"
+                        >
+                            Copy Share String
+                        </button>
+                    </div>
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            value={shareInput}
+                            onChange={(e) => setShareInput(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && applyShareInput()}
+                            placeholder="Paste a share string or config JSON"
+                            className="flex-1 p-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                        <button
+                            onClick={applyShareInput}
+                            disabled={!shareInput.trim()}
+                            className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white rounded-md transition-colors"
+                        >
+                            Load
+                        </button>
+                    </div>
+                    {shareStatus && (
+                        <p className={`mt-2 text-sm whitespace-pre-line ${shareStatus.isError ? 'text-red-700' : 'text-gray-500'}`}>
+                            {shareStatus.message}
+                        </p>
+                    )}
+                </div>
+
+                {/* Optimize from Labels */}
+                <div>
+                    <h4 className="text-md font-medium text-gray-800 mb-3">Optimize from Labels</h4>
+                    <div className="mb-3 p-3 bg-gray-50 rounded-lg">
+                        <p className="text-sm text-gray-700">
+                            Searches weights, detection thresholds and classification thresholds for the values that best
+                            separate the ground-truth labels loaded in <strong>Detector Evaluation</strong>, starting from the current settings.
+                        </p>
+                    </div>
+                    {groundTruth ? (
+                        <div className="space-y-4">
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                                <div className="space-y-2">
+                                    <label className="text-sm font-medium text-gray-700">Metric</label>
+                                    <select
+                                        value={optimizationMetric}
+                                        onChange={(e) => setOptimizationMetric(e.target.value as OptimizationMetric)}
+                                        className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                    >
+                                        {OPTIMIZATION_METRICS.map(([value, label]) => (
+                                            <option key={value} value={value}>{label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div className="space-y-2">
+                                    <label className="text-sm font-medium text-gray-700">Method</label>
+                                    <select
+                                        value={optimizationMethod}
+                                        onChange={(e) => setOptimizationMethod(e.target.value as OptimizationMethod)}
+                                        className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                    >
+                                        {OPTIMIZATION_METHODS.map(([value, label]) => (
+                                            <option key={value} value={value}>{label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <button
+                                    onClick={suggestConfig}
+                                    disabled={isOptimizing}
+                                    className="px-3 py-2 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white rounded-md transition-colors"
+                                >
+                                    {isOptimizing
+                                        ? `Optimizing...${optimizationProgress?.total ? ` ${Math.round(100 * optimizationProgress.completed / optimizationProgress.total)}%` : ''}`
+                                        : 'Suggest Config'}
+                                </button>
+                            </div>
+
+                            {optimizationError && (
+                                <p className="text-sm text-red-700">Optimization failed: {optimizationError}</p>
+                            )}
+
+                            {suggestion && (
+                                <div className="p-3 border border-gray-200 rounded-lg space-y-3">
+                                    <div className="flex justify-between items-center">
+                                        <p className="text-sm text-gray-700">
+                                            {suggestion.metric}: <strong>{suggestion.baselineScore.toFixed(3)}</strong> current,{' '}
+                                            <strong>{suggestion.score.toFixed(3)}</strong> suggested
+                                            <span className="text-gray-500"> ({suggestion.candidatesEvaluated} candidates evaluated)</span>
+                                        </p>
+                                        {suggestion.improved && (
+                                            <button
+                                                onClick={applySuggestion}
+                                                className="px-3 py-1 text-sm bg-green-600 hover:bg-green-700 text-white rounded-md transition-colors"
+                                            >
+                                                Apply Suggested Config
+                                            </button>
+                                        )}
+                                    </div>
+                                    {suggestion.improved ? (
+                                        <table className="w-full text-sm">
+                                            <thead>
+                                                <tr className="text-gray-500 border-b">
+                                                    <th className="px-2 py-1 text-left font-medium">Setting</th>
+                                                    <th className="px-2 py-1 text-right font-medium">Current</th>
+                                                    <th className="px-2 py-1 text-right font-medium">Suggested</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {heuristics.map(heuristic => (
+                                                    <tr key={heuristic.id}>
+                                                        <td className="px-2 py-1 text-gray-700">{heuristic.label}</td>
+                                                        <td className="px-2 py-1 text-right">{getWeight(heuristic.id).toFixed(3)}</td>
+                                                        <td className="px-2 py-1 text-right">{(suggestion.config.weights[heuristic.id] ?? 0).toFixed(3)}</td>
+                                                    </tr>
+                                                ))}
+                                                {thresholds.map(threshold => (
+                                                    <tr key={threshold.key}>
+                                                        <td className="px-2 py-1 text-gray-700">{threshold.label}</td>
+                                                        <td className="px-2 py-1 text-right">{formatThresholdValue(threshold, getThresholdValue(threshold))}</td>
+                                                        <td className="px-2 py-1 text-right">
+                                                            {formatThresholdValue(threshold, suggestion.config.thresholds[threshold.key] ?? threshold.defaultValue)}
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                                {CLASSIFICATION_LABELS.map(([key, label]) => (
+                                                    <tr key={key}>
+                                                        <td className="px-2 py-1 text-gray-700">{label}</td>
+                                                        <td className="px-2 py-1 text-right">{currentConfig.classification[key].toFixed(3)}</td>
+                                                        <td className="px-2 py-1 text-right">{suggestion.config.classification[key].toFixed(3)}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    ) : (
+                                        <p className="text-sm text-gray-500">No configuration scored better than the current settings.</p>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    ) : (
+                        <p className="text-sm text-gray-500">Load a labels file in Detector Evaluation to enable suggestions.</p>
+                    )}
+                </div>
+
                 {/* Real-time Impact */}
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                     <h4 className="text-sm font-medium text-blue-800 mb-2">Real-time Impact</h4>
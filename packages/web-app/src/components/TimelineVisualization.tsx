@@ -1,8 +1,9 @@
 'use client';
 
 import React, { useMemo } from 'react';
+import { BucketAnalyzer } from '@ai-analyzer/core';
 import type { EnhancedChangeEvent, AIDetectionConfig, TimeBucket } from '@ai-analyzer/core';
-import { useAIDetection } from '@/lib/hooks/useAIDetection';
+import { useBucketAnalysis } from '@/lib/hooks/useBucketAnalysis';
 
 interface TimelineVisualizationProps {
     events: EnhancedChangeEvent[];
@@ -11,13 +12,9 @@ interface TimelineVisualizationProps {
 }
 
 const TimelineVisualization: React.FC<TimelineVisualizationProps> = ({ events, title, config }) => {
-    const { analyzeBuckets } = useAIDetection();
-
-    // Create buckets from events
-    const buckets = useMemo(() => {
-        if (events.length === 0) return [];
-        return analyzeBuckets(events, config.bucketConfig);
-    }, [events, config.bucketConfig, analyzeBuckets]);
+    // Create buckets from events in the analysis worker
+    const { buckets } = useBucketAnalysis(events, config.bucketConfig);
+    const summary = useMemo(() => BucketAnalyzer.summarizeBuckets(buckets, config.bucketConfig), [buckets, config.bucketConfig]);
     if (events.length === 0 || buckets.length === 0) {
         return (
             <div className="w-full h-64 flex items-center justify-center text-gray-500">
@@ -186,12 +183,9 @@ const TimelineVisualization: React.FC<TimelineVisualizationProps> = ({ events, t
                 </div>
                 <div className="text-center">
                     <div className="font-medium text-gray-900">
-                        {activeBuckets.length > 0 ?
-                            `${(activeBuckets.reduce((sum, b) => sum + (b.aiProbability || 0), 0) / activeBuckets.length * 100).toFixed(1)}%` :
-                            '0%'
-                        }
+                        {`${(summary.aggregatedAIProbability * 100).toFixed(1)}%`}
                     </div>
-                    <div>Avg AI Probability</div>
+                    <div>AI Probability ({summary.aggregationMethod})</div>
                 </div>
             </div>
         </div>
@@ -0,0 +1,47 @@
+import { useCallback } from 'react';
+import { useAppStore } from '@/lib/store';
+import { getAnalysisClient, type AnalysisTask } from '@/lib/workers/analysisClient';
+import type { AIDetectionConfig, AIDetectionResult, EnhancedChangeEvent } from '@ai-analyzer/core';
+
+// The dataset-wide analysis in flight; a newer one cancels it
+let currentTask: AnalysisTask<AIDetectionResult> | null = null;
+
+export function useAIDetection() {
+    const setAiDetectionConfig = useAppStore(state => state.setAiDetectionConfig);
+    const setCurrentAnalysis = useAppStore(state => state.setCurrentAnalysis);
+    const setIsAnalyzing = useAppStore(state => state.setIsAnalyzing);
+    const setError = useAppStore(state => state.setError);
+
+    // Analyzes the whole dataset in the analysis worker and stores the result
+    const analyzeEvents = useCallback(async (events: EnhancedChangeEvent[], config?: AIDetectionConfig) => {
+        currentTask?.cancel();
+        const task = getAnalysisClient().analyze(events, config ?? useAppStore.getState().aiDetectionConfig);
+        currentTask = task;
+        setIsAnalyzing(true);
+
+        try {
+            const result = await task.promise;
+            if (result) {
+                setCurrentAnalysis(result);
+            }
+        } catch (err) {
+            setError(`Analysis failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        } finally {
+            if (currentTask === task) {
+                currentTask = null;
+                setIsAnalyzing(false);
+            }
+        }
+    }, [setCurrentAnalysis, setIsAnalyzing, setError]);
+
+    // Stores the config and re-analyzes the loaded dataset with it
+    const updateConfig = useCallback((config: AIDetectionConfig) => {
+        setAiDetectionConfig(config);
+        const dataset = useAppStore.getState().currentDataset;
+        if (dataset) {
+            void analyzeEvents(dataset.events, config);
+        }
+    }, [setAiDetectionConfig, analyzeEvents]);
+
+    return { analyzeEvents, updateConfig };
+}
@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import { useAppStore } from '@/lib/store';
+import { getAnalysisClient } from '@/lib/workers/analysisClient';
+import type { AnalysisProgress } from '@/lib/workers/analysisProtocol';
+import type { BucketConfig, EnhancedChangeEvent, TimeBucket } from '@ai-analyzer/core';
+
+export interface BucketAnalysisState {
+    buckets: TimeBucket[];
+    progress: AnalysisProgress | null;  // null once the latest run has finished
+    error: string | null;
+}
+
+/**
+ * Buckets and scores `events` in the analysis worker with the current detection config.
+ *
+ * A run is cancelled as soon as its inputs change. The previous buckets stay on screen
+ * until the new run delivers its first batch, which then replaces them and grows as
+ * further batches arrive.
+ */
+export function useBucketAnalysis(events: EnhancedChangeEvent[], bucketConfig: BucketConfig): BucketAnalysisState {
+    const config = useAppStore(state => state.aiDetectionConfig);
+    const [state, setState] = useState<BucketAnalysisState>({ buckets: [], progress: null, error: null });
+
+    // Callers often rebuild the bucket config each render, so compare by value
+    const bucketConfigKey = JSON.stringify(bucketConfig);
+
+    useEffect(() => {
+        if (events.length === 0) {
+            setState({ buckets: [], progress: null, error: null });
+            return;
+        }
+
+        let received: TimeBucket[] | null = null;
+        const task = getAnalysisClient().analyzeBuckets(events, JSON.parse(bucketConfigKey) as BucketConfig, config, {
+            onProgress: progress => setState(previous => ({ ...previous, progress })),
+            onPartialBuckets: batch => {
+                received = received ? received.concat(batch) : batch;
+                const buckets = received;
+                setState(previous => ({ ...previous, buckets }));
+            }
+        });
+
+        setState(previous => ({ ...previous, progress: { completed: 0, total: 0 }, error: null }));
+        task.promise
+            .then(buckets => {
+                if (buckets) {
+                    setState({ buckets, progress: null, error: null });
+                }
+            })
+            .catch(err => setState(previous => ({
+                ...previous,
+                progress: null,
+                error: err instanceof Error ? err.message : 'Unknown error'
+            })));
+
+        return () => task.cancel();
+    }, [events, bucketConfigKey, config]);
+
+    return state;
+}
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { getAnalysisClient } from '@/lib/workers/analysisClient';
+import type { AIDetectionConfig, DetectorEvaluation, EnhancedChangeEvent, GroundTruthDataset } from '@ai-analyzer/core';
+
+export interface DetectorEvaluationState {
+    evaluation: DetectorEvaluation | null;
+    isEvaluating: boolean;
+    error: string | null;
+}
+
+/**
+ * Evaluates the detector with `config` against `labels` in the analysis worker.
+ *
+ * A run is cancelled as soon as its inputs change, e.g. on every slider move; the
+ * previous evaluation stays on screen until the new one completes.
+ */
+export function useDetectorEvaluation(
+    events: EnhancedChangeEvent[],
+    labels: GroundTruthDataset | null,
+    config: AIDetectionConfig
+): DetectorEvaluationState {
+    const [state, setState] = useState<DetectorEvaluationState>({ evaluation: null, isEvaluating: false, error: null });
+
+    useEffect(() => {
+        if (!labels) {
+            setState({ evaluation: null, isEvaluating: false, error: null });
+            return;
+        }
+
+        const task = getAnalysisClient().evaluate(events, labels, config);
+        setState(previous => ({ ...previous, isEvaluating: true, error: null }));
+        task.promise
+            .then(evaluation => {
+                if (evaluation) {
+                    setState({ evaluation, isEvaluating: false, error: null });
+                }
+            })
+            .catch(err => setState(previous => ({
+                ...previous,
+                isEvaluating: false,
+                error: err instanceof Error ? err.message : 'Unknown error'
+            })));
+
+        return () => task.cancel();
+    }, [events, labels, config]);
+
+    return state;
+}
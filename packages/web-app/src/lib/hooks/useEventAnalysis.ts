@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { useAppStore } from '@/lib/store';
+import { getAnalysisClient } from '@/lib/workers/analysisClient';
+import type { AIDetectionResult, EnhancedChangeEvent } from '@ai-analyzer/core';
+
+/**
+ * Analyzes a subset of the dataset (e.g. one file within a bucket) in the analysis
+ * worker with the current detection config. Returns null while running and when
+ * `events` is null.
+ */
+export function useEventAnalysis(dataset: EnhancedChangeEvent[], events: EnhancedChangeEvent[] | null): AIDetectionResult | null {
+    const config = useAppStore(state => state.aiDetectionConfig);
+    const [result, setResult] = useState<AIDetectionResult | null>(null);
+
+    useEffect(() => {
+        setResult(null);
+        if (!events || events.length === 0) return;
+
+        const task = getAnalysisClient().analyze(dataset, config, events);
+        task.promise
+            .then(setResult)
+            .catch(() => setResult(null));
+
+        return () => task.cancel();
+    }, [dataset, events, config]);
+
+    return result;
+}
@@ -0,0 +1,99 @@
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { DEFAULT_AI_DETECTION_CONFIG } from '@ai-analyzer/core';
+import type { AIDetectionConfig, AIDetectionResult, EnhancedChangeEvent } from '@ai-analyzer/core';
+
+export interface Dataset {
+    name: string;
+    events: EnhancedChangeEvent[];
+    loadedAt: number;
+}
+
+export interface SavedConfig {
+    name: string;
+    config: AIDetectionConfig;
+    savedAt: number;
+}
+
+interface AppState {
+    currentDataset: Dataset | null;
+    currentAnalysis: AIDetectionResult | null;
+    aiDetectionConfig: AIDetectionConfig;
+    isLoading: boolean;
+    isAnalyzing: boolean;
+    error: string | null;
+
+    // Persisted preferences
+    savedConfigs: SavedConfig[];
+    lastDatasetName: string | null;
+
+    loadDataset: (events: EnhancedChangeEvent[], name: string) => void;
+    clearDataset: () => void;
+    setCurrentAnalysis: (analysis: AIDetectionResult | null) => void;
+    setAiDetectionConfig: (config: AIDetectionConfig) => void;
+    setIsLoading: (isLoading: boolean) => void;
+    setIsAnalyzing: (isAnalyzing: boolean) => void;
+    setError: (error: string | null) => void;
+    clearError: () => void;
+    saveConfig: (name: string) => void;
+    deleteSavedConfig: (name: string) => void;
+}
+
+export const useAppStore = create<AppState>()(
+    persist(
+        (set, get) => ({
+            currentDataset: null,
+            currentAnalysis: null,
+            aiDetectionConfig: DEFAULT_AI_DETECTION_CONFIG,
+            isLoading: false,
+            isAnalyzing: false,
+            error: null,
+            savedConfigs: [],
+            lastDatasetName: null,
+
+            loadDataset: (events, name) => set({
+                currentDataset: { name, events, loadedAt: Date.now() },
+                currentAnalysis: null,
+                lastDatasetName: name,
+                error: null
+            }),
+
+            clearDataset: () => set({ currentDataset: null, currentAnalysis: null }),
+
+            setCurrentAnalysis: currentAnalysis => set({ currentAnalysis }),
+
+            setAiDetectionConfig: aiDetectionConfig => set({ aiDetectionConfig }),
+
+            setIsLoading: isLoading => set({ isLoading }),
+
+            setIsAnalyzing: isAnalyzing => set({ isAnalyzing }),
+
+            setError: error => set({ error }),
+
+            clearError: () => set({ error: null }),
+
+            // Saving under an existing name replaces that entry
+            saveConfig: name => set({
+                savedConfigs: [
+                    ...get().savedConfigs.filter(saved => saved.name !== name),
+                    { name, config: get().aiDetectionConfig, savedAt: Date.now() }
+                ]
+            }),
+
+            deleteSavedConfig: name => set({
+                savedConfigs: get().savedConfigs.filter(saved => saved.name !== name)
+            })
+        }),
+        {
+            name: 'ai-analyzer-preferences',
+            storage: createJSONStorage(() => localStorage),
+            // Rehydrated after mount (see page.tsx) so server and first client render match
+            skipHydration: true,
+            // Datasets can be tens of megabytes, so only preferences survive a reload
+            partialize: state => ({
+                savedConfigs: state.savedConfigs,
+                lastDatasetName: state.lastDatasetName
+            })
+        }
+    )
+);
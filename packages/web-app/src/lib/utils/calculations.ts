@@ -0,0 +1,48 @@
+import { AIDetectionEngine, BucketAnalyzer, DEFAULT_AI_DETECTION_CONFIG } from '@ai-analyzer/core';
+import type {
+    AIDetectionConfig,
+    AIDetectionResult,
+    BucketConfig,
+    EnhancedChangeEvent,
+    HeuristicScores,
+    TimeBucket
+} from '@ai-analyzer/core';
+
+/**
+ * Events in timestamp order, so later bucketing runs need not sort them again
+ */
+export function sortByTimestamp(events: EnhancedChangeEvent[]): EnhancedChangeEvent[] {
+    return [...events].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Runs the detection engine over a whole dataset, returning every event's score as well
+ */
+export function analyzeEvents(
+    events: EnhancedChangeEvent[],
+    config: AIDetectionConfig = DEFAULT_AI_DETECTION_CONFIG
+): AIDetectionResult {
+    return new AIDetectionEngine(config).analyzeDetailed(events, { scoreEvents: true });
+}
+
+/**
+ * Per-heuristic scores for a dataset, as computed by the detection engine
+ */
+export function calculateHeuristicScores(
+    events: EnhancedChangeEvent[],
+    config: AIDetectionConfig = DEFAULT_AI_DETECTION_CONFIG
+): HeuristicScores {
+    return analyzeEvents(events, config).heuristicScores;
+}
+
+/**
+ * Splits events into time buckets and scores each bucket with the detection engine
+ */
+export function analyzeBuckets(
+    events: EnhancedChangeEvent[],
+    bucketConfig: BucketConfig,
+    config: AIDetectionConfig = DEFAULT_AI_DETECTION_CONFIG
+): TimeBucket[] {
+    if (events.length === 0) return [];
+    return BucketAnalyzer.createAndAnalyzeBuckets(events, new AIDetectionEngine(config), bucketConfig);
+}
@@ -0,0 +1,26 @@
+import { formatConfigIssues, parseSharedConfig, resolveConfig } from '@ai-analyzer/core';
+import type { AIDetectionConfig } from '@ai-analyzer/core';
+
+/**
+ * Name of exported configs; placed in `.vscode/ai-code-analyzer/` the extension picks them up
+ */
+export const CONFIG_EXPORT_FILE_NAME = 'config.json';
+
+/**
+ * Reads a share string or config JSON into a complete config, filling in the defaults.
+ * Throws with every problem listed when the config is malformed or invalid.
+ */
+export function importSharedConfig(text: string, origin: string): AIDetectionConfig {
+    const resolved = resolveConfig([{ name: 'override', config: parseSharedConfig(text), origin }]);
+    if (!resolved.valid) {
+        throw new Error(`Invalid config:\n${formatConfigIssues(resolved.issues)}`);
+    }
+    return resolved.config;
+}
+
+/**
+ * Share string passed in the page fragment, e.g. by the extension's "Open Detection Config in Dashboard"
+ */
+export function readConfigFromLocation(location: Location): string | null {
+    return new URLSearchParams(location.hash.slice(1)).get('config');
+}
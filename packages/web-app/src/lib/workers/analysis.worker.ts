@@ -0,0 +1,7 @@
+import { createAnalysisHandler } from './analysisHandler';
+import type { AnalysisRequest } from './analysisProtocol';
+
+const ctx = self as unknown as Worker;
+const handle = createAnalysisHandler(response => ctx.postMessage(response));
+
+ctx.onmessage = (message: MessageEvent<AnalysisRequest>) => handle(message.data);
@@ -0,0 +1,203 @@
+import { sortByTimestamp } from '../utils/calculations';
+import { createAnalysisHandler } from './analysisHandler';
+import type { AnalysisProgress, AnalysisRequest, AnalysisResponse, PostedBucket, WorkerOptimizationOptions } from './analysisProtocol';
+import type {
+    AIDetectionConfig,
+    AIDetectionResult,
+    BucketConfig,
+    ConfigOptimizationResult,
+    DetectorEvaluation,
+    EnhancedChangeEvent,
+    GroundTruthDataset,
+    TimeBucket
+} from '@ai-analyzer/core';
+
+export interface AnalysisCallbacks {
+    onProgress?: (progress: AnalysisProgress) => void;
+    onPartialBuckets?: (buckets: TimeBucket[]) => void;
+}
+
+export interface AnalysisTask<T> {
+    id: number;
+    promise: Promise<T | null>;     // Resolves to null when cancelled
+    cancel: () => void;
+}
+
+// What a run resolves to, by request type
+type AnalysisOutcome = AIDetectionResult | TimeBucket[] | DetectorEvaluation | ConfigOptimizationResult;
+
+interface PendingRun {
+    callbacks: AnalysisCallbacks;
+    events: EnhancedChangeEvent[];  // The dataset in timestamp order, which posted buckets index into
+    buckets: TimeBucket[];
+    resolve: (value: AnalysisOutcome | null) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Dashboard side of the analysis worker protocol. Falls back to running the same
+ * handler on the main thread where Web Workers are unavailable.
+ */
+export class AnalysisClient {
+    private post: (request: AnalysisRequest) => void;
+    private pending = new Map<number, PendingRun>();
+    private nextId = 1;
+    private loadedEvents: EnhancedChangeEvent[] | null = null;
+    private sortedEvents: EnhancedChangeEvent[] = [];
+    private datasetId = 0;
+
+    constructor() {
+        if (typeof Worker !== 'undefined') {
+            const worker = new Worker(new URL('./analysis.worker.ts', import.meta.url));
+            worker.onmessage = (message: MessageEvent<AnalysisResponse>) => this.dispatch(message.data);
+            this.post = request => worker.postMessage(request);
+        } else {
+            const handle = createAnalysisHandler(response => this.dispatch(response));
+            this.post = request => handle(request);
+        }
+    }
+
+    /**
+     * Analyzes `events`, or the whole dataset when `events` is omitted
+     */
+    analyze(dataset: EnhancedChangeEvent[], config: AIDetectionConfig, events?: EnhancedChangeEvent[], callbacks: AnalysisCallbacks = {}): AnalysisTask<AIDetectionResult> {
+        const datasetId = this.ensureDataset(dataset);
+        return this.start<AIDetectionResult>(callbacks, [], id => ({ type: 'analyze', id, datasetId, events, config }));
+    }
+
+    /**
+     * Buckets and scores the dataset; `onPartialBuckets` receives them in time order as they complete
+     */
+    analyzeBuckets(dataset: EnhancedChangeEvent[], bucketConfig: BucketConfig, config: AIDetectionConfig, callbacks: AnalysisCallbacks = {}): AnalysisTask<TimeBucket[]> {
+        const datasetId = this.ensureDataset(dataset);
+        return this.start<TimeBucket[]>(callbacks, this.sortedEvents, id => ({ type: 'analyze-buckets', id, datasetId, bucketConfig, config }));
+    }
+
+    /**
+     * Scores the detector with `config` against ground-truth labels of the dataset
+     */
+    evaluate(dataset: EnhancedChangeEvent[], labels: GroundTruthDataset, config: AIDetectionConfig, callbacks: AnalysisCallbacks = {}): AnalysisTask<DetectorEvaluation> {
+        const datasetId = this.ensureDataset(dataset);
+        return this.start<DetectorEvaluation>(callbacks, [], id => ({ type: 'evaluate', id, datasetId, labels, config }));
+    }
+
+    /**
+     * Searches for the config that best separates ground-truth labels of the dataset
+     */
+    optimize(dataset: EnhancedChangeEvent[], labels: GroundTruthDataset, options: WorkerOptimizationOptions, callbacks: AnalysisCallbacks = {}): AnalysisTask<ConfigOptimizationResult> {
+        const datasetId = this.ensureDataset(dataset);
+        return this.start<ConfigOptimizationResult>(callbacks, [], id => ({ type: 'optimize', id, datasetId, labels, options }));
+    }
+
+    // Sends the events to the worker only when they differ from the last dataset sent
+    private ensureDataset(events: EnhancedChangeEvent[]): number {
+        if (events !== this.loadedEvents) {
+            this.loadedEvents = events;
+            // Sorted the same way as in the worker, so posted buckets index the same events
+            this.sortedEvents = sortByTimestamp(events);
+            this.datasetId++;
+            this.post({ type: 'load-dataset', datasetId: this.datasetId, events });
+        }
+        return this.datasetId;
+    }
+
+    private start<T extends AnalysisOutcome>(
+        callbacks: AnalysisCallbacks,
+        events: EnhancedChangeEvent[],
+        createRequest: (id: number) => AnalysisRequest
+    ): AnalysisTask<T> {
+        const id = this.nextId++;
+        const promise = new Promise<T | null>((resolve, reject) => {
+            this.pending.set(id, {
+                callbacks,
+                events,
+                buckets: [],
+                resolve: value => resolve(value as T | null),
+                reject
+            });
+        });
+        this.post(createRequest(id));
+
+        return {
+            id,
+            promise,
+            cancel: () => {
+                const run = this.pending.get(id);
+                if (!run) return;
+                // Settle right away; whatever the worker still sends for this id is ignored
+                this.pending.delete(id);
+                this.post({ type: 'cancel', id });
+                run.resolve(null);
+            }
+        };
+    }
+
+    private dispatch(response: AnalysisResponse): void {
+        const run = this.pending.get(response.id);
+        if (!run) return;
+
+        switch (response.type) {
+            case 'progress':
+                run.callbacks.onProgress?.({ completed: response.completed, total: response.total });
+                return;
+            case 'partial-buckets': {
+                const buckets = response.buckets.map(bucket => withEvents(bucket, run.events));
+                for (const bucket of buckets) {
+                    run.buckets.push(bucket);
+                }
+                run.callbacks.onPartialBuckets?.(buckets);
+                return;
+            }
+            case 'analysis-complete':
+                this.pending.delete(response.id);
+                run.resolve(response.result);
+                return;
+            case 'buckets-complete':
+                this.pending.delete(response.id);
+                run.resolve(run.buckets);
+                return;
+            case 'evaluation-complete':
+                this.pending.delete(response.id);
+                run.resolve(response.evaluation);
+                return;
+            case 'optimization-complete':
+                this.pending.delete(response.id);
+                run.resolve(response.result);
+                return;
+            case 'cancelled':
+                this.pending.delete(response.id);
+                run.resolve(null);
+                return;
+            case 'error':
+                this.pending.delete(response.id);
+                run.reject(new Error(response.message));
+                return;
+        }
+    }
+}
+
+// Puts the events the worker left out back into a posted bucket
+function withEvents(posted: PostedBucket, dataset: EnhancedChangeEvent[]): TimeBucket {
+    const { firstEvent, ...bucket } = posted;
+    const events = dataset.slice(firstEvent, firstEvent + bucket.eventCount);
+    return {
+        ...bucket,
+        events,
+        attribution: bucket.attribution && {
+            ...bucket.attribution,
+            timeline: { ...bucket.attribution.timeline, vsCodeEvents: events }
+        }
+    };
+}
+
+let sharedClient: AnalysisClient | null = null;
+
+/**
+ * The client shared by the whole dashboard, so the dataset lives in one worker
+ */
+export function getAnalysisClient(): AnalysisClient {
+    if (!sharedClient) {
+        sharedClient = new AnalysisClient();
+    }
+    return sharedClient;
+}
@@ -0,0 +1,196 @@
+import {
+    AIDetectionEngine,
+    BucketAnalyzer,
+    evaluateDetectorIncrementally,
+    optimizeDetectionConfigIncrementally
+} from '@ai-analyzer/core';
+import { sortByTimestamp } from '../utils/calculations';
+import type { AnalysisRequest, AnalysisResponse, PostedBucket } from './analysisProtocol';
+import type { AIDetectionResult, EnhancedChangeEvent, Incremental, TimeBucket } from '@ai-analyzer/core';
+
+// Events and buckets are analyzed in batches of roughly this many events before yielding
+const EVENTS_PER_BATCH = 2000;
+
+/**
+ * Handles analysis requests, posting responses through `post`. Used as the worker's
+ * message handler and, where workers are unavailable, in-process on the main thread.
+ *
+ * Long runs yield to the event loop between batches so that `cancel` messages are
+ * received while they are still running.
+ */
+export function createAnalysisHandler(post: (response: AnalysisResponse) => void): (request: AnalysisRequest) => void {
+    let dataset: { id: number; events: EnhancedChangeEvent[] } | null = null;
+    const running = new Set<number>();
+    const cancelled = new Set<number>();
+
+    const getDataset = (datasetId: number): EnhancedChangeEvent[] => {
+        if (dataset?.id !== datasetId) {
+            throw new Error(`Dataset ${datasetId} is not loaded`);
+        }
+        return dataset.events;
+    };
+
+    // True (and the run acknowledged as cancelled) once the request has been cancelled
+    const stopIfCancelled = (id: number): boolean => {
+        if (!cancelled.has(id)) return false;
+        post({ type: 'cancelled', id });
+        return true;
+    };
+
+    // Runs an incremental computation, yielding after every batch of analyzed events;
+    // null once the request has been cancelled
+    const runSteps = async <T>(id: number, steps: Incremental<T>): Promise<T | null> => {
+        let reported = 0;
+        for (;;) {
+            const step = steps.next();
+            if (step.done) return step.value;
+
+            const { completed, total } = step.value;
+            if (completed - reported >= EVENTS_PER_BATCH) {
+                reported = completed;
+                post({ type: 'progress', id, completed, total });
+                await yieldToEventLoop();
+                if (stopIfCancelled(id)) return null;
+            }
+        }
+    };
+
+    const run = async (id: number, task: () => Promise<void>) => {
+        running.add(id);
+        try {
+            // Lets cancellations already queued behind this request arrive first
+            await yieldToEventLoop();
+            if (stopIfCancelled(id)) return;
+            await task();
+        } catch (err) {
+            post({ type: 'error', id, message: err instanceof Error ? err.message : 'Unknown error' });
+        } finally {
+            running.delete(id);
+            cancelled.delete(id);
+        }
+    };
+
+    return request => {
+        switch (request.type) {
+            case 'load-dataset':
+                dataset = { id: request.datasetId, events: sortByTimestamp(request.events) };
+                return;
+
+            case 'cancel':
+                // Runs that already finished have nothing to cancel
+                if (running.has(request.id)) {
+                    cancelled.add(request.id);
+                }
+                return;
+
+            case 'analyze':
+                void run(request.id, async () => {
+                    const events = request.events ?? getDataset(request.datasetId);
+                    const stream = new AIDetectionEngine(request.config).createStream();
+                    post({ type: 'progress', id: request.id, completed: 0, total: events.length });
+
+                    let index = 0;
+                    while (index < events.length) {
+                        if (stopIfCancelled(request.id)) return;
+
+                        const end = Math.min(index + EVENTS_PER_BATCH, events.length);
+                        for (; index < end; index++) {
+                            stream.push(events[index]);
+                        }
+                        // Scores the batch's events now rather than all of them at the end
+                        stream.getCharacterAttribution();
+
+                        post({ type: 'progress', id: request.id, completed: index, total: events.length });
+                        await yieldToEventLoop();
+                    }
+
+                    if (stopIfCancelled(request.id)) return;
+                    const eventScores = stream.getEventScores();
+                    const result: AIDetectionResult = {
+                        ...stream.getResult(),
+                        characterAttribution: stream.getCharacterAttribution()
+                    };
+                    // Only a subset's scores are worth copying back; the dataset's would be one per event
+                    if (request.events) {
+                        result.eventScores = eventScores;
+                    }
+                    post({ type: 'analysis-complete', id: request.id, result });
+                });
+                return;
+
+            case 'evaluate':
+                void run(request.id, async () => {
+                    const steps = evaluateDetectorIncrementally(getDataset(request.datasetId), request.labels, { config: request.config });
+                    const evaluation = await runSteps(request.id, steps);
+                    if (evaluation) {
+                        post({ type: 'evaluation-complete', id: request.id, evaluation });
+                    }
+                });
+                return;
+
+            case 'optimize':
+                void run(request.id, async () => {
+                    const steps = optimizeDetectionConfigIncrementally(getDataset(request.datasetId), request.labels, request.options);
+                    const result = await runSteps(request.id, steps);
+                    if (result) {
+                        post({ type: 'optimization-complete', id: request.id, result });
+                    }
+                });
+                return;
+
+            case 'analyze-buckets':
+                void run(request.id, async () => {
+                    const events = getDataset(request.datasetId);
+                    const buckets = BucketAnalyzer.createBuckets(events, request.bucketConfig);
+                    const engine = new AIDetectionEngine(request.config);
+                    post({ type: 'progress', id: request.id, completed: 0, total: buckets.length });
+
+                    let index = 0;
+                    let firstEvent = 0;
+                    while (index < buckets.length) {
+                        if (stopIfCancelled(request.id)) return;
+
+                        const batch: PostedBucket[] = [];
+                        let batchEvents = 0;
+                        while (index < buckets.length && (batch.length === 0 || batchEvents < EVENTS_PER_BATCH)) {
+                            const bucket = buckets[index];
+                            // Bucket starts only move forward through the sorted dataset
+                            while (firstEvent < events.length && events[firstEvent].timestamp < bucket.startTime) firstEvent++;
+                            batch.push(toPostedBucket(BucketAnalyzer.analyzeBucket(bucket, engine, request.bucketConfig), firstEvent));
+                            batchEvents += bucket.eventCount;
+                            index++;
+                        }
+
+                        post({ type: 'partial-buckets', id: request.id, buckets: batch });
+                        post({ type: 'progress', id: request.id, completed: index, total: buckets.length });
+                        await yieldToEventLoop();
+                    }
+
+                    if (stopIfCancelled(request.id)) return;
+                    post({ type: 'buckets-complete', id: request.id, bucketCount: buckets.length });
+                });
+                return;
+        }
+    };
+}
+
+// Leaves out the bucket's events, so posting it does not copy them back to the dashboard
+function toPostedBucket(bucket: TimeBucket, firstEvent: number): PostedBucket {
+    return {
+        startTime: bucket.startTime,
+        endTime: bucket.endTime,
+        aiProbability: bucket.aiProbability,
+        heuristicScores: bucket.heuristicScores,
+        eventCount: bucket.eventCount,
+        isEmpty: bucket.isEmpty,
+        attribution: bucket.attribution && {
+            ...bucket.attribution,
+            timeline: { ...bucket.attribution.timeline, vsCodeEvents: [] }
+        },
+        firstEvent
+    };
+}
+
+function yieldToEventLoop(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 0));
+}
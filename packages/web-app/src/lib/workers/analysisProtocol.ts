@@ -0,0 +1,61 @@
+import type {
+    AIDetectionConfig,
+    AIDetectionResult,
+    BucketConfig,
+    ConfigOptimizationOptions,
+    ConfigOptimizationResult,
+    DetectorEvaluation,
+    EnhancedChangeEvent,
+    GroundTruthDataset,
+    TimeBucket
+} from '@ai-analyzer/core';
+
+/**
+ * Messages between the dashboard and the analysis worker.
+ *
+ * The dataset is sent once with `load-dataset` and referenced by id afterwards, so
+ * re-running an analysis after a slider change does not copy every event again.
+ * Each analysis request carries an id; every response for it echoes that id and a
+ * run ends with exactly one of `analysis-complete`, `buckets-complete`,
+ * `evaluation-complete`, `optimization-complete`, `cancelled` or `error`.
+ */
+export type AnalysisRequest =
+    | { type: 'load-dataset'; datasetId: number; events: EnhancedChangeEvent[] }
+    // Analyzes `events` when given, otherwise the loaded dataset. The result carries
+    // `eventScores` only for given events.
+    | { type: 'analyze'; id: number; datasetId: number; events?: EnhancedChangeEvent[]; config: AIDetectionConfig }
+    | { type: 'analyze-buckets'; id: number; datasetId: number; bucketConfig: BucketConfig; config: AIDetectionConfig }
+    // Scores the detector against ground-truth labels of the loaded dataset
+    | { type: 'evaluate'; id: number; datasetId: number; labels: GroundTruthDataset; config: AIDetectionConfig }
+    | { type: 'optimize'; id: number; datasetId: number; labels: GroundTruthDataset; options: WorkerOptimizationOptions }
+    | { type: 'cancel'; id: number };
+
+export type AnalysisResponse =
+    | { type: 'progress'; id: number; completed: number; total: number }
+    // Next analyzed buckets, in time order
+    | { type: 'partial-buckets'; id: number; buckets: PostedBucket[] }
+    | { type: 'analysis-complete'; id: number; result: AIDetectionResult }
+    | { type: 'buckets-complete'; id: number; bucketCount: number }
+    | { type: 'evaluation-complete'; id: number; evaluation: DetectorEvaluation }
+    | { type: 'optimization-complete'; id: number; result: ConfigOptimizationResult }
+    | { type: 'cancelled'; id: number }
+    | { type: 'error'; id: number; message: string };
+
+/**
+ * An analyzed bucket without its events, which the dashboard already holds: they are
+ * the `eventCount` events from `firstEvent` of the dataset in timestamp order. The
+ * timeline of its attribution is posted without them as well.
+ */
+export interface PostedBucket extends Omit<TimeBucket, 'events'> {
+    firstEvent: number;
+}
+
+/**
+ * Optimization options that can be posted; the worker uses the default heuristic registry
+ */
+export type WorkerOptimizationOptions = Omit<ConfigOptimizationOptions, 'registry'>;
+
+export interface AnalysisProgress {
+    completed: number;
+    total: number;
+}
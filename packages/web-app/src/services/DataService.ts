@@ -1,4 +1,9 @@
-import type { EnhancedChangeEvent, AIDetectionMetricsLog } from '@ai-analyzer/core';
+import {
+    defaultLogSchemaRegistry,
+    isCompressedLogFile,
+    type EnhancedChangeEvent,
+    type AIDetectionMetricsLog
+} from '@ai-analyzer/core';
 
 export interface ReviewQualityMetric {
     timestamp: number;
@@ -195,42 +200,41 @@ export class DataService {
         const events: EnhancedChangeEvent[] = [];
 
         for (const line of lines) {
-            try {
-                const parsed = JSON.parse(line);
-
-                // Check if this looks like a change event
-                if (parsed.timestamp && parsed.changeType && parsed.contentLength !== undefined) {
-                    events.push(parsed as EnhancedChangeEvent);
-                } else if (parsed.evidence && parsed.evidence.editTimeline) {
-                    // If it's a review quality metric, extract the timeline events
-                    console.log('Converting review quality metric to change events...');
-                    const timelineEvents = this.convertReviewMetricToChangeEvents(parsed);
-                    events.push(...timelineEvents);
-                } else {
-                    console.warn('Skipping line - not a change event or review metric:', line.substring(0, 100) + '...');
-                }
-            } catch (error) {
-                console.warn('Failed to parse line:', line.substring(0, 100) + '...', error);
+            if (line.trim()) {
+                events.push(...this.parseLogLine(line));
             }
         }
 
         return events;
     }
 
+    /**
+     * Parses a log file as it is read, decompressing gzip archives (`*.jsonl.gz`) on the way
+     */
     static async parseJSONLFileStreaming(file: File, onProgress?: (progress: number) => void): Promise<EnhancedChangeEvent[]> {
         const events: EnhancedChangeEvent[] = [];
-        const reader = file.stream().getReader();
-        const decoder = new TextDecoder();
-        let buffer = '';
         let bytesRead = 0;
         const totalBytes = file.size;
 
+        // Progress counts the bytes of the file itself, before any decompression
+        const fileStream = file.stream().pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+            transform(chunk, controller) {
+                bytesRead += chunk.length;
+                controller.enqueue(chunk);
+            }
+        }));
+        const reader = (isCompressedLogFile(file.name) ?
+            fileStream.pipeThrough(new DecompressionStream('gzip')) :
+            fileStream
+        ).getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
         try {
             while (true) {
                 const { done, value } = await reader.read();
                 if (done) break;
 
-                bytesRead += value.length;
                 buffer += decoder.decode(value, { stream: true });
 
                 // Report progress
@@ -244,20 +248,7 @@ export class DataService {
 
                 for (const line of lines) {
                     if (line.trim()) {
-                        try {
-                            const parsed = JSON.parse(line);
-
-                            // Check if this looks like a change event
-                            if (parsed.timestamp && parsed.changeType && parsed.contentLength !== undefined) {
-                                events.push(parsed as EnhancedChangeEvent);
-                            } else if (parsed.evidence && parsed.evidence.editTimeline) {
-                                // If it's a review quality metric, extract the timeline events
-                                const timelineEvents = this.convertReviewMetricToChangeEvents(parsed);
-                                events.push(...timelineEvents);
-                            }
-                        } catch (error) {
-                            console.warn('Failed to parse line:', line.substring(0, 100) + '...', error);
-                        }
+                        events.push(...this.parseLogLine(line));
                     }
                 }
 
@@ -267,17 +258,7 @@ export class DataService {
 
             // Process any remaining content in buffer
             if (buffer.trim()) {
-                try {
-                    const parsed = JSON.parse(buffer);
-                    if (parsed.timestamp && parsed.changeType && parsed.contentLength !== undefined) {
-                        events.push(parsed as EnhancedChangeEvent);
-                    } else if (parsed.evidence && parsed.evidence.editTimeline) {
-                        const timelineEvents = this.convertReviewMetricToChangeEvents(parsed);
-                        events.push(...timelineEvents);
-                    }
-                } catch (error) {
-                    console.warn('Failed to parse final line:', buffer.substring(0, 100) + '...', error);
-                }
+                events.push(...this.parseLogLine(buffer));
             }
 
         } finally {
@@ -287,6 +268,42 @@ export class DataService {
         return events;
     }
 
+    /**
+     * Parses one line of change-events.jsonl or review-quality-metrics.jsonl through the
+     * schema registry, upgrading lines written by older extension versions
+     */
+    private static parseLogLine(line: string): EnhancedChangeEvent[] {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(line);
+        } catch (error) {
+            console.warn('Failed to parse line:', line.substring(0, 100) + '...', error);
+            return [];
+        }
+
+        // Review quality metrics carry the edit timeline instead of raw change events
+        if (hasEditTimeline(parsed)) {
+            const metric = defaultLogSchemaRegistry.parse('ReviewQualityMetricsLog', parsed);
+            if (metric.ok) {
+                return this.convertReviewMetricToChangeEvents(metric.record);
+            }
+            console.warn('Skipping invalid review quality metric:', this.describeErrors(metric.errors));
+            return [];
+        }
+
+        const event = defaultLogSchemaRegistry.parse('ChangeEventLog', parsed);
+        if (event.ok) {
+            return [event.record];
+        }
+
+        console.warn('Skipping line - not a valid change event or review metric:', this.describeErrors(event.errors));
+        return [];
+    }
+
+    private static describeErrors(errors: Array<{ path: string; message: string }>): string {
+        return errors.map(error => `${error.path || '(record)'} ${error.message}`).join('; ');
+    }
+
     static convertReviewMetricToChangeEvents(metric: ReviewQualityMetric): EnhancedChangeEvent[] {
         return metric.evidence.editTimeline.map((edit, index) => ({
             timestamp: edit.timestamp,
@@ -350,3 +367,10 @@ export class DataService {
         return match ? match[1].length : 0;
     }
 }
+
+// Review quality metrics are told apart from change events by the edit timeline in their evidence
+function hasEditTimeline(value: unknown): value is { evidence: { editTimeline: unknown } } {
+    if (typeof value !== 'object' || value === null || !('evidence' in value)) return false;
+    const { evidence } = value;
+    return typeof evidence === 'object' && evidence !== null && 'editTimeline' in evidence && Boolean(evidence.editTimeline);
+}